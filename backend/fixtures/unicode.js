@@ -0,0 +1,10 @@
+// Example: Non-ASCII source
+// Columns count UTF-16 code units by default, as Monaco and LSP clients do
+
+const greeting = '¡Hola! 👋';
+var café = 'crème brûlée'; // var_usage after accented identifiers
+if (greeting == '你好') { // double_equals after a CJK string
+  console.log('🎉', café);
+}
+
+const emoji = '😀😀'; if (emoji == '😀') {}
@@ -0,0 +1,669 @@
+import { Parser } from '../parser';
+import { Language } from '../types';
+
+/**
+ * Control-flow graphs
+ *
+ * A lightweight, statement-level CFG for one function body (or the top level
+ * of a file). Each basic block holds the nodes evaluated in it, in order:
+ * simple statements, branch/loop conditions and loop bindings. Compound
+ * statements are decomposed into blocks; nested functions and classes are
+ * opaque nodes (they get their own graph).
+ *
+ * Conditional edges carry the condition node and the value it was assumed to
+ * have, so a dataflow analysis can narrow its state along each branch.
+ *
+ * Approximations:
+ * - Expressions are not split: short-circuit operators and ternaries inside
+ *   a node are left to the analysis
+ * - An exception can leave a `try` body from any of its blocks; `finally`
+ *   runs after the try/catch only (not on return/throw)
+ * - Python `match` cases and loop `else` clauses are treated as possible
+ *   paths without modelling the patterns
+ */
+
+export interface CfgEdge {
+  to: BasicBlock;
+  // Condition the edge depends on, and the truthiness it was taken with
+  condition?: Parser.SyntaxNode;
+  assume?: boolean;
+}
+
+export interface BasicBlock {
+  id: number;
+  nodes: Parser.SyntaxNode[];
+  successors: CfgEdge[];
+}
+
+export interface ControlFlowGraph {
+  // The function (or program/module) the graph was built for
+  root: Parser.SyntaxNode;
+  entry: BasicBlock;
+  exit: BasicBlock;
+  blocks: BasicBlock[];
+}
+
+/**
+ * A forward dataflow problem over a CFG
+ */
+export interface ForwardAnalysis<S> {
+  // State at the entry of the graph
+  initial: S;
+  // State after evaluating one node of a block
+  transfer(node: Parser.SyntaxNode, state: S): S;
+  // State along a conditional edge, or null if the edge cannot be taken
+  branch(condition: Parser.SyntaxNode, assume: boolean, state: S): S | null;
+  join(a: S, b: S): S;
+  equals(a: S, b: S): boolean;
+}
+
+// Break/continue destinations of an enclosing loop, switch or labeled statement
+interface JumpTarget {
+  label: string | null;
+  breakTo: BasicBlock;
+  continueTo: BasicBlock | null;
+}
+
+class CfgBuilder {
+  private blocks: BasicBlock[] = [];
+  private current: BasicBlock | null;
+  private targets: JumpTarget[] = [];
+  // Entry blocks of enclosing catch clauses
+  private handlers: BasicBlock[] = [];
+  // Label waiting to be claimed by the loop it is attached to
+  private pendingLabel: string | null = null;
+  readonly entry: BasicBlock;
+  readonly exit: BasicBlock;
+
+  constructor(
+    private code: string,
+    private language: Language
+  ) {
+    this.entry = this.newBlock();
+    this.exit = this.newBlock();
+    this.current = this.entry;
+  }
+
+  build(root: Parser.SyntaxNode, body: Parser.SyntaxNode | null): ControlFlowGraph {
+    if (body) {
+      if (body.type === 'statement_block' || body.type === 'block' || body === root) {
+        this.visitSequence(body.namedChildren);
+      } else {
+        // Expression body (arrow function or lambda)
+        this.add(body);
+      }
+    }
+    this.jump(this.exit);
+
+    return { root, entry: this.entry, exit: this.exit, blocks: this.blocks };
+  }
+
+  private newBlock(): BasicBlock {
+    const block: BasicBlock = { id: this.blocks.length, nodes: [], successors: [] };
+    this.blocks.push(block);
+    return block;
+  }
+
+  private connect(
+    from: BasicBlock | null,
+    to: BasicBlock,
+    condition?: Parser.SyntaxNode,
+    assume?: boolean
+  ): void {
+    from?.successors.push(condition ? { to, condition, assume } : { to });
+  }
+
+  // Add an evaluated node; code after return/throw starts an unreachable block
+  private add(node: Parser.SyntaxNode): void {
+    if (!this.current) {
+      this.current = this.newBlock();
+    }
+    this.current.nodes.push(node);
+  }
+
+  // End the current block with an unconditional jump
+  private jump(to: BasicBlock): void {
+    this.connect(this.current, to);
+    this.current = null;
+  }
+
+  // Start a new block reached from the current one
+  private startBlock(): BasicBlock {
+    const block = this.newBlock();
+    this.connect(this.current, block);
+    this.current = block;
+    return block;
+  }
+
+  private findTarget(label: Parser.SyntaxNode | null, kind: 'break' | 'continue'): BasicBlock {
+    const name = label ? this.code.slice(label.startIndex, label.endIndex) : null;
+    for (let i = this.targets.length - 1; i >= 0; i--) {
+      const target = this.targets[i];
+      if (name !== null && target.label !== name) continue;
+      if (kind === 'continue' && !target.continueTo) continue;
+      if (kind === 'break' && name === null && !target.continueTo && target.label !== null) {
+        // Unlabeled break skips labeled blocks
+        continue;
+      }
+      return kind === 'break' ? target.breakTo : target.continueTo!;
+    }
+    return this.exit;
+  }
+
+  private takeLabel(): string | null {
+    const label = this.pendingLabel;
+    this.pendingLabel = null;
+    return label;
+  }
+
+  private visitSequence(nodes: Parser.SyntaxNode[]): void {
+    for (const node of nodes) {
+      this.visit(node);
+    }
+  }
+
+  // Visit a statement, a block, or the body of a clause
+  private visitBody(node: Parser.SyntaxNode | null): void {
+    if (!node) return;
+    if (
+      node.type === 'statement_block' ||
+      node.type === 'block' ||
+      node.type === 'else_clause' ||
+      node.type === 'finally_clause'
+    ) {
+      const body = node.childForFieldName('body');
+      this.visitSequence(body && node.type !== 'statement_block' ? [body] : node.namedChildren);
+    } else {
+      this.visit(node);
+    }
+  }
+
+  // Branch on a condition; returns the end blocks of both branches
+  private branch(
+    condition: Parser.SyntaxNode,
+    whenTrue: () => void,
+    whenFalse: (() => void) | null
+  ): BasicBlock {
+    this.add(condition);
+    const from = this.current!;
+    const after = this.newBlock();
+
+    this.current = this.newBlock();
+    this.connect(from, this.current, condition, true);
+    whenTrue();
+    this.connect(this.current, after);
+
+    if (whenFalse) {
+      this.current = this.newBlock();
+      this.connect(from, this.current, condition, false);
+      whenFalse();
+      this.connect(this.current, after);
+    } else {
+      this.connect(from, after, condition, false);
+    }
+
+    this.current = after;
+    return after;
+  }
+
+  // Loop with the condition evaluated in `header` before each iteration
+  private loop(
+    condition: Parser.SyntaxNode | null,
+    body: Parser.SyntaxNode | null,
+    options: { binding?: Parser.SyntaxNode | null; update?: Parser.SyntaxNode | null } = {}
+  ): BasicBlock {
+    const label = this.takeLabel();
+    const header = this.startBlock();
+    const after = this.newBlock();
+    const update = options.update ? this.newBlock() : header;
+
+    if (condition) {
+      this.add(condition);
+    }
+    this.current = this.newBlock();
+    if (condition) {
+      this.connect(header, this.current, condition, true);
+      this.connect(header, after, condition, false);
+    } else {
+      this.connect(header, this.current);
+      // Iterating loops (for-in/of, Python for) may run zero times
+      if (options.binding) this.connect(header, after);
+    }
+
+    if (options.binding) {
+      this.add(options.binding);
+    }
+    this.targets.push({ label, breakTo: after, continueTo: update });
+    this.visitBody(body);
+    this.targets.pop();
+    this.connect(this.current, update);
+
+    if (options.update) {
+      this.current = update;
+      this.add(options.update);
+      this.connect(this.current, header);
+    }
+
+    this.current = after;
+    return after;
+  }
+
+  private visit(node: Parser.SyntaxNode): void {
+    if (this.language === 'python') {
+      this.visitPython(node);
+    } else {
+      this.visitJs(node);
+    }
+  }
+
+  // --- JavaScript / TypeScript ---
+
+  private visitJs(node: Parser.SyntaxNode): void {
+    switch (node.type) {
+      case 'statement_block':
+        this.visitSequence(node.namedChildren);
+        return;
+
+      case 'empty_statement':
+      case 'comment':
+        return;
+
+      case 'if_statement': {
+        const alternative = node.childForFieldName('alternative');
+        this.branch(
+          node.childForFieldName('condition')!,
+          () => this.visitBody(node.childForFieldName('consequence')),
+          alternative ? () => this.visitBody(alternative) : null
+        );
+        return;
+      }
+
+      case 'while_statement':
+        this.loop(node.childForFieldName('condition'), node.childForFieldName('body'));
+        return;
+
+      case 'do_statement': {
+        const label = this.takeLabel();
+        const body = this.startBlock();
+        const check = this.newBlock();
+        const after = this.newBlock();
+        this.targets.push({ label, breakTo: after, continueTo: check });
+        this.visitBody(node.childForFieldName('body'));
+        this.targets.pop();
+        this.connect(this.current, check);
+
+        const condition = node.childForFieldName('condition')!;
+        this.current = check;
+        this.add(condition);
+        this.connect(check, body, condition, true);
+        this.connect(check, after, condition, false);
+        this.current = after;
+        return;
+      }
+
+      case 'for_statement': {
+        const initializer = node.childForFieldName('initializer');
+        if (initializer && initializer.type !== 'empty_statement') {
+          this.add(initializer);
+        }
+        let condition = node.childForFieldName('condition');
+        if (condition?.type === 'empty_statement') {
+          condition = null;
+        } else if (condition?.type === 'expression_statement') {
+          condition = condition.namedChild(0);
+        }
+        this.loop(condition, node.childForFieldName('body'), {
+          update: node.childForFieldName('increment'),
+        });
+        return;
+      }
+
+      case 'for_in_statement': {
+        const right = node.childForFieldName('right');
+        if (right) this.add(right);
+        this.loop(null, node.childForFieldName('body'), {
+          binding: node.childForFieldName('left'),
+        });
+        return;
+      }
+
+      case 'labeled_statement': {
+        const label = node.childForFieldName('label');
+        const body = node.childForFieldName('body');
+        const name = label ? this.code.slice(label.startIndex, label.endIndex) : null;
+        if (body && /^(for|for_in|while|do)_statement$/.test(body.type)) {
+          this.pendingLabel = name;
+          this.visitJs(body);
+          return;
+        }
+        const after = this.newBlock();
+        this.targets.push({ label: name, breakTo: after, continueTo: null });
+        this.visitBody(body);
+        this.targets.pop();
+        this.connect(this.current, after);
+        this.current = after;
+        return;
+      }
+
+      case 'switch_statement': {
+        const value = node.childForFieldName('value');
+        if (value) this.add(value);
+        const from = this.current || this.startBlock();
+        const after = this.newBlock();
+        const cases = node.childForFieldName('body')?.namedChildren || [];
+        let fallthrough: BasicBlock | null = null;
+
+        this.targets.push({ label: this.takeLabel(), breakTo: after, continueTo: null });
+        for (const switchCase of cases) {
+          if (switchCase.type !== 'switch_case' && switchCase.type !== 'switch_default') continue;
+          this.current = this.newBlock();
+          this.connect(from, this.current);
+          this.connect(fallthrough, this.current);
+
+          const test = switchCase.childForFieldName('value');
+          if (test) this.add(test);
+          this.visitSequence(
+            switchCase.namedChildren.filter((child) => child.startIndex !== test?.startIndex)
+          );
+          fallthrough = this.current;
+        }
+        this.targets.pop();
+
+        this.connect(fallthrough, after);
+        if (!cases.some((switchCase) => switchCase.type === 'switch_default')) {
+          this.connect(from, after);
+        }
+        this.current = after;
+        return;
+      }
+
+      case 'try_statement': {
+        const handler = node.childForFieldName('handler');
+        const finalizer = node.childForFieldName('finalizer');
+        this.tryStatement(
+          node.childForFieldName('body'),
+          handler
+            ? [
+                {
+                  binding: handler.childForFieldName('parameter'),
+                  body: handler.childForFieldName('body'),
+                },
+              ]
+            : [],
+          null,
+          finalizer?.childForFieldName('body') || null
+        );
+        return;
+      }
+
+      case 'return_statement':
+        this.add(node);
+        this.jump(this.exit);
+        return;
+
+      case 'throw_statement':
+        this.add(node);
+        this.jump(this.handlers[this.handlers.length - 1] || this.exit);
+        return;
+
+      case 'break_statement':
+        this.jump(this.findTarget(node.childForFieldName('label'), 'break'));
+        return;
+
+      case 'continue_statement':
+        this.jump(this.findTarget(node.childForFieldName('label'), 'continue'));
+        return;
+
+      default:
+        this.add(node);
+    }
+  }
+
+  // try/catch/else/finally; a catch clause is reachable from every try block
+  private tryStatement(
+    body: Parser.SyntaxNode | null,
+    clauses: Array<{ binding: Parser.SyntaxNode | null; body: Parser.SyntaxNode | null }>,
+    elseBody: Parser.SyntaxNode | null,
+    finallyBody: Parser.SyntaxNode | null
+  ): void {
+    const after = this.newBlock();
+    const handler = clauses.length > 0 ? this.newBlock() : null;
+
+    // An empty first block carries the state from before the try body
+    const firstTryBlock = this.blocks.length;
+    this.startBlock();
+    this.startBlock();
+    if (handler) this.handlers.push(handler);
+    this.visitBody(body);
+    if (handler) this.handlers.pop();
+    const tryBlocks = this.blocks.slice(firstTryBlock);
+    if (elseBody) this.visitBody(elseBody);
+    this.connect(this.current, after);
+
+    if (handler) {
+      for (const block of tryBlocks) {
+        this.connect(block, handler);
+      }
+      for (const clause of clauses) {
+        this.current = this.newBlock();
+        this.connect(handler, this.current);
+        if (clause.binding) this.add(clause.binding);
+        this.visitBody(clause.body);
+        this.connect(this.current, after);
+      }
+    }
+
+    this.current = after;
+    if (finallyBody) {
+      this.visitBody(finallyBody);
+    }
+  }
+
+  // --- Python ---
+
+  private visitPython(node: Parser.SyntaxNode): void {
+    switch (node.type) {
+      case 'block':
+        this.visitSequence(node.namedChildren);
+        return;
+
+      case 'pass_statement':
+      case 'comment':
+        return;
+
+      case 'if_statement':
+      case 'elif_clause': {
+        // elif/else clauses are chained as the false branch of the previous test
+        const rest =
+          node.type === 'if_statement'
+            ? node.namedChildren.filter(
+                (child) => child.type === 'elif_clause' || child.type === 'else_clause'
+              )
+            : [];
+        this.pythonIf(node, rest);
+        return;
+      }
+
+      case 'while_statement': {
+        const after = this.loop(
+          node.childForFieldName('condition'),
+          node.childForFieldName('body')
+        );
+        this.pythonLoopElse(node, after);
+        return;
+      }
+
+      case 'for_statement': {
+        const right = node.childForFieldName('right');
+        if (right) this.add(right);
+        const after = this.loop(null, node.childForFieldName('body'), {
+          binding: node.childForFieldName('left'),
+        });
+        this.pythonLoopElse(node, after);
+        return;
+      }
+
+      case 'try_statement': {
+        const clauses = node.namedChildren
+          .filter((child) => child.type === 'except_clause' || child.type === 'except_group_clause')
+          .map((clause) => {
+            const block = clause.namedChildren.find((child) => child.type === 'block') || null;
+            const binding =
+              clause.namedChildren.find(
+                (child) => child.type !== 'block' && child.type !== 'comment'
+              ) || null;
+            return { binding, body: block };
+          });
+        const elseClause = node.namedChildren.find((child) => child.type === 'else_clause');
+        const finallyClause = node.namedChildren.find((child) => child.type === 'finally_clause');
+        this.tryStatement(
+          node.childForFieldName('body'),
+          clauses,
+          elseClause?.childForFieldName('body') || null,
+          finallyClause?.namedChildren.find((child) => child.type === 'block') || null
+        );
+        return;
+      }
+
+      case 'with_statement': {
+        for (const child of node.namedChildren) {
+          if (child.type === 'with_clause') this.add(child);
+        }
+        this.visitBody(node.childForFieldName('body'));
+        return;
+      }
+
+      case 'match_statement': {
+        const subject = node.childForFieldName('subject');
+        if (subject) this.add(subject);
+        const from = this.current || this.startBlock();
+        const after = this.newBlock();
+        this.connect(from, after);
+        const cases = node.childForFieldName('body')?.namedChildren || [];
+        for (const clause of cases) {
+          if (clause.type !== 'case_clause') continue;
+          this.current = this.newBlock();
+          this.connect(from, this.current);
+          this.visitBody(clause.childForFieldName('consequence'));
+          this.connect(this.current, after);
+        }
+        this.current = after;
+        return;
+      }
+
+      case 'return_statement':
+        this.add(node);
+        this.jump(this.exit);
+        return;
+
+      case 'raise_statement':
+        this.add(node);
+        this.jump(this.handlers[this.handlers.length - 1] || this.exit);
+        return;
+
+      case 'break_statement':
+        this.jump(this.findTarget(null, 'break'));
+        return;
+
+      case 'continue_statement':
+        this.jump(this.findTarget(null, 'continue'));
+        return;
+
+      default:
+        this.add(node);
+    }
+  }
+
+  private pythonIf(node: Parser.SyntaxNode, rest: Parser.SyntaxNode[]): void {
+    const [next, ...others] = rest;
+    this.branch(
+      node.childForFieldName('condition')!,
+      () => this.visitBody(node.childForFieldName('consequence')),
+      next
+        ? () => {
+            if (next.type === 'elif_clause') {
+              this.pythonIf(next, others);
+            } else {
+              this.visitBody(next.childForFieldName('body'));
+            }
+          }
+        : null
+    );
+  }
+
+  // A loop `else` runs when the loop ends without break
+  private pythonLoopElse(node: Parser.SyntaxNode, after: BasicBlock): void {
+    const elseClause = node.childForFieldName('alternative');
+    if (elseClause) {
+      this.current = after;
+      this.visitBody(elseClause.childForFieldName('body'));
+    }
+  }
+}
+
+/**
+ * Build the CFG of a function node, or of the top level of a file when given
+ * the root node. Nested functions and classes are opaque.
+ */
+export function buildControlFlowGraph(
+  node: Parser.SyntaxNode,
+  code: string,
+  language: Language
+): ControlFlowGraph {
+  const isRoot = node.type === 'program' || node.type === 'module';
+  const body = isRoot ? node : node.childForFieldName('body');
+  return new CfgBuilder(code, language).build(node, body);
+}
+
+/**
+ * Find the block and index of the node containing `node` (null when the node
+ * is not evaluated by this graph, e.g. it is unreachable or a declaration)
+ */
+export function findCfgNode(
+  cfg: ControlFlowGraph,
+  node: Parser.SyntaxNode
+): { block: BasicBlock; index: number } | null {
+  for (const block of cfg.blocks) {
+    const index = block.nodes.findIndex(
+      (candidate) => candidate.startIndex <= node.startIndex && node.endIndex <= candidate.endIndex
+    );
+    if (index !== -1) {
+      return { block, index };
+    }
+  }
+  return null;
+}
+
+/**
+ * Solve a forward dataflow problem. Returns the state at the entry of every
+ * reachable block; unreachable blocks are absent.
+ */
+export function solveForward<S>(
+  cfg: ControlFlowGraph,
+  analysis: ForwardAnalysis<S>
+): Map<BasicBlock, S> {
+  const states = new Map<BasicBlock, S>([[cfg.entry, analysis.initial]]);
+  const worklist: BasicBlock[] = [cfg.entry];
+
+  while (worklist.length > 0) {
+    const block = worklist.shift()!;
+    let state = states.get(block) as S;
+    for (const node of block.nodes) {
+      state = analysis.transfer(node, state);
+    }
+
+    for (const edge of block.successors) {
+      const next = edge.condition ? analysis.branch(edge.condition, edge.assume!, state) : state;
+      if (next === null) continue;
+
+      const previous = states.get(edge.to);
+      const merged = previous === undefined ? next : analysis.join(previous, next);
+      if (previous === undefined || !analysis.equals(previous, merged)) {
+        states.set(edge.to, merged);
+        if (!worklist.includes(edge.to)) worklist.push(edge.to);
+      }
+    }
+  }
+
+  return states;
+}
@@ -0,0 +1,662 @@
+import path from 'path';
+import { Parser, getNodeText } from '../parser';
+import { Language } from '../types';
+import { Declaration } from './scopes';
+
+/**
+ * Project-wide symbol index
+ *
+ * Indexes the module-level exports and imports of every file of a project
+ * analysis and resolves imports between those files, so detectors can follow
+ * a name into the file that declares it ("is the imported `fetchUser` an
+ * async function?").
+ *
+ * JavaScript/TypeScript:
+ * - ES `import`/`export` (default, named, namespace, re-exports and
+ *   `export *`) and CommonJS `require()`, `module.exports` and `exports.x`
+ * - Relative specifiers resolve to project files by extension or `index`
+ *   file; `./api.js` also finds `./api.ts`. Packages are not resolved.
+ *
+ * Python:
+ * - `import a.b`, `import a.b as c` and `from a.b import c`, absolute (from the
+ *   project root or the importing file's directory) and relative
+ * - Module-level functions, classes and assignments are exported; names a
+ *   module imports can be imported from it in turn (package `__init__.py`)
+ *
+ * Only module-level bindings are indexed: imports inside functions and
+ * members of exported classes or objects are not.
+ */
+
+// A file of the project, parsed
+export interface ProjectFile {
+  path: string;
+  code: string;
+  language: Language;
+  tree: Parser.Tree;
+}
+
+export type ProjectSymbolKind = 'function' | 'class' | 'variable';
+
+// An exported binding of a project file
+export interface ProjectSymbol {
+  // Path of the file that declares it
+  file: string;
+  // Name it is exported under ('default' for default exports)
+  name: string;
+  kind: ProjectSymbolKind;
+  // An `async` function
+  async: boolean;
+  // The declared name, or the declaration itself when it has none
+  node: Parser.SyntaxNode;
+}
+
+// What a module-level name is bound to by an import
+export interface ImportBinding {
+  // Normalized path of the imported file
+  file: string;
+  // The imported export, or '*' for the module itself
+  name: string;
+}
+
+// A name exported from another module (`export { a as b } from`, `export *`)
+interface ReExport {
+  file: string;
+  // Name in that module, or '*' for all of its exports
+  name: string;
+  // Name in this module
+  as: string;
+}
+
+interface ModuleInfo {
+  file: ProjectFile;
+  exports: Map<string, ProjectSymbol>;
+  reExports: ReExport[];
+  // Imports of project files by local name
+  imports: Map<string, ImportBinding>;
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// TypeScript sources imported by the name of their compiled output
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const FUNCTION_TYPES = new Set([
+  'function_declaration',
+  'generator_function_declaration',
+  'function_expression',
+  'function',
+  'generator_function',
+  'arrow_function',
+  'function_definition',
+]);
+
+const CLASS_TYPES = new Set([
+  'class_declaration',
+  'abstract_class_declaration',
+  'class',
+  'class_definition',
+]);
+
+/**
+ * Normalize a project file path: forward slashes, no leading `./` or `/`
+ */
+export function normalizeProjectPath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+}
+
+// Text of a string literal without its quotes
+function stringValue(node: Parser.SyntaxNode, code: string): string {
+  return getNodeText(node, code).slice(1, -1);
+}
+
+function hasAsyncKeyword(node: Parser.SyntaxNode): boolean {
+  return node.children.some((child) => child.type === 'async');
+}
+
+/**
+ * Symbol index of a project. Files are indexed when the index is created;
+ * their trees must stay alive while it is used.
+ */
+export class ProjectIndex {
+  private modules = new Map<string, ModuleInfo>();
+
+  constructor(files: ProjectFile[]) {
+    for (const file of files) {
+      this.modules.set(normalizeProjectPath(file.path), {
+        file,
+        exports: new Map(),
+        reExports: [],
+        imports: new Map(),
+      });
+    }
+    for (const [normalized, info] of this.modules) {
+      if (info.file.language === 'python') {
+        this.indexPython(normalized, info);
+      } else {
+        this.indexJs(normalized, info);
+      }
+    }
+  }
+
+  /**
+   * The file at a path, if it is part of the project
+   */
+  getFile(filePath: string): ProjectFile | undefined {
+    return this.modules.get(normalizeProjectPath(filePath))?.file;
+  }
+
+  /**
+   * The view of one file, for its detectors
+   */
+  module(filePath: string): ProjectModule {
+    return new ProjectModule(this, normalizeProjectPath(filePath));
+  }
+
+  /**
+   * Every exported symbol with this name, in file order
+   */
+  findSymbols(name: string): ProjectSymbol[] {
+    const symbols: ProjectSymbol[] = [];
+    for (const normalized of this.modules.keys()) {
+      const symbol = this.resolveExport(normalized, name);
+      // Re-exports resolve to the declaring file's symbol
+      const known = symbols.some(
+        (other) => other.file === symbol?.file && other.node.startIndex === symbol.node.startIndex
+      );
+      if (symbol && !known) {
+        symbols.push(symbol);
+      }
+    }
+    return symbols;
+  }
+
+  /**
+   * The import binding of a module-level name of a file
+   */
+  importOf(normalized: string, name: string): ImportBinding | undefined {
+    return this.modules.get(normalized)?.imports.get(name);
+  }
+
+  /**
+   * The symbol a module exports under a name, following re-exports
+   */
+  resolveExport(
+    normalized: string,
+    name: string,
+    seen: Set<string> = new Set()
+  ): ProjectSymbol | null {
+    const info = this.modules.get(normalized);
+    const key = `${normalized}\0${name}`;
+    if (!info || seen.has(key)) {
+      return null;
+    }
+    seen.add(key);
+
+    const symbol = info.exports.get(name);
+    if (symbol) {
+      return symbol;
+    }
+    for (const reExport of info.reExports) {
+      if (reExport.name !== '*' && reExport.as === name) {
+        return this.resolveExport(reExport.file, reExport.name, seen);
+      }
+    }
+    // `export *` never re-exports a default export
+    for (const reExport of info.reExports) {
+      if (reExport.name === '*' && name !== 'default') {
+        const found = this.resolveExport(reExport.file, name, seen);
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  // Resolve a relative JavaScript/TypeScript specifier to a project file
+  private resolveJsModule(from: string, specifier: string): string | null {
+    if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
+      return null;
+    }
+    const base = normalizeProjectPath(
+      specifier.startsWith('/') ? specifier : path.posix.join(path.posix.dirname(from), specifier)
+    );
+
+    const extension = path.posix.extname(base);
+    const candidates = [
+      base,
+      ...JS_EXTENSIONS.map((ext) => base + ext),
+      ...(COMPILED_EXTENSIONS[extension] || []).map(
+        (ext) => base.slice(0, -extension.length) + ext
+      ),
+      ...JS_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ];
+    return candidates.find((candidate) => this.modules.has(candidate)) ?? null;
+  }
+
+  // Resolve a Python module (`a.b`, with `level` leading dots) to a project file
+  private resolvePythonModule(from: string, dotted: string, level: number): string | null {
+    const parts = dotted ? dotted.split('.') : [];
+    let bases: string[];
+    if (level > 0) {
+      let base = path.posix.dirname(from);
+      for (let i = 1; i < level; i++) {
+        base = path.posix.dirname(base);
+      }
+      bases = [base];
+    } else {
+      bases = ['.', path.posix.dirname(from)];
+    }
+
+    for (const base of bases) {
+      const modulePath = normalizeProjectPath(path.posix.join(base, ...parts));
+      const candidates = parts.length
+        ? [`${modulePath}.py`, `${modulePath}/__init__.py`]
+        : [normalizeProjectPath(`${modulePath}/__init__.py`)];
+      const found = candidates.find((candidate) => this.modules.has(candidate));
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private indexJs(normalized: string, info: ModuleInfo): void {
+    const { code } = info.file;
+    const root = info.file.tree.rootNode;
+    const symbol = (name: string, node: Parser.SyntaxNode, nameNode?: Parser.SyntaxNode | null) =>
+      this.createSymbol(info.file.path, name, node, nameNode);
+
+    // Module-level declarations by name, for `export { a }` and `module.exports = { a }`
+    const locals = new Map<string, ProjectSymbol>();
+    const declare = (declaration: Parser.SyntaxNode): ProjectSymbol[] => {
+      const declared: ProjectSymbol[] = [];
+      if (
+        declaration.type === 'lexical_declaration' ||
+        declaration.type === 'variable_declaration'
+      ) {
+        for (const declarator of declaration.namedChildren) {
+          const name = declarator.childForFieldName('name');
+          if (declarator.type !== 'variable_declarator' || name?.type !== 'identifier') continue;
+          const value = declarator.childForFieldName('value');
+          declared.push(symbol(getNodeText(name, code), value ?? declarator, name));
+        }
+      } else {
+        const name = declaration.childForFieldName('name');
+        if (name) declared.push(symbol(getNodeText(name, code), declaration, name));
+      }
+      for (const local of declared) locals.set(local.name, local);
+      return declared;
+    };
+
+    for (const statement of root.namedChildren) {
+      if (statement.type === 'export_statement') {
+        const declaration = statement.childForFieldName('declaration');
+        if (declaration) declare(declaration);
+      } else if (
+        FUNCTION_TYPES.has(statement.type) ||
+        CLASS_TYPES.has(statement.type) ||
+        statement.type === 'lexical_declaration' ||
+        statement.type === 'variable_declaration'
+      ) {
+        declare(statement);
+        this.indexRequire(normalized, info, statement);
+      } else if (statement.type === 'import_statement') {
+        this.indexJsImport(normalized, info, statement);
+      }
+    }
+
+    // The value of an export: a local name or an inline function/class
+    const exported = (name: string, value: Parser.SyntaxNode): ProjectSymbol | null => {
+      if (value.type === 'identifier') {
+        const local = locals.get(getNodeText(value, code));
+        return local ? { ...local, name } : null;
+      }
+      return symbol(name, value);
+    };
+
+    for (const statement of root.namedChildren) {
+      if (statement.type === 'export_statement') {
+        this.indexJsExport(normalized, info, statement, locals, exported);
+      } else if (statement.type === 'expression_statement') {
+        this.indexCommonJsExport(info, statement, locals, exported);
+      }
+    }
+  }
+
+  private indexJsImport(normalized: string, info: ModuleInfo, statement: Parser.SyntaxNode): void {
+    const { code } = info.file;
+    const source = statement.childForFieldName('source');
+    const file = source && this.resolveJsModule(normalized, stringValue(source, code));
+    const clause = statement.namedChildren.find((child) => child.type === 'import_clause');
+    if (!file || !clause) return;
+
+    for (const child of clause.namedChildren) {
+      if (child.type === 'identifier') {
+        info.imports.set(getNodeText(child, code), { file, name: 'default' });
+      } else if (child.type === 'namespace_import') {
+        const local = child.namedChildren.find((n) => n.type === 'identifier');
+        if (local) info.imports.set(getNodeText(local, code), { file, name: '*' });
+      } else if (child.type === 'named_imports') {
+        for (const specifier of child.namedChildren) {
+          const name = specifier.childForFieldName('name');
+          const local = specifier.childForFieldName('alias') || name;
+          if (specifier.type !== 'import_specifier' || !name || !local) continue;
+          info.imports.set(getNodeText(local, code), { file, name: getNodeText(name, code) });
+        }
+      }
+    }
+  }
+
+  // `const api = require('./api')` / `const { get, post: send } = require('./api')`
+  private indexRequire(normalized: string, info: ModuleInfo, statement: Parser.SyntaxNode): void {
+    const { code } = info.file;
+
+    for (const declarator of statement.namedChildren) {
+      const pattern = declarator.childForFieldName('name');
+      const value = declarator.childForFieldName('value');
+      const callee = value?.type === 'call_expression' && value.childForFieldName('function');
+      const argument = value?.childForFieldName('arguments')?.namedChildren[0];
+      if (!pattern || !callee || getNodeText(callee, code) !== 'require') continue;
+      if (argument?.type !== 'string') continue;
+
+      const file = this.resolveJsModule(normalized, stringValue(argument, code));
+      if (!file) continue;
+
+      if (pattern.type === 'identifier') {
+        info.imports.set(getNodeText(pattern, code), { file, name: '*' });
+      } else if (pattern.type === 'object_pattern') {
+        for (const property of pattern.namedChildren) {
+          if (property.type === 'shorthand_property_identifier_pattern') {
+            const name = getNodeText(property, code);
+            info.imports.set(name, { file, name });
+          } else if (property.type === 'pair_pattern') {
+            const key = property.childForFieldName('key');
+            const local = property.childForFieldName('value');
+            if (key && local?.type === 'identifier') {
+              info.imports.set(getNodeText(local, code), { file, name: getNodeText(key, code) });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  private indexJsExport(
+    normalized: string,
+    info: ModuleInfo,
+    statement: Parser.SyntaxNode,
+    locals: Map<string, ProjectSymbol>,
+    exported: (name: string, value: Parser.SyntaxNode) => ProjectSymbol | null
+  ): void {
+    const { code } = info.file;
+    const source = statement.childForFieldName('source');
+    const from = source ? this.resolveJsModule(normalized, stringValue(source, code)) : null;
+    const isDefault = statement.children.some((child) => child.type === 'default');
+    const clause = statement.namedChildren.find((child) => child.type === 'export_clause');
+
+    if (source) {
+      if (!from) return;
+      const namespace = statement.namedChildren.find((child) => child.type === 'namespace_export');
+      if (clause) {
+        for (const specifier of clause.namedChildren) {
+          const name = specifier.childForFieldName('name');
+          const alias = specifier.childForFieldName('alias') || name;
+          if (!name || !alias) continue;
+          const as = getNodeText(alias, code);
+          info.reExports.push({ file: from, name: getNodeText(name, code), as });
+        }
+      } else if (!namespace) {
+        info.reExports.push({ file: from, name: '*', as: '*' });
+      }
+      return;
+    }
+
+    const declaration = statement.childForFieldName('declaration');
+    const value = statement.childForFieldName('value');
+    if (declaration) {
+      for (const local of this.declaredBy(info.file.path, declaration, locals)) {
+        const name = isDefault ? 'default' : local.name;
+        info.exports.set(name, { ...local, name });
+      }
+    } else if (value && isDefault) {
+      const symbol = exported('default', value);
+      if (symbol) info.exports.set('default', symbol);
+    } else if (clause) {
+      for (const specifier of clause.namedChildren) {
+        const name = specifier.childForFieldName('name');
+        const alias = specifier.childForFieldName('alias') || name;
+        if (!name || !alias) continue;
+        const localName = getNodeText(name, code);
+        const as = getNodeText(alias, code);
+        // Exporting an imported name re-exports it
+        const imported = info.imports.get(localName);
+        if (imported) {
+          info.reExports.push({ file: imported.file, name: imported.name, as });
+          continue;
+        }
+        const symbol = exported(as, name);
+        if (symbol) info.exports.set(as, symbol);
+      }
+    }
+  }
+
+  // The local symbols a declaration introduced
+  private declaredBy(
+    file: string,
+    declaration: Parser.SyntaxNode,
+    locals: Map<string, ProjectSymbol>
+  ): ProjectSymbol[] {
+    const symbols = [...locals.values()].filter(
+      (local) =>
+        local.node.startIndex >= declaration.startIndex &&
+        local.node.endIndex <= declaration.endIndex
+    );
+    // `export default class {}` has no name
+    return symbols.length > 0 ? symbols : [this.createSymbol(file, 'default', declaration)];
+  }
+
+  // `module.exports = ...`, `module.exports.a = ...` and `exports.a = ...`
+  private indexCommonJsExport(
+    info: ModuleInfo,
+    statement: Parser.SyntaxNode,
+    locals: Map<string, ProjectSymbol>,
+    exported: (name: string, value: Parser.SyntaxNode) => ProjectSymbol | null
+  ): void {
+    const { code } = info.file;
+    const assignment = statement.namedChildren[0];
+    if (assignment?.type !== 'assignment_expression') return;
+    const left = assignment.childForFieldName('left');
+    const right = assignment.childForFieldName('right');
+    if (!left || !right || left.type !== 'member_expression') return;
+
+    const target = getNodeText(left, code).replace(/\s+/g, '');
+    const named = /^(?:module\.)?exports\.([A-Za-z_$][\w$]*)$/.exec(target);
+    if (named) {
+      const symbol = exported(named[1], right);
+      if (symbol) info.exports.set(named[1], symbol);
+      return;
+    }
+    if (target !== 'module.exports') return;
+
+    if (right.type !== 'object') {
+      const symbol = exported('default', right);
+      if (symbol) info.exports.set('default', symbol);
+      return;
+    }
+    for (const property of right.namedChildren) {
+      if (property.type === 'shorthand_property_identifier') {
+        const name = getNodeText(property, code);
+        const local = locals.get(name);
+        if (local) info.exports.set(name, { ...local });
+      } else if (property.type === 'pair' || property.type === 'method_definition') {
+        const key = property.childForFieldName(property.type === 'pair' ? 'key' : 'name');
+        const value = property.type === 'pair' ? property.childForFieldName('value') : property;
+        if (!key || !value) continue;
+        const symbol = exported(getNodeText(key, code), value);
+        if (symbol) info.exports.set(symbol.name, symbol);
+      }
+    }
+  }
+
+  private indexPython(normalized: string, info: ModuleInfo): void {
+    const { code } = info.file;
+
+    for (const statement of info.file.tree.rootNode.namedChildren) {
+      const definition =
+        statement.type === 'decorated_definition'
+          ? statement.childForFieldName('definition')
+          : statement;
+      if (!definition) continue;
+
+      if (definition.type === 'function_definition' || definition.type === 'class_definition') {
+        const name = definition.childForFieldName('name');
+        if (name) {
+          const symbolName = getNodeText(name, code);
+          info.exports.set(
+            symbolName,
+            this.createSymbol(info.file.path, symbolName, definition, name)
+          );
+        }
+      } else if (definition.type === 'expression_statement') {
+        const assignment = definition.namedChildren[0];
+        const left = assignment?.type === 'assignment' && assignment.childForFieldName('left');
+        if (left && left.type === 'identifier') {
+          const value = assignment.childForFieldName('right');
+          const symbolName = getNodeText(left, code);
+          info.exports.set(
+            symbolName,
+            this.createSymbol(info.file.path, symbolName, value ?? assignment, left)
+          );
+        }
+      } else if (definition.type === 'import_statement') {
+        this.indexPythonImport(normalized, info, definition);
+      } else if (definition.type === 'import_from_statement') {
+        this.indexPythonFromImport(normalized, info, definition);
+      }
+    }
+  }
+
+  // `import a.b` binds `a`; `import a.b as c` binds `c` to `a.b`
+  private indexPythonImport(normalized: string, info: ModuleInfo, statement: Parser.SyntaxNode) {
+    const { code } = info.file;
+
+    for (const child of statement.namedChildren) {
+      const aliased = child.type === 'aliased_import';
+      const dotted = aliased ? child.childForFieldName('name') : child;
+      const local = aliased ? child.childForFieldName('alias') : dotted?.namedChildren[0];
+      if (!dotted || dotted.type !== 'dotted_name' || !local) continue;
+
+      const moduleName = aliased ? getNodeText(dotted, code) : getNodeText(local, code);
+      const file = this.resolvePythonModule(normalized, moduleName, 0);
+      if (file) info.imports.set(getNodeText(local, code), { file, name: '*' });
+    }
+  }
+
+  // `from a.b import c as d`; `c` may be a submodule of a package
+  private indexPythonFromImport(
+    normalized: string,
+    info: ModuleInfo,
+    statement: Parser.SyntaxNode
+  ) {
+    const { code } = info.file;
+    const moduleNode = statement.childForFieldName('module_name');
+    if (!moduleNode) return;
+
+    let level = 0;
+    let dotted = moduleNode;
+    if (moduleNode.type === 'relative_import') {
+      const prefix = moduleNode.namedChildren.find((child) => child.type === 'import_prefix');
+      level = prefix ? getNodeText(prefix, code).length : 0;
+      dotted = moduleNode.namedChildren.find((child) => child.type === 'dotted_name') ?? prefix!;
+    }
+    const moduleName = dotted.type === 'dotted_name' ? getNodeText(dotted, code) : '';
+    const from = this.resolvePythonModule(normalized, moduleName, level);
+
+    for (const child of statement.namedChildren) {
+      if (child.startIndex === moduleNode.startIndex) continue;
+      if (child.type === 'wildcard_import') {
+        if (from) info.reExports.push({ file: from, name: '*', as: '*' });
+        continue;
+      }
+
+      const aliased = child.type === 'aliased_import';
+      const nameNode = aliased ? child.childForFieldName('name') : child;
+      const local = aliased ? child.childForFieldName('alias') : child;
+      if (!nameNode || !local) continue;
+      const name = getNodeText(nameNode, code);
+      const as = getNodeText(local, code);
+
+      const submodule = this.resolvePythonModule(
+        normalized,
+        moduleName ? `${moduleName}.${name}` : name,
+        level
+      );
+      if (submodule) {
+        info.imports.set(as, { file: submodule, name: '*' });
+      } else if (from) {
+        info.imports.set(as, { file: from, name });
+        info.reExports.push({ file: from, name, as });
+      }
+    }
+  }
+
+  private createSymbol(
+    file: string,
+    name: string,
+    node: Parser.SyntaxNode,
+    nameNode?: Parser.SyntaxNode | null
+  ): ProjectSymbol {
+    const kind: ProjectSymbolKind = FUNCTION_TYPES.has(node.type)
+      ? 'function'
+      : CLASS_TYPES.has(node.type)
+        ? 'class'
+        : 'variable';
+    return {
+      file,
+      name,
+      kind,
+      async: kind === 'function' && hasAsyncKeyword(node),
+      node: nameNode ?? node,
+    };
+  }
+}
+
+/**
+ * One file of a project: resolves its module-level imports to the symbols
+ * of other project files
+ */
+export class ProjectModule {
+  constructor(
+    readonly index: ProjectIndex,
+    private readonly normalized: string
+  ) {}
+
+  /**
+   * The symbol an imported name refers to, or null if the declaration is not
+   * a module-level import of a project file's export
+   */
+  resolveImport(declaration: Declaration): ProjectSymbol | null {
+    const binding = this.bindingOf(declaration);
+    return binding && binding.name !== '*'
+      ? this.index.resolveExport(binding.file, binding.name)
+      : null;
+  }
+
+  /**
+   * The symbol `name` refers to in an imported module object (`ns.name` after
+   * `import * as ns`, `const ns = require()` or Python `import ns`)
+   */
+  resolveMember(declaration: Declaration, name: string): ProjectSymbol | null {
+    const binding = this.bindingOf(declaration);
+    return binding && binding.name === '*' ? this.index.resolveExport(binding.file, name) : null;
+  }
+
+  private bindingOf(declaration: Declaration): ImportBinding | undefined {
+    if (declaration.scope.parent !== null) {
+      return undefined;
+    }
+    return this.index.importOf(this.normalized, declaration.name);
+  }
+}
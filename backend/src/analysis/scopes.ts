@@ -0,0 +1,905 @@
+import { Parser, getNodeText } from '../parser';
+import { Language } from '../types';
+
+/**
+ * Scope and symbol-table analysis
+ *
+ * Builds the scope tree of a file and resolves every identifier reference to
+ * the declaration it refers to, so detectors can ask "what does this name
+ * refer to?" instead of matching text.
+ *
+ * JavaScript/TypeScript:
+ * - `var` is function-scoped, `let`/`const`/`class` are block-scoped
+ * - Parameters (including destructuring, defaults and rest), imports,
+ *   catch parameters, enums and namespaces are declarations
+ * - Type-only constructs (interfaces, type aliases, annotations) are skipped
+ *
+ * Python:
+ * - Any binding (assignment, for/with/except targets, walrus, imports)
+ *   makes a name local to its function, wherever it appears
+ * - `global` and `nonlocal` redirect bindings to the module or enclosing
+ *   function scope
+ * - Class bodies are not visible from nested functions
+ * - Comprehensions have their own scope; the first iterable is evaluated
+ *   in the enclosing scope
+ *
+ * Resolution is by scope, not position: a reference before its declaration
+ * in the same scope still resolves to it (hoisting / temporal dead zone are
+ * not modelled).
+ */
+
+export type ScopeKind = 'module' | 'function' | 'class' | 'block' | 'catch' | 'comprehension';
+
+export type DeclarationKind =
+  | 'var'
+  | 'let'
+  | 'const'
+  | 'function'
+  | 'class'
+  | 'parameter'
+  | 'import'
+  | 'catch'
+  | 'enum'
+  | 'namespace'
+  // Python assignment targets (including for/with/except targets and walrus)
+  | 'variable';
+
+export interface Declaration {
+  name: string;
+  kind: DeclarationKind;
+  // The identifier that introduces the name
+  node: Parser.SyntaxNode;
+  // The construct that declares it (variable_declarator, function_declaration, ...)
+  declarationNode: Parser.SyntaxNode;
+  scope: Scope;
+  line: number;
+  column: number;
+}
+
+export interface Scope {
+  kind: ScopeKind;
+  node: Parser.SyntaxNode;
+  parent: Scope | null;
+  children: Scope[];
+  // Declarations by name, in source order
+  declarations: Map<string, Declaration[]>;
+  // Python: names declared `global` / `nonlocal` in this scope
+  globals: Set<string>;
+  nonlocals: Set<string>;
+}
+
+export interface Reference {
+  name: string;
+  node: Parser.SyntaxNode;
+  // Scope the reference appears in
+  scope: Scope;
+  // Resolved declaration, or null for globals/builtins/undeclared names
+  declaration: Declaration | null;
+}
+
+// Key identifying a node by position (web-tree-sitter nodes are not identity-stable)
+function nodeKey(node: Parser.SyntaxNode): string {
+  return `${node.startIndex}:${node.endIndex}`;
+}
+
+/**
+ * Result of scope analysis for one file
+ */
+export class ScopeAnalysis {
+  readonly declarations: Declaration[] = [];
+  readonly references: Reference[] = [];
+  private declarationIndex = new Map<string, Declaration>();
+  private referenceIndex = new Map<string, Reference>();
+
+  constructor(
+    readonly root: Scope,
+    readonly language: Language
+  ) {}
+
+  /**
+   * All scopes in the file, outermost first
+   */
+  get scopes(): Scope[] {
+    const result: Scope[] = [];
+    const visit = (scope: Scope): void => {
+      result.push(scope);
+      scope.children.forEach(visit);
+    };
+    visit(this.root);
+    return result;
+  }
+
+  /** @internal */
+  addDeclaration(declaration: Declaration): void {
+    this.declarations.push(declaration);
+    this.declarationIndex.set(nodeKey(declaration.node), declaration);
+  }
+
+  /** @internal */
+  addReference(reference: Reference): void {
+    this.references.push(reference);
+    this.referenceIndex.set(nodeKey(reference.node), reference);
+  }
+
+  /**
+   * Resolve an identifier node to its declaration. Works for both references
+   * and the declaring identifier itself.
+   */
+  resolve(node: Parser.SyntaxNode): Declaration | null {
+    const key = nodeKey(node);
+    return this.declarationIndex.get(key) || this.referenceIndex.get(key)?.declaration || null;
+  }
+
+  /**
+   * Check whether an identifier node declares a name
+   */
+  isDeclaration(node: Parser.SyntaxNode): boolean {
+    return this.declarationIndex.has(nodeKey(node));
+  }
+
+  /**
+   * Find the declaration a name refers to when used in `scope`
+   */
+  lookup(name: string, scope: Scope): Declaration | null {
+    let current: Scope | null = scope;
+
+    if (this.language === 'python') {
+      if (scope.globals.has(name)) {
+        return this.root.declarations.get(name)?.[0] || null;
+      }
+      if (scope.nonlocals.has(name)) {
+        current = scope.parent;
+      }
+    }
+
+    while (current) {
+      // Python class bodies are only visible to code directly inside them
+      const skip = this.language === 'python' && current.kind === 'class' && current !== scope;
+      const declarations = skip ? undefined : current.declarations.get(name);
+      if (declarations && declarations.length > 0) {
+        return declarations[0];
+      }
+      current = current.parent;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the innermost scope containing a node
+   */
+  scopeAt(node: Parser.SyntaxNode): Scope {
+    let scope = this.root;
+    for (;;) {
+      const child = scope.children.find(
+        (candidate) =>
+          candidate.node.startIndex <= node.startIndex && node.endIndex <= candidate.node.endIndex
+      );
+      if (!child) {
+        return scope;
+      }
+      scope = child;
+    }
+  }
+
+  /**
+   * All references that resolve to a declaration
+   */
+  referencesTo(declaration: Declaration): Reference[] {
+    return this.references.filter((reference) => reference.declaration === declaration);
+  }
+}
+
+// Node types that introduce a function scope (JS/TS)
+const JS_FUNCTION_TYPES = new Set([
+  'function_declaration',
+  'generator_function_declaration',
+  'function_expression',
+  'function',
+  'generator_function',
+  'arrow_function',
+  'method_definition',
+]);
+
+// Type-only TypeScript constructs (no runtime bindings or references)
+const TS_TYPE_ONLY_TYPES = new Set([
+  'type_annotation',
+  'type_alias_declaration',
+  'interface_declaration',
+  'type_parameters',
+  'type_arguments',
+  'implements_clause',
+  'abstract_method_signature',
+  'index_signature',
+  'property_signature',
+  'method_signature',
+]);
+
+const PYTHON_COMPREHENSION_TYPES = new Set([
+  'list_comprehension',
+  'set_comprehension',
+  'dictionary_comprehension',
+  'generator_expression',
+]);
+
+class ScopeBuilder {
+  private pending: Array<{ node: Parser.SyntaxNode; scope: Scope }> = [];
+  readonly analysis: ScopeAnalysis;
+
+  constructor(
+    private code: string,
+    private language: Language,
+    root: Parser.SyntaxNode
+  ) {
+    this.analysis = new ScopeAnalysis(this.createScope('module', root, null), language);
+  }
+
+  build(): ScopeAnalysis {
+    const root = this.analysis.root;
+    if (this.language === 'python') {
+      this.visitPythonChildren(root.node, root);
+    } else {
+      this.visitJsChildren(root.node, root);
+    }
+
+    // Resolve after all declarations are known (bindings are scope-wide)
+    for (const { node, scope } of this.pending) {
+      const name = getNodeText(node, this.code);
+      this.analysis.addReference({
+        name,
+        node,
+        scope,
+        declaration: this.analysis.lookup(name, scope),
+      });
+    }
+
+    return this.analysis;
+  }
+
+  private createScope(kind: ScopeKind, node: Parser.SyntaxNode, parent: Scope | null): Scope {
+    const scope: Scope = {
+      kind,
+      node,
+      parent,
+      children: [],
+      declarations: new Map(),
+      globals: new Set(),
+      nonlocals: new Set(),
+    };
+    parent?.children.push(scope);
+    return scope;
+  }
+
+  private declare(
+    node: Parser.SyntaxNode,
+    kind: DeclarationKind,
+    scope: Scope,
+    declarationNode: Parser.SyntaxNode
+  ): void {
+    const name = getNodeText(node, this.code);
+    const declaration: Declaration = {
+      name,
+      kind,
+      node,
+      declarationNode,
+      scope,
+      line: node.startPosition.row + 1,
+      column: node.startPosition.column + 1,
+    };
+
+    const existing = scope.declarations.get(name);
+    if (existing) {
+      existing.push(declaration);
+    } else {
+      scope.declarations.set(name, [declaration]);
+    }
+    this.analysis.addDeclaration(declaration);
+  }
+
+  private reference(node: Parser.SyntaxNode, scope: Scope): void {
+    this.pending.push({ node, scope });
+  }
+
+  // Nearest function or module scope (target of `var` and Python bindings)
+  private functionScope(scope: Scope): Scope {
+    let current = scope;
+    while (current.kind !== 'function' && current.kind !== 'module' && current.parent) {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  // --- JavaScript / TypeScript ---
+
+  private visitJsChildren(node: Parser.SyntaxNode, scope: Scope): void {
+    for (const child of node.namedChildren) {
+      this.visitJs(child, scope);
+    }
+  }
+
+  private visitJs(node: Parser.SyntaxNode, scope: Scope): void {
+    if (TS_TYPE_ONLY_TYPES.has(node.type)) {
+      return;
+    }
+
+    if (JS_FUNCTION_TYPES.has(node.type)) {
+      this.visitJsFunction(node, scope);
+      return;
+    }
+
+    switch (node.type) {
+      case 'identifier':
+        this.reference(node, scope);
+        return;
+
+      case 'shorthand_property_identifier':
+        // `{ name }` in an object literal reads `name`
+        this.reference(node, scope);
+        return;
+
+      case 'class_declaration':
+      case 'abstract_class_declaration':
+      case 'class': {
+        const nameNode = node.childForFieldName('name');
+        const isExpression = node.type === 'class';
+        if (nameNode && !isExpression) {
+          this.declare(nameNode, 'class', scope, node);
+        }
+
+        const classScope = this.createScope('class', node, scope);
+        if (nameNode && isExpression) {
+          this.declare(nameNode, 'class', classScope, node);
+        }
+        for (const child of node.namedChildren) {
+          if (child.type === 'class_heritage') {
+            this.visitJsChildren(child, scope);
+          } else if (child.type === 'class_body') {
+            this.visitJsChildren(child, classScope);
+          }
+        }
+        return;
+      }
+
+      case 'statement_block':
+      case 'switch_body':
+      case 'class_static_block': {
+        this.visitJsChildren(node, this.createScope('block', node, scope));
+        return;
+      }
+
+      case 'for_statement':
+      case 'for_in_statement': {
+        const loopScope = this.createScope('block', node, scope);
+        if (node.type === 'for_in_statement') {
+          const kind = node.childForFieldName('kind')?.type;
+          const left = node.childForFieldName('left');
+          if (left && (kind === 'var' || kind === 'let' || kind === 'const')) {
+            const target = kind === 'var' ? this.functionScope(scope) : loopScope;
+            this.declareJsPattern(left, kind, target, node, loopScope);
+          } else if (left) {
+            this.visitJs(left, loopScope);
+          }
+          for (const child of node.namedChildren) {
+            if (left && child.startIndex === left.startIndex && child.type === left.type) continue;
+            this.visitJs(child, loopScope);
+          }
+          return;
+        }
+        this.visitJsChildren(node, loopScope);
+        return;
+      }
+
+      case 'catch_clause': {
+        const catchScope = this.createScope('catch', node, scope);
+        const parameter = node.childForFieldName('parameter');
+        if (parameter) {
+          this.declareJsPattern(parameter, 'catch', catchScope, node, catchScope);
+        }
+        const body = node.childForFieldName('body');
+        if (body) {
+          this.visitJsChildren(body, catchScope);
+        }
+        return;
+      }
+
+      case 'variable_declaration':
+      case 'lexical_declaration': {
+        const keyword = node.children[0]?.type;
+        const kind: DeclarationKind =
+          keyword === 'let' ? 'let' : keyword === 'const' ? 'const' : 'var';
+        const target = kind === 'var' ? this.functionScope(scope) : scope;
+
+        for (const declarator of node.namedChildren) {
+          if (declarator.type !== 'variable_declarator') continue;
+          const nameNode = declarator.childForFieldName('name');
+          const value = declarator.childForFieldName('value');
+          if (nameNode) {
+            this.declareJsPattern(nameNode, kind, target, declarator, scope);
+          }
+          if (value) {
+            this.visitJs(value, scope);
+          }
+        }
+        return;
+      }
+
+      case 'import_statement': {
+        const clause = node.namedChildren.find((child) => child.type === 'import_clause');
+        if (clause) {
+          this.declareJsImports(clause, node);
+        }
+        return;
+      }
+
+      case 'export_specifier': {
+        // `export { local as exported }` reads `local`
+        const local = node.childForFieldName('name');
+        if (local && local.type === 'identifier') {
+          this.reference(local, scope);
+        }
+        return;
+      }
+
+      case 'enum_declaration': {
+        const nameNode = node.childForFieldName('name');
+        if (nameNode) {
+          this.declare(nameNode, 'enum', scope, node);
+        }
+        return;
+      }
+
+      case 'internal_module':
+      case 'module': {
+        const nameNode = node.childForFieldName('name');
+        if (nameNode && nameNode.type === 'identifier') {
+          this.declare(nameNode, 'namespace', scope, node);
+        }
+        const body = node.childForFieldName('body');
+        if (body) {
+          this.visitJs(body, scope);
+        }
+        return;
+      }
+
+      case 'labeled_statement': {
+        const body = node.childForFieldName('body');
+        if (body) {
+          this.visitJs(body, scope);
+        }
+        return;
+      }
+
+      default:
+        this.visitJsChildren(node, scope);
+    }
+  }
+
+  private visitJsFunction(node: Parser.SyntaxNode, scope: Scope): void {
+    const nameNode = node.childForFieldName('name');
+    const isDeclaration =
+      node.type === 'function_declaration' || node.type === 'generator_function_declaration';
+
+    if (nameNode && isDeclaration) {
+      this.declare(nameNode, 'function', scope, node);
+    } else if (node.type === 'method_definition' && nameNode?.type === 'computed_property_name') {
+      this.visitJs(nameNode, scope);
+    }
+
+    const functionScope = this.createScope('function', node, scope);
+
+    // A named function expression can refer to itself
+    if (nameNode && !isDeclaration && node.type !== 'method_definition') {
+      this.declare(nameNode, 'function', functionScope, node);
+    }
+
+    const parameter = node.childForFieldName('parameter');
+    if (parameter) {
+      this.declare(parameter, 'parameter', functionScope, node);
+    }
+
+    const parameters = node.childForFieldName('parameters');
+    if (parameters) {
+      for (const param of parameters.namedChildren) {
+        this.declareJsPattern(param, 'parameter', functionScope, param, functionScope);
+      }
+    }
+
+    const body = node.childForFieldName('body');
+    if (body?.type === 'statement_block') {
+      // The body block shares the function scope with the parameters
+      this.visitJsChildren(body, functionScope);
+    } else if (body) {
+      this.visitJs(body, functionScope);
+    }
+  }
+
+  // Declare every name bound by a (possibly destructuring) pattern
+  private declareJsPattern(
+    pattern: Parser.SyntaxNode,
+    kind: DeclarationKind,
+    target: Scope,
+    declarationNode: Parser.SyntaxNode,
+    valueScope: Scope
+  ): void {
+    switch (pattern.type) {
+      case 'identifier':
+      case 'shorthand_property_identifier_pattern':
+        this.declare(pattern, kind, target, declarationNode);
+        return;
+
+      case 'object_pattern':
+      case 'array_pattern':
+        for (const child of pattern.namedChildren) {
+          this.declareJsPattern(child, kind, target, declarationNode, valueScope);
+        }
+        return;
+
+      case 'pair_pattern': {
+        const key = pattern.childForFieldName('key');
+        if (key?.type === 'computed_property_name') {
+          this.visitJs(key, valueScope);
+        }
+        const value = pattern.childForFieldName('value');
+        if (value) {
+          this.declareJsPattern(value, kind, target, declarationNode, valueScope);
+        }
+        return;
+      }
+
+      case 'assignment_pattern':
+      case 'object_assignment_pattern': {
+        const left = pattern.childForFieldName('left');
+        const right = pattern.childForFieldName('right');
+        if (left) this.declareJsPattern(left, kind, target, declarationNode, valueScope);
+        if (right) this.visitJs(right, valueScope);
+        return;
+      }
+
+      case 'rest_pattern':
+        for (const child of pattern.namedChildren) {
+          this.declareJsPattern(child, kind, target, declarationNode, valueScope);
+        }
+        return;
+
+      case 'required_parameter':
+      case 'optional_parameter': {
+        const inner = pattern.childForFieldName('pattern');
+        const value = pattern.childForFieldName('value');
+        if (inner && inner.type !== 'this') {
+          this.declareJsPattern(inner, kind, target, declarationNode, valueScope);
+        }
+        if (value) this.visitJs(value, valueScope);
+        return;
+      }
+
+      default:
+        // Not a binding (e.g. `obj.prop` as a for-of target): it's an expression
+        this.visitJs(pattern, valueScope);
+    }
+  }
+
+  private declareJsImports(clause: Parser.SyntaxNode, statement: Parser.SyntaxNode): void {
+    const moduleScope = this.analysis.root;
+
+    for (const child of clause.namedChildren) {
+      if (child.type === 'identifier') {
+        this.declare(child, 'import', moduleScope, statement);
+      } else if (child.type === 'namespace_import') {
+        const local = child.namedChildren.find((n) => n.type === 'identifier');
+        if (local) this.declare(local, 'import', moduleScope, statement);
+      } else if (child.type === 'named_imports') {
+        for (const specifier of child.namedChildren) {
+          if (specifier.type !== 'import_specifier') continue;
+          const local = specifier.childForFieldName('alias') || specifier.childForFieldName('name');
+          if (local && local.type === 'identifier') {
+            this.declare(local, 'import', moduleScope, statement);
+          }
+        }
+      }
+    }
+  }
+
+  // --- Python ---
+
+  private visitPythonChildren(node: Parser.SyntaxNode, scope: Scope): void {
+    for (const child of node.namedChildren) {
+      this.visitPython(child, scope);
+    }
+  }
+
+  // Scope that a Python binding of `name` in `scope` belongs to
+  private pythonBindingScope(name: string, scope: Scope): Scope {
+    if (scope.globals.has(name)) {
+      return this.analysis.root;
+    }
+    if (scope.nonlocals.has(name)) {
+      let current = scope.parent;
+      while (current) {
+        if (current.kind === 'function' && current.declarations.has(name)) {
+          return current;
+        }
+        current = current.parent;
+      }
+    }
+    return scope;
+  }
+
+  private declarePython(
+    node: Parser.SyntaxNode,
+    kind: DeclarationKind,
+    scope: Scope,
+    declarationNode: Parser.SyntaxNode
+  ): void {
+    this.declare(
+      node,
+      kind,
+      this.pythonBindingScope(getNodeText(node, this.code), scope),
+      declarationNode
+    );
+  }
+
+  // Declare the names bound by an assignment target; other targets are expressions
+  private declarePythonTarget(
+    target: Parser.SyntaxNode,
+    scope: Scope,
+    declarationNode: Parser.SyntaxNode
+  ): void {
+    switch (target.type) {
+      case 'identifier':
+        this.declarePython(target, 'variable', scope, declarationNode);
+        return;
+
+      case 'pattern_list':
+      case 'tuple_pattern':
+      case 'list_pattern':
+      case 'tuple':
+      case 'list':
+      case 'expression_list':
+      case 'parenthesized_expression':
+      case 'list_splat_pattern':
+      case 'list_splat':
+      case 'as_pattern_target':
+        for (const child of target.namedChildren) {
+          this.declarePythonTarget(child, scope, declarationNode);
+        }
+        return;
+
+      default:
+        // Attribute or subscript targets read the object
+        this.visitPython(target, scope);
+    }
+  }
+
+  private visitPython(node: Parser.SyntaxNode, scope: Scope): void {
+    if (PYTHON_COMPREHENSION_TYPES.has(node.type)) {
+      this.visitPythonComprehension(node, scope);
+      return;
+    }
+
+    switch (node.type) {
+      case 'identifier':
+        this.reference(node, scope);
+        return;
+
+      case 'function_definition':
+      case 'lambda':
+        this.visitPythonFunction(node, scope);
+        return;
+
+      case 'class_definition': {
+        const nameNode = node.childForFieldName('name');
+        if (nameNode) {
+          this.declarePython(nameNode, 'class', scope, node);
+        }
+        const superclasses = node.childForFieldName('superclasses');
+        if (superclasses) {
+          this.visitPython(superclasses, scope);
+        }
+        const body = node.childForFieldName('body');
+        if (body) {
+          this.visitPythonChildren(body, this.createScope('class', node, scope));
+        }
+        return;
+      }
+
+      case 'decorated_definition':
+        this.visitPythonChildren(node, scope);
+        return;
+
+      case 'global_statement':
+      case 'nonlocal_statement': {
+        const names = node.type === 'global_statement' ? scope.globals : scope.nonlocals;
+        for (const child of node.namedChildren) {
+          if (child.type === 'identifier') {
+            names.add(getNodeText(child, this.code));
+          }
+        }
+        return;
+      }
+
+      case 'assignment':
+      case 'augmented_assignment': {
+        const left = node.childForFieldName('left');
+        const type = node.childForFieldName('type');
+        const right = node.childForFieldName('right');
+        if (type) this.visitPython(type, scope);
+        if (right) this.visitPython(right, scope);
+        if (left) {
+          if (node.type === 'augmented_assignment' && left.type === 'identifier') {
+            // `x += 1` reads x before rebinding it
+            this.reference(left, scope);
+          }
+          this.declarePythonTarget(left, scope, node);
+        }
+        return;
+      }
+
+      case 'for_statement': {
+        const left = node.childForFieldName('left');
+        if (left) this.declarePythonTarget(left, scope, node);
+        for (const child of node.namedChildren) {
+          if (left && child.startIndex === left.startIndex && child.type === left.type) continue;
+          this.visitPython(child, scope);
+        }
+        return;
+      }
+
+      case 'as_pattern': {
+        // `with x as y`, `except E as e`
+        const alias = node.childForFieldName('alias');
+        for (const child of node.namedChildren) {
+          if (alias && child.startIndex === alias.startIndex && child.type === alias.type) {
+            this.declarePythonTarget(alias, scope, node);
+          } else {
+            this.visitPython(child, scope);
+          }
+        }
+        return;
+      }
+
+      case 'named_expression': {
+        // Walrus targets bind in the enclosing non-comprehension scope
+        const nameNode = node.childForFieldName('name');
+        const value = node.childForFieldName('value');
+        if (value) this.visitPython(value, scope);
+        if (nameNode) {
+          let target = scope;
+          while (target.kind === 'comprehension' && target.parent) {
+            target = target.parent;
+          }
+          this.declarePython(nameNode, 'variable', target, node);
+        }
+        return;
+      }
+
+      case 'import_statement':
+      case 'import_from_statement': {
+        const moduleName = node.childForFieldName('module_name');
+        for (const child of node.namedChildren) {
+          if (moduleName && child.startIndex === moduleName.startIndex) continue;
+          if (child.type === 'aliased_import') {
+            const alias = child.childForFieldName('alias');
+            if (alias) this.declarePython(alias, 'import', scope, node);
+          } else if (child.type === 'dotted_name') {
+            // `import a.b` binds `a`; `from m import b` binds `b`
+            const parts = child.namedChildren;
+            const bound = node.type === 'import_statement' ? parts[0] : parts[parts.length - 1];
+            if (bound) this.declarePython(bound, 'import', scope, node);
+          }
+        }
+        return;
+      }
+
+      case 'attribute': {
+        const object = node.childForFieldName('object');
+        if (object) this.visitPython(object, scope);
+        return;
+      }
+
+      case 'keyword_argument': {
+        const value = node.childForFieldName('value');
+        if (value) this.visitPython(value, scope);
+        return;
+      }
+
+      default:
+        this.visitPythonChildren(node, scope);
+    }
+  }
+
+  private visitPythonFunction(node: Parser.SyntaxNode, scope: Scope): void {
+    const nameNode = node.childForFieldName('name');
+    if (nameNode && node.type === 'function_definition') {
+      this.declarePython(nameNode, 'function', scope, node);
+    }
+
+    const returnType = node.childForFieldName('return_type');
+    if (returnType) this.visitPython(returnType, scope);
+
+    const functionScope = this.createScope('function', node, scope);
+    const parameters = node.childForFieldName('parameters');
+    for (const param of parameters?.namedChildren || []) {
+      this.declarePythonParameter(param, functionScope, scope);
+    }
+
+    const body = node.childForFieldName('body');
+    if (body?.type === 'block') {
+      this.visitPythonChildren(body, functionScope);
+    } else if (body) {
+      this.visitPython(body, functionScope);
+    }
+  }
+
+  // Parameter names bind in the function; defaults and annotations run outside it
+  private declarePythonParameter(
+    param: Parser.SyntaxNode,
+    functionScope: Scope,
+    outerScope: Scope
+  ): void {
+    switch (param.type) {
+      case 'identifier':
+        this.declare(param, 'parameter', functionScope, param);
+        return;
+
+      case 'default_parameter':
+      case 'typed_default_parameter': {
+        const nameNode = param.childForFieldName('name');
+        const type = param.childForFieldName('type');
+        const value = param.childForFieldName('value');
+        if (nameNode) this.declarePythonParameter(nameNode, functionScope, outerScope);
+        if (type) this.visitPython(type, outerScope);
+        if (value) this.visitPython(value, outerScope);
+        return;
+      }
+
+      case 'typed_parameter': {
+        const type = param.childForFieldName('type');
+        for (const child of param.namedChildren) {
+          if (type && child.startIndex === type.startIndex) {
+            this.visitPython(type, outerScope);
+          } else {
+            this.declarePythonParameter(child, functionScope, outerScope);
+          }
+        }
+        return;
+      }
+
+      case 'list_splat_pattern':
+      case 'dictionary_splat_pattern':
+      case 'tuple_pattern':
+        for (const child of param.namedChildren) {
+          this.declarePythonParameter(child, functionScope, outerScope);
+        }
+        return;
+
+      default:
+        // Separators (`*`, `/`) bind nothing
+        return;
+    }
+  }
+
+  private visitPythonComprehension(node: Parser.SyntaxNode, scope: Scope): void {
+    const comprehensionScope = this.createScope('comprehension', node, scope);
+    let firstClause = true;
+
+    for (const child of node.namedChildren) {
+      if (child.type === 'for_in_clause') {
+        const left = child.childForFieldName('left');
+        const right = child.childForFieldName('right');
+        // The outermost iterable is evaluated in the enclosing scope
+        if (right) this.visitPython(right, firstClause ? scope : comprehensionScope);
+        if (left) this.declarePythonTarget(left, comprehensionScope, child);
+        firstClause = false;
+      } else {
+        this.visitPython(child, comprehensionScope);
+      }
+    }
+  }
+}
+
+/**
+ * Build the scope tree of a parsed file and resolve all references
+ */
+export function analyzeScopes(tree: Parser.Tree, code: string, language: Language): ScopeAnalysis {
+  return new ScopeBuilder(code, language, tree.rootNode).build();
+}
@@ -0,0 +1,221 @@
+import path from 'path';
+import ts from 'typescript';
+import { Parser } from '../parser';
+
+/**
+ * Type information for TypeScript
+ *
+ * Builds an in-memory TypeScript program for one file (strict mode, the ES2022
+ * and DOM libraries) so detectors can ask for the type of an expression
+ * instead of guessing from the text: "is this a Promise?", "can this be null
+ * under strictNullChecks?".
+ *
+ * The file is checked on its own: imports are not resolved, so values whose
+ * types come from other modules are unknown. Every question answers `null`
+ * when the type is unknown (`any`, `unknown`, unresolved, or a node the
+ * compiler does not see), and detectors fall back to their heuristics.
+ *
+ * Tree-sitter and the compiler both index the source string, so nodes are
+ * matched by their offsets.
+ */
+
+export type Nullability = 'non-null' | 'nullable' | 'null';
+
+// What a loose comparison can coerce between
+export type PrimitiveKind =
+  | 'string'
+  | 'number'
+  | 'bigint'
+  | 'boolean'
+  | 'symbol'
+  | 'null'
+  | 'undefined'
+  | 'object';
+
+const FILE_NAME = '/input.ts';
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  strict: true,
+  target: ts.ScriptTarget.ES2022,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+  noEmit: true,
+  noResolve: true,
+  types: [],
+};
+
+const LIB_DIR = path.dirname(ts.getDefaultLibFilePath(COMPILER_OPTIONS));
+
+// Parsed library files, shared by every program (parsing lib.dom.d.ts takes
+// most of a second; checking a file afterwards takes milliseconds)
+const libFiles = new Map<string, ts.SourceFile | undefined>();
+
+function getLibFile(fileName: string): ts.SourceFile | undefined {
+  if (!libFiles.has(fileName)) {
+    const text = fileName.startsWith(LIB_DIR) ? ts.sys.readFile(fileName) : undefined;
+    libFiles.set(
+      fileName,
+      text === undefined ? undefined : ts.createSourceFile(fileName, text, ts.ScriptTarget.ES2022)
+    );
+  }
+  return libFiles.get(fileName);
+}
+
+const NULLISH_FLAGS = ts.TypeFlags.Null | ts.TypeFlags.Undefined | ts.TypeFlags.Void;
+
+// Types that say nothing about the value
+const UNKNOWN_FLAGS = ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter;
+
+const PRIMITIVE_FLAGS: Array<[ts.TypeFlags, PrimitiveKind]> = [
+  [ts.TypeFlags.StringLike, 'string'],
+  [ts.TypeFlags.NumberLike, 'number'],
+  [ts.TypeFlags.BigIntLike, 'bigint'],
+  [ts.TypeFlags.BooleanLike, 'boolean'],
+  [ts.TypeFlags.ESSymbolLike, 'symbol'],
+  [ts.TypeFlags.Null, 'null'],
+  [ts.TypeFlags.Undefined | ts.TypeFlags.Void, 'undefined'],
+  [ts.TypeFlags.Object | ts.TypeFlags.NonPrimitive, 'object'],
+];
+
+/**
+ * Type information of one TypeScript file
+ */
+export class TypeAnalysis {
+  private checker: ts.TypeChecker;
+
+  constructor(
+    program: ts.Program,
+    private readonly sourceFile: ts.SourceFile
+  ) {
+    this.checker = program.getTypeChecker();
+  }
+
+  /**
+   * The type of an expression as the compiler prints it
+   */
+  typeOf(node: Parser.SyntaxNode): string | null {
+    const type = this.typeAt(node);
+    return type ? this.checker.typeToString(type) : null;
+  }
+
+  /**
+   * Whether an expression is a Promise (or another thenable); null if some
+   * members of its type are and others are not
+   */
+  isPromise(node: Parser.SyntaxNode): boolean | null {
+    const type = this.typeAt(node);
+    if (!type) {
+      return null;
+    }
+
+    const values = this.members(type).filter((member) => !(member.flags & NULLISH_FLAGS));
+    if (values.some((member) => member.flags & UNKNOWN_FLAGS)) {
+      return null;
+    }
+    const thenables = values.filter((member) => this.isThenable(member)).length;
+    if (thenables === 0) {
+      return false;
+    }
+    return thenables === values.length ? true : null;
+  }
+
+  /**
+   * Whether an expression can be null or undefined at this point, using the
+   * type the compiler narrowed it to
+   */
+  nullability(node: Parser.SyntaxNode): Nullability | null {
+    const type = this.typeAt(node);
+    if (!type) {
+      return null;
+    }
+
+    const members = this.members(type);
+    if (members.some((member) => member.flags & UNKNOWN_FLAGS)) {
+      return null;
+    }
+    const nullish = members.filter((member) => member.flags & NULLISH_FLAGS).length;
+    if (nullish === 0) {
+      return 'non-null';
+    }
+    return nullish === members.length ? 'null' : 'nullable';
+  }
+
+  /**
+   * The primitive kind of every value an expression can have, or null if
+   * they differ
+   */
+  primitiveKind(node: Parser.SyntaxNode): PrimitiveKind | null {
+    const type = this.typeAt(node);
+    if (!type) {
+      return null;
+    }
+
+    const kinds = new Set(
+      this.members(type).map(
+        (member) => PRIMITIVE_FLAGS.find(([flags]) => member.flags & flags)?.[1] ?? null
+      )
+    );
+    const [kind] = kinds;
+    return kinds.size === 1 ? kind : null;
+  }
+
+  // The type of the compiler node with the same span, unless it is unknown
+  private typeAt(node: Parser.SyntaxNode): ts.Type | null {
+    const tsNode = this.findNode(node.startIndex, node.endIndex);
+    if (!tsNode) {
+      return null;
+    }
+    const type = this.checker.getTypeAtLocation(tsNode);
+    return type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown) ? null : type;
+  }
+
+  // The innermost compiler node spanning exactly [start, end)
+  private findNode(start: number, end: number): ts.Node | null {
+    let found: ts.Node | null = null;
+    const visit = (node: ts.Node): void => {
+      const nodeStart = node.getStart(this.sourceFile);
+      if (nodeStart > start || node.end < end) {
+        return;
+      }
+      if (nodeStart === start && node.end === end) {
+        found = node;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.sourceFile);
+    return found;
+  }
+
+  // Members of a union type, or the type itself
+  private members(type: ts.Type): ts.Type[] {
+    return type.isUnion() ? type.types : [type];
+  }
+
+  private isThenable(type: ts.Type): boolean {
+    const then = type.getProperty('then');
+    return (
+      then !== undefined &&
+      this.checker.getTypeOfSymbolAtLocation(then, this.sourceFile).getCallSignatures().length > 0
+    );
+  }
+}
+
+/**
+ * Type-check TypeScript source in memory
+ */
+export function analyzeTypes(code: string): TypeAnalysis {
+  const sourceFile = ts.createSourceFile(FILE_NAME, code, ts.ScriptTarget.ES2022, true);
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName) => (fileName === FILE_NAME ? sourceFile : getLibFile(fileName)),
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => fileName === FILE_NAME || getLibFile(fileName) !== undefined,
+    readFile: (fileName) => (fileName === FILE_NAME ? code : getLibFile(fileName)?.text),
+  };
+
+  const program = ts.createProgram([FILE_NAME], COMPILER_OPTIONS, host);
+  return new TypeAnalysis(program, sourceFile);
+}
@@ -0,0 +1,158 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { initParser, parseCode, getLanguageForPath, Parser } from './parser';
+import { getDetectorsForLanguage } from './detectors';
+import { createDetectorVisitor, dispatchVisitors } from './engine/visitor';
+import { analyzeScopes } from './analysis/scopes';
+import { DetectorContext, Language } from './types';
+
+/**
+ * Detector traversal benchmark
+ *
+ * Compares running every detector's detect() on its own (one tree traversal
+ * per detector) with the engine's single-pass visitor dispatch, on the files
+ * in backend/fixtures plus one large file built by repeating the JavaScript
+ * fixtures. Parsing and scope analysis are done once up front and excluded
+ * from the timings.
+ *
+ * Usage:
+ *   npm run build && npm run bench -- [--iterations 20] [--size 100000]
+ */
+
+interface BenchmarkInput {
+  name: string;
+  language: Language;
+  code: string;
+}
+
+interface BenchmarkResult {
+  name: string;
+  bytes: number;
+  separateMs: number;
+  singlePassMs: number;
+}
+
+const FIXTURES_DIR = path.resolve(__dirname, '..', 'fixtures');
+
+function loadInputs(size: number): BenchmarkInput[] {
+  const inputs: BenchmarkInput[] = [];
+  for (const file of fs.readdirSync(FIXTURES_DIR).sort()) {
+    const language = getLanguageForPath(file);
+    if (language) {
+      inputs.push({
+        name: file,
+        language,
+        code: fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'),
+      });
+    }
+  }
+
+  // Every fixture is a standalone script, so they can be concatenated
+  const javascript = inputs
+    .filter((input) => input.language === 'javascript' && input.name.endsWith('.js'))
+    .map((input) => input.code)
+    .join('\n');
+  if (javascript) {
+    const copies = Math.max(1, Math.ceil(size / javascript.length));
+    inputs.push({
+      name: `combined (${copies}x)`,
+      language: 'javascript',
+      code: Array(copies).fill(javascript).join('\n'),
+    });
+  }
+
+  return inputs;
+}
+
+// Average milliseconds per run of `fn`, after one warm-up run
+function time(iterations: number, fn: () => void): number {
+  fn();
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    fn();
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6 / iterations;
+}
+
+function benchmark(input: BenchmarkInput, iterations: number): BenchmarkResult {
+  const tree: Parser.Tree = parseCode(input.code, input.language);
+  const scopes = analyzeScopes(tree, input.code, input.language);
+  const context: DetectorContext = { options: {}, scopes };
+  const detectors = getDetectorsForLanguage(input.language);
+
+  try {
+    const separateMs = time(iterations, () => {
+      for (const detector of detectors) {
+        detector.detect(input.code, input.language, tree, context);
+      }
+    });
+
+    const singlePassMs = time(iterations, () => {
+      const visitors = detectors.map((detector) =>
+        createDetectorVisitor(detector, input.code, input.language, tree, context)
+      );
+      dispatchVisitors(tree.rootNode, visitors);
+      for (const visitor of visitors) {
+        visitor.finish();
+      }
+    });
+
+    return { name: input.name, bytes: input.code.length, separateMs, singlePassMs };
+  } finally {
+    tree.delete();
+  }
+}
+
+function formatTable(results: BenchmarkResult[]): string {
+  const rows = [
+    ['File', 'Bytes', 'Per detector (ms)', 'Single pass (ms)', 'Speedup'],
+    ...results.map((result) => [
+      result.name,
+      String(result.bytes),
+      result.separateMs.toFixed(2),
+      result.singlePassMs.toFixed(2),
+      `${(result.separateMs / result.singlePassMs).toFixed(2)}x`,
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+        )
+        .join('  ')
+    )
+    .join('\n');
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      iterations: { type: 'string', default: '20' },
+      size: { type: 'string', default: '100000' },
+    },
+  });
+
+  const iterations = parseInt(values.iterations as string, 10);
+  const size = parseInt(values.size as string, 10);
+  if (!(iterations > 0) || !(size > 0)) {
+    throw new Error('--iterations and --size must be positive integers');
+  }
+
+  await initParser();
+
+  const results = loadInputs(size).map((input) => benchmark(input, iterations));
+  console.log(formatTable(results));
+}
+
+// Run when executed directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import { BaselineEntry } from '../types';
+import { baselineFileSchema } from '../middleware/validation';
+
+/**
+ * Baseline files
+ *
+ * `rookie --write-baseline <file>` records the current findings by file path
+ * (as given on the command line, with forward slashes), e.g.
+ *
+ *   {
+ *     "version": 1,
+ *     "files": {
+ *       "src/app.js": [
+ *         { "fingerprint": "3f9a1c0b7d2e4a61", "name": "var_usage", "line": 3, "message": "..." }
+ *       ]
+ *     }
+ *   }
+ *
+ * and `rookie --baseline <file>` only reports findings that are not in it.
+ */
+
+export interface BaselineFile {
+  version: 1;
+  // Entries by file path
+  files: Record<string, BaselineEntry[]>;
+}
+
+/**
+ * Path of a file as recorded in a baseline
+ */
+export function baselinePath(filePath: string): string {
+  return filePath.split('\\').join('/');
+}
+
+/**
+ * Read and validate a baseline file, throwing a readable error if invalid
+ */
+export function loadBaselineFile(filePath: string): BaselineFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read baseline ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = baselineFileSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    throw new Error(`Invalid baseline ${filePath}:\n${problems.join('\n')}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Write a baseline file; files without entries are left out
+ */
+export function writeBaselineFile(filePath: string, files: Record<string, BaselineEntry[]>): void {
+  const baseline: BaselineFile = {
+    version: 1,
+    files: Object.fromEntries(Object.entries(files).filter(([, entries]) => entries.length > 0)),
+  };
+  fs.writeFileSync(filePath, `${JSON.stringify(baseline, null, 2)}\n`);
+}
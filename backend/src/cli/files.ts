@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { getLanguageForPath } from '../parser';
+import { Language } from '../types';
+
+// A source file selected for analysis
+export interface SourceFile {
+  path: string;
+  language: Language;
+}
+
+// Directories never worth descending into
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next']);
+
+/**
+ * Check if a CLI argument is a glob pattern rather than a plain path
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern to a regular expression.
+ *
+ * Supports `**` (any number of directories), `*` (anything but a path
+ * separator), `?` (a single character) and `{a,b}` alternation.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.split(path.sep).join('/');
+  let source = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === '*') {
+      if (normalized[i + 1] === '*') {
+        // '**/' matches zero or more directories
+        if (normalized[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = normalized.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = normalized
+        .slice(i + 1, end)
+        .split(',')
+        .map((alt) => alt.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      source += `(?:${alternatives.join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+// Get the non-magic leading directory of a glob (e.g. 'src' for 'src/**/*.ts')
+function getGlobBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const base: string[] = [];
+
+  for (const segment of segments) {
+    if (isGlobPattern(segment)) break;
+    base.push(segment);
+  }
+
+  return base.join('/') || '.';
+}
+
+// Recursively list files under a directory
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        files.push(...listFiles(fullPath));
+      }
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Expand CLI targets (files, directories or glob patterns) into the list of
+ * source files to analyze. Directories are walked recursively and only files
+ * with a recognised extension are kept. Explicitly named files with an
+ * unknown extension are reported as an error.
+ */
+export function collectFiles(targets: string[], cwd: string = process.cwd()): SourceFile[] {
+  const selected = new Map<string, SourceFile>();
+
+  const add = (filePath: string, explicit: boolean): void => {
+    const language = getLanguageForPath(filePath);
+    if (!language) {
+      if (explicit) {
+        throw new Error(`Cannot infer language for '${filePath}'`);
+      }
+      return;
+    }
+    const relative = path.relative(cwd, filePath) || filePath;
+    selected.set(relative, { path: relative, language });
+  };
+
+  for (const target of targets) {
+    if (isGlobPattern(target)) {
+      const base = path.resolve(cwd, getGlobBase(target));
+      if (!fs.existsSync(base)) continue;
+
+      const matcher = globToRegExp(path.isAbsolute(target) ? path.relative(cwd, target) : target);
+      for (const file of listFiles(base)) {
+        const relative = path.relative(cwd, file).split(path.sep).join('/');
+        if (matcher.test(relative)) {
+          add(file, false);
+        }
+      }
+      continue;
+    }
+
+    const resolved = path.resolve(cwd, target);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`No such file or directory: '${target}'`);
+    }
+
+    if (fs.statSync(resolved).isDirectory()) {
+      for (const file of listFiles(resolved)) {
+        add(file, false);
+      }
+    } else {
+      add(resolved, true);
+    }
+  }
+
+  return [...selected.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,176 @@
+import { BaselineComparison, Language, Mistake, Severity, SourceRange } from '../types';
+
+// Output formats supported by the CLI
+export type OutputFormat = 'text' | 'json' | 'sarif';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif'];
+
+// Analysis results for a single file
+export interface FileReport {
+  path: string;
+  language: Language;
+  mistakes: Mistake[];
+  score: number;
+  // Set when compared with a baseline
+  baseline?: BaselineComparison;
+}
+
+// Map our severities onto SARIF result levels
+const SARIF_LEVELS: Record<Severity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Human-readable report, grouped by file
+ */
+export function formatText(reports: FileReport[]): string {
+  const lines: string[] = [];
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+
+  for (const report of reports) {
+    if (report.mistakes.length === 0) continue;
+
+    lines.push(report.path);
+    for (const mistake of report.mistakes) {
+      counts[mistake.severity]++;
+      const location = `${mistake.line}:${mistake.column}`;
+      lines.push(
+        `  ${location.padEnd(8)} ${mistake.severity.padEnd(8)} ${mistake.name.padEnd(20)} ${mistake.message}`
+      );
+    }
+    lines.push('');
+  }
+
+  const total = counts.error + counts.warning + counts.info;
+  if (total === 0) {
+    lines.push(`No problems found in ${pluralize(reports.length, 'file')}`);
+  } else {
+    lines.push(
+      `${pluralize(total, 'problem')} (${pluralize(counts.error, 'error')}, ${pluralize(
+        counts.warning,
+        'warning'
+      )}, ${counts.info} info) in ${pluralize(reports.length, 'file')}`
+    );
+  }
+
+  const compared = reports.filter((report) => report.baseline);
+  if (compared.length > 0) {
+    const matched = compared.reduce((sum, report) => sum + report.baseline!.matched, 0);
+    const fixed = compared.flatMap((report) =>
+      report.baseline!.fixed.map((entry) => ({ path: report.path, entry }))
+    );
+    lines.push(
+      `${pluralize(matched, 'baseline finding')} not reported, ${fixed.length} fixed since the baseline`
+    );
+    for (const { path, entry } of fixed) {
+      lines.push(`  ${path}:${entry.line}  ${entry.name.padEnd(20)} ${entry.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Machine-readable JSON report
+ */
+export function formatJson(reports: FileReport[]): string {
+  return JSON.stringify({ files: reports }, null, 2);
+}
+
+// SARIF region of a finding or related location; the end and offsets are
+// missing for findings from before ranges were reported
+function sarifRegion(range: Pick<SourceRange, 'line' | 'column'> & Partial<SourceRange>) {
+  return {
+    startLine: range.line,
+    startColumn: range.column,
+    endLine: range.endLine,
+    endColumn: range.endColumn,
+    charOffset: range.startOffset,
+    charLength:
+      range.startOffset !== undefined && range.endOffset !== undefined
+        ? range.endOffset - range.startOffset
+        : undefined,
+  };
+}
+
+/**
+ * SARIF 2.1.0 report for code scanning integrations
+ */
+export function formatSarif(reports: FileReport[]): string {
+  const ruleIds = new Set<string>();
+  const results = [];
+
+  for (const report of reports) {
+    const artifactLocation = { uri: report.path.split('\\').join('/') };
+    for (const mistake of report.mistakes) {
+      ruleIds.add(mistake.name);
+      results.push({
+        ruleId: mistake.name,
+        level: SARIF_LEVELS[mistake.severity],
+        message: { text: mistake.message },
+        locations: [
+          {
+            physicalLocation: { artifactLocation, region: sarifRegion(mistake) },
+          },
+        ],
+        relatedLocations: mistake.relatedLocations?.map((location, index) => ({
+          id: index + 1,
+          message: { text: location.message },
+          physicalLocation: { artifactLocation, region: sarifRegion(location) },
+        })),
+        // Compared with a baseline, every reported finding is new
+        baselineState: report.baseline ? 'new' : undefined,
+        partialFingerprints: mistake.fingerprint
+          ? { 'rookieFingerprint/v1': mistake.fingerprint }
+          : undefined,
+        properties: {
+          certainty: mistake.certainty,
+          confidence: mistake.confidence,
+        },
+      });
+    }
+  }
+
+  return JSON.stringify(
+    {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'rookie',
+              informationUri: 'https://github.com/rookiemistakes/rookiemistakes.dev',
+              rules: [...ruleIds].sort().map((id) => ({ id })),
+            },
+          },
+          // Columns count UTF-16 code units, as in the analyze responses
+          columnKind: 'utf16CodeUnits',
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Render reports in the requested format
+ */
+export function formatReports(reports: FileReport[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJson(reports);
+    case 'sarif':
+      return formatSarif(reports);
+    default:
+      return formatText(reports);
+  }
+}
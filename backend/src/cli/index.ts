@@ -0,0 +1,253 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { initParser } from '../parser';
+import { analyze, applyBaseline, createBaseline } from '../engine';
+import { AnalysisConfig, BaselineEntry, Severity } from '../types';
+import { isSeverity, meetsSeverity } from '../lib/severity';
+import { collectFiles } from './files';
+import { FileReport, OutputFormat, OUTPUT_FORMATS, formatReports } from './format';
+import { RC_FILE_NAME, findRcFile, loadRcFile } from './rcfile';
+import { BaselineFile, baselinePath, loadBaselineFile, writeBaselineFile } from './baseline';
+import { loadQueryRules } from '../rules';
+import { loadPlugins } from '../plugins';
+
+/**
+ * rookie CLI
+ *
+ * Runs the detectors against local files without starting the API server.
+ *
+ * Usage:
+ *   rookie [options] <file|directory|glob>...
+ *
+ * Rule settings are read from --config, or from the nearest .rookierc.json
+ * in the working directory or its parents. Query rules are loaded from the
+ * --rules directory and detector plugins from --plugin; a plugin that fails
+ * to load is reported and skipped. --write-baseline records the findings in a
+ * baseline file, and --baseline only reports findings that are not in one
+ * (see ./baseline). --type-check runs the TypeScript compiler on TypeScript
+ * files so detectors can use its types (see ../analysis/typecheck).
+ *
+ * Exit codes:
+ *   0 - no findings at or above the --fail-on severity
+ *   1 - findings at or above the --fail-on severity
+ *   2 - usage or runtime error
+ */
+
+export const EXIT_OK = 0;
+export const EXIT_FINDINGS = 1;
+export const EXIT_ERROR = 2;
+
+const USAGE = `Usage: rookie [options] <file|directory|glob>...
+
+Options:
+  -f, --format <format>        Output format: ${OUTPUT_FORMATS.join(', ')} (default: text)
+      --min-severity <level>   Only report findings at or above: info, warning, error (default: info)
+      --fail-on <level>        Exit with code 1 when a finding at or above this severity
+                               is reported: info, warning, error, never (default: error)
+  -c, --config <path>          Rule configuration file (default: nearest ${RC_FILE_NAME})
+  -r, --rules <dir>            Directory of query rule files (*.json) to run as well
+  -p, --plugin <path|package>  Load a detector plugin (repeatable)
+  -b, --baseline <path>        Only report findings that are not in this baseline file
+      --write-baseline <path>  Record the current findings in a baseline file and exit
+      --type-check             Use TypeScript compiler types for .ts files
+  -h, --help                   Show this help
+`;
+
+// Output streams, injectable for testing
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  cwd: string;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+  cwd: process.cwd(),
+};
+
+interface CliOptions {
+  format: OutputFormat;
+  minSeverity: Severity;
+  failOn: Severity | 'never';
+  configPath?: string;
+  rulesDir?: string;
+  plugins: string[];
+  baselinePath?: string;
+  writeBaselinePath?: string;
+  typeCheck: boolean;
+  targets: string[];
+  help: boolean;
+}
+
+/**
+ * Parse command-line arguments, throwing on invalid values
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'text' },
+      'min-severity': { type: 'string', default: 'info' },
+      'fail-on': { type: 'string', default: 'error' },
+      config: { type: 'string', short: 'c' },
+      rules: { type: 'string', short: 'r' },
+      plugin: { type: 'string', short: 'p', multiple: true, default: [] },
+      baseline: { type: 'string', short: 'b' },
+      'write-baseline': { type: 'string' },
+      'type-check': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(
+      `Invalid --format '${values.format}'. Expected one of: ${OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+
+  const minSeverity = values['min-severity'];
+  if (!isSeverity(minSeverity)) {
+    throw new Error(`Invalid --min-severity '${minSeverity}'. Expected info, warning or error`);
+  }
+
+  const failOn = values['fail-on'];
+  if (failOn !== 'never' && !isSeverity(failOn)) {
+    throw new Error(`Invalid --fail-on '${failOn}'. Expected info, warning, error or never`);
+  }
+
+  return {
+    format,
+    minSeverity,
+    failOn: failOn as Severity | 'never',
+    configPath: values.config,
+    rulesDir: values.rules,
+    plugins: values.plugin as string[],
+    baselinePath: values.baseline,
+    writeBaselinePath: values['write-baseline'],
+    typeCheck: values['type-check'] === true,
+    targets: positionals,
+    help: values.help === true,
+  };
+}
+
+/**
+ * Run the CLI and resolve with the process exit code
+ */
+export async function run(argv: string[], io: CliIO = defaultIO): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(error instanceof Error ? error.message : String(error));
+    io.stderr(USAGE);
+    return EXIT_ERROR;
+  }
+
+  if (options.help) {
+    io.stdout(USAGE);
+    return EXIT_OK;
+  }
+
+  if (options.targets.length === 0) {
+    io.stderr('No files, directories or globs given');
+    io.stderr(USAGE);
+    return EXIT_ERROR;
+  }
+
+  try {
+    const baseline: BaselineFile | undefined = options.baselinePath
+      ? loadBaselineFile(path.resolve(io.cwd, options.baselinePath))
+      : undefined;
+
+    const files = collectFiles(options.targets, io.cwd);
+    if (files.length === 0) {
+      io.stderr('No analyzable files matched');
+      return EXIT_ERROR;
+    }
+
+    await initParser();
+
+    if (options.rulesDir) {
+      loadQueryRules(path.resolve(io.cwd, options.rulesDir));
+    }
+
+    for (const plugin of options.plugins) {
+      // Plugins are given as paths (./my-plugin.js) or package names
+      const isPath = plugin.startsWith('.') || path.isAbsolute(plugin);
+      const { failed } = loadPlugins({
+        packages: [isPath ? path.resolve(io.cwd, plugin) : plugin],
+        cwd: io.cwd,
+      });
+      for (const failure of failed) {
+        io.stderr(`rookie: plugin '${failure.source}' failed to load: ${failure.error}`);
+      }
+    }
+
+    // Read after the rules and plugins, whose detectors the config may name
+    const configPath = options.configPath
+      ? path.resolve(io.cwd, options.configPath)
+      : findRcFile(io.cwd);
+    const config: AnalysisConfig | undefined = configPath ? loadRcFile(configPath) : undefined;
+
+    const baselineEntries: Record<string, BaselineEntry[]> = {};
+    const reports: FileReport[] = files.map((file) => {
+      const code = fs.readFileSync(path.resolve(io.cwd, file.path), 'utf8');
+      const { response: analyzed, metadata } = analyze(code, file.language, {
+        minSeverity: options.minSeverity,
+        typeCheck: options.typeCheck,
+        config,
+      });
+
+      for (const detector of metadata.failedDetectors) {
+        io.stderr(`rookie: detector '${detector}' failed on ${file.path}`);
+      }
+
+      const key = baselinePath(file.path);
+      baselineEntries[key] = createBaseline(analyzed.mistakes);
+      const response = baseline
+        ? applyBaseline(analyzed, baseline.files[key] ?? [], config?.scoring)
+        : analyzed;
+
+      return {
+        path: file.path,
+        language: file.language,
+        mistakes: response.mistakes,
+        score: response.score,
+        baseline: response.baseline,
+      };
+    });
+
+    if (options.writeBaselinePath) {
+      writeBaselineFile(path.resolve(io.cwd, options.writeBaselinePath), baselineEntries);
+      const count = Object.values(baselineEntries).reduce((sum, e) => sum + e.length, 0);
+      io.stdout(
+        `Wrote ${count} finding${count === 1 ? '' : 's'} to baseline ${options.writeBaselinePath}`
+      );
+      return EXIT_OK;
+    }
+
+    io.stdout(formatReports(reports, options.format));
+
+    const failOn = options.failOn;
+    const failed =
+      failOn !== 'never' &&
+      reports.some((report) => report.mistakes.some((m) => meetsSeverity(m.severity, failOn)));
+
+    return failed ? EXIT_FINDINGS : EXIT_OK;
+  } catch (error) {
+    io.stderr(`rookie: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_ERROR;
+  }
+}
+
+// Run when executed directly
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { AnalysisConfig } from '../types';
+import { analysisConfigSchema } from '../middleware/validation';
+
+/**
+ * .rookierc.json loading
+ *
+ * The file uses the same schema as the `options` field of
+ * POST /api/v1/analyze, e.g.
+ *
+ *   {
+ *     "rules": {
+ *       "var_usage": "off",
+ *       "double_equals": { "severity": "error", "options": { "allowNullComparison": true } }
+ *     }
+ *   }
+ */
+
+export const RC_FILE_NAME = '.rookierc.json';
+
+/**
+ * Find the nearest .rookierc.json in `dir` or one of its parents
+ */
+export function findRcFile(dir: string): string | null {
+  let current = path.resolve(dir);
+
+  for (;;) {
+    const candidate = path.join(current, RC_FILE_NAME);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Read and validate a configuration file, throwing a readable error if invalid
+ */
+export function loadRcFile(filePath: string): AnalysisConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read config ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = analysisConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    throw new Error(`Invalid config ${filePath}:\n${problems.join('\n')}`);
+  }
+
+  return result.data;
+}
@@ -1,8 +1,9 @@
 import dotenv from 'dotenv';
+import os from 'os';
 import path from 'path';
 
 // Load .env file
-dotenv.config({ path: path.resolve(__dirname, '../.env') });
+dotenv.config({ path: path.resolve(__dirname, '../.env'), quiet: true });
 
 export const config = {
   // Server
@@ -23,6 +24,7 @@ export const config = {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
     maxAnalyzeRequests: parseInt(process.env.RATE_LIMIT_ANALYZE_MAX || '30', 10),
+    maxSessionEdits: parseInt(process.env.RATE_LIMIT_SESSION_EDITS_MAX || '1000', 10),
   },
 
   // Logging
@@ -34,8 +36,47 @@ export const config = {
   // API
   api: {
     maxCodeSize: parseInt(process.env.MAX_CODE_SIZE || '100000', 10), // 100KB
+    maxProjectFiles: parseInt(process.env.MAX_PROJECT_FILES || '50', 10),
+    maxBatchItems: parseInt(process.env.MAX_BATCH_ITEMS || '200', 10),
+    maxBatchSize: parseInt(process.env.MAX_BATCH_SIZE || '800000', 10), // total characters
     version: process.env.API_VERSION || 'v1',
   },
+
+  // Analysis result cache (entries; 0 disables it)
+  cache: {
+    maxEntries: parseInt(process.env.ANALYSIS_CACHE_SIZE || '500', 10),
+  },
+
+  // Analysis worker threads (0 analyzes on the main thread, without hard limits)
+  workers: {
+    size: parseInt(process.env.ANALYSIS_WORKERS || String(Math.max(1, os.cpus().length - 1)), 10),
+    timeoutMs: parseInt(process.env.ANALYSIS_TIMEOUT_MS || '5000', 10), // per attempt
+    maxMemoryMb: parseInt(process.env.ANALYSIS_WORKER_MEMORY_MB || '256', 10),
+  },
+
+  // Incremental analysis sessions (live editor)
+  sessions: {
+    ttlMs: parseInt(process.env.SESSION_TTL_MS || '600000', 10), // 10 minutes idle
+    maxMemoryMb: parseInt(process.env.SESSION_MAX_MEMORY_MB || '64', 10),
+  },
+
+  // Asynchronous analysis jobs (run at once, and waiting to run)
+  jobs: {
+    concurrency: parseInt(process.env.JOBS_CONCURRENCY || '2', 10),
+    maxQueued: parseInt(process.env.JOBS_MAX_QUEUED || '100', 10),
+    retentionMs: parseInt(process.env.JOBS_RETENTION_MS || '86400000', 10), // 24 hours
+  },
+
+  // Query rules (directory of *.json rule files, loaded at startup)
+  rules: {
+    dir: process.env.RULES_DIR || '',
+  },
+
+  // Plugins (directory of plugin modules and/or comma-separated package names)
+  plugins: {
+    dir: process.env.PLUGINS_DIR || '',
+    packages: (process.env.PLUGINS || '').split(',').map((name) => name.trim()).filter(Boolean),
+  },
 } as const;
 
 // Validate required config
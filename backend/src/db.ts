@@ -1,14 +1,18 @@
 import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import path from 'path';
 import fs from 'fs';
-import { Snippet, AnalyzeResponse, Language } from './types';
+import { Snippet, AnalyzeResponse, JobRecord, Language } from './types';
 
 // Database file location - can be overridden via environment variable
 const DB_PATH = process.env.DB_PATH || path.join(__dirname, '..', 'data', 'snippets.db');
 
+// How long changes to jobs may wait before they are saved to file
+const JOB_SAVE_DELAY_MS = 1000;
+
 // Database instance
 let db: SqlJsDatabase | null = null;
 let dbInitialized = false;
+let saveTimer: NodeJS.Timeout | null = null;
 
 /**
  * Initialize the database
@@ -51,6 +55,28 @@ export async function initDatabase(): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_snippets_created_at ON snippets(created_at);
   `);
 
+  // Create jobs table if it doesn't exist
+  db.run(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      status TEXT NOT NULL,
+      request JSON NOT NULL,
+      callback_url TEXT,
+      completed INTEGER NOT NULL DEFAULT 0,
+      total INTEGER NOT NULL DEFAULT 0,
+      result JSON,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      started_at TEXT,
+      finished_at TEXT
+    );
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+  `);
+
   // Save to file
   saveToFile();
 
@@ -62,12 +88,26 @@ export async function initDatabase(): Promise<void> {
  * Save database to file
  */
 function saveToFile(): void {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
   if (!db) return;
   const data = db.export();
   const buffer = Buffer.from(data);
   fs.writeFileSync(DB_PATH, buffer);
 }
 
+/**
+ * Save database to file after JOB_SAVE_DELAY_MS, once for all the changes
+ * made until then
+ */
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(saveToFile, JOB_SAVE_DELAY_MS);
+  saveTimer.unref();
+}
+
 /**
  * Get the database instance (throws if not initialized)
  */
@@ -191,6 +231,127 @@ export function deleteOldSnippets(olderThanDays: number = 30): number {
   return 0;
 }
 
+// Row of the jobs table
+interface JobRow {
+  id: string;
+  kind: string;
+  status: string;
+  request: string;
+  callback_url: string | null;
+  completed: number;
+  total: number;
+  result: string | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+function toJobRecord(row: JobRow): JobRecord {
+  return {
+    id: row.id,
+    kind: row.kind as JobRecord['kind'],
+    status: row.status as JobRecord['status'],
+    request: JSON.parse(row.request),
+    callbackUrl: row.callback_url ?? undefined,
+    progress: { completed: row.completed, total: row.total },
+    result: row.result ? JSON.parse(row.result) : undefined,
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    finishedAt: row.finished_at ?? undefined,
+  };
+}
+
+/**
+ * Insert a job, or update the state of a stored one. A job changes several
+ * times while it runs, so the changes reach the file in batches.
+ */
+export function saveJob(job: JobRecord): void {
+  const database = getDb();
+  const stmt = database.prepare(`SELECT 1 FROM jobs WHERE id = ?`);
+  stmt.bind([job.id]);
+  const exists = stmt.step();
+  stmt.free();
+
+  const state = [
+    job.status,
+    job.progress.completed,
+    job.progress.total,
+    job.result === undefined ? null : JSON.stringify(job.result),
+    job.error ?? null,
+    job.startedAt ?? null,
+    job.finishedAt ?? null,
+  ];
+  if (exists) {
+    // Updated in place, the row keeps its rowid (the order of jobs created at once)
+    database.run(
+      `UPDATE jobs
+       SET status = ?, completed = ?, total = ?, result = ?, error = ?, started_at = ?,
+           finished_at = ?
+       WHERE id = ?`,
+      [...state, job.id]
+    );
+  } else {
+    database.run(
+      `INSERT INTO jobs
+        (status, completed, total, result, error, started_at, finished_at,
+         id, kind, request, callback_url, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        ...state,
+        job.id,
+        job.kind,
+        JSON.stringify(job.request),
+        job.callbackUrl ?? null,
+        job.createdAt,
+      ]
+    );
+  }
+  scheduleSave();
+}
+
+/**
+ * Retrieve a job by ID
+ */
+export function getJob(id: string): JobRecord | null {
+  const database = getDb();
+  const stmt = database.prepare(`SELECT * FROM jobs WHERE id = ?`);
+  stmt.bind([id]);
+
+  const job = stmt.step() ? toJobRecord(stmt.getAsObject() as unknown as JobRow) : null;
+  stmt.free();
+  return job;
+}
+
+/**
+ * Get the jobs that are queued or were running, oldest first
+ */
+export function getUnfinishedJobs(): JobRecord[] {
+  const database = getDb();
+  const stmt = database.prepare(`
+    SELECT * FROM jobs
+    WHERE status IN ('queued', 'running')
+    ORDER BY created_at, rowid
+  `);
+
+  const jobs: JobRecord[] = [];
+  while (stmt.step()) {
+    jobs.push(toJobRecord(stmt.getAsObject() as unknown as JobRow));
+  }
+  stmt.free();
+  return jobs;
+}
+
+/**
+ * Delete the jobs that finished before a time (an ISO 8601 string)
+ */
+export function deleteFinishedJobs(before: string): void {
+  const database = getDb();
+  database.run(`DELETE FROM jobs WHERE finished_at < ?`, [before]);
+  scheduleSave();
+}
+
 /**
  * Close database connection (for graceful shutdown)
  */
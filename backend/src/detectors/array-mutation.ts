@@ -1,16 +1,17 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
-import { findNodes, getNodeText, getLineNumber, getColumnNumber } from '../parser';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
+import { getNodeText, getNodeRange } from '../parser';
+import { detectWithVisitor } from '../engine/visitor';
 
 /**
  * array_mutation detector
- * 
+ *
  * Detects array mutation methods that modify arrays in place.
- * 
+ *
  * Heuristics:
  * - Looks for .push(), .pop(), .shift(), .unshift(), .splice(), .sort(), .reverse()
  * - Increases severity if the target looks like state (this.state, props, state variables)
- * 
+ *
  * False positive mitigation:
  * - Only flags methods that are definitely mutating
  * - Warns but doesn't error since mutation is sometimes intentional
@@ -46,62 +47,73 @@ function isStateLike(text: string): boolean {
 
 const arrayMutationDetector: Detector = {
   name: 'array_mutation',
+  version: '1',
   supportedLanguages: ['javascript', 'typescript'],
+  category: 'correctness',
+  local: true,
+
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(arrayMutationDetector, code, language, tree, context);
+  },
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
+  createVisitor(code: string): DetectorVisitor {
     const results: DetectorResult[] = [];
-    const root = tree.rootNode;
-
-    // Find all call expressions
-    const callExprs = findNodes(root, 'call_expression');
-
-    for (const callExpr of callExprs) {
-      // Get the function being called
-      const funcNode = callExpr.childForFieldName('function');
-      if (!funcNode || funcNode.type !== 'member_expression') {
-        continue;
-      }
-
-      // Get the method name
-      const property = funcNode.childForFieldName('property');
-      if (!property) continue;
-
-      const methodName = getNodeText(property, code);
-
-      // Check if it's a mutating method
-      if (!MUTATING_METHODS.includes(methodName)) {
-        continue;
-      }
-
-      // Get the target object
-      const object = funcNode.childForFieldName('object');
-      if (!object) continue;
-
-      const targetText = getNodeText(object, code);
-
-      // Check if it looks like state
-      const isThisStateLike = isStateLike(targetText);
-
-      results.push({
-        name: 'array_mutation',
-        line: getLineNumber(callExpr),
-        column: getColumnNumber(callExpr),
-        severity: 'warning',
-        certainty: 'heuristic',
-        confidence: isThisStateLike ? 0.6 : 0.5,
-        scope: 'function',
-        message: `Array mutation with '.${methodName}()' on '${targetText}'${
-          isThisStateLike ? ' (appears to be state)' : ''
-        }`,
-        ast_facts: {
-          method: methodName,
-          target_text: targetText,
-          is_this_state_like: isThisStateLike,
-        },
-      });
-    }
-
-    return results;
+
+    return {
+      nodeTypes: ['call_expression'],
+
+      visit(callExpr: Parser.SyntaxNode) {
+        // Get the function being called
+        const funcNode = callExpr.childForFieldName('function');
+        if (!funcNode || funcNode.type !== 'member_expression') {
+          return;
+        }
+
+        // Get the method name
+        const property = funcNode.childForFieldName('property');
+        if (!property) return;
+
+        const methodName = getNodeText(property, code);
+
+        // Check if it's a mutating method
+        if (!MUTATING_METHODS.includes(methodName)) {
+          return;
+        }
+
+        // Get the target object
+        const object = funcNode.childForFieldName('object');
+        if (!object) return;
+
+        const targetText = getNodeText(object, code);
+
+        // Check if it looks like state
+        const isThisStateLike = isStateLike(targetText);
+
+        results.push({
+          name: 'array_mutation',
+          ...getNodeRange(callExpr),
+          severity: 'warning',
+          certainty: 'heuristic',
+          confidence: isThisStateLike ? 0.6 : 0.5,
+          scope: 'function',
+          message: `Array mutation with '.${methodName}()' on '${targetText}'${
+            isThisStateLike ? ' (appears to be state)' : ''
+          }`,
+          ast_facts: {
+            method: methodName,
+            target_text: targetText,
+            is_this_state_like: isThisStateLike,
+          },
+        });
+      },
+
+      finish: () => results,
+    };
   },
 };
 
@@ -1,30 +1,38 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
+import { detectWithVisitor } from '../engine/visitor';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
 import {
-  findNodes,
   getNodeText,
   findAncestor,
   getEnclosingFunction,
+  getNodeRange,
   getLineNumber,
-  getColumnNumber,
   walkTree,
 } from '../parser';
 
 /**
  * console_log_left detector
- * 
+ *
  * Detects console.log/debug/error statements left in code.
- * 
+ *
  * Heuristics:
  * - Looks for console.* calls
  * - Excludes calls inside obvious test files or debug conditionals
- * 
+ *
  * False positive mitigation:
  * - Ignores console calls inside if (DEBUG) or if (process.env.NODE_ENV...)
  * - Ignores console.error/warn in catch blocks (legitimate error logging)
  * - This is info-level since debug logging is sometimes intentional
+ *
+ * Options:
+ * - allowedLoggers: console calls that are never flagged, e.g.
+ *   ["console.info", "console.table"] (default: none)
  */
 
+interface ConsoleLogLeftOptions {
+  allowedLoggers?: string[];
+}
+
 const CONSOLE_METHODS = [
   'log',
   'debug',
@@ -78,72 +86,94 @@ function isErrorInCatch(node: Parser.SyntaxNode, method: string): boolean {
 
 const consoleLogLeftDetector: Detector = {
   name: 'console_log_left',
+  version: '1',
   supportedLanguages: ['javascript', 'typescript'],
+  category: 'maintainability',
+
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(consoleLogLeftDetector, code, language, tree, context);
+  },
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
+  createVisitor(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorVisitor {
     const results: DetectorResult[] = [];
-    const root = tree.rootNode;
+    const options = (context?.options || {}) as ConsoleLogLeftOptions;
+    const allowedLoggers = new Set(options.allowedLoggers || []);
 
-    // Find all call expressions
-    const callExprs = findNodes(root, 'call_expression');
+    return {
+      nodeTypes: ['call_expression'],
 
-    for (const callExpr of callExprs) {
-      // Get the function being called
-      const funcNode = callExpr.childForFieldName('function');
-      if (!funcNode || funcNode.type !== 'member_expression') {
-        continue;
-      }
+      visit(callExpr: Parser.SyntaxNode) {
+        // Get the function being called
+        const funcNode = callExpr.childForFieldName('function');
+        if (!funcNode || funcNode.type !== 'member_expression') {
+          return;
+        }
 
-      // Check if it's a console call
-      const object = funcNode.childForFieldName('object');
-      if (!object || getNodeText(object, code) !== 'console') {
-        continue;
-      }
+        // Check if it's a console call
+        const object = funcNode.childForFieldName('object');
+        if (!object || getNodeText(object, code) !== 'console') {
+          return;
+        }
 
-      // Get the method name
-      const property = funcNode.childForFieldName('property');
-      if (!property) continue;
+        // Get the method name
+        const property = funcNode.childForFieldName('property');
+        if (!property) return;
 
-      const methodName = getNodeText(property, code);
+        const methodName = getNodeText(property, code);
 
-      // Check if it's a known console method
-      if (!CONSOLE_METHODS.includes(methodName)) {
-        continue;
-      }
+        // Check if it's a known console method
+        if (!CONSOLE_METHODS.includes(methodName)) {
+          return;
+        }
 
-      // Skip if in debug conditional
-      if (isInDebugConditional(callExpr, code)) {
-        continue;
-      }
+        // Skip loggers allowed by configuration
+        if (allowedLoggers.has(`console.${methodName}`)) {
+          return;
+        }
 
-      // Skip console.error/warn in catch blocks
-      if (isErrorInCatch(callExpr, methodName)) {
-        continue;
-      }
+        // Skip if in debug conditional
+        if (isInDebugConditional(callExpr, code)) {
+          return;
+        }
 
-      // Get line relative to enclosing function
-      const enclosingFunc = getEnclosingFunction(callExpr);
-      const lineInFunction = enclosingFunc
-        ? getLineNumber(callExpr) - enclosingFunc.startPosition.row
-        : getLineNumber(callExpr);
-
-      results.push({
-        name: 'console_log_left',
-        line: getLineNumber(callExpr),
-        column: getColumnNumber(callExpr),
-        severity: 'info',
-        certainty: 'heuristic',
-        confidence: 0.45,
-        scope: 'function',
-        message: `console.${methodName}() statement found - consider removing before production`,
-        ast_facts: {
-          method: methodName,
-          line_in_function: lineInFunction,
-        },
-      });
-    }
+        // Skip console.error/warn in catch blocks
+        if (isErrorInCatch(callExpr, methodName)) {
+          return;
+        }
 
-    return results;
+        // Get line relative to enclosing function
+        const enclosingFunc = getEnclosingFunction(callExpr);
+        const lineInFunction = enclosingFunc
+          ? getLineNumber(callExpr) - enclosingFunc.startPosition.row
+          : getLineNumber(callExpr);
+
+        results.push({
+          name: 'console_log_left',
+          ...getNodeRange(callExpr),
+          severity: 'info',
+          certainty: 'heuristic',
+          confidence: 0.45,
+          scope: 'function',
+          message: `console.${methodName}() statement found - consider removing before production`,
+          ast_facts: {
+            method: methodName,
+            line_in_function: lineInFunction,
+          },
+        });
+      },
+
+      finish: () => results,
+    };
   },
 };
 
@@ -1,71 +1,167 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
-import { findNodes, getNodeText, getLineNumber, getColumnNumber } from '../parser';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
+import { getNodeText, getNodeRange, replaceNode } from '../parser';
+import { detectWithVisitor } from '../engine/visitor';
 
 /**
  * double_equals detector
- * 
+ *
  * Detects usage of == or != instead of === or !==.
- * 
+ *
  * Heuristics:
  * - Detects all binary expressions with == or != operators
- * - No false positive mitigation needed as this is always worth flagging
- * 
+ * - Without type information, no false positive mitigation is needed as this
+ *   is always worth flagging
+ * - With type information (TypeScript analyzed with `typeCheck`), comparisons
+ *   between operands of the same primitive type are not flagged, since no
+ *   coercion can happen, and comparisons between different types are definite
+ *
  * Note: This is a style warning, not an error, since there are rare
  * legitimate uses of loose equality (e.g., null == undefined check)
+ *
+ * Options:
+ * - allowNullComparison: don't flag `x == null` / `x != undefined`, which
+ *   deliberately match both null and undefined (default: false)
+ *
+ * Autofix:
+ * - Replaces the operator with its strict counterpart, only when both
+ *   operands are known to have the same primitive kind (from literals,
+ *   `typeof`, `!` or the compiler's types). Otherwise the strict operator
+ *   can change the result: `x === null` no longer matches undefined, and
+ *   `count === '1'` is never true
  */
 
+interface DoubleEqualsOptions {
+  allowNullComparison?: boolean;
+}
+
+const NULL_LITERALS = ['null', 'undefined'];
+
+// Kinds whose loose and strict comparisons differ (null == undefined)
+const NULLISH_KINDS = ['null', 'undefined'];
+
+// The primitive kind an expression has by its syntax alone, if it is known
+function syntacticKind(node: Parser.SyntaxNode): string | null {
+  switch (node.type) {
+    case 'number':
+      return 'number';
+    case 'string':
+    case 'template_string':
+      return 'string';
+    case 'true':
+    case 'false':
+      return 'boolean';
+    case 'parenthesized_expression':
+      return node.namedChildCount === 1 ? syntacticKind(node.namedChildren[0]) : null;
+    case 'unary_expression': {
+      const operator = node.childForFieldName('operator')?.type;
+      return operator === 'typeof' ? 'string' : operator === '!' ? 'boolean' : null;
+    }
+    default:
+      return null;
+  }
+}
+
 const doubleEqualsDetector: Detector = {
   name: 'double_equals',
+  version: '1',
   supportedLanguages: ['javascript', 'typescript'],
+  category: 'correctness',
+  local: true,
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(doubleEqualsDetector, code, language, tree, context);
+  },
+
+  createVisitor(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorVisitor {
     const results: DetectorResult[] = [];
-    const root = tree.rootNode;
-
-    // Find all binary expressions
-    const binaryExpressions = findNodes(root, 'binary_expression');
-
-    for (const binExpr of binaryExpressions) {
-      // Get the operator
-      const operatorNode = binExpr.children.find(
-        (child) => child.type === '==' || child.type === '!='
-      );
-
-      if (!operatorNode) continue;
-
-      const operator = operatorNode.type;
-
-      // Get left and right operands
-      const left = binExpr.childForFieldName('left');
-      const right = binExpr.childForFieldName('right');
-
-      if (!left || !right) continue;
-
-      const leftText = getNodeText(left, code);
-      const rightText = getNodeText(right, code);
-
-      // Generate message based on operator
-      const strictOperator = operator === '==' ? '===' : '!==';
-
-      results.push({
-        name: 'double_equals',
-        line: getLineNumber(operatorNode),
-        column: getColumnNumber(operatorNode),
-        severity: 'warning',
-        certainty: 'possible',
-        confidence: 0.6,
-        scope: 'local',
-        message: `Use '${strictOperator}' instead of '${operator}' for strict comparison`,
-        ast_facts: {
-          operator,
-          left_text: leftText,
-          right_text: rightText,
-        },
-      });
-    }
+    const options = (context?.options || {}) as DoubleEqualsOptions;
+
+    return {
+      nodeTypes: ['binary_expression'],
+
+      visit(binExpr: Parser.SyntaxNode) {
+        // Get the operator
+        const operatorNode = binExpr.children.find(
+          (child) => child.type === '==' || child.type === '!='
+        );
+
+        if (!operatorNode) return;
+
+        const operator = operatorNode.type;
+
+        // Get left and right operands
+        const left = binExpr.childForFieldName('left');
+        const right = binExpr.childForFieldName('right');
+
+        if (!left || !right) return;
+
+        const leftText = getNodeText(left, code);
+        const rightText = getNodeText(right, code);
+
+        // Optionally allow the `== null` idiom
+        if (
+          options.allowNullComparison &&
+          (NULL_LITERALS.includes(leftText) || NULL_LITERALS.includes(rightText))
+        ) {
+          return;
+        }
+
+        // With type information, operands of the same primitive kind compare
+        // the same either way; different kinds are coerced for certain
+        const leftKind = context?.types?.primitiveKind(left) ?? null;
+        const rightKind = context?.types?.primitiveKind(right) ?? null;
+        const typed = leftKind !== null && rightKind !== null;
+        if (typed && leftKind === rightKind) {
+          return;
+        }
+
+        // Generate message based on operator
+        const strictOperator = operator === '==' ? '===' : '!==';
+
+        // Only fix comparisons the strict operator cannot change
+        const leftFixKind = syntacticKind(left) ?? leftKind;
+        const rightFixKind = syntacticKind(right) ?? rightKind;
+        const fixable =
+          leftFixKind !== null &&
+          leftFixKind === rightFixKind &&
+          !NULLISH_KINDS.includes(leftFixKind);
+
+        results.push({
+          name: 'double_equals',
+          ...getNodeRange(operatorNode),
+          severity: 'warning',
+          certainty: typed ? 'definite' : 'possible',
+          confidence: typed ? 0.9 : 0.6,
+          scope: 'local',
+          message: `Use '${strictOperator}' instead of '${operator}' for strict comparison`,
+          ast_facts: {
+            operator,
+            left_text: leftText,
+            right_text: rightText,
+            ...(typed && { left_type: leftKind, right_type: rightKind }),
+          },
+          ...(fixable && {
+            autofix: {
+              description: `Replace '${operator}' with '${strictOperator}'`,
+              edits: [replaceNode(operatorNode, strictOperator)],
+            },
+          }),
+        });
+      },
 
-    return results;
+      finish: () => results,
+    };
   },
 };
 
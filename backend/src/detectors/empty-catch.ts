@@ -1,16 +1,17 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
-import { findNodes, getNodeText, getLineNumber, getColumnNumber, walkTree } from '../parser';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
+import { getNodeText, getNodeRange, walkTree } from '../parser';
+import { detectWithVisitor } from '../engine/visitor';
 
 /**
  * empty_catch detector
- * 
+ *
  * Detects empty catch blocks or catch blocks with only pass/comments.
- * 
+ *
  * Heuristics:
  * - Finds catch_clause and except_clause nodes
  * - Checks if the body is empty or only contains comments/pass
- * 
+ *
  * False positive mitigation:
  * - Allows catch blocks that have at least one meaningful statement
  * - Counts comments but still warns if comments are the only content
@@ -124,67 +125,79 @@ function getCatchParam(catchNode: Parser.SyntaxNode, code: string): string | nul
 
 const emptyCatchDetector: Detector = {
   name: 'empty_catch',
+  version: '1',
   supportedLanguages: ['javascript', 'typescript', 'python'],
+  category: 'error-handling',
+  local: true,
+
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(emptyCatchDetector, code, language, tree, context);
+  },
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
+  createVisitor(code: string, language: Language): DetectorVisitor {
     const results: DetectorResult[] = [];
-    const root = tree.rootNode;
-
-    // Find catch clauses (JS/TS)
-    const catchClauses = findNodes(root, ['catch_clause', 'except_clause']);
-
-    for (const catchNode of catchClauses) {
-      // Get the body
-      let body: Parser.SyntaxNode | null = null;
-
-      if (language === 'python') {
-        // Python: the body is the block after the except clause
-        body = catchNode.childForFieldName('body');
-        if (!body) {
-          // Try to find block child
-          for (const child of catchNode.children) {
-            if (child.type === 'block') {
-              body = child;
-              break;
+
+    return {
+      // Catch clauses (JS/TS) and except clauses (Python)
+      nodeTypes: ['catch_clause', 'except_clause'],
+
+      visit(catchNode: Parser.SyntaxNode) {
+        // Get the body
+        let body: Parser.SyntaxNode | null = null;
+
+        if (language === 'python') {
+          // Python: the body is the block after the except clause
+          body = catchNode.childForFieldName('body');
+          if (!body) {
+            // Try to find block child
+            for (const child of catchNode.children) {
+              if (child.type === 'block') {
+                body = child;
+                break;
+              }
             }
           }
-        }
-      } else {
-        // JS/TS: body is a statement_block
-        body = catchNode.childForFieldName('body');
-        if (!body) {
-          for (const child of catchNode.children) {
-            if (child.type === 'statement_block') {
-              body = child;
-              break;
+        } else {
+          // JS/TS: body is a statement_block
+          body = catchNode.childForFieldName('body');
+          if (!body) {
+            for (const child of catchNode.children) {
+              if (child.type === 'statement_block') {
+                body = child;
+                break;
+              }
             }
           }
         }
-      }
-
-      const { isEmpty, summary } = isEmptyOrTrivialBlock(body, code, language);
-
-      if (!isEmpty) continue;
-
-      const catchParam = getCatchParam(catchNode, code);
-
-      results.push({
-        name: 'empty_catch',
-        line: getLineNumber(catchNode),
-        column: getColumnNumber(catchNode),
-        severity: 'warning',
-        certainty: 'heuristic',
-        confidence: 0.5,
-        scope: 'function',
-        message: `Empty catch block (${summary}) silently swallows errors`,
-        ast_facts: {
-          catch_body_summary: summary,
-          catch_param: catchParam || 'error',
-        },
-      });
-    }
 
-    return results;
+        const { isEmpty, summary } = isEmptyOrTrivialBlock(body, code, language);
+
+        if (!isEmpty) return;
+
+        const catchParam = getCatchParam(catchNode, code);
+
+        results.push({
+          name: 'empty_catch',
+          ...getNodeRange(catchNode),
+          severity: 'warning',
+          certainty: 'heuristic',
+          confidence: 0.5,
+          scope: 'function',
+          message: `Empty catch block (${summary}) silently swallows errors`,
+          ast_facts: {
+            catch_body_summary: summary,
+            catch_param: catchParam || 'error',
+          },
+        });
+      },
+
+      finish: () => results,
+    };
   },
 };
 
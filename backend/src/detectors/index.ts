@@ -39,6 +39,28 @@ export {
   emptyCatch,
 };
 
+/**
+ * Add a detector to the registry (query rules, plugins). Names must be unique.
+ */
+export function registerDetector(detector: Detector): void {
+  if (getDetectorByName(detector.name)) {
+    throw new Error(`A detector named '${detector.name}' is already registered`);
+  }
+  detectors.push(detector);
+}
+
+/**
+ * Remove a detector added with registerDetector()
+ */
+export function unregisterDetector(name: string): boolean {
+  const index = detectors.findIndex((d) => d.name === name);
+  if (index === -1) {
+    return false;
+  }
+  detectors.splice(index, 1);
+  return true;
+}
+
 // Get detectors for a specific language
 export function getDetectorsForLanguage(language: string): Detector[] {
   return detectors.filter((d) => d.supportedLanguages.includes(language as any));
@@ -48,3 +70,8 @@ export function getDetectorsForLanguage(language: string): Detector[] {
 export function getDetectorByName(name: string): Detector | undefined {
   return detectors.find((d) => d.name === name);
 }
+
+// Get the names of all registered detectors
+export function getDetectorNames(): string[] {
+  return detectors.map((d) => d.name);
+}
@@ -1,79 +1,106 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
+import { analyzeScopes, Declaration } from '../analysis/scopes';
+import { ProjectModule } from '../analysis/project';
+import { detectWithVisitor } from '../engine/visitor';
 import {
-  findNodes,
   getNodeText,
-  findAncestor,
   isAsyncFunction,
   getEnclosingFunction,
-  getLineNumber,
-  getColumnNumber,
-  walkTree,
+  getNodeRange,
+  getRelatedLocation,
+  insertBefore,
 } from '../parser';
 
 /**
  * missing_await detector
- * 
+ *
  * Detects async function calls that are not awaited.
- * 
+ *
  * Heuristics:
- * - Looks for call expressions where the callee is declared as async in the same file
+ * - Looks for call expressions where the callee resolves (via the shared scope
+ *   analysis) to an async function declared in the same file; method calls
+ *   are matched by the names of async functions and methods
  * - Checks if the parent is not an await_expression
  * - Checks if the call is not chained with .then()/.catch()
- * 
+ *
+ * In a project analysis, calls to async functions imported from other
+ * project files (directly or through a namespace import) are flagged too,
+ * pointing at the definition in that file.
+ *
+ * With type information (TypeScript analyzed with `typeCheck`):
+ * - Flags any call whose type is a Promise, wherever the callee is declared,
+ *   with definite certainty
+ * - Does not flag calls whose type is not a Promise, even if an async method
+ *   of the same name exists
+ *
  * False positive mitigation:
- * - Only flags calls to functions that are definitively async in the same file
+ * - Without type information, only flags calls to functions that are
+ *   definitively async in the same file
  * - Does not flag if the result is assigned to a variable (might be intentional Promise handling)
  * - Does not flag if followed by .then() or .catch()
+ *
+ * Autofix:
+ * - Inserts `await` when the call is inside an async function
  */
 
-// Track async function names found in the file
-function findAsyncFunctions(root: Parser.SyntaxNode, code: string): Set<string> {
-  const asyncFunctions = new Set<string>();
-
-  walkTree(root, (node) => {
-    // Function declarations
-    if (node.type === 'function_declaration') {
-      const hasAsync = node.children.some((child) => child.type === 'async');
-      if (hasAsync) {
-        const nameNode = node.childForFieldName('name');
-        if (nameNode) {
-          asyncFunctions.add(getNodeText(nameNode, code));
-        }
-      }
-    }
+// Check if a function node has the async keyword
+function hasAsyncKeyword(node: Parser.SyntaxNode): boolean {
+  return node.children.some((child) => child.type === 'async');
+}
 
-    // Arrow functions and function expressions assigned to variables
-    if (node.type === 'variable_declarator') {
-      const value = node.childForFieldName('value');
-      if (value && (value.type === 'arrow_function' || value.type === 'function_expression')) {
-        // Check parent lexical_declaration for async
-        const parent = node.parent;
-        if (parent) {
-          const hasAsync = parent.children.some((child) => child.type === 'async');
-          if (hasAsync || value.children.some((child) => child.type === 'async')) {
-            const nameNode = node.childForFieldName('name');
-            if (nameNode) {
-              asyncFunctions.add(getNodeText(nameNode, code));
-            }
-          }
-        }
-      }
-    }
+// Check if a declaration resolved by the scope analysis is an async function
+function isAsyncDeclaration(declaration: Declaration): boolean {
+  const declNode = declaration.declarationNode;
 
-    // Method definitions in classes
-    if (node.type === 'method_definition') {
-      const hasAsync = node.children.some((child) => child.type === 'async');
-      if (hasAsync) {
-        const nameNode = node.childForFieldName('name');
-        if (nameNode) {
-          asyncFunctions.add(getNodeText(nameNode, code));
-        }
-      }
-    }
-  });
+  // async function f() {} / const g = async function f() {}
+  if (
+    declaration.kind === 'function' &&
+    (declNode.type === 'function_declaration' || declNode.type === 'function_expression')
+  ) {
+    return hasAsyncKeyword(declNode);
+  }
+
+  // const f = async () => {} / const f = async function () {}
+  if (declNode.type === 'variable_declarator') {
+    const nameNode = declNode.childForFieldName('name');
+    const value = declNode.childForFieldName('value');
+    return (
+      nameNode !== null &&
+      nameNode.startIndex === declaration.node.startIndex &&
+      value !== null &&
+      (value.type === 'arrow_function' || value.type === 'function_expression') &&
+      hasAsyncKeyword(value)
+    );
+  }
+
+  return false;
+}
+
+// Where an async function is defined; `file` is set when it is in another
+// project file
+interface AsyncDefinition {
+  node: Parser.SyntaxNode;
+  file?: string;
+}
 
-  return asyncFunctions;
+// The async function a declaration refers to, following imports of other
+// project files
+function findAsyncDefinition(
+  declaration: Declaration,
+  project?: ProjectModule
+): AsyncDefinition | undefined {
+  if (isAsyncDeclaration(declaration)) {
+    return { node: declaration.node };
+  }
+  const symbol = project?.resolveImport(declaration);
+  return symbol?.async ? { node: symbol.node, file: symbol.file } : undefined;
+}
+
+// Get the name node of an async class method
+function getAsyncMethodName(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  if (!hasAsyncKeyword(node)) return null;
+  return node.childForFieldName('name');
 }
 
 // Check if a call is chained with .then() or .catch()
@@ -99,10 +126,7 @@ function isPromiseChained(callNode: Parser.SyntaxNode): boolean {
 function isResultAssigned(callNode: Parser.SyntaxNode): boolean {
   let current = callNode.parent;
   while (current) {
-    if (
-      current.type === 'variable_declarator' ||
-      current.type === 'assignment_expression'
-    ) {
+    if (current.type === 'variable_declarator' || current.type === 'assignment_expression') {
       return true;
     }
     if (current.type === 'expression_statement') {
@@ -113,87 +137,169 @@ function isResultAssigned(callNode: Parser.SyntaxNode): boolean {
   return false;
 }
 
-const missingAwaitDetector: Detector = {
-  name: 'missing_await',
-  supportedLanguages: ['javascript', 'typescript'],
+// Report the calls to async functions that are not awaited
+function checkCalls(
+  callExpressions: Parser.SyntaxNode[],
+  asyncMethods: Map<string, Parser.SyntaxNode>,
+  code: string,
+  language: Language,
+  tree: Parser.Tree,
+  context?: DetectorContext
+): DetectorResult[] {
+  const results: DetectorResult[] = [];
+  const scopes = context?.scopes || analyzeScopes(tree, code, language);
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
-    const results: DetectorResult[] = [];
-    const root = tree.rootNode;
-
-    // Find all async functions in the file
-    const asyncFunctions = findAsyncFunctions(root, code);
-
-    // Find all call expressions
-    const callExpressions = findNodes(root, 'call_expression');
-
-    for (const callNode of callExpressions) {
-      // Get the callee
-      const functionNode = callNode.childForFieldName('function');
-      if (!functionNode) continue;
-
-      // Get the callee name
-      let calleeName: string;
-      if (functionNode.type === 'identifier') {
-        calleeName = getNodeText(functionNode, code);
-      } else if (functionNode.type === 'member_expression') {
-        // For method calls like obj.method(), get just the method name
-        const property = functionNode.childForFieldName('property');
-        if (property) {
-          calleeName = getNodeText(property, code);
-        } else {
-          continue;
-        }
-      } else {
-        continue;
-      }
+  // Method calls can't be resolved, so they match any async function or
+  // method declared in the file by name
+  const asyncMemberNames = new Map(asyncMethods);
+  for (const declaration of scopes.declarations) {
+    if (isAsyncDeclaration(declaration) && !asyncMemberNames.has(declaration.name)) {
+      asyncMemberNames.set(declaration.name, declaration.node);
+    }
+  }
 
-      // Check if the callee is a known async function
-      if (!asyncFunctions.has(calleeName)) {
-        continue;
-      }
+  for (const callNode of callExpressions) {
+    // Get the callee
+    const functionNode = callNode.childForFieldName('function');
+    if (!functionNode) continue;
 
-      // Check if already awaited
-      const parent = callNode.parent;
-      if (parent && parent.type === 'await_expression') {
-        continue;
-      }
+    // Get the callee name and the async function it refers to, if any
+    let calleeName: string;
+    let definition: AsyncDefinition | undefined;
+    if (functionNode.type === 'identifier') {
+      calleeName = getNodeText(functionNode, code);
+      const declaration = scopes.resolve(functionNode);
+      definition = declaration ? findAsyncDefinition(declaration, context?.project) : undefined;
+    } else if (functionNode.type === 'member_expression') {
+      // For method calls like obj.method(), get just the method name
+      const property = functionNode.childForFieldName('property');
+      if (!property) continue;
+      calleeName = getNodeText(property, code);
 
-      // Check if chained with .then()/.catch()
-      if (isPromiseChained(callNode)) {
-        continue;
+      // `ns.method()` on an imported project module resolves to its export
+      const object = functionNode.childForFieldName('object');
+      const namespace = object?.type === 'identifier' ? scopes.resolve(object) : null;
+      const member = namespace && context?.project?.resolveMember(namespace, calleeName);
+      if (member) {
+        definition = member.async ? { node: member.node, file: member.file } : undefined;
+      } else {
+        const node = asyncMemberNames.get(calleeName);
+        definition = node && { node };
       }
+    } else {
+      continue;
+    }
 
-      // Check if result is assigned (might be intentional Promise handling)
-      if (isResultAssigned(callNode)) {
-        continue;
-      }
+    // The compiler knows whether the call returns a Promise; without type
+    // information only calls to async functions of this file count
+    const returnsPromise = context?.types?.isPromise(callNode) ?? null;
+    if (returnsPromise === false || (returnsPromise === null && !definition)) {
+      continue;
+    }
+
+    // Check if already awaited
+    const parent = callNode.parent;
+    if (parent && parent.type === 'await_expression') {
+      continue;
+    }
 
-      // Get enclosing function info
-      const enclosingFunc = getEnclosingFunction(callNode);
-      const enclosingIsAsync = enclosingFunc ? isAsyncFunction(enclosingFunc) : false;
-
-      // Get parent type
-      const parentType = parent?.type || 'unknown';
-
-      results.push({
-        name: 'missing_await',
-        line: getLineNumber(callNode),
-        column: getColumnNumber(callNode),
-        severity: 'error',
-        certainty: 'possible',
-        confidence: 0.7,
-        scope: 'function',
-        message: `Async function '${calleeName}' called without await`,
-        ast_facts: {
-          callee_name: calleeName,
-          enclosing_function_is_async: enclosingIsAsync,
-          parent_type: parentType,
-        },
-      });
+    // Check if chained with .then()/.catch()
+    if (isPromiseChained(callNode)) {
+      continue;
     }
 
-    return results;
+    // Check if result is assigned (might be intentional Promise handling)
+    if (isResultAssigned(callNode)) {
+      continue;
+    }
+
+    // Get enclosing function info
+    const enclosingFunc = getEnclosingFunction(callNode);
+    const enclosingIsAsync = enclosingFunc ? isAsyncFunction(enclosingFunc) : false;
+
+    // Get parent type
+    const parentType = parent?.type || 'unknown';
+
+    results.push({
+      name: 'missing_await',
+      ...getNodeRange(callNode),
+      severity: 'error',
+      certainty: returnsPromise ? 'definite' : 'possible',
+      confidence: returnsPromise ? 0.95 : 0.7,
+      scope: 'function',
+      message: definition
+        ? `Async function '${calleeName}' called without await`
+        : `Promise returned by '${calleeName}' is not awaited`,
+      relatedLocations: definition
+        ? [
+            getRelatedLocation(
+              definition.node,
+              `Async function '${calleeName}' is defined here`,
+              definition.file
+            ),
+          ]
+        : undefined,
+      ast_facts: {
+        callee_name: calleeName,
+        enclosing_function_is_async: enclosingIsAsync,
+        parent_type: parentType,
+      },
+      // Adding await is only valid inside an async function
+      autofix: enclosingIsAsync
+        ? {
+            description: `Add 'await' before the call to '${calleeName}'`,
+            edits: [insertBefore(callNode, 'await ')],
+          }
+        : undefined,
+    });
+  }
+
+  return results;
+}
+
+const missingAwaitDetector: Detector = {
+  name: 'missing_await',
+  version: '1',
+  supportedLanguages: ['javascript', 'typescript'],
+  category: 'async',
+
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(missingAwaitDetector, code, language, tree, context);
+  },
+
+  createVisitor(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorVisitor {
+    // Calls are checked once every async method in the file is known
+    const callExpressions: Parser.SyntaxNode[] = [];
+    const asyncMethods = new Map<string, Parser.SyntaxNode>();
+
+    return {
+      nodeTypes: ['call_expression', 'method_definition'],
+
+      visit(node: Parser.SyntaxNode) {
+        if (node.type === 'call_expression') {
+          callExpressions.push(node);
+          return;
+        }
+
+        const nameNode = getAsyncMethodName(node);
+        const methodName = nameNode ? getNodeText(nameNode, code) : null;
+        if (nameNode && methodName && !asyncMethods.has(methodName)) {
+          asyncMethods.set(methodName, nameNode);
+        }
+      },
+
+      finish: () => checkCalls(callExpressions, asyncMethods, code, language, tree, context),
+    };
   },
 };
 
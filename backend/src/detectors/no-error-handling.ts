@@ -1,25 +1,18 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
-import {
-  findNodes,
-  getNodeText,
-  findAncestor,
-  isInsideTryBlock,
-  getLineNumber,
-  getColumnNumber,
-  walkTree,
-} from '../parser';
+import { detectWithVisitor } from '../engine/visitor';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
+import { getNodeText, findAncestor, isInsideTryBlock, getNodeRange } from '../parser';
 
 /**
  * no_error_handling detector
- * 
+ *
  * Detects async/API calls without proper error handling.
- * 
+ *
  * Heuristics:
  * - Looks for await expressions not inside try blocks
  * - Looks for Promise-returning calls without .catch()
  * - Considers fetch, axios, and other common API calls
- * 
+ *
  * False positive mitigation:
  * - Ignores calls inside try blocks
  * - Ignores calls that chain .catch()
@@ -49,7 +42,7 @@ const ASYNC_FUNCTION_PATTERNS = [
 // Check if a call expression has .catch() chained
 function hasCatchChain(node: Parser.SyntaxNode): boolean {
   let current: Parser.SyntaxNode | null = node.parent;
-  
+
   while (current) {
     if (current.type === 'call_expression') {
       const funcNode = current.childForFieldName('function');
@@ -63,7 +56,7 @@ function hasCatchChain(node: Parser.SyntaxNode): boolean {
         }
       }
     }
-    
+
     // Check sibling .catch calls on the same line
     if (current.type === 'member_expression') {
       const property = current.childForFieldName('property');
@@ -71,17 +64,17 @@ function hasCatchChain(node: Parser.SyntaxNode): boolean {
         return true;
       }
     }
-    
+
     current = current.parent;
   }
-  
+
   return false;
 }
 
 // Check if the result is returned (caller's responsibility to handle)
 function isReturned(node: Parser.SyntaxNode): boolean {
   let current = node.parent;
-  
+
   while (current) {
     if (current.type === 'return_statement') {
       return true;
@@ -91,169 +84,187 @@ function isReturned(node: Parser.SyntaxNode): boolean {
     }
     current = current.parent;
   }
-  
+
   return false;
 }
 
-const noErrorHandlingDetector: Detector = {
-  name: 'no_error_handling',
-  supportedLanguages: ['javascript', 'typescript', 'python'],
+// Check a JS/TS await expression
+function checkAwait(awaitExpr: Parser.SyntaxNode, code: string): DetectorResult | null {
+  // Check if inside try block
+  const inTry = isInsideTryBlock(awaitExpr);
+  if (inTry) return null;
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
-    const results: DetectorResult[] = [];
-    const root = tree.rootNode;
-
-    if (language === 'javascript' || language === 'typescript') {
-      // Find await expressions
-      const awaitExprs = findNodes(root, 'await_expression');
-
-      for (const awaitExpr of awaitExprs) {
-        // Check if inside try block
-        const inTry = isInsideTryBlock(awaitExpr);
-        if (inTry) continue;
-
-        // Check if result is returned
-        if (isReturned(awaitExpr)) continue;
-
-        // Check if has .catch()
-        if (hasCatchChain(awaitExpr)) continue;
-
-        // Get the call expression
-        const callExpr = awaitExpr.children.find(
-          (child) => child.type === 'call_expression'
-        );
-
-        let callText = 'await expression';
-        let calleeName = 'unknown';
-
-        if (callExpr) {
-          callText = getNodeText(callExpr, code);
-          const funcNode = callExpr.childForFieldName('function');
-          if (funcNode) {
-            if (funcNode.type === 'identifier') {
-              calleeName = getNodeText(funcNode, code);
-            } else if (funcNode.type === 'member_expression') {
-              const property = funcNode.childForFieldName('property');
-              if (property) {
-                calleeName = property.text || getNodeText(property, code);
-              }
-            }
-          }
-        }
+  // Check if result is returned
+  if (isReturned(awaitExpr)) return null;
 
-        results.push({
-          name: 'no_error_handling',
-          line: getLineNumber(awaitExpr),
-          column: getColumnNumber(awaitExpr),
-          severity: 'warning',
-          certainty: 'possible',
-          confidence: 0.6,
-          scope: 'function',
-          message: `Async call '${calleeName}' has no error handling`,
-          ast_facts: {
-            call_text: callText.substring(0, 50),
-            enclosing_try_boolean: false,
-            callee_name: calleeName,
-          },
-        });
-      }
+  // Check if has .catch()
+  if (hasCatchChain(awaitExpr)) return null;
 
-      // Also check for common async function calls without await or error handling
-      const callExprs = findNodes(root, 'call_expression');
-
-      for (const callExpr of callExprs) {
-        // Skip if already awaited
-        if (callExpr.parent?.type === 'await_expression') continue;
-
-        // Get callee name
-        const funcNode = callExpr.childForFieldName('function');
-        if (!funcNode) continue;
-
-        let calleeName: string;
-        if (funcNode.type === 'identifier') {
-          calleeName = getNodeText(funcNode, code);
-        } else if (funcNode.type === 'member_expression') {
-          const property = funcNode.childForFieldName('property');
-          if (property) {
-            calleeName = property.text || getNodeText(property, code);
-          } else {
-            continue;
-          }
-        } else {
-          continue;
-        }
+  // Get the call expression
+  const callExpr = awaitExpr.children.find((child) => child.type === 'call_expression');
 
-        // Check if it's a known async/API function
-        const isAsyncCall = ASYNC_FUNCTION_PATTERNS.some(
-          (pattern) => calleeName.toLowerCase().includes(pattern.toLowerCase())
-        );
-
-        if (!isAsyncCall) continue;
-
-        // Skip if inside try or has .catch
-        if (isInsideTryBlock(callExpr)) continue;
-        if (hasCatchChain(callExpr)) continue;
-        if (isReturned(callExpr)) continue;
-
-        // Skip if result is assigned (might be handled later)
-        const parent = callExpr.parent;
-        if (
-          parent?.type === 'variable_declarator' ||
-          parent?.type === 'assignment_expression'
-        ) {
-          continue;
-        }
+  let callText = 'await expression';
+  let calleeName = 'unknown';
 
-        const callText = getNodeText(callExpr, code);
-
-        results.push({
-          name: 'no_error_handling',
-          line: getLineNumber(callExpr),
-          column: getColumnNumber(callExpr),
-          severity: 'warning',
-          certainty: 'possible',
-          confidence: 0.55,
-          scope: 'function',
-          message: `API call '${calleeName}' may need error handling`,
-          ast_facts: {
-            call_text: callText.substring(0, 50),
-            enclosing_try_boolean: false,
-            callee_name: calleeName,
-          },
-        });
+  if (callExpr) {
+    callText = getNodeText(callExpr, code);
+    const funcNode = callExpr.childForFieldName('function');
+    if (funcNode) {
+      if (funcNode.type === 'identifier') {
+        calleeName = getNodeText(funcNode, code);
+      } else if (funcNode.type === 'member_expression') {
+        const property = funcNode.childForFieldName('property');
+        if (property) {
+          calleeName = property.text || getNodeText(property, code);
+        }
       }
     }
+  }
+
+  return {
+    name: 'no_error_handling',
+    ...getNodeRange(awaitExpr),
+    severity: 'warning',
+    certainty: 'possible',
+    confidence: 0.6,
+    scope: 'function',
+    message: `Async call '${calleeName}' has no error handling`,
+    ast_facts: {
+      call_text: callText.substring(0, 50),
+      enclosing_try_boolean: false,
+      callee_name: calleeName,
+    },
+  };
+}
+
+// Check a common async function call without await or error handling
+function checkCall(callExpr: Parser.SyntaxNode, code: string): DetectorResult | null {
+  // Skip if already awaited
+  if (callExpr.parent?.type === 'await_expression') return null;
+
+  // Get callee name
+  const funcNode = callExpr.childForFieldName('function');
+  if (!funcNode) return null;
+
+  let calleeName: string;
+  if (funcNode.type === 'identifier') {
+    calleeName = getNodeText(funcNode, code);
+  } else if (funcNode.type === 'member_expression') {
+    const property = funcNode.childForFieldName('property');
+    if (property) {
+      calleeName = property.text || getNodeText(property, code);
+    } else {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  // Check if it's a known async/API function
+  const isAsyncCall = ASYNC_FUNCTION_PATTERNS.some((pattern) =>
+    calleeName.toLowerCase().includes(pattern.toLowerCase())
+  );
+
+  if (!isAsyncCall) return null;
+
+  // Skip if inside try or has .catch
+  if (isInsideTryBlock(callExpr)) return null;
+  if (hasCatchChain(callExpr)) return null;
+  if (isReturned(callExpr)) return null;
+
+  // Skip if result is assigned (might be handled later)
+  const parent = callExpr.parent;
+  if (parent?.type === 'variable_declarator' || parent?.type === 'assignment_expression') {
+    return null;
+  }
+
+  const callText = getNodeText(callExpr, code);
+
+  return {
+    name: 'no_error_handling',
+    ...getNodeRange(callExpr),
+    severity: 'warning',
+    certainty: 'possible',
+    confidence: 0.55,
+    scope: 'function',
+    message: `API call '${calleeName}' may need error handling`,
+    ast_facts: {
+      call_text: callText.substring(0, 50),
+      enclosing_try_boolean: false,
+      callee_name: calleeName,
+    },
+  };
+}
+
+// Check a Python await expression
+function checkPythonAwait(awaitExpr: Parser.SyntaxNode, code: string): DetectorResult | null {
+  // Check if inside try block
+  const inTry = findAncestor(awaitExpr, 'try_statement') !== null;
+  if (inTry) return null;
+
+  const awaitText = getNodeText(awaitExpr, code);
+
+  return {
+    name: 'no_error_handling',
+    ...getNodeRange(awaitExpr),
+    severity: 'warning',
+    certainty: 'possible',
+    confidence: 0.6,
+    scope: 'function',
+    message: `Async call has no error handling`,
+    ast_facts: {
+      call_text: awaitText.substring(0, 50),
+      enclosing_try_boolean: false,
+      callee_name: 'async call',
+    },
+  };
+}
+
+const noErrorHandlingDetector: Detector = {
+  name: 'no_error_handling',
+  version: '1',
+  supportedLanguages: ['javascript', 'typescript', 'python'],
+  category: 'error-handling',
+  local: true,
+
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(noErrorHandlingDetector, code, language, tree, context);
+  },
+
+  createVisitor(code: string, language: Language): DetectorVisitor {
+    // Await findings are reported before call findings
+    const awaitResults: DetectorResult[] = [];
+    const callResults: DetectorResult[] = [];
 
     if (language === 'python') {
-      // Find await expressions
-      const awaitExprs = findNodes(root, 'await');
-
-      for (const awaitExpr of awaitExprs) {
-        // Check if inside try block
-        const inTry = findAncestor(awaitExpr, 'try_statement') !== null;
-        if (inTry) continue;
-
-        const awaitText = getNodeText(awaitExpr, code);
-
-        results.push({
-          name: 'no_error_handling',
-          line: getLineNumber(awaitExpr),
-          column: getColumnNumber(awaitExpr),
-          severity: 'warning',
-          certainty: 'possible',
-          confidence: 0.6,
-          scope: 'function',
-          message: `Async call has no error handling`,
-          ast_facts: {
-            call_text: awaitText.substring(0, 50),
-            enclosing_try_boolean: false,
-            callee_name: 'async call',
-          },
-        });
-      }
+      return {
+        nodeTypes: ['await'],
+        visit(awaitExpr: Parser.SyntaxNode) {
+          const result = checkPythonAwait(awaitExpr, code);
+          if (result) awaitResults.push(result);
+        },
+        finish: () => awaitResults,
+      };
     }
 
-    return results;
+    return {
+      nodeTypes: ['await_expression', 'call_expression'],
+      visit(node: Parser.SyntaxNode) {
+        if (node.type === 'await_expression') {
+          const result = checkAwait(node, code);
+          if (result) awaitResults.push(result);
+        } else {
+          const result = checkCall(node, code);
+          if (result) callResults.push(result);
+        }
+      },
+      finish: () => [...awaitResults, ...callResults],
+    };
   },
 };
 
@@ -1,254 +1,913 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
+import { getNodeText, getNodeRange, getRelatedLocation, walkTree } from '../parser';
+import { detectWithVisitor } from '../engine/visitor';
+import { analyzeScopes, Declaration, Scope, ScopeAnalysis } from '../analysis/scopes';
 import {
-  findNodes,
-  getNodeText,
-  findAncestor,
-  getLineNumber,
-  getColumnNumber,
-  walkTree,
-} from '../parser';
+  BasicBlock,
+  buildControlFlowGraph,
+  ControlFlowGraph,
+  findCfgNode,
+  ForwardAnalysis,
+  solveForward,
+} from '../analysis/cfg';
 
 /**
  * nullable_access detector
- * 
+ *
  * Detects potential access on null/undefined/None values.
- * 
+ *
  * Heuristics:
  * - Looks for member/attribute access on variables that are:
  *   1. Parameters (could be null/undefined)
- *   2. Assigned to null/undefined/None earlier in the same scope
- * - Checks if there's a null guard (if statement, optional chaining, etc.)
- * 
+ *   2. Assigned to null/undefined/None somewhere in the file
+ * - Tracks the possible values of those variables through a control-flow
+ *   graph of each function, so the access is only flagged if null can
+ *   still reach it
+ * - Certainty is definite when every path reaches the access with null
+ * - With type information (TypeScript analyzed with `typeCheck`), the type
+ *   the compiler narrowed the variable to decides instead: non-nullable
+ *   types are never flagged, and nullable ones are flagged even when the
+ *   variable is not tracked
+ *
  * False positive mitigation:
- * - Ignores access inside conditional blocks that check the variable
+ * - Understands guards: if/else, early return/throw/raise, `&&`/`||`,
+ *   ternaries, `== null` / `is None` checks and Python `assert`
+ * - Reassignments (`x = value`, `x ??= value`) clear the null state
+ * - Once an access has succeeded, later accesses on the same path are not
+ *   flagged again
  * - Ignores optional chaining (?.)
- * - Only flags if there's clear evidence of nullable assignment
+ * - Ignores `self`/`cls` in Python methods
  */
 
-// Track variables assigned to null-like values
-function findNullAssignments(
-  root: Parser.SyntaxNode,
+// Possible values of a tracked variable, as a bit set
+const NULL_ASSIGNED = 1; // explicitly null/undefined/None
+const NULLABLE_PARAM = 2; // a parameter the caller may pass null for
+const NON_NULL = 4;
+const NULLISH = NULL_ASSIGNED | NULLABLE_PARAM;
+
+// Possible values of the tracked variables at a program point. A tracked
+// variable without an entry has not been assigned yet on any path.
+type NullState = Map<Declaration, number>;
+
+const ACCESS_TYPES = ['member_expression', 'subscript_expression', 'attribute'];
+
+// Nodes whose bodies do not run where they are defined
+const DEFERRED_TYPES = new Set([
+  'function_declaration',
+  'generator_function_declaration',
+  'function_expression',
+  'function',
+  'generator_function',
+  'arrow_function',
+  'method_definition',
+  'class_declaration',
+  'class',
+  'function_definition',
+  'lambda',
+  'class_definition',
+]);
+
+interface Effect {
+  kind: 'assign' | 'access';
+  target: Parser.SyntaxNode;
+  declaration: Declaration;
+  // Assigned value (null for declarations without an initializer)
+  value?: Parser.SyntaxNode | null;
+  operator?: string;
+  // Only runs on some paths through the node (e.g. right of `&&`)
+  conditional?: boolean;
+  end: number;
+}
+
+function sameNode(a: Parser.SyntaxNode | null, b: Parser.SyntaxNode | null): boolean {
+  return (
+    !!a && !!b && a.startIndex === b.startIndex && a.endIndex === b.endIndex && a.type === b.type
+  );
+}
+
+// Operator token of a binary, boolean or assignment expression
+function getOperator(node: Parser.SyntaxNode): string {
+  return node.children
+    .filter((child) => !child.isNamed)
+    .map((child) => child.type)
+    .join(' ');
+}
+
+// Check if a member access uses optional chaining
+function isOptionalChaining(node: Parser.SyntaxNode): boolean {
+  if (node.type === 'optional_chain_expression') {
+    return true;
+  }
+  // Check for ?. in the text
+  const nodeText = node.text;
+  return nodeText.includes('?.');
+}
+
+function isNullLiteral(node: Parser.SyntaxNode, code: string, scopes: ScopeAnalysis): boolean {
+  if (node.type === 'null' || node.type === 'undefined' || node.type === 'none') {
+    return true;
+  }
+  if (node.type === 'identifier' && getNodeText(node, code) === 'undefined') {
+    return !scopes.resolve(node);
+  }
+  if (node.type === 'unary_expression' && getOperator(node) === 'void') {
+    return true;
+  }
+  return false;
+}
+
+// Operands that only run on some paths through `parent` (e.g. right of `&&`)
+function getConditionalOperands(parent: Parser.SyntaxNode): Parser.SyntaxNode[] {
+  switch (parent.type) {
+    case 'binary_expression':
+    case 'boolean_operator': {
+      const right = parent.childForFieldName('right');
+      return right && ['&&', '||', '??', 'and', 'or'].includes(getOperator(parent)) ? [right] : [];
+    }
+    case 'ternary_expression':
+      return [
+        parent.childForFieldName('consequence'),
+        parent.childForFieldName('alternative'),
+      ].filter((node): node is Parser.SyntaxNode => !!node);
+    case 'conditional_expression': {
+      const [consequence, , alternative] = parent.namedChildren;
+      return [consequence, alternative].filter((node) => !!node);
+    }
+    default:
+      return [];
+  }
+}
+
+// Check if a parameter is the implicit `self`/`cls` of a Python method
+function isPythonReceiver(parameter: Parser.SyntaxNode): boolean {
+  const parameters = parameter.parent;
+  const fn = parameters?.parent;
+  if (!parameters || fn?.type !== 'function_definition') {
+    return false;
+  }
+  if (!sameNode(parameters.namedChildren[0], parameter)) {
+    return false;
+  }
+
+  let container = fn.parent;
+  if (container?.type === 'decorated_definition') {
+    if (container.text.includes('@staticmethod')) return false;
+    container = container.parent;
+  }
+  return container?.type === 'block' && container.parent?.type === 'class_definition';
+}
+
+// Check if callers may pass null for a parameter: plain parameters and
+// parameters defaulting to null (not destructured or with other defaults)
+function isNullableParameter(
+  declaration: Declaration,
   code: string,
-  language: Language
-): Map<string, number> {
-  const nullAssignments = new Map<string, number>();
-
-  walkTree(root, (node) => {
-    // Variable declarations
-    if (node.type === 'variable_declarator') {
-      const nameNode = node.childForFieldName('name');
-      const valueNode = node.childForFieldName('value');
-
-      if (nameNode && nameNode.type === 'identifier') {
-        const name = getNodeText(nameNode, code);
-        const value = valueNode ? getNodeText(valueNode, code) : '';
-
-        if (
-          value === 'null' ||
-          value === 'undefined' ||
-          value === 'None' ||
-          value === ''
-        ) {
-          nullAssignments.set(name, node.startPosition.row + 1);
-        }
+  scopes: ScopeAnalysis
+): boolean {
+  const { node } = declaration;
+  const parent = node.parent;
+  let defaultValue: Parser.SyntaxNode | null = null;
+
+  switch (parent?.type) {
+    case 'formal_parameters':
+      break;
+    case 'parameters':
+      if (isPythonReceiver(node)) return false;
+      break;
+    case 'required_parameter':
+    case 'optional_parameter':
+      if (!sameNode(parent.childForFieldName('pattern'), node)) return false;
+      defaultValue = parent.childForFieldName('value');
+      break;
+    case 'assignment_pattern':
+      if (parent.parent?.type !== 'formal_parameters') return false;
+      defaultValue = parent.childForFieldName('right');
+      break;
+    case 'default_parameter':
+    case 'typed_default_parameter':
+      defaultValue = parent.childForFieldName('value');
+      break;
+    default:
+      return false;
+  }
+
+  // A non-null default means the parameter is never null
+  return !defaultValue || isNullLiteral(defaultValue, code, scopes);
+}
+
+/**
+ * Flow-sensitive null analysis over the CFG of each function
+ */
+class NullabilityAnalysis {
+  // Tracked declarations and the union of every value they may hold
+  private summaries = new Map<Declaration, number>();
+  private parameters = new Set<Declaration>();
+  private reassigned = new Set<Declaration>();
+  // Targets of the assignments of null to each variable, in source order
+  private nullAssignments = new Map<Declaration, Parser.SyntaxNode[]>();
+  private solved = new Map<string, { cfg: ControlFlowGraph; states: Map<BasicBlock, NullState> }>();
+  private effectCache = new Map<string, Effect[]>();
+
+  constructor(
+    private code: string,
+    private language: Language,
+    private root: Parser.SyntaxNode,
+    private scopes: ScopeAnalysis
+  ) {
+    for (const declaration of scopes.declarations) {
+      if (declaration.kind === 'parameter' && isNullableParameter(declaration, code, scopes)) {
+        this.parameters.add(declaration);
+        this.summaries.set(declaration, NULLABLE_PARAM | NON_NULL);
+      }
+    }
+
+    // Track every variable that is assigned null somewhere
+    const assignments = this.collectEffects(root, true).filter(
+      (effect) => effect.kind === 'assign'
+    );
+    const values = new Map<Declaration, number>();
+    for (const effect of assignments) {
+      const value = this.evaluateAssignment(effect, new Map(), 0);
+      values.set(effect.declaration, (values.get(effect.declaration) || 0) | value);
+      if (value & NULL_ASSIGNED) {
+        const targets = this.nullAssignments.get(effect.declaration) || [];
+        this.nullAssignments.set(effect.declaration, [...targets, effect.target]);
+      }
+      if (!sameNode(effect.target, effect.declaration.node)) {
+        this.reassigned.add(effect.declaration);
+      }
+    }
+    for (const [declaration, value] of values) {
+      const summary = this.summaries.get(declaration);
+      if (summary !== undefined) {
+        this.summaries.set(declaration, summary | value);
+      } else if (value & NULL_ASSIGNED) {
+        this.summaries.set(declaration, value);
       }
     }
+  }
+
+  /**
+   * Resolve an identifier to the first declaration of its name, so that
+   * Python rebindings and `var` redeclarations share one variable
+   */
+  resolve(node: Parser.SyntaxNode): Declaration | null {
+    const declaration = this.scopes.resolve(node);
+    return declaration?.scope.declarations.get(declaration.name)?.[0] || declaration;
+  }
 
-    // Assignment expressions
-    if (node.type === 'assignment_expression') {
-      const left = node.childForFieldName('left');
-      const right = node.childForFieldName('right');
+  isTracked(declaration: Declaration): boolean {
+    return this.summaries.has(declaration);
+  }
 
-      if (left && left.type === 'identifier' && right) {
-        const name = getNodeText(left, code);
-        const value = getNodeText(right, code);
+  /**
+   * The last assignment of null to a variable before `node`, or the first
+   * one if all of them come after it (e.g. in a loop)
+   */
+  nullAssignmentBefore(
+    declaration: Declaration,
+    node: Parser.SyntaxNode
+  ): Parser.SyntaxNode | null {
+    const targets = this.nullAssignments.get(declaration) || [];
+    const before = targets.filter((target) => target.startIndex < node.startIndex);
+    return before[before.length - 1] || targets[0] || null;
+  }
+
+  /**
+   * Possible values of the tracked variables just before `node` is evaluated,
+   * or null if the node is unreachable
+   */
+  stateAt(node: Parser.SyntaxNode): NullState | null {
+    const fn = this.enclosingFunction(node);
+    const { cfg, states } = this.solve(fn);
+
+    const location = findCfgNode(cfg, node);
+    if (!location) {
+      return null;
+    }
+    let state = states.get(location.block) || null;
+    if (!state) {
+      return null;
+    }
+
+    const { block, index } = location;
+    for (let i = 0; i < index; i++) {
+      state = this.transfer(block.nodes[i], state);
+    }
+
+    const element = block.nodes[index];
+    for (const effect of this.effectsOf(element)) {
+      if (effect.end <= node.startIndex) {
+        state = this.applyEffect(effect, state);
+      }
+    }
 
-        if (value === 'null' || value === 'undefined' || value === 'None') {
-          nullAssignments.set(name, node.startPosition.row + 1);
+    // Narrow by the short-circuit operators and ternaries around the node
+    let current = node;
+    while (current.parent && !sameNode(current, element)) {
+      const parent = current.parent;
+      const operator = getOperator(parent);
+      const isRight = sameNode(parent.childForFieldName('right'), current);
+      let narrowed: NullState | null = state;
+
+      if ((operator === '&&' || operator === 'and') && isRight) {
+        narrowed = this.narrow(parent.childForFieldName('left')!, true, state);
+      } else if ((operator === '||' || operator === 'or') && isRight) {
+        narrowed = this.narrow(parent.childForFieldName('left')!, false, state);
+      } else if (parent.type === 'ternary_expression') {
+        const condition = parent.childForFieldName('condition')!;
+        if (!sameNode(condition, current)) {
+          const assume = sameNode(parent.childForFieldName('consequence'), current);
+          narrowed = this.narrow(condition, assume, state);
         }
+      } else if (parent.type === 'conditional_expression') {
+        const [consequence, condition] = parent.namedChildren;
+        if (!sameNode(condition, current)) {
+          narrowed = this.narrow(condition, sameNode(consequence, current), state);
+        }
+      }
+
+      if (!narrowed) {
+        return null;
       }
+      state = narrowed;
+      current = parent;
     }
 
-    // Python assignments
-    if (node.type === 'assignment') {
-      const left = node.childForFieldName('left');
-      const right = node.childForFieldName('right');
+    return state;
+  }
+
+  // Function (or root) whose CFG evaluates `node`
+  private enclosingFunction(node: Parser.SyntaxNode): Parser.SyntaxNode {
+    let scope: Scope | null = this.scopes.scopeAt(node);
+    while (scope) {
+      const isFunction = scope.kind === 'function' || scope.kind === 'module';
+      if (isFunction && !sameNode(scope.node, node)) {
+        return scope.node;
+      }
+      scope = scope.parent;
+    }
+    return this.root;
+  }
 
-      if (left && left.type === 'identifier' && right) {
-        const name = getNodeText(left, code);
-        const value = getNodeText(right, code);
+  // Function or module scope a declaration belongs to
+  private ownerOf(declaration: Declaration): Parser.SyntaxNode {
+    let scope = declaration.scope;
+    while (scope.kind !== 'function' && scope.kind !== 'module' && scope.parent) {
+      scope = scope.parent;
+    }
+    return scope.node;
+  }
 
-        if (value === 'None') {
-          nullAssignments.set(name, node.startPosition.row + 1);
+  private solve(fn: Parser.SyntaxNode) {
+    const key = `${fn.startIndex}:${fn.endIndex}`;
+    let result = this.solved.get(key);
+    if (!result) {
+      const cfg = buildControlFlowGraph(fn, this.code, this.language);
+      const analysis: ForwardAnalysis<NullState> = {
+        initial: this.entryState(fn),
+        transfer: (node, state) => this.transfer(node, state),
+        branch: (condition, assume, state) => this.narrow(condition, assume, state),
+        join: joinStates,
+        equals: statesEqual,
+      };
+      result = { cfg, states: solveForward(cfg, analysis) };
+      this.solved.set(key, result);
+    }
+    return result;
+  }
+
+  private entryState(fn: Parser.SyntaxNode): NullState {
+    const state: NullState = new Map();
+    let outer: NullState | null | undefined;
+
+    for (const [declaration, summary] of this.summaries) {
+      const owner = this.ownerOf(declaration);
+      if (sameNode(owner, fn)) {
+        // Locals start unassigned; parameters hold whatever was passed
+        if (this.parameters.has(declaration)) {
+          state.set(declaration, NULLABLE_PARAM | NON_NULL);
+        }
+        continue;
+      }
+      if (owner.startIndex > fn.startIndex || fn.endIndex > owner.endIndex) {
+        continue;
+      }
+
+      // Captured variable: use the value where the closure is defined,
+      // unless it is reassigned and could change before the call
+      let value = summary;
+      if (!this.reassigned.has(declaration)) {
+        if (outer === undefined && fn.parent) {
+          outer = this.stateAt(fn);
         }
+        value = outer?.get(declaration) ?? summary;
       }
+      state.set(declaration, value);
     }
-  });
 
-  return nullAssignments;
-}
+    return state;
+  }
 
-// Get function/method parameters
-function getParameters(root: Parser.SyntaxNode, code: string): Set<string> {
-  const params = new Set<string>();
+  private transfer(node: Parser.SyntaxNode, state: NullState): NullState {
+    let result = state;
+    for (const effect of this.effectsOf(node)) {
+      result = this.applyEffect(effect, result);
+    }
 
-  walkTree(root, (node) => {
-    if (
-      node.type === 'formal_parameters' ||
-      node.type === 'parameters'
-    ) {
-      for (const child of node.children) {
-        if (child.type === 'identifier') {
-          params.add(getNodeText(child, code));
-        } else if (
-          child.type === 'required_parameter' ||
-          child.type === 'optional_parameter'
-        ) {
-          const nameNode = child.childForFieldName('pattern') || child.children[0];
-          if (nameNode && nameNode.type === 'identifier') {
-            params.add(getNodeText(nameNode, code));
-          }
-        }
+    // `assert x is not None` narrows the rest of the block
+    if (node.type === 'assert_statement' && node.namedChildren[0]) {
+      return this.narrow(node.namedChildren[0], true, result) || result;
+    }
+    return result;
+  }
+
+  private effectsOf(node: Parser.SyntaxNode): Effect[] {
+    const key = `${node.startIndex}:${node.endIndex}:${node.type}`;
+    let effects = this.effectCache.get(key);
+    if (!effects) {
+      effects = this.collectEffects(node, false);
+      this.effectCache.set(key, effects);
+    }
+    return effects;
+  }
+
+  private applyEffect(effect: Effect, state: NullState): NullState {
+    const previous = state.get(effect.declaration);
+    if (effect.kind === 'access' && previous === undefined) {
+      return state;
+    }
+
+    let value: number;
+    if (effect.kind === 'access') {
+      // The access would have thrown otherwise
+      value = previous! & NON_NULL || previous!;
+    } else {
+      value = this.evaluateAssignment(effect, state, previous ?? 0);
+      if (effect.conditional && previous !== undefined) {
+        value |= previous;
       }
     }
-  });
 
-  return params;
-}
+    if (value === previous) {
+      return state;
+    }
+    const next = new Map(state);
+    next.set(effect.declaration, value);
+    return next;
+  }
 
-// Check if a member access uses optional chaining
-function isOptionalChaining(node: Parser.SyntaxNode): boolean {
-  if (node.type === 'optional_chain_expression') {
-    return true;
+  private evaluateAssignment(effect: Effect, state: NullState, previous: number): number {
+    if (effect.value === null) {
+      // `let x;` declares an undefined variable
+      return NULL_ASSIGNED;
+    }
+    if (effect.value === undefined) {
+      // Loop variables and other bindings
+      return NON_NULL;
+    }
+
+    const value = this.evaluate(effect.value, state);
+    switch (effect.operator) {
+      case '=':
+        return value;
+      case '??=':
+      case '||=':
+        return previous & NULLISH ? (previous & NON_NULL) | value : previous;
+      case '&&=':
+        return (previous & NULLISH) | (previous & NON_NULL ? value : 0);
+      default:
+        return NON_NULL;
+    }
   }
-  // Check for ?. in the text
-  const nodeText = node.text;
-  return nodeText.includes('?.');
-}
 
-// Check if the access is guarded by a null check
-function hasNullGuard(
-  memberAccess: Parser.SyntaxNode,
-  targetName: string,
-  code: string
-): boolean {
-  // Look for parent if statement
-  let current: Parser.SyntaxNode | null = memberAccess.parent;
-  while (current) {
-    if (current.type === 'if_statement') {
-      const condition = current.childForFieldName('condition');
-      if (condition) {
-        const condText = getNodeText(condition, code);
-        // Check if the condition tests the target variable
-        if (
-          condText.includes(targetName) &&
-          !condText.includes(`${targetName} ==`) &&
-          !condText.includes(`${targetName} !=`)
-        ) {
-          return true;
+  // Possible values of an expression
+  private evaluate(node: Parser.SyntaxNode, state: NullState): number {
+    if (isNullLiteral(node, this.code, this.scopes)) {
+      return NULL_ASSIGNED;
+    }
+
+    switch (node.type) {
+      case 'parenthesized_expression':
+        return node.namedChildren[0] ? this.evaluate(node.namedChildren[0], state) : NON_NULL;
+
+      case 'identifier': {
+        const declaration = this.resolve(node);
+        return (declaration && state.get(declaration)) || NON_NULL;
+      }
+
+      case 'binary_expression':
+      case 'boolean_operator': {
+        const operator = getOperator(node);
+        const left = this.evaluate(node.childForFieldName('left')!, state);
+        const right = () => this.evaluate(node.childForFieldName('right')!, state);
+        if (operator === '??' || operator === '||' || operator === 'or') {
+          return left & NULLISH ? (left & NON_NULL) | right() : left;
         }
-        // Check for explicit null checks
-        if (
-          condText.includes(`${targetName} !== null`) ||
-          condText.includes(`${targetName} !== undefined`) ||
-          condText.includes(`${targetName} != null`) ||
-          condText.includes(`${targetName} is not None`)
-        ) {
-          return true;
+        if (operator === '&&' || operator === 'and') {
+          return (left & NULLISH) | (left & NON_NULL ? right() : 0);
         }
+        return NON_NULL;
+      }
+
+      case 'ternary_expression':
+        return (
+          this.evaluate(node.childForFieldName('consequence')!, state) |
+          this.evaluate(node.childForFieldName('alternative')!, state)
+        );
+
+      case 'conditional_expression': {
+        const [consequence, , alternative] = node.namedChildren;
+        return this.evaluate(consequence, state) | this.evaluate(alternative, state);
       }
+
+      case 'assignment_expression':
+      case 'assignment':
+        return node.childForFieldName('right')
+          ? this.evaluate(node.childForFieldName('right')!, state)
+          : NON_NULL;
+
+      default:
+        return NON_NULL;
     }
-    
-    // Ternary/conditional expression check
-    if (current.type === 'ternary_expression' || current.type === 'conditional_expression') {
-      const condition = current.childForFieldName('condition');
-      if (condition) {
-        const condText = getNodeText(condition, code);
-        if (condText.includes(targetName)) {
-          return true;
-        }
+  }
+
+  // Restrict a variable to the given values; null if no value remains
+  private restrict(state: NullState, declaration: Declaration, mask: number): NullState | null {
+    const value = state.get(declaration);
+    if (value === undefined) {
+      return state;
+    }
+    if (!(value & mask)) {
+      return null;
+    }
+    if ((value & mask) === value) {
+      return state;
+    }
+    const next = new Map(state);
+    next.set(declaration, value & mask);
+    return next;
+  }
+
+  private tracked(node: Parser.SyntaxNode | null): Declaration | null {
+    if (node?.type !== 'identifier') {
+      return null;
+    }
+    const declaration = this.resolve(node);
+    return declaration && this.summaries.has(declaration) ? declaration : null;
+  }
+
+  // The variable a `x == null` / `x is None` / `typeof x === 'undefined'` test checks
+  private nullCheckTarget(a: Parser.SyntaxNode, b: Parser.SyntaxNode): Declaration | null {
+    for (const [subject, other] of [
+      [a, b],
+      [b, a],
+    ]) {
+      if (isNullLiteral(other, this.code, this.scopes)) {
+        const declaration = this.tracked(subject);
+        if (declaration) return declaration;
+      }
+      if (
+        subject.type === 'unary_expression' &&
+        getOperator(subject) === 'typeof' &&
+        other.type === 'string' &&
+        /^['"`]undefined['"`]$/.test(getNodeText(other, this.code))
+      ) {
+        const declaration = this.tracked(subject.childForFieldName('argument'));
+        if (declaration) return declaration;
       }
     }
-    
-    current = current.parent;
+    return null;
   }
 
-  return false;
-}
+  /**
+   * State after `condition` evaluated to `assume`, or null if it cannot
+   */
+  private narrow(
+    condition: Parser.SyntaxNode,
+    assume: boolean,
+    state: NullState | null
+  ): NullState | null {
+    if (!state) {
+      return null;
+    }
 
-const nullableAccessDetector: Detector = {
-  name: 'nullable_access',
-  supportedLanguages: ['javascript', 'typescript', 'python'],
+    switch (condition.type) {
+      case 'parenthesized_expression':
+        return condition.namedChildren[0]
+          ? this.narrow(condition.namedChildren[0], assume, state)
+          : state;
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
-    const results: DetectorResult[] = [];
-    const root = tree.rootNode;
+      case 'unary_expression':
+        if (getOperator(condition) === '!') {
+          return this.narrow(condition.childForFieldName('argument')!, !assume, state);
+        }
+        return state;
 
-    // Find null assignments and parameters
-    const nullAssignments = findNullAssignments(root, code, language);
-    const parameters = getParameters(root, code);
+      case 'not_operator':
+        return this.narrow(condition.childForFieldName('argument')!, !assume, state);
 
-    // Find member access expressions
-    const memberExpressions = findNodes(root, [
-      'member_expression',
-      'subscript_expression',
-      'attribute',
-    ]);
+      case 'identifier': {
+        const declaration = this.tracked(condition);
+        return declaration && assume ? this.restrict(state, declaration, NON_NULL) : state;
+      }
 
-    for (const member of memberExpressions) {
-      // Skip if using optional chaining
-      if (isOptionalChaining(member)) {
-        continue;
+      case 'binary_expression':
+      case 'boolean_operator': {
+        const operator = getOperator(condition);
+        const left = condition.childForFieldName('left')!;
+        const right = condition.childForFieldName('right')!;
+
+        if (operator === '&&' || operator === 'and') {
+          const leftTrue = this.narrow(left, true, state);
+          return assume
+            ? this.narrow(right, true, leftTrue)
+            : joinNullable(this.narrow(left, false, state), this.narrow(right, false, leftTrue));
+        }
+        if (operator === '||' || operator === 'or') {
+          const leftFalse = this.narrow(left, false, state);
+          return assume
+            ? joinNullable(this.narrow(left, true, state), this.narrow(right, true, leftFalse))
+            : this.narrow(right, false, leftFalse);
+        }
+        if (['==', '===', '!=', '!=='].includes(operator)) {
+          return this.narrowNullCheck(left, right, operator.startsWith('='), assume, state);
+        }
+        return state;
       }
 
-      // Get the object being accessed
-      const objectNode =
-        member.childForFieldName('object') || member.children[0];
-      if (!objectNode || objectNode.type !== 'identifier') {
-        continue;
+      case 'comparison_operator': {
+        const operands = condition.namedChildren;
+        const operator = getOperator(condition);
+        if (operands.length !== 2) {
+          return state;
+        }
+        if (['is', '=='].includes(operator)) {
+          return this.narrowNullCheck(operands[0], operands[1], true, assume, state);
+        }
+        if (['is not', 'is not is not', '!='].includes(operator)) {
+          return this.narrowNullCheck(operands[0], operands[1], false, assume, state);
+        }
+        return state;
       }
 
-      const targetName = getNodeText(objectNode, code);
+      default:
+        return state;
+    }
+  }
 
-      // Check if it's a potentially nullable variable
-      const assignedNull = nullAssignments.has(targetName);
-      const isParameter = parameters.has(targetName);
+  private narrowNullCheck(
+    left: Parser.SyntaxNode,
+    right: Parser.SyntaxNode,
+    isEquality: boolean,
+    assume: boolean,
+    state: NullState
+  ): NullState | null {
+    const declaration = this.nullCheckTarget(left, right);
+    if (!declaration) {
+      return state;
+    }
+    return this.restrict(state, declaration, isEquality === assume ? NULLISH : NON_NULL);
+  }
 
-      if (!assignedNull && !isParameter) {
-        continue;
+  // Assignments and accesses inside a node, in evaluation order
+  private collectEffects(node: Parser.SyntaxNode, all: boolean): Effect[] {
+    const effects: Effect[] = [];
+    const add = (
+      target: Parser.SyntaxNode | null,
+      kind: Effect['kind'],
+      end: number,
+      value?: Parser.SyntaxNode | null,
+      operator?: string
+    ): void => {
+      if (target?.type !== 'identifier') return;
+      const declaration = this.resolve(target);
+      if (!declaration) return;
+      if (!all && !this.summaries.has(declaration)) return;
+      effects.push({ kind, target, declaration, value, operator, end });
+    };
+
+    // Loop bindings are CFG nodes of their own
+    const parent = node.parent;
+    if (
+      !all &&
+      parent &&
+      (parent.type === 'for_in_statement' || parent.type === 'for_statement') &&
+      sameNode(parent.childForFieldName('left'), node)
+    ) {
+      walkTree(node, (child) => add(child, 'assign', node.endIndex));
+      return effects;
+    }
+
+    const visit = (current: Parser.SyntaxNode, conditional: boolean): void => {
+      if (!all && DEFERRED_TYPES.has(current.type)) {
+        return;
       }
 
-      // Check if there's a null guard
-      const hasGuard = hasNullGuard(member, targetName, code);
+      const operands = conditional ? [] : getConditionalOperands(current);
+      for (const child of current.namedChildren) {
+        visit(child, conditional || operands.some((operand) => sameNode(operand, child)));
+      }
 
-      if (hasGuard) {
-        continue;
+      const start = effects.length;
+      switch (current.type) {
+        case 'variable_declarator':
+          add(
+            current.childForFieldName('name'),
+            'assign',
+            current.endIndex,
+            current.childForFieldName('value'),
+            '='
+          );
+          break;
+        case 'assignment_expression':
+        case 'assignment':
+          if (current.childForFieldName('right')) {
+            add(
+              current.childForFieldName('left'),
+              'assign',
+              current.endIndex,
+              current.childForFieldName('right'),
+              '='
+            );
+          }
+          break;
+        case 'augmented_assignment_expression':
+        case 'augmented_assignment':
+          add(
+            current.childForFieldName('left'),
+            'assign',
+            current.endIndex,
+            current.childForFieldName('right'),
+            getOperator(current)
+          );
+          break;
+        case 'named_expression':
+          add(
+            current.childForFieldName('name'),
+            'assign',
+            current.endIndex,
+            current.childForFieldName('value'),
+            '='
+          );
+          break;
+        case 'for_in_statement':
+        case 'for_statement':
+          if (all && current.childForFieldName('left')) {
+            walkTree(current.childForFieldName('left')!, (child) =>
+              add(child, 'assign', current.endIndex)
+            );
+          }
+          break;
+        default:
+          if (!all && ACCESS_TYPES.includes(current.type) && !isOptionalChaining(current)) {
+            add(
+              current.childForFieldName('object') || current.children[0],
+              'access',
+              current.endIndex
+            );
+          }
+      }
+      for (const effect of effects.slice(start)) {
+        effect.conditional = conditional;
       }
+    };
+    visit(node, false);
+
+    return effects.sort((a, b) => a.end - b.end);
+  }
+}
+
+function joinStates(a: NullState, b: NullState): NullState {
+  const result = new Map(a);
+  for (const [declaration, value] of b) {
+    result.set(declaration, (result.get(declaration) || 0) | value);
+  }
+  return result;
+}
+
+function joinNullable(a: NullState | null, b: NullState | null): NullState | null {
+  if (!a) return b;
+  if (!b) return a;
+  return joinStates(a, b);
+}
+
+function statesEqual(a: NullState, b: NullState): boolean {
+  if (a.size !== b.size) {
+    return false;
+  }
+  for (const [declaration, value] of a) {
+    if (b.get(declaration) !== value) return false;
+  }
+  return true;
+}
+
+// Report the member accesses that null can reach
+function checkAccesses(
+  memberExpressions: Parser.SyntaxNode[],
+  code: string,
+  language: Language,
+  tree: Parser.Tree,
+  context?: DetectorContext
+): DetectorResult[] {
+  const results: DetectorResult[] = [];
+  const scopes = context?.scopes || analyzeScopes(tree, code, language);
+  const nullability = new NullabilityAnalysis(code, language, tree.rootNode, scopes);
+
+  for (const member of memberExpressions) {
+    // Skip if using optional chaining
+    if (isOptionalChaining(member)) {
+      continue;
+    }
+
+    // Get the object being accessed
+    const objectNode = member.childForFieldName('object') || member.children[0];
+    if (!objectNode || objectNode.type !== 'identifier') {
+      continue;
+    }
+
+    // The type the compiler narrowed the variable to, when available,
+    // overrides the tracked state
+    const typed = context?.types?.nullability(objectNode) ?? null;
+    if (typed === 'non-null') {
+      continue;
+    }
+
+    // Check if it's a potentially nullable variable and whether null can
+    // still reach the access
+    const declaration = nullability.resolve(objectNode);
+    const value =
+      declaration && nullability.isTracked(declaration)
+        ? nullability.stateAt(member)?.get(declaration)
+        : undefined;
+    if (!typed && (value === undefined || !(value & NULLISH))) {
+      continue;
+    }
+
+    const targetName = getNodeText(objectNode, code);
+    const assignedNull = value !== undefined && (value & NULL_ASSIGNED) !== 0;
+    const isDefinite = typed ? typed === 'null' : !(value! & NON_NULL);
+    const certainty = isDefinite ? 'definite' : 'possible';
+    const severity = isDefinite ? 'error' : 'warning';
+    const nullLabel = language === 'python' ? 'None' : 'null/undefined';
+    const nullAssignment =
+      declaration && assignedNull ? nullability.nullAssignmentBefore(declaration, member) : null;
+    const confidence = typed ? (isDefinite ? 0.95 : 0.8) : isDefinite ? 0.9 : 0.6;
+
+    results.push({
+      name: 'nullable_access',
+      ...getNodeRange(member),
+      severity,
+      certainty,
+      confidence,
+      scope: 'function',
+      message: `${isDefinite ? 'Definite' : 'Potential'} access on ${nullLabel}: '${targetName}'`,
+      relatedLocations: nullAssignment
+        ? [getRelatedLocation(nullAssignment, `'${targetName}' is set to ${nullLabel} here`)]
+        : undefined,
+      ast_facts: {
+        target_identifier: targetName,
+        guard_present_boolean: false,
+        assigned_null_like_before: assignedNull,
+      },
+    });
+  }
+
+  return results;
+}
+
+const nullableAccessDetector: Detector = {
+  name: 'nullable_access',
+  version: '1',
+  supportedLanguages: ['javascript', 'typescript', 'python'],
+  category: 'correctness',
+
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(nullableAccessDetector, code, language, tree, context);
+  },
 
-      const isDefinite = assignedNull;
-      const certainty = isDefinite ? 'definite' : 'possible';
-      const severity = isDefinite ? 'error' : 'warning';
-      const nullLabel = language === 'python' ? 'None' : 'null/undefined';
-
-      results.push({
-        name: 'nullable_access',
-        line: getLineNumber(member),
-        column: getColumnNumber(member),
-        severity,
-        certainty,
-        confidence: isDefinite ? 0.9 : 0.6,
-        scope: 'function',
-        message: `${isDefinite ? 'Definite' : 'Potential'} access on ${nullLabel}: '${targetName}'`,
-        ast_facts: {
-          target_identifier: targetName,
-          guard_present_boolean: false,
-          assigned_null_like_before: assignedNull,
-        },
-      });
-    }
-
-    return results;
+  createVisitor(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorVisitor {
+    // Member access expressions, checked once the whole file is known
+    const memberExpressions: Parser.SyntaxNode[] = [];
+
+    return {
+      nodeTypes: ACCESS_TYPES,
+      visit(member: Parser.SyntaxNode) {
+        memberExpressions.push(member);
+      },
+      finish: () => checkAccesses(memberExpressions, code, language, tree, context),
+    };
   },
 };
 
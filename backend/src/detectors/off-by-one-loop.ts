@@ -1,187 +1,257 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
-import { findNodes, getNodeText, getLineNumber, getColumnNumber } from '../parser';
+import {
+  Autofix,
+  Detector,
+  DetectorContext,
+  DetectorResult,
+  DetectorVisitor,
+  Language,
+} from '../types';
+import { findNodes, getNodeText, getNodeRange, replaceNode } from '../parser';
+import { detectWithVisitor } from '../engine/visitor';
 
 /**
  * off_by_one_loop detector
- * 
+ *
  * Detects loop conditions that use <= with .length/len() which causes
  * out-of-bounds access.
- * 
+ *
  * Heuristics:
  * - Looks for for loops with condition like i <= arr.length
  * - Also detects Python range(len(arr) + 1) pattern
- * 
+ *
  * False positive mitigation:
  * - Only flags when <= is used with .length or len()
  * - Does not flag if the condition uses a custom variable
+ *
+ * Autofix:
+ * - `i <= arr.length` becomes `i < arr.length` in for loops
+ * - `range(len(x) + 1)` becomes `range(len(x))`
  */
 
-const offByOneLoopDetector: Detector = {
-  name: 'off_by_one_loop',
-  supportedLanguages: ['javascript', 'typescript', 'python'],
+// Build the fix that drops `+ 1` from `len(...) + 1` inside a range() call
+function rangePlusOneFix(node: Parser.SyntaxNode, code: string): Autofix | undefined {
+  for (const binOp of findNodes(node, 'binary_operator')) {
+    const left = binOp.childForFieldName('left');
+    const operator = binOp.childForFieldName('operator');
+    const right = binOp.childForFieldName('right');
+    if (!left || !operator || !right) continue;
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
-    const results: DetectorResult[] = [];
-    const root = tree.rootNode;
-
-    if (language === 'javascript' || language === 'typescript') {
-      // Find for statements
-      const forStatements = findNodes(root, 'for_statement');
-
-      for (const forStmt of forStatements) {
-        // Get the condition part
-        const condition = forStmt.childForFieldName('condition');
-        if (!condition) continue;
-
-        // Look for binary expressions with <= operator
-        const binaryExprs = findNodes(condition, 'binary_expression');
-
-        for (const binExpr of binaryExprs) {
-          const operatorNode = binExpr.children.find(
-            (child) => child.type === '<=' || child.type === '>='
-          );
-
-          if (!operatorNode) continue;
-
-          const operator = operatorNode.type;
-
-          // Get the right operand for <=, left for >=
-          const arrayExpr =
-            operator === '<='
-              ? binExpr.childForFieldName('right')
-              : binExpr.childForFieldName('left');
-
-          if (!arrayExpr) continue;
-
-          const exprText = getNodeText(arrayExpr, code);
-
-          // Check if it references .length
-          if (exprText.includes('.length')) {
-            results.push({
-              name: 'off_by_one_loop',
-              line: getLineNumber(binExpr),
-              column: getColumnNumber(operatorNode),
-              severity: 'warning',
-              certainty: 'possible',
-              confidence: 0.65,
-              scope: 'function',
-              message: `Loop condition uses '${operator}' with array length, which will access out-of-bounds index`,
-              ast_facts: {
-                loop_type: 'for',
-                condition_operator: operator,
-                array_expr_text: exprText,
-              },
-            });
-          }
-        }
-      }
+    const callee = left.type === 'call' ? left.childForFieldName('function') : null;
+    if (
+      operator.type === '+' &&
+      getNodeText(right, code) === '1' &&
+      callee &&
+      getNodeText(callee, code) === 'len'
+    ) {
+      const lenCall = getNodeText(left, code);
+      return {
+        description: `Replace '${getNodeText(binOp, code)}' with '${lenCall}'`,
+        edits: [replaceNode(binOp, lenCall)],
+      };
+    }
+  }
 
-      // Also check while loops
-      const whileStatements = findNodes(root, 'while_statement');
+  return undefined;
+}
 
-      for (const whileStmt of whileStatements) {
-        const condition = whileStmt.childForFieldName('condition');
-        if (!condition) continue;
+// Check the condition of a JS/TS for loop
+function checkForStatement(forStmt: Parser.SyntaxNode, code: string): DetectorResult[] {
+  const results: DetectorResult[] = [];
 
-        const condText = getNodeText(condition, code);
+  // Get the condition part
+  const condition = forStmt.childForFieldName('condition');
+  if (!condition) return results;
 
-        // Check for <= .length pattern
-        if (
-          (condText.includes('<=') && condText.includes('.length')) ||
-          (condText.includes('>=') && condText.includes('.length'))
-        ) {
-          const operator = condText.includes('<=') ? '<=' : '>=';
+  // Look for binary expressions with <= operator
+  const binaryExprs = findNodes(condition, 'binary_expression');
 
-          results.push({
-            name: 'off_by_one_loop',
-            line: getLineNumber(condition),
-            column: getColumnNumber(condition),
-            severity: 'warning',
-            certainty: 'possible',
-            confidence: 0.6,
-            scope: 'function',
-            message: `Loop condition uses '${operator}' with array length, which may cause out-of-bounds access`,
-            ast_facts: {
-              loop_type: 'while',
-              condition_operator: operator,
-              array_expr_text: condText,
-            },
-          });
-        }
-      }
+  for (const binExpr of binaryExprs) {
+    const operatorNode = binExpr.children.find(
+      (child) => child.type === '<=' || child.type === '>='
+    );
+
+    if (!operatorNode) continue;
+
+    const operator = operatorNode.type;
+
+    // Get the right operand for <=, left for >=
+    const arrayExpr =
+      operator === '<=' ? binExpr.childForFieldName('right') : binExpr.childForFieldName('left');
+
+    if (!arrayExpr) continue;
+
+    const exprText = getNodeText(arrayExpr, code);
+
+    // Check if it references .length
+    if (exprText.includes('.length')) {
+      const strictOperator = operator === '<=' ? '<' : '>';
+
+      results.push({
+        name: 'off_by_one_loop',
+        ...getNodeRange(operatorNode),
+        severity: 'warning',
+        certainty: 'possible',
+        confidence: 0.65,
+        scope: 'function',
+        message: `Loop condition uses '${operator}' with array length, which will access out-of-bounds index`,
+        ast_facts: {
+          loop_type: 'for',
+          condition_operator: operator,
+          array_expr_text: exprText,
+        },
+        autofix: {
+          description: `Replace '${operator}' with '${strictOperator}'`,
+          edits: [replaceNode(operatorNode, strictOperator)],
+        },
+      });
     }
+  }
 
-    if (language === 'python') {
-      // Find for statements
-      const forStatements = findNodes(root, 'for_statement');
-
-      for (const forStmt of forStatements) {
-        // Look for range() calls in the iterable
-        const right = forStmt.childForFieldName('right');
-        if (!right) continue;
-
-        const rightText = getNodeText(right, code);
-
-        // Check for range(len(arr) + 1) pattern
-        if (
-          rightText.includes('range') &&
-          rightText.includes('len') &&
-          rightText.includes('+ 1')
-        ) {
+  return results;
+}
+
+// Check the condition of a JS/TS while loop
+function checkWhileStatement(whileStmt: Parser.SyntaxNode, code: string): DetectorResult | null {
+  const condition = whileStmt.childForFieldName('condition');
+  if (!condition) return null;
+
+  const condText = getNodeText(condition, code);
+
+  // Check for <= .length pattern
+  if (
+    (condText.includes('<=') && condText.includes('.length')) ||
+    (condText.includes('>=') && condText.includes('.length'))
+  ) {
+    const operator = condText.includes('<=') ? '<=' : '>=';
+
+    return {
+      name: 'off_by_one_loop',
+      ...getNodeRange(condition),
+      severity: 'warning',
+      certainty: 'possible',
+      confidence: 0.6,
+      scope: 'function',
+      message: `Loop condition uses '${operator}' with array length, which may cause out-of-bounds access`,
+      ast_facts: {
+        loop_type: 'while',
+        condition_operator: operator,
+        array_expr_text: condText,
+      },
+    };
+  }
+
+  return null;
+}
+
+// Check the range() iterable of a Python for loop
+function checkPythonForStatement(forStmt: Parser.SyntaxNode, code: string): DetectorResult[] {
+  const results: DetectorResult[] = [];
+
+  // Look for range() calls in the iterable
+  const right = forStmt.childForFieldName('right');
+  if (!right) return results;
+
+  const rightText = getNodeText(right, code);
+
+  // Check for range(len(arr) + 1) pattern
+  if (rightText.includes('range') && rightText.includes('len') && rightText.includes('+ 1')) {
+    results.push({
+      name: 'off_by_one_loop',
+      ...getNodeRange(right),
+      severity: 'warning',
+      certainty: 'possible',
+      confidence: 0.7,
+      scope: 'function',
+      message: `Loop uses 'range(len(...) + 1)' which iterates one too many times`,
+      ast_facts: {
+        loop_type: 'for',
+        condition_operator: 'range+1',
+        array_expr_text: rightText,
+      },
+      autofix: rangePlusOneFix(right, code),
+    });
+  }
+
+  // Check for range(0, len(arr) + 1) pattern
+  if (
+    rightText.includes('range') &&
+    rightText.includes('len') &&
+    (rightText.includes(', len') || rightText.includes(',len'))
+  ) {
+    // Look for + 1 in the range call
+    const callExpr = findNodes(right, 'call')[0];
+    if (callExpr) {
+      const args = callExpr.childForFieldName('arguments');
+      if (args) {
+        const argsText = getNodeText(args, code);
+        if (argsText.includes('+ 1')) {
           results.push({
             name: 'off_by_one_loop',
-            line: getLineNumber(right),
-            column: getColumnNumber(right),
+            ...getNodeRange(right),
             severity: 'warning',
             certainty: 'possible',
             confidence: 0.7,
             scope: 'function',
-            message: `Loop uses 'range(len(...) + 1)' which iterates one too many times`,
+            message: `Loop range includes 'len(...) + 1' which iterates one too many times`,
             ast_facts: {
               loop_type: 'for',
               condition_operator: 'range+1',
               array_expr_text: rightText,
             },
+            autofix: rangePlusOneFix(args, code),
           });
         }
-
-        // Check for range(0, len(arr) + 1) pattern
-        if (
-          rightText.includes('range') &&
-          rightText.includes('len') &&
-          (rightText.includes(', len') || rightText.includes(',len'))
-        ) {
-          // Look for + 1 in the range call
-          const callExpr = findNodes(right, 'call')[0];
-          if (callExpr) {
-            const args = callExpr.childForFieldName('arguments');
-            if (args) {
-              const argsText = getNodeText(args, code);
-              if (argsText.includes('+ 1')) {
-                results.push({
-                  name: 'off_by_one_loop',
-                  line: getLineNumber(right),
-                  column: getColumnNumber(right),
-                  severity: 'warning',
-                  certainty: 'possible',
-                  confidence: 0.7,
-                  scope: 'function',
-                  message: `Loop range includes 'len(...) + 1' which iterates one too many times`,
-                  ast_facts: {
-                    loop_type: 'for',
-                    condition_operator: 'range+1',
-                    array_expr_text: rightText,
-                  },
-                });
-              }
-            }
-          }
-        }
       }
     }
+  }
 
-    return results;
+  return results;
+}
+
+const offByOneLoopDetector: Detector = {
+  name: 'off_by_one_loop',
+  version: '1',
+  supportedLanguages: ['javascript', 'typescript', 'python'],
+  category: 'correctness',
+  local: true,
+
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(offByOneLoopDetector, code, language, tree, context);
+  },
+
+  createVisitor(code: string, language: Language): DetectorVisitor {
+    // For loop findings are reported before while loop findings
+    const forResults: DetectorResult[] = [];
+    const whileResults: DetectorResult[] = [];
+
+    if (language === 'python') {
+      return {
+        nodeTypes: ['for_statement'],
+        visit(forStmt: Parser.SyntaxNode) {
+          forResults.push(...checkPythonForStatement(forStmt, code));
+        },
+        finish: () => forResults,
+      };
+    }
+
+    return {
+      nodeTypes: ['for_statement', 'while_statement'],
+      visit(node: Parser.SyntaxNode) {
+        if (node.type === 'for_statement') {
+          forResults.push(...checkForStatement(node, code));
+        } else {
+          const result = checkWhileStatement(node, code);
+          if (result) whileResults.push(result);
+        }
+      },
+      finish: () => [...forResults, ...whileResults],
+    };
   },
 };
 
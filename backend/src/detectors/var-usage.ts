@@ -1,69 +1,257 @@
 import { Parser } from '../parser';
-import { Detector, DetectorResult, Language } from '../types';
-import { findNodes, getNodeText, getLineNumber, getColumnNumber, walkTree } from '../parser';
+import {
+  Autofix,
+  Detector,
+  DetectorContext,
+  DetectorResult,
+  DetectorVisitor,
+  Language,
+} from '../types';
+import {
+  findNodes,
+  getNodeText,
+  getNodeRange,
+  getLineNumber,
+  walkTree,
+  replaceNode,
+} from '../parser';
+import { detectWithVisitor } from '../engine/visitor';
 
 /**
  * var_usage detector
- * 
+ *
  * Detects usage of `var` declarations instead of `let` or `const`.
- * 
+ *
  * Heuristics:
  * - Flags all variable_declaration nodes that use `var`
  * - Extracts variable names for the message
- * 
+ *
  * False positive mitigation:
  * - None needed - var is always worth flagging in modern JS
  * - This is an info-level warning, not an error
+ *
+ * Autofix:
+ * - Replaces `var` with `const` (never reassigned) or `let`
+ * - Only offered where block scoping can't change behavior: declarations
+ *   directly in a function body or at module level, whose names are not
+ *   redeclared (by `var`, or a function or class in the same scope) or
+ *   referenced before the declaration
  */
 
+const FUNCTION_TYPES = [
+  'function_declaration',
+  'function_expression',
+  'function',
+  'arrow_function',
+  'method_definition',
+  'generator_function_declaration',
+  'generator_function',
+];
+
+// Declarations whose names `let`/`const` may not redeclare in the same scope
+const NAMED_DECLARATION_TYPES = [
+  'function_declaration',
+  'generator_function_declaration',
+  'class_declaration',
+];
+
+// Start index of the scope a statement declares its names in
+function scopeStart(statement: Parser.SyntaxNode): number | null {
+  let parent = statement.parent;
+  if (parent?.type === 'export_statement') {
+    parent = parent.parent;
+  }
+  return parent ? parent.startIndex : null;
+}
+
+// Get the name assigned or updated by a node, if any
+function getReassignedName(node: Parser.SyntaxNode, code: string): string | null {
+  let target: Parser.SyntaxNode | null = null;
+  if (node.type === 'assignment_expression' || node.type === 'augmented_assignment_expression') {
+    target = node.childForFieldName('left');
+  } else if (node.type === 'update_expression') {
+    target = node.childForFieldName('argument');
+  }
+
+  return target && target.type === 'identifier' ? getNodeText(target, code) : null;
+}
+
+// Check that `let`/`const` would give the declaration the same scope as `var`
+function hasFunctionLevelScope(varDecl: Parser.SyntaxNode): boolean {
+  const parent = varDecl.parent;
+  if (!parent) return false;
+  if (parent.type === 'program') return true;
+  return (
+    parent.type === 'statement_block' &&
+    parent.parent !== null &&
+    FUNCTION_TYPES.includes(parent.parent.type)
+  );
+}
+
+// Check if any of the names is used before the declaration (hoisting)
+function isReferencedBefore(
+  firstReferences: Map<string, number>,
+  varDecl: Parser.SyntaxNode,
+  names: string[]
+): boolean {
+  return names.some((name) => (firstReferences.get(name) ?? Infinity) < varDecl.startIndex);
+}
+
+// Report the collected `var` declarations
+function reportVarDeclarations(
+  varDeclarations: Parser.SyntaxNode[],
+  namedDeclarations: Parser.SyntaxNode[],
+  reassignedNames: Set<string>,
+  firstReferences: Map<string, number>,
+  code: string
+): DetectorResult[] {
+  const results: DetectorResult[] = [];
+
+  // Names declared by functions and classes, by the start of their scope
+  const scopedNames = new Map<number, Set<string>>();
+  for (const declaration of namedDeclarations) {
+    const nameNode = declaration.childForFieldName('name');
+    const scope = scopeStart(declaration);
+    if (!nameNode || scope === null) continue;
+    const names = scopedNames.get(scope) ?? new Set<string>();
+    names.add(getNodeText(nameNode, code));
+    scopedNames.set(scope, names);
+  }
+
+  // Count how often each name is declared with var
+  const declarationCounts = new Map<string, number>();
+  for (const varDecl of varDeclarations) {
+    if (varDecl.children[0]?.text !== 'var') continue;
+    for (const declarator of findNodes(varDecl, 'variable_declarator')) {
+      const nameNode = declarator.childForFieldName('name');
+      if (nameNode) {
+        const name = getNodeText(nameNode, code);
+        declarationCounts.set(name, (declarationCounts.get(name) || 0) + 1);
+      }
+    }
+  }
+
+  for (const varDecl of varDeclarations) {
+    // Check if it's a var declaration (not let or const)
+    const firstChild = varDecl.children[0];
+    if (!firstChild || firstChild.text !== 'var') {
+      continue;
+    }
+
+    // Get the variable names
+    const variableNames: string[] = [];
+    let onlyIdentifiers = true;
+    let allInitialized = true;
+    walkTree(varDecl, (node) => {
+      if (node.type === 'variable_declarator') {
+        const nameNode = node.childForFieldName('name');
+        if (nameNode && nameNode.type === 'identifier') {
+          variableNames.push(getNodeText(nameNode, code));
+        } else {
+          onlyIdentifiers = false;
+        }
+        if (!node.childForFieldName('value')) {
+          allInitialized = false;
+        }
+      }
+    });
+
+    if (variableNames.length === 0) continue;
+
+    let autofix: Autofix | undefined;
+    if (
+      onlyIdentifiers &&
+      hasFunctionLevelScope(varDecl) &&
+      variableNames.every((name) => declarationCounts.get(name) === 1) &&
+      !variableNames.some((name) => scopedNames.get(scopeStart(varDecl) ?? -1)?.has(name)) &&
+      !isReferencedBefore(firstReferences, varDecl, variableNames)
+    ) {
+      const keyword =
+        allInitialized && !variableNames.some((name) => reassignedNames.has(name))
+          ? 'const'
+          : 'let';
+      autofix = {
+        description: `Replace 'var' with '${keyword}'`,
+        edits: [replaceNode(firstChild, keyword)],
+      };
+    }
+
+    results.push({
+      name: 'var_usage',
+      ...getNodeRange(varDecl),
+      severity: 'info',
+      certainty: 'heuristic',
+      confidence: 0.45,
+      scope: 'function',
+      message: `Use 'let' or 'const' instead of 'var' for: ${variableNames.join(', ')}`,
+      ast_facts: {
+        variable_names: variableNames,
+        declaration_line: getLineNumber(varDecl),
+      },
+      autofix,
+    });
+  }
+
+  return results;
+}
+
 const varUsageDetector: Detector = {
   name: 'var_usage',
+  version: '1',
   supportedLanguages: ['javascript'],
+  category: 'maintainability',
 
-  detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
-    const results: DetectorResult[] = [];
-    const root = tree.rootNode;
+  detect(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorResult[] {
+    return detectWithVisitor(varUsageDetector, code, language, tree, context);
+  },
 
-    // Find all variable declarations
-    const varDeclarations = findNodes(root, 'variable_declaration');
+  createVisitor(code: string): DetectorVisitor {
+    const varDeclarations: Parser.SyntaxNode[] = [];
+    const namedDeclarations: Parser.SyntaxNode[] = [];
+    const reassignedNames = new Set<string>();
+    // Start index of the first identifier with each name
+    const firstReferences = new Map<string, number>();
 
-    for (const varDecl of varDeclarations) {
-      // Check if it's a var declaration (not let or const)
-      const firstChild = varDecl.children[0];
-      if (!firstChild || firstChild.text !== 'var') {
-        continue;
-      }
+    return {
+      nodeTypes: [
+        'variable_declaration',
+        'assignment_expression',
+        'augmented_assignment_expression',
+        'update_expression',
+        'identifier',
+        ...NAMED_DECLARATION_TYPES,
+      ],
 
-      // Get the variable names
-      const variableNames: string[] = [];
-      walkTree(varDecl, (node) => {
-        if (node.type === 'variable_declarator') {
-          const nameNode = node.childForFieldName('name');
-          if (nameNode && nameNode.type === 'identifier') {
-            variableNames.push(getNodeText(nameNode, code));
+      visit(node: Parser.SyntaxNode) {
+        if (node.type === 'variable_declaration') {
+          varDeclarations.push(node);
+        } else if (NAMED_DECLARATION_TYPES.includes(node.type)) {
+          namedDeclarations.push(node);
+        } else if (node.type === 'identifier') {
+          const name = getNodeText(node, code);
+          if (!firstReferences.has(name)) {
+            firstReferences.set(name, node.startIndex);
           }
+        } else {
+          const name = getReassignedName(node, code);
+          if (name) reassignedNames.add(name);
         }
-      });
-
-      if (variableNames.length === 0) continue;
-
-      results.push({
-        name: 'var_usage',
-        line: getLineNumber(varDecl),
-        column: getColumnNumber(varDecl),
-        severity: 'info',
-        certainty: 'heuristic',
-        confidence: 0.45,
-        scope: 'function',
-        message: `Use 'let' or 'const' instead of 'var' for: ${variableNames.join(', ')}`,
-        ast_facts: {
-          variable_names: variableNames,
-          declaration_line: getLineNumber(varDecl),
-        },
-      });
-    }
+      },
 
-    return results;
+      finish: () =>
+        reportVarDeclarations(
+          varDeclarations,
+          namedDeclarations,
+          reassignedNames,
+          firstReferences,
+          code
+        ),
+    };
   },
 };
 
@@ -0,0 +1,637 @@
+import { getNodeRange, parseCode, Parser, PositionConverter } from '../parser';
+import { getDetectorsForLanguage } from '../detectors';
+import { generateExplanation } from '../explainers';
+import {
+  AnalysisConfig,
+  AnalysisEvent,
+  AnalyzeResponse,
+  Category,
+  Detector,
+  DetectorResult,
+  DetectorVisitor,
+  Language,
+  Mistake,
+  PositionEncoding,
+  Severity,
+  SuppressedMistake,
+} from '../types';
+import { analyzeScopes, ScopeAnalysis } from '../analysis/scopes';
+import { analyzeTypes, TypeAnalysis } from '../analysis/typecheck';
+import { ProjectModule } from '../analysis/project';
+import { meetsSeverity } from '../lib/severity';
+import { logger } from '../lib/logger';
+import { recordCacheMetric } from '../lib/metrics';
+import { AnalysisCache, createCacheKey } from './cache';
+import { collectSuppressions, SuppressionSet } from './suppressions';
+import { collectSyntaxErrors, lowerCertainty, SyntaxErrorSet } from './diagnostics';
+import { Fingerprinter } from './fingerprints';
+import { calculateScore, countLinesOfCode } from './scoring';
+import { getRuleSettings, ResolvedRuleSettings } from './config';
+import { createDetectorVisitor, dispatchVisitors } from './visitor';
+
+/**
+ * Analysis engine
+ *
+ * The single implementation of "parse, run detectors, explain, sort, score"
+ * shared by the API routes, the CLI and tests.
+ */
+
+// Options accepted by analyze()
+export interface AnalyzeOptions {
+  // Only run detectors with these names (default: all applicable detectors)
+  include?: string[];
+  // Never run detectors with these names
+  exclude?: string[];
+  // Drop findings below this severity
+  minSeverity?: Severity;
+  // Drop findings with a lower confidence (0-1)
+  minConfidence?: number;
+  // Stop running detectors once this many milliseconds have elapsed (see
+  // runDetectors())
+  timeoutMs?: number;
+  // Per-rule settings (.rookierc.json or the request's `options`)
+  config?: AnalysisConfig;
+  // Unit of the columns in the response (default: UTF-16 code units)
+  positionEncoding?: PositionEncoding;
+  // Give detectors the TypeScript compiler's type information (see
+  // analysis/typecheck); ignored for other languages
+  typeCheck?: boolean;
+  // The file's module in a project analysis (see ./project)
+  project?: ProjectModule;
+  // Reuse results of identical analyses; only complete results are stored
+  cache?: AnalysisCache;
+  // Told whose code is about to run: a detector's name, or undefined once
+  // detectors are done (lets the worker pool name a detector that hangs)
+  trackDetector?: (name: string | undefined) => void;
+  // Told as each detector starts and finishes, with its findings
+  onProgress?: (event: AnalysisEvent) => void;
+  // Abandons the analysis when aborted (the worker pool terminates its worker;
+  // analyses on the calling thread run to the end)
+  signal?: AbortSignal;
+}
+
+// Information about how an analysis was performed
+export interface AnalysisMetadata {
+  language: Language;
+  durationMs: number;
+  // Detectors that ran to completion
+  detectors: string[];
+  // Detectors that threw (their findings are missing from the result)
+  failedDetectors: string[];
+  // Detectors that were not started because the timeout was reached
+  skippedDetectors: string[];
+  timedOut: boolean;
+  // The result came from the analysis cache
+  cached: boolean;
+}
+
+// Result of analyze(): the API response plus metadata
+export interface AnalysisResult {
+  response: AnalyzeResponse;
+  metadata: AnalysisMetadata;
+}
+
+// Raw findings of a detector that ran to completion
+export interface DetectorFindings {
+  detector: Detector;
+  // Node types its visitor registered (empty for detect()-only detectors)
+  nodeTypes: string[];
+  results: DetectorResult[];
+}
+
+// A started detector during runDetectors()
+interface DetectorRun {
+  detector: Detector;
+  settings: ResolvedRuleSettings;
+  visitor: DetectorVisitor;
+  failed: boolean;
+}
+
+// Thrown when the code cannot be parsed at all
+export class ParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Select the detectors to run for a language, honoring include/exclude lists
+ * and rules disabled in the configuration
+ */
+export function selectDetectors(language: Language, options: AnalyzeOptions = {}): Detector[] {
+  const { include, exclude, config } = options;
+
+  return getDetectorsForLanguage(language).filter(
+    (detector) =>
+      (!include || include.includes(detector.name)) &&
+      (!exclude || !exclude.includes(detector.name)) &&
+      getRuleSettings(config, detector.name).enabled
+  );
+}
+
+/**
+ * Turn a raw detector result into a Mistake with its explanation
+ */
+export function explainResult(
+  result: DetectorResult,
+  id: number,
+  language: Language,
+  fingerprint?: string
+): Mistake {
+  const { explanation, fix, codeExample } = generateExplanation(result.name, {
+    ...result.ast_facts,
+    language,
+    certainty: result.certainty,
+  });
+
+  return {
+    id,
+    fingerprint,
+    name: result.name,
+    line: result.line,
+    column: result.column,
+    endLine: result.endLine,
+    endColumn: result.endColumn,
+    startOffset: result.startOffset,
+    endOffset: result.endOffset,
+    severity: result.severity,
+    certainty: result.certainty,
+    confidence: result.confidence,
+    scope: result.scope,
+    message: result.message,
+    ast_facts: result.ast_facts,
+    explanation,
+    fix,
+    codeExample,
+    autofix: result.autofix,
+    relatedLocations: result.relatedLocations,
+  };
+}
+
+/**
+ * Fill in the range of a result that only has a start position (e.g. from a
+ * plugin) from the smallest named node at that position
+ */
+function completeRange(result: DetectorResult, tree: Parser.Tree): DetectorResult {
+  if (
+    result.endLine !== undefined &&
+    result.endColumn !== undefined &&
+    result.startOffset !== undefined &&
+    result.endOffset !== undefined
+  ) {
+    return result;
+  }
+
+  const node = tree.rootNode.namedDescendantForPosition({
+    row: Math.max(0, result.line - 1),
+    column: Math.max(0, result.column - 1),
+  });
+  const range = getNodeRange(node);
+  return {
+    ...result,
+    endLine: result.endLine ?? range.endLine,
+    endColumn: result.endColumn ?? range.endColumn,
+    startOffset: result.startOffset ?? range.startOffset,
+    endOffset: result.endOffset ?? range.endOffset,
+  };
+}
+
+// Columns of a result and its related locations in a response's encoding;
+// `positions` gives the converter of a file (this one when undefined)
+function convertPositions(
+  result: DetectorResult,
+  positions: (file?: string) => PositionConverter
+): DetectorResult {
+  return {
+    ...positions().range(result),
+    relatedLocations: result.relatedLocations?.map((location) =>
+      positions(location.file).range(location)
+    ),
+  };
+}
+
+/**
+ * Sort mistakes by position
+ */
+export function sortMistakes<T extends Mistake>(mistakes: T[]): T[] {
+  return mistakes.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+// beforeVisit callback of dispatchVisitors() for options.trackDetector
+function trackVisits(
+  runs: DetectorRun[],
+  track: (name: string) => void
+): (visitor: DetectorVisitor) => void {
+  const names = new Map(runs.map((run) => [run.visitor, run.detector.name]));
+  return (visitor) => track(names.get(visitor)!);
+}
+
+/**
+ * Run detectors over a parsed tree. Detectors share one traversal of the
+ * syntax tree (see ./visitor).
+ *
+ * Completed, failed and skipped detectors are recorded in `metadata`; a
+ * detector that throws is logged and never fails the run. `startTime` is the
+ * reference for `options.timeoutMs`: past it, no detector is started, the
+ * traversal is cut short (skipping every visitor, whose findings would be
+ * incomplete) and detect()-only detectors are skipped. Visitors of a
+ * finished traversal always finish, as their work is done. With a `builder`,
+ * each detector's findings are added to it as the detector finishes, and
+ * `options.onProgress` is told about them.
+ */
+export function runDetectors(
+  tree: Parser.Tree,
+  code: string,
+  language: Language,
+  detectors: Detector[],
+  options: AnalyzeOptions,
+  metadata: AnalysisMetadata,
+  startTime: number = Date.now(),
+  builder?: ResponseBuilder
+): DetectorFindings[] {
+  // Built on first use so detectors that don't need them cost nothing
+  let scopes: ScopeAnalysis | undefined;
+  const getScopes = (): ScopeAnalysis => (scopes ??= analyzeScopes(tree, code, language));
+  let types: TypeAnalysis | undefined;
+  const getTypes = (): TypeAnalysis | undefined =>
+    options.typeCheck && language === 'typescript' ? (types ??= analyzeTypes(code)) : undefined;
+
+  const track = options.trackDetector;
+  const progress = builder && options.onProgress;
+
+  const timedOut = (): boolean =>
+    options.timeoutMs !== undefined && Date.now() - startTime > options.timeoutMs;
+
+  const fail = (detector: Detector, detectorError: unknown): void => {
+    // Log but don't fail the entire analysis
+    metadata.failedDetectors.push(detector.name);
+    logger.error('Detector failed', {
+      detector: detector.name,
+      language,
+      error: detectorError instanceof Error ? detectorError.message : 'Unknown error',
+    });
+    progress?.({ type: 'detector-done', detector: detector.name, findings: 0, failed: true });
+  };
+
+  // Start every selected detector, then traverse the tree once for all of them
+  const runs: DetectorRun[] = [];
+  for (const detector of detectors) {
+    if (timedOut()) {
+      metadata.timedOut = true;
+      metadata.skippedDetectors.push(detector.name);
+      continue;
+    }
+
+    const settings = getRuleSettings(options.config, detector.name);
+
+    try {
+      track?.(detector.name);
+      progress?.({ type: 'detector-start', detector: detector.name });
+      const visitor = createDetectorVisitor(detector, code, language, tree, {
+        options: settings.options,
+        get scopes() {
+          return getScopes();
+        },
+        get types() {
+          return getTypes();
+        },
+        project: options.project,
+      });
+      runs.push({ detector, settings, visitor, failed: false });
+    } catch (detectorError) {
+      fail(detector, detectorError);
+    }
+  }
+
+  const traversed = dispatchVisitors(
+    tree.rootNode,
+    runs.map((run) => run.visitor),
+    (visitor, detectorError) => {
+      const run = runs.find((candidate) => candidate.visitor === visitor)!;
+      run.failed = true;
+      fail(run.detector, detectorError);
+    },
+    track && trackVisits(runs, track),
+    options.timeoutMs !== undefined ? timedOut : undefined
+  );
+
+  const findings: DetectorFindings[] = [];
+  for (const { detector, visitor, failed } of runs) {
+    if (failed) continue;
+
+    // Visitors of a cut-short traversal missed nodes; detect()-only
+    // detectors do all their work in finish()
+    if (!traversed || (!detector.createVisitor && timedOut())) {
+      metadata.timedOut = true;
+      metadata.skippedDetectors.push(detector.name);
+      continue;
+    }
+
+    let detectorFindings: DetectorFindings;
+    try {
+      track?.(detector.name);
+      detectorFindings = { detector, nodeTypes: visitor.nodeTypes, results: visitor.finish() };
+    } catch (detectorError) {
+      fail(detector, detectorError);
+      continue;
+    }
+    findings.push(detectorFindings);
+    metadata.detectors.push(detector.name);
+
+    if (builder) {
+      const mistakes = builder.add(detectorFindings);
+      for (const mistake of mistakes) {
+        progress?.({ type: 'finding', detector: detector.name, mistake });
+      }
+      progress?.({ type: 'detector-done', detector: detector.name, findings: mistakes.length });
+    }
+  }
+  track?.(undefined);
+
+  return findings;
+}
+
+/**
+ * Builds the API response from the findings of each detector, as the
+ * detectors finish: applies severity overrides and the severity/confidence
+ * filters, lowers the certainty of findings near syntax errors, fingerprints
+ * (see ./fingerprints) and explains each finding, and moves findings silenced
+ * by `rookie-ignore` comments into `suppressed`. Columns are converted to
+ * `options.positionEncoding` once fingerprinted.
+ */
+export class ResponseBuilder {
+  private readonly suppressions: SuppressionSet;
+  private readonly syntaxErrors: SyntaxErrorSet;
+  private readonly fingerprinter: Fingerprinter;
+  private readonly positions: PositionConverter;
+  // Converters of the other project files related locations point into
+  private readonly filePositions = new Map<string, PositionConverter>();
+  private readonly mistakes: Mistake[] = [];
+  private readonly suppressed: SuppressedMistake[] = [];
+  private readonly categories = new Map<Mistake, Category>();
+  private nextId = 1;
+
+  constructor(
+    private readonly tree: Parser.Tree,
+    private readonly code: string,
+    private readonly language: Language,
+    private readonly options: AnalyzeOptions = {}
+  ) {
+    this.suppressions = collectSuppressions(tree, code);
+    this.syntaxErrors = collectSyntaxErrors(tree, code);
+    this.fingerprinter = new Fingerprinter(tree, code);
+    this.positions = new PositionConverter(code, options.positionEncoding);
+  }
+
+  /**
+   * Add the findings of a detector. Returns its mistakes that are not
+   * suppressed, in the order found.
+   */
+  add({ detector, results }: DetectorFindings): Mistake[] {
+    const { config, minSeverity, minConfidence } = this.options;
+    const settings = getRuleSettings(config, detector.name);
+    const added: Mistake[] = [];
+
+    for (const raw of results) {
+      const result = {
+        ...completeRange(raw, this.tree),
+        severity: settings.severity ?? raw.severity,
+        certainty: this.syntaxErrors.affects(raw.line)
+          ? lowerCertainty(raw.certainty)
+          : raw.certainty,
+      };
+
+      if (minSeverity && !meetsSeverity(result.severity, minSeverity)) {
+        continue;
+      }
+
+      if (minConfidence !== undefined && result.confidence < minConfidence) {
+        continue;
+      }
+
+      const fingerprint = this.fingerprinter.fingerprint(result);
+      const mistake = explainResult(
+        convertPositions(result, this.positionsOf),
+        this.nextId++,
+        this.language,
+        fingerprint
+      );
+      const suppression = this.suppressions.match(result);
+      if (suppression) {
+        this.suppressed.push({
+          ...mistake,
+          suppressedBy: {
+            kind: suppression.kind,
+            line: suppression.line,
+            reason: suppression.reason,
+          },
+        });
+      } else {
+        this.mistakes.push(mistake);
+        this.categories.set(mistake, detector.category ?? 'other');
+        added.push(mistake);
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Sort and score the mistakes added so far. `diagnostics` lists the syntax
+   * errors and the failed and skipped detectors of `metadata`.
+   */
+  build(metadata?: AnalysisMetadata): AnalyzeResponse {
+    const mistakes = sortMistakes([...this.mistakes]);
+    const suppressed = sortMistakes([...this.suppressed]);
+
+    const { score, breakdown } = calculateScore(mistakes, {
+      linesOfCode: countLinesOfCode(this.code),
+      categoryOf: (mistake) => this.categories.get(mistake)!,
+      config: this.options.config?.scoring,
+    });
+
+    return {
+      mistakes,
+      score,
+      scoring: breakdown,
+      suppressed,
+      positionEncoding: this.positions.encoding,
+      diagnostics: {
+        syntaxErrors: this.syntaxErrors.errors.map((error) => this.positions.range(error)),
+        failedDetectors: [...(metadata?.failedDetectors ?? [])],
+        skippedDetectors: [...(metadata?.skippedDetectors ?? [])],
+      },
+    };
+  }
+
+  // Converter of a file's columns (this file when undefined)
+  private positionsOf = (file?: string): PositionConverter => {
+    const other = file === undefined ? undefined : this.options.project?.index.getFile(file);
+    if (!other) {
+      return this.positions;
+    }
+    if (!this.filePositions.has(other.path)) {
+      this.filePositions.set(
+        other.path,
+        new PositionConverter(other.code, this.options.positionEncoding)
+      );
+    }
+    return this.filePositions.get(other.path)!;
+  };
+}
+
+/**
+ * Turn raw findings into the API response (see ResponseBuilder) and score the
+ * findings that are not suppressed (see ./scoring)
+ */
+export function buildResponse(
+  findings: DetectorFindings[],
+  tree: Parser.Tree,
+  code: string,
+  language: Language,
+  options: AnalyzeOptions = {},
+  metadata?: AnalysisMetadata
+): AnalyzeResponse {
+  const builder = new ResponseBuilder(tree, code, language, options);
+  for (const detectorFindings of findings) {
+    builder.add(detectorFindings);
+  }
+  return builder.build(metadata);
+}
+
+/**
+ * Report the detectors of a finished analysis to `onProgress` as if they had
+ * just run, for results that did not come from a run (cache hits)
+ */
+export function replayProgress(
+  result: AnalysisResult,
+  onProgress: (event: AnalysisEvent) => void
+): void {
+  const { detectors } = result.metadata;
+  for (const detector of detectors) {
+    onProgress({ type: 'detector-start', detector });
+  }
+
+  const byId = [...result.response.mistakes].sort((a, b) => a.id - b.id);
+  for (const detector of detectors) {
+    const mistakes = byId.filter((mistake) => mistake.name === detector);
+    for (const mistake of mistakes) {
+      onProgress({ type: 'finding', detector, mistake });
+    }
+    onProgress({ type: 'detector-done', detector, findings: mistakes.length });
+  }
+}
+
+/**
+ * Look an analysis up in `options.cache`. A hit is returned as `cached`, with
+ * its duration updated and its progress replayed to `options.onProgress`;
+ * `cacheKey` is where cacheResult() stores a fresh result.
+ */
+export function lookupCachedResult(
+  code: string,
+  language: Language,
+  options: AnalyzeOptions,
+  detectors: Detector[],
+  startTime: number
+): { cacheKey?: string; cached?: AnalysisResult } {
+  if (!options.cache) {
+    return {};
+  }
+
+  const cacheKey = createCacheKey(code, language, options, detectors);
+  const cached = options.cache.get(cacheKey);
+  recordCacheMetric(cached !== undefined);
+  if (cached) {
+    cached.metadata.durationMs = Date.now() - startTime;
+    cached.metadata.cached = true;
+    if (options.onProgress) {
+      replayProgress(cached, options.onProgress);
+    }
+  }
+  return { cacheKey, cached };
+}
+
+/**
+ * Store a result under the key from lookupCachedResult(). Partial results
+ * depend on timing and failures, so they are not reused.
+ */
+export function cacheResult(
+  options: AnalyzeOptions,
+  cacheKey: string | undefined,
+  result: AnalysisResult
+): void {
+  const { metadata } = result;
+  if (options.cache && cacheKey && !metadata.timedOut && metadata.failedDetectors.length === 0) {
+    options.cache.set(cacheKey, result);
+  }
+}
+
+/**
+ * Create empty metadata for an analysis
+ */
+export function createMetadata(language: Language): AnalysisMetadata {
+  return {
+    language,
+    durationMs: 0,
+    detectors: [],
+    failedDetectors: [],
+    skippedDetectors: [],
+    timedOut: false,
+    cached: false,
+  };
+}
+
+/**
+ * Analyze code for common mistakes.
+ *
+ * Throws ParseError if the code cannot be parsed. A detector that throws is
+ * logged and listed in metadata.failedDetectors; it never fails the analysis.
+ * Findings silenced by `rookie-ignore` comments are returned in `suppressed`
+ * and do not count towards the score.
+ *
+ * With `options.cache`, a repeated analysis of the same code, options and
+ * detector versions is answered from the cache without parsing.
+ */
+export function analyze(
+  code: string,
+  language: Language,
+  options: AnalyzeOptions = {}
+): AnalysisResult {
+  const startTime = Date.now();
+  const detectors = selectDetectors(language, options);
+
+  const { cacheKey, cached } = lookupCachedResult(code, language, options, detectors, startTime);
+  if (cached) {
+    return cached;
+  }
+
+  let tree: Parser.Tree;
+  try {
+    tree = parseCode(code, language);
+  } catch (parseError) {
+    throw new ParseError(parseError instanceof Error ? parseError.message : String(parseError));
+  }
+
+  const metadata = createMetadata(language);
+  let response: AnalyzeResponse;
+  try {
+    const builder = new ResponseBuilder(tree, code, language, options);
+    runDetectors(tree, code, language, detectors, options, metadata, startTime, builder);
+    response = builder.build(metadata);
+  } finally {
+    tree.delete();
+  }
+
+  metadata.durationMs = Date.now() - startTime;
+
+  if (metadata.timedOut) {
+    response.partial = true;
+    response.timedOutDetectors = [...metadata.skippedDetectors];
+  }
+
+  const result: AnalysisResult = { response, metadata };
+  cacheResult(options, cacheKey, result);
+
+  return result;
+}
@@ -0,0 +1,60 @@
+import { getDetectorByName } from '../detectors';
+import { AnalyzeResponse, BaselineEntry, Mistake, ScoringConfig } from '../types';
+import { calculateScore } from './scoring';
+
+/**
+ * Baselines
+ *
+ * A baseline records the findings of existing code by fingerprint (see
+ * ./fingerprints) so that later analyses only report new ones. Findings
+ * without a fingerprint are never matched.
+ */
+
+/**
+ * Baseline entries for the fingerprinted findings of an analysis
+ */
+export function createBaseline(mistakes: Mistake[]): BaselineEntry[] {
+  return mistakes
+    .filter((mistake) => mistake.fingerprint !== undefined)
+    .map((mistake) => ({
+      fingerprint: mistake.fingerprint!,
+      name: mistake.name,
+      line: mistake.line,
+      message: mistake.message,
+    }));
+}
+
+/**
+ * Drop the findings that are in the baseline from a response, list the
+ * baseline entries that are no longer found (suppressed findings count as
+ * found) and score the remaining findings.
+ */
+export function applyBaseline(
+  response: AnalyzeResponse,
+  baseline: BaselineEntry[],
+  scoring?: ScoringConfig
+): AnalyzeResponse {
+  const known = new Set(baseline.map((entry) => entry.fingerprint));
+  const mistakes = response.mistakes.filter(
+    (mistake) => mistake.fingerprint === undefined || !known.has(mistake.fingerprint)
+  );
+
+  const found = new Set(
+    [...response.mistakes, ...(response.suppressed ?? [])].map((mistake) => mistake.fingerprint)
+  );
+  const fixed = baseline.filter((entry) => !found.has(entry.fingerprint));
+
+  const { score, breakdown } = calculateScore(mistakes, {
+    linesOfCode: response.scoring?.linesOfCode,
+    categoryOf: (mistake) => getDetectorByName(mistake.name)?.category ?? 'other',
+    config: scoring,
+  });
+
+  return {
+    ...response,
+    mistakes,
+    score,
+    scoring: breakdown,
+    baseline: { matched: response.mistakes.length - mistakes.length, fixed },
+  };
+}
@@ -0,0 +1,107 @@
+import { logger } from '../lib/logger';
+import { BatchAnalyzeResponse, BatchItemResult, Language } from '../types';
+import { AnalysisMetadata, AnalyzeOptions, ParseError } from './analyze';
+import { AnalysisPool } from './pool';
+
+/**
+ * Batch analysis
+ *
+ * Analyzes many independent files in one call. Each item is a separate
+ * analysis on the pool, so the items run concurrently when the pool has
+ * worker threads; at most `pool.concurrency` of a batch are queued at once,
+ * leaving room for other requests. An item that cannot be analyzed gets an
+ * error result instead of failing the batch, and so does an item that was
+ * not finished when the batch was cancelled.
+ */
+
+// One file of a batch
+export interface BatchItem {
+  id: string;
+  code: string;
+  language: Language;
+}
+
+// Options accepted by analyzeBatch(); the analyze options apply to every item
+export interface BatchAnalyzeOptions extends Omit<AnalyzeOptions, 'project'> {
+  // Called as each item finishes, with the number of items finished
+  onItemDone?: (completed: number) => void;
+  // Items not finished when this aborts are stopped or not analyzed
+  signal?: AbortSignal;
+}
+
+// Result of analyzeBatch(): one result and metadata per item, in input order
+export interface BatchAnalysisResult {
+  results: BatchItemResult[];
+  // Undefined for items that failed
+  metadata: (AnalysisMetadata | undefined)[];
+}
+
+export const BATCH_PARSE_ERROR = 'Failed to parse code. Please check for syntax errors.';
+export const BATCH_ANALYSIS_ERROR = 'Analysis failed';
+export const BATCH_CANCELLED_ERROR = 'Analysis cancelled';
+
+/**
+ * Analyze the items of a batch on the pool. Never rejects: parse errors and
+ * failed analyses become error results for their item.
+ */
+export async function analyzeBatch(
+  pool: Pick<AnalysisPool, 'analyze' | 'concurrency'>,
+  items: BatchItem[],
+  options: BatchAnalyzeOptions = {}
+): Promise<BatchAnalysisResult> {
+  const { onItemDone, ...analyzeOptions } = options;
+  const { signal } = options;
+  const results: BatchItemResult[] = new Array(items.length);
+  const metadata: (AnalysisMetadata | undefined)[] = new Array(items.length).fill(undefined);
+  let next = 0;
+  let completed = 0;
+
+  const analyzeNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      const { id, code, language } = items[index];
+      if (signal?.aborted) {
+        results[index] = { id, error: BATCH_CANCELLED_ERROR };
+        continue;
+      }
+      try {
+        const result = await pool.analyze(code, language, analyzeOptions);
+        results[index] = { id, ...result.response };
+        metadata[index] = result.metadata;
+      } catch (error) {
+        if (signal?.aborted) {
+          results[index] = { id, error: BATCH_CANCELLED_ERROR };
+        } else if (error instanceof ParseError) {
+          results[index] = { id, error: BATCH_PARSE_ERROR };
+        } else {
+          logger.error('Batch item analysis failed', {
+            id,
+            language,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          results[index] = { id, error: BATCH_ANALYSIS_ERROR };
+        }
+      }
+      onItemDone?.(++completed);
+    }
+  };
+
+  const runners = Math.min(pool.concurrency, items.length);
+  await Promise.all(Array.from({ length: runners }, analyzeNext));
+
+  return { results, metadata };
+}
+
+// Summary of a batch's results
+export function summarizeBatch(results: BatchItemResult[]): BatchAnalyzeResponse['summary'] {
+  const failed = results.filter((result) => 'error' in result).length;
+  return {
+    items: results.length,
+    succeeded: results.length - failed,
+    failed,
+    mistakes: results.reduce(
+      (sum, result) => sum + ('mistakes' in result ? result.mistakes.length : 0),
+      0
+    ),
+  };
+}
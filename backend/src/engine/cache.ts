@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { Detector, Language } from '../types';
+import type { AnalysisResult, AnalyzeOptions } from './analyze';
+
+/**
+ * Analysis result cache
+ *
+ * An LRU map from cache key to a finished analysis. The key covers everything
+ * that decides the findings: the code's hash, the language, the filtering and
+ * rule options, and the name and version of every detector that runs. Results
+ * are copied in and out so callers can modify what they get back.
+ */
+
+// Object keys sorted, so equal option sets serialize the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Build the cache key for analyzing `code` with the given detectors and
+ * options. include/exclude are covered by the detector list.
+ */
+export function createCacheKey(
+  code: string,
+  language: Language,
+  options: AnalyzeOptions,
+  detectors: Detector[]
+): string {
+  const codeHash = crypto.createHash('sha256').update(code).digest('hex');
+  const settings = stableStringify({
+    minSeverity: options.minSeverity,
+    minConfidence: options.minConfidence,
+    config: options.config,
+    positionEncoding: options.positionEncoding,
+    typeCheck: options.typeCheck,
+    detectors: detectors.map((detector) => `${detector.name}@${detector.version || ''}`),
+  });
+  const settingsHash = crypto.createHash('sha256').update(settings).digest('hex');
+
+  return `${language}:${codeHash}:${settingsHash}`;
+}
+
+function cloneResult(result: AnalysisResult): AnalysisResult {
+  return JSON.parse(JSON.stringify(result)) as AnalysisResult;
+}
+
+export class AnalysisCache {
+  private entries = new Map<string, AnalysisResult>();
+
+  // A size of 0 disables the cache
+  constructor(readonly maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a copy of a cached result, marking it as most recently used
+   */
+  get(key: string): AnalysisResult | undefined {
+    const result = this.entries.get(key);
+    if (!result) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, result);
+    return cloneResult(result);
+  }
+
+  /**
+   * Store a copy of a result, evicting the least recently used entries
+   */
+  set(key: string, result: AnalysisResult): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, cloneResult(result));
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Shared by the API routes
+export const analysisCache = new AnalysisCache(config.cache.maxEntries);
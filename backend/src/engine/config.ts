@@ -0,0 +1,47 @@
+import { AnalysisConfig, RuleConfig, Severity } from '../types';
+import { isSeverity } from '../lib/severity';
+
+// Rule settings with defaults applied
+export interface ResolvedRuleSettings {
+  enabled: boolean;
+  severity?: Severity;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Normalize a rule entry from the configuration into full settings.
+ *
+ *   false / 'off'       -> { enabled: false }
+ *   true                -> { enabled: true }
+ *   'error'             -> { enabled: true, severity: 'error' }
+ *   { ...settings }     -> as given, enabled unless `enabled: false`
+ */
+export function normalizeRuleConfig(entry: RuleConfig | undefined): ResolvedRuleSettings {
+  if (entry === undefined || entry === true) {
+    return { enabled: true, options: {} };
+  }
+
+  if (entry === false || entry === 'off') {
+    return { enabled: false, options: {} };
+  }
+
+  if (isSeverity(entry)) {
+    return { enabled: true, severity: entry, options: {} };
+  }
+
+  return {
+    enabled: entry.enabled !== false,
+    severity: entry.severity,
+    options: entry.options || {},
+  };
+}
+
+/**
+ * Get the resolved settings for a rule
+ */
+export function getRuleSettings(
+  config: AnalysisConfig | undefined,
+  ruleName: string
+): ResolvedRuleSettings {
+  return normalizeRuleConfig(config?.rules?.[ruleName]);
+}
@@ -0,0 +1,109 @@
+import { Parser } from '../parser';
+import { Certainty, SyntaxDiagnostic } from '../types';
+
+/**
+ * Syntax diagnostics
+ *
+ * tree-sitter rarely fails to parse: it recovers by wrapping text it cannot
+ * place in ERROR nodes and inserting zero-width MISSING nodes for tokens it
+ * had to assume. Both are reported as syntax errors. Detectors see the
+ * recovered tree, so findings inside a top-level statement that contains a
+ * syntax error are reported with a lower certainty.
+ */
+
+// Only the first syntax errors of a file are reported
+export const MAX_SYNTAX_ERRORS = 50;
+
+// Longest excerpt of unparsable text quoted in a message
+const EXCERPT_LENGTH = 20;
+
+const LOWER_CERTAINTY: Record<Certainty, Certainty> = {
+  definite: 'possible',
+  possible: 'heuristic',
+  heuristic: 'heuristic',
+};
+
+/**
+ * One step down from `certainty` (heuristic stays heuristic)
+ */
+export function lowerCertainty(certainty: Certainty): Certainty {
+  return LOWER_CERTAINTY[certainty];
+}
+
+function describe(node: Parser.SyntaxNode, code: string): string {
+  if (node.isMissing) {
+    return node.isNamed ? `Missing ${node.type}` : `Missing '${node.type}'`;
+  }
+
+  const text = code.slice(node.startIndex, node.endIndex).trim().split(/\r?\n/)[0];
+  if (!text) {
+    return 'Syntax error';
+  }
+  const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}...` : text;
+  return `Unexpected '${excerpt}'`;
+}
+
+/**
+ * Syntax errors of a file and the lines their top-level statements cover
+ */
+export class SyntaxErrorSet {
+  constructor(
+    readonly errors: SyntaxDiagnostic[],
+    // 1-based [first, last] lines of top-level statements with syntax errors
+    private affectedLines: Array<[number, number]>
+  ) {}
+
+  get size(): number {
+    return this.errors.length;
+  }
+
+  /**
+   * Whether a finding on `line` was made on a recovered (guessed) tree
+   */
+  affects(line: number): boolean {
+    return this.affectedLines.some(([first, last]) => line >= first && line <= last);
+  }
+}
+
+/**
+ * Collect the ERROR and MISSING nodes of a tree. Subtrees without errors are
+ * skipped, and nothing inside an ERROR node is reported separately.
+ */
+export function collectSyntaxErrors(tree: Parser.Tree, code: string): SyntaxErrorSet {
+  const root = tree.rootNode;
+  if (!root.hasError) {
+    return new SyntaxErrorSet([], []);
+  }
+
+  const errors: SyntaxDiagnostic[] = [];
+  const stack: Parser.SyntaxNode[] = [root];
+  while (stack.length > 0 && errors.length < MAX_SYNTAX_ERRORS) {
+    const node = stack.pop()!;
+
+    if (node.isError || node.isMissing) {
+      errors.push({
+        kind: node.isMissing ? 'missing' : 'error',
+        line: node.startPosition.row + 1,
+        column: node.startPosition.column + 1,
+        endLine: node.endPosition.row + 1,
+        endColumn: node.endPosition.column + 1,
+        message: describe(node, code),
+      });
+      continue;
+    }
+
+    // Reversed so errors come out in source order
+    const children = node.children.filter((child) => child.hasError);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i]);
+    }
+  }
+
+  const statements = root.isError ? [root] : root.children.filter((child) => child.hasError);
+  const affectedLines = statements.map((statement): [number, number] => [
+    statement.startPosition.row + 1,
+    statement.endPosition.row + 1,
+  ]);
+
+  return new SyntaxErrorSet(errors, affectedLines);
+}
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { getEnclosingFunction, getFunctionName, Parser } from '../parser';
+import { DetectorResult } from '../types';
+
+/**
+ * Finding fingerprints
+ *
+ * `Mistake.id` numbers the findings of one response. A fingerprint identifies
+ * the same finding across revisions of a file: it hashes the rule name, the
+ * names of the enclosing functions, the whitespace-normalized text of the
+ * flagged node and a hash of the line it is on, without comments. Line and
+ * column numbers are left out, so inserting or removing lines elsewhere (or
+ * adding a `rookie-ignore` comment) keeps the fingerprint, while editing the
+ * flagged code changes it.
+ */
+
+// Hex digits of a fingerprint
+const FINGERPRINT_LENGTH = 16;
+
+// Longest node text hashed; larger nodes contribute their first characters
+const MAX_NODE_TEXT = 500;
+
+const sha256 = (text: string): string => createHash('sha256').update(text).digest('hex');
+
+/**
+ * Collapse runs of whitespace so re-indenting keeps the fingerprint
+ */
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Names of the functions enclosing a node, outermost first
+function functionPath(node: Parser.SyntaxNode, code: string): string {
+  const names: string[] = [];
+  for (let fn = getEnclosingFunction(node); fn; fn = getEnclosingFunction(fn)) {
+    names.unshift(getFunctionName(fn, code) ?? '<anonymous>');
+  }
+  return names.join('/');
+}
+
+/**
+ * Fingerprints the findings of one analysis. Identical findings (same rule,
+ * function, node and line text) are told apart by their order of occurrence,
+ * so results must be passed in source order per detector.
+ */
+export class Fingerprinter {
+  // Offset of the first character of each line
+  private lineStarts = [0];
+  private seen = new Map<string, number>();
+
+  constructor(
+    private readonly tree: Parser.Tree,
+    private readonly code: string
+  ) {
+    for (let i = code.indexOf('\n'); i !== -1; i = code.indexOf('\n', i + 1)) {
+      this.lineStarts.push(i + 1);
+    }
+  }
+
+  fingerprint(result: DetectorResult): string {
+    const row = result.line - 1;
+    const node = this.tree.rootNode.namedDescendantForPosition({
+      row,
+      column: Math.max(0, result.column - 1),
+    });
+    const nodeText = this.code.slice(node.startIndex, node.endIndex).slice(0, MAX_NODE_TEXT);
+    const context = sha256(this.lineContext(row));
+
+    const base = sha256(
+      [result.name, functionPath(node, this.code), normalizeText(nodeText), context].join('\0')
+    ).slice(0, FINGERPRINT_LENGTH);
+
+    const occurrence = (this.seen.get(base) ?? 0) + 1;
+    this.seen.set(base, occurrence);
+    return occurrence === 1 ? base : `${base}:${occurrence}`;
+  }
+
+  // Normalized text of a line without the comments on it
+  private lineContext(row: number): string {
+    const start = this.lineStarts[row];
+    if (start === undefined) {
+      return '';
+    }
+    const end = this.lineStarts[row + 1] ?? this.code.length;
+
+    const comments = this.tree.rootNode.descendantsOfType(
+      'comment',
+      { row, column: 0 },
+      { row: row + 1, column: 0 }
+    );
+    let text = '';
+    let offset = start;
+    for (const comment of comments) {
+      text += this.code.slice(offset, Math.min(end, Math.max(offset, comment.startIndex)));
+      offset = Math.max(offset, comment.endIndex);
+    }
+    text += this.code.slice(Math.min(offset, end), end);
+
+    return normalizeText(text);
+  }
+}
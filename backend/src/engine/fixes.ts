@@ -0,0 +1,156 @@
+import { parseCode } from '../parser';
+import { Language, Mistake, TextEdit } from '../types';
+import { createUnifiedDiff } from '../lib/diff';
+import { AnalyzeOptions } from './analyze';
+import { AnalysisPool } from './pool';
+
+/**
+ * Autofix application
+ *
+ * Detectors attach an `autofix` (text edits against the analyzed source) to
+ * mistakes with a mechanical fix. Fixes are applied in position order; a fix
+ * whose edits overlap an already accepted fix is skipped rather than merged.
+ * The analysis runs on the pool, under its time and memory limits.
+ */
+
+// Options accepted by fixCode(): analysis options plus the fix selection
+export interface FixOptions extends AnalyzeOptions {
+  // Only fix the mistakes with these ids (as returned by analyze())
+  ids?: number[];
+  // Only fix mistakes reported by these rules
+  rules?: string[];
+}
+
+export interface AppliedFix {
+  id: number;
+  name: string;
+  line: number;
+  column: number;
+  description: string;
+}
+
+export interface SkippedFix {
+  id: number;
+  name?: string;
+  line?: number;
+  column?: number;
+  reason: string;
+}
+
+export interface FixResult {
+  code: string;
+  diff: string;
+  applied: AppliedFix[];
+  skipped: SkippedFix[];
+}
+
+// Thrown when the fixed code no longer parses
+export class InvalidFixError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFixError';
+  }
+}
+
+// Check whether two edits touch the same text
+function editsOverlap(a: TextEdit, b: TextEdit): boolean {
+  if (a.start === b.start) {
+    return true;
+  }
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Apply non-overlapping edits to a string
+ */
+export function applyEdits(code: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let result = code;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Apply the autofixes of the given mistakes, skipping conflicting ones
+ */
+export function applyFixes(
+  code: string,
+  mistakes: Mistake[]
+): Pick<FixResult, 'code' | 'applied' | 'skipped'> {
+  const accepted: TextEdit[] = [];
+  const applied: AppliedFix[] = [];
+  const skipped: SkippedFix[] = [];
+
+  const ordered = [...mistakes].sort((a, b) => a.line - b.line || a.column - b.column);
+  for (const mistake of ordered) {
+    const { id, name, line, column, autofix } = mistake;
+
+    if (!autofix || autofix.edits.length === 0) {
+      skipped.push({ id, name, line, column, reason: 'No automatic fix available' });
+      continue;
+    }
+
+    if (autofix.edits.some((edit) => accepted.some((other) => editsOverlap(edit, other)))) {
+      skipped.push({ id, name, line, column, reason: 'Conflicts with another fix' });
+      continue;
+    }
+
+    accepted.push(...autofix.edits);
+    applied.push({ id, name, line, column, description: autofix.description });
+  }
+
+  return { code: applyEdits(code, accepted), applied, skipped };
+}
+
+// Check whether code parses without syntax errors
+function parsesCleanly(code: string, language: Language): boolean {
+  const tree = parseCode(code, language);
+  const clean = !tree.rootNode.hasError;
+  tree.delete();
+  return clean;
+}
+
+/**
+ * Analyze code on the pool, apply the selected autofixes and verify the
+ * result.
+ *
+ * Rejects with ParseError if the code cannot be parsed and InvalidFixError if
+ * the fixes turn code without syntax errors into code with syntax errors.
+ */
+export async function fixCode(
+  pool: Pick<AnalysisPool, 'analyze'>,
+  code: string,
+  language: Language,
+  options: FixOptions = {}
+): Promise<FixResult> {
+  const { ids, rules, ...analyzeOptions } = options;
+  const { response } = await pool.analyze(code, language, analyzeOptions);
+
+  const selected = response.mistakes.filter(
+    (mistake) => (!ids || ids.includes(mistake.id)) && (!rules || rules.includes(mistake.name))
+  );
+
+  const result = applyFixes(code, selected);
+
+  for (const id of ids || []) {
+    if (!response.mistakes.some((mistake) => mistake.id === id)) {
+      result.skipped.push({ id, reason: 'No mistake with this id' });
+    }
+  }
+
+  if (result.applied.length > 0 && parsesCleanly(code, language)) {
+    if (!parsesCleanly(result.code, language)) {
+      throw new InvalidFixError('Applying the selected fixes produced code with syntax errors');
+    }
+  }
+
+  return {
+    code: result.code,
+    diff: createUnifiedDiff(code, result.code),
+    applied: result.applied,
+    skipped: result.skipped,
+  };
+}
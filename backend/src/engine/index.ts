@@ -0,0 +1,50 @@
+export {
+  analyze,
+  selectDetectors,
+  explainResult,
+  sortMistakes,
+  replayProgress,
+  ParseError,
+} from './analyze';
+export type { AnalyzeOptions, AnalysisMetadata, AnalysisResult } from './analyze';
+export {
+  calculateScore,
+  countLinesOfCode,
+  gradeFor,
+  resolveScoringWeights,
+  CATEGORIES,
+  DEFAULT_SCORING_WEIGHTS,
+} from './scoring';
+export type { ScoreResult, ScoringOptions, ScoringWeights } from './scoring';
+export { AnalysisCache, analysisCache, createCacheKey } from './cache';
+export { AnalysisPool, analysisPool } from './pool';
+export type { AnalysisPoolOptions } from './pool';
+export { SessionStore, SessionError, sessionStore, resolveEdit } from './sessions';
+export type { SessionAnalysis, SessionMetadata, SessionStoreOptions } from './sessions';
+export { collectSuppressions, SuppressionSet } from './suppressions';
+export type { Suppression, SuppressionKind } from './suppressions';
+export {
+  collectSyntaxErrors,
+  lowerCertainty,
+  SyntaxErrorSet,
+  MAX_SYNTAX_ERRORS,
+} from './diagnostics';
+export { Fingerprinter, normalizeText } from './fingerprints';
+export { applyBaseline, createBaseline } from './baseline';
+export { getRuleSettings, normalizeRuleConfig } from './config';
+export type { ResolvedRuleSettings } from './config';
+export { createDetectorVisitor, detectWithVisitor, dispatchVisitors } from './visitor';
+export { applyEdits, applyFixes, fixCode, InvalidFixError } from './fixes';
+export type { FixOptions, FixResult, AppliedFix, SkippedFix } from './fixes';
+export { analyzeProject, getProjectFileLanguage, ProjectError } from './project';
+export type { ProjectAnalysisResult, ProjectAnalyzeOptions } from './project';
+export {
+  analyzeBatch,
+  summarizeBatch,
+  BATCH_ANALYSIS_ERROR,
+  BATCH_CANCELLED_ERROR,
+  BATCH_PARSE_ERROR,
+} from './batch';
+export type { BatchAnalysisResult, BatchAnalyzeOptions, BatchItem } from './batch';
+export { JobQueue, JobError, toAnalysisJob } from './jobs';
+export type { JobControl, JobQueueOptions, JobRunner, JobStore } from './jobs';
@@ -0,0 +1,266 @@
+import { nanoid } from 'nanoid';
+import { logger } from '../lib/logger';
+import { AnalysisJob, JobKind, JobRecord } from '../types';
+
+/**
+ * Asynchronous analysis jobs
+ *
+ * A bounded in-process queue: at most `concurrency` jobs run at once and at
+ * most `maxQueued` wait. Jobs start on a later tick than the call that
+ * queued them, so submit() returns before any work is done. Every change of
+ * a job's status is written to the store, so jobs survive a restart:
+ * resume() queues the jobs that had not finished again. Progress is kept in
+ * memory while a job runs and stored when it finishes. Cancelling a running
+ * job aborts its signal; whatever the run still returns is discarded. When a
+ * job finishes, its callback URL (if any) is sent the job. Finished jobs are
+ * deleted from the store once they are older than `retentionMs`.
+ */
+
+// How long a callback may take before it is abandoned
+const CALLBACK_TIMEOUT_MS = 5000;
+
+// Thrown when a job cannot be queued or cancelled
+export class JobError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'queue-full' | 'finished'
+  ) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+// Persistence of jobs (the SQLite database on the server)
+export interface JobStore {
+  save(job: JobRecord): void;
+  get(id: string): JobRecord | null;
+  // Jobs queued or running, oldest first
+  unfinished(): JobRecord[];
+  // Delete the jobs that finished before a time (an ISO 8601 string)
+  deleteFinished(before: string): void;
+}
+
+// What a running job can see and report
+export interface JobControl {
+  // Aborted when the job is cancelled
+  signal: AbortSignal;
+  progress(completed: number, total: number): void;
+}
+
+// Runs a job's request and resolves to its result
+export type JobRunner = (job: JobRecord, control: JobControl) => Promise<AnalysisJob['result']>;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxQueued: number;
+  store: JobStore;
+  run: JobRunner;
+  // How long finished jobs are kept (forever if unset)
+  retentionMs?: number;
+}
+
+// A job without what is needed to run it, as the API returns it
+export function toAnalysisJob(job: JobRecord): AnalysisJob {
+  const view: AnalysisJob & Partial<JobRecord> = { ...job };
+  delete view.request;
+  delete view.callbackUrl;
+  return view;
+}
+
+export class JobQueue {
+  private queue: JobRecord[] = [];
+  // Running jobs by ID
+  private running = new Map<string, { job: JobRecord; controller: AbortController }>();
+  private idle: (() => void)[] = [];
+
+  constructor(private readonly options: JobQueueOptions) {}
+
+  /**
+   * Queue a job. Throws JobError when `maxQueued` jobs are already waiting.
+   */
+  submit(kind: JobKind, request: unknown, callbackUrl?: string): AnalysisJob {
+    if (this.queue.length >= this.options.maxQueued) {
+      throw new JobError('Too many jobs are waiting; try again later', 'queue-full');
+    }
+
+    this.sweep();
+    const job: JobRecord = {
+      id: nanoid(12),
+      kind,
+      status: 'queued',
+      progress: { completed: 0, total: 0 },
+      createdAt: new Date().toISOString(),
+      request,
+      callbackUrl,
+    };
+    this.options.store.save(job);
+    this.queue.push(job);
+    this.drain();
+
+    return toAnalysisJob(job);
+  }
+
+  /**
+   * A job by ID, with the current progress of running jobs
+   */
+  get(id: string): AnalysisJob | null {
+    const job = this.running.get(id)?.job ?? this.options.store.get(id);
+    return job && toAnalysisJob(job);
+  }
+
+  /**
+   * Cancel a queued or running job. Returns null for unknown jobs and throws
+   * JobError for finished ones.
+   */
+  cancel(id: string): AnalysisJob | null {
+    const running = this.running.get(id);
+    const queued = this.queue.find((candidate) => candidate.id === id);
+    const job = running?.job ?? queued ?? this.options.store.get(id);
+    if (!job) {
+      return null;
+    }
+    if (!running && !queued) {
+      throw new JobError(
+        `Job has already ${job.status === 'cancelled' ? 'been cancelled' : 'finished'}`,
+        'finished'
+      );
+    }
+
+    if (running) {
+      this.running.delete(id);
+      running.controller.abort();
+    } else {
+      this.queue = this.queue.filter((candidate) => candidate !== queued);
+    }
+    this.finish(job, { status: 'cancelled' });
+    this.drain();
+
+    return toAnalysisJob(job);
+  }
+
+  /**
+   * Queue the stored jobs that had not finished (after a restart). Jobs that
+   * were running start over; jobs this queue already holds are left alone.
+   */
+  resume(): number {
+    this.sweep();
+    const jobs = this.options.store
+      .unfinished()
+      .filter((job) => !this.running.has(job.id) && !this.queue.some(({ id }) => id === job.id));
+    for (const job of jobs) {
+      job.status = 'queued';
+      job.progress = { completed: 0, total: 0 };
+      job.startedAt = undefined;
+      this.options.store.save(job);
+      this.queue.push(job);
+    }
+    this.drain();
+    return jobs.length;
+  }
+
+  /**
+   * Delete the finished jobs that are older than `retentionMs`
+   */
+  sweep(): void {
+    if (this.options.retentionMs !== undefined) {
+      this.options.store.deleteFinished(
+        new Date(Date.now() - this.options.retentionMs).toISOString()
+      );
+    }
+  }
+
+  /**
+   * Resolves once no job is running or waiting
+   */
+  whenIdle(): Promise<void> {
+    if (this.queue.length === 0 && this.running.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idle.push(resolve));
+  }
+
+  // Start queued jobs while fewer than `concurrency` run
+  private drain(): void {
+    while (this.running.size < this.options.concurrency && this.queue.length > 0) {
+      void this.start(this.queue.shift()!);
+    }
+
+    if (this.queue.length === 0 && this.running.size === 0) {
+      for (const resolve of this.idle.splice(0)) {
+        resolve();
+      }
+    }
+  }
+
+  private async start(job: JobRecord): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.id, { job, controller });
+
+    // Let the caller that queued the job (e.g. a request handler) finish first
+    await new Promise((resolve) => setImmediate(resolve));
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.options.store.save(job);
+
+    const control: JobControl = {
+      signal: controller.signal,
+      progress: (completed, total) => {
+        job.progress = { completed, total };
+      },
+    };
+
+    try {
+      const result = await this.options.run(job, control);
+      if (!controller.signal.aborted) {
+        this.running.delete(job.id);
+        this.finish(job, { status: 'completed', result });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.running.delete(job.id);
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('Analysis job failed', { jobId: job.id, kind: job.kind, error: message });
+        this.finish(job, { status: 'failed', error: message });
+      }
+    }
+
+    this.drain();
+  }
+
+  private finish(job: JobRecord, outcome: Pick<JobRecord, 'status' | 'result' | 'error'>): void {
+    Object.assign(job, outcome, { finishedAt: new Date().toISOString() });
+    this.options.store.save(job);
+    logger.info('Analysis job finished', { jobId: job.id, kind: job.kind, status: job.status });
+
+    if (job.callbackUrl) {
+      void this.notify(job.callbackUrl, toAnalysisJob(job));
+    }
+  }
+
+  // POST the finished job to its callback URL; failures are only logged.
+  // Redirects are not followed, since they could lead away from localhost.
+  private async notify(url: string, job: AnalysisJob): Promise<void> {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(job),
+        redirect: 'error',
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        logger.warn('Job callback failed', { jobId: job.id, url, status: response.status });
+      }
+    } catch (error) {
+      logger.warn('Job callback failed', {
+        jobId: job.id,
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
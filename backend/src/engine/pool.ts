@@ -0,0 +1,554 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { config } from '../config';
+import { logger } from '../lib/logger';
+import type { PluginSources } from '../plugins';
+import { AnalysisEvent, AnalyzeResponse, Language } from '../types';
+import {
+  analyze,
+  AnalysisMetadata,
+  AnalysisResult,
+  AnalyzeOptions,
+  cacheResult,
+  createMetadata,
+  lookupCachedResult,
+  ParseError,
+  selectDetectors,
+} from './analyze';
+import {
+  analyzeProject,
+  getProjectFileLanguage,
+  ProjectAnalysisResult,
+  ProjectAnalyzeOptions,
+  ProjectError,
+} from './project';
+import { calculateScore } from './scoring';
+
+/**
+ * Worker-thread analysis pool
+ *
+ * Runs analyses on a fixed number of worker threads (./worker) so that a
+ * slow or hanging detector cannot block the server. Every attempt at a job
+ * has a wall-clock limit and every worker a heap limit. A worker that exceeds
+ * either is terminated and replaced, the detector it was running is dropped
+ * and the job is retried without it. Detectors stopped at the time limit make
+ * the response `partial` and are listed in `timedOutDetectors`; detectors that
+ * ran out of memory are listed in metadata.failedDetectors. A project
+ * (./project) is one job under the same limits; a stopped detector is dropped
+ * for all of its files. A job whose `options.signal` aborts is taken off the
+ * queue, or its worker is terminated, and rejects.
+ */
+
+// Attempts per job: the first run plus retries without stopped detectors
+const MAX_ATTEMPTS = 3;
+
+const CANCELLED_ERROR = 'Analysis cancelled';
+
+// Compiled builds start worker.js; under ts-node and ts-jest the TypeScript
+// source is loaded through ts-node
+const WORKER_SCRIPT = path.join(__dirname, `worker${path.extname(__filename)}`);
+const WORKER_EXEC_ARGV = __filename.endsWith('.ts')
+  ? ['--require', 'ts-node/register/transpile-only']
+  : [];
+
+export interface AnalysisPoolOptions {
+  // Worker threads; 0 analyzes on the calling thread without hard limits
+  size: number;
+  // Wall-clock limit of one attempt at a job
+  timeoutMs: number;
+  // Heap limit of each worker
+  maxMemoryMb: number;
+  // Query rules and plugins each worker registers, as the server does
+  rulesDir?: string;
+  plugins?: PluginSources;
+}
+
+// Data a worker is started with
+export interface WorkerData {
+  // One Int32 slot: index of the running detector in the job's list, or -1
+  progress: SharedArrayBuffer;
+  rulesDir?: string;
+  plugins?: PluginSources;
+}
+
+// What a job analyzes: one file, or the files of a project
+export type PoolTask = { code: string; language: Language } | { files: Record<string, string> };
+
+// A job sent to a worker
+export interface WorkerJob {
+  id: number;
+  task: PoolTask;
+  // Detectors to run, by name
+  detectors: string[];
+  options: Pick<
+    AnalyzeOptions,
+    'minSeverity' | 'minConfidence' | 'timeoutMs' | 'config' | 'positionEncoding' | 'typeCheck'
+  >;
+  // Post AnalysisEvents as detectors start and finish
+  reportProgress: boolean;
+}
+
+// Messages sent by a worker
+export type WorkerMessage =
+  | { type: 'ready' }
+  | { type: 'progress'; id: number; event: AnalysisEvent }
+  | { type: 'done'; id: number; result: AnalysisResult | ProjectAnalysisResult }
+  | {
+      type: 'failed';
+      id: number;
+      error: { kind: 'parse' | 'project' | 'other'; message: string };
+    };
+
+interface PendingJob {
+  id: number;
+  task: PoolTask;
+  options: AnalyzeOptions;
+  // Detectors still to run
+  detectors: string[];
+  // Detectors stopped at the time limit
+  timedOut: string[];
+  // Detectors stopped at the memory limit
+  outOfMemory: string[];
+  // Detectors whose start and end were reported to options.onProgress by
+  // any attempt, so retries do not report them again
+  started: Set<string>;
+  finished: Set<string>;
+  attempts: number;
+  startTime: number;
+  resolve: (result: AnalysisResult | ProjectAnalysisResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  thread: Worker;
+  progress: Int32Array;
+  ready: boolean;
+  job?: PendingJob;
+  timer?: NodeJS.Timeout;
+}
+
+type StopReason = 'timeout' | 'memory';
+
+export class AnalysisPool {
+  private workers: PoolWorker[] = [];
+  private queue: PendingJob[] = [];
+  private nextId = 1;
+
+  constructor(private readonly options: AnalysisPoolOptions) {}
+
+  // Running worker threads
+  get threads(): number {
+    return this.workers.length;
+  }
+
+  // Analyses run at once: one per worker thread, or one on the calling thread
+  get concurrency(): number {
+    return Math.max(1, this.options.size);
+  }
+
+  /**
+   * Analyze code on a worker thread. Resolves to the same result as
+   * analyze(), plus the detectors stopped by the pool's limits, and rejects
+   * with ParseError when the code cannot be parsed. `options.cache` is
+   * consulted on the calling thread.
+   */
+  async analyze(
+    code: string,
+    language: Language,
+    options: AnalyzeOptions = {}
+  ): Promise<AnalysisResult> {
+    if (this.options.size <= 0) {
+      return analyze(code, language, options);
+    }
+
+    const startTime = Date.now();
+    const detectors = selectDetectors(language, options);
+
+    const { cacheKey, cached } = lookupCachedResult(code, language, options, detectors, startTime);
+    if (cached) {
+      return cached;
+    }
+
+    const result = (await this.enqueue(
+      { code, language },
+      options,
+      detectors.map((detector) => detector.name),
+      startTime
+    )) as AnalysisResult;
+    cacheResult(options, cacheKey, result);
+
+    return result;
+  }
+
+  /**
+   * Analyze the files of a project on a worker thread. Resolves to the same
+   * result as analyzeProject(), with the detectors stopped by the pool's
+   * limits listed in the files they apply to, and rejects like it.
+   */
+  async analyzeProject(
+    files: Record<string, string>,
+    options: ProjectAnalyzeOptions = {}
+  ): Promise<ProjectAnalysisResult> {
+    if (this.options.size <= 0) {
+      return analyzeProject(files, options);
+    }
+
+    const startTime = Date.now();
+    const detectors = new Set<string>();
+    for (const filePath of Object.keys(files)) {
+      for (const detector of selectDetectors(getProjectFileLanguage(filePath), options)) {
+        detectors.add(detector.name);
+      }
+    }
+
+    return (await this.enqueue(
+      { files },
+      options,
+      [...detectors],
+      startTime
+    )) as ProjectAnalysisResult;
+  }
+
+  /**
+   * Terminate all workers and reject unfinished jobs
+   */
+  async close(): Promise<void> {
+    const closed = new Error('Analysis pool closed');
+    for (const job of this.queue.splice(0)) {
+      job.reject(closed);
+    }
+
+    const workers = this.workers.splice(0);
+    for (const worker of workers) {
+      clearTimeout(worker.timer);
+      worker.job?.reject(closed);
+    }
+    await Promise.all(workers.map((worker) => worker.thread.terminate()));
+  }
+
+  // Queue a job and resolve to its result
+  private enqueue(
+    task: PoolTask,
+    options: AnalyzeOptions,
+    detectors: string[],
+    startTime: number
+  ): Promise<AnalysisResult | ProjectAnalysisResult> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new Error(CANCELLED_ERROR));
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: PendingJob = {
+        id: this.nextId++,
+        task,
+        options,
+        detectors,
+        timedOut: [],
+        outOfMemory: [],
+        started: new Set(),
+        finished: new Set(),
+        attempts: 0,
+        startTime,
+        resolve,
+        reject,
+      };
+      if (signal) {
+        const onAbort = () => this.cancel(job);
+        signal.addEventListener('abort', onAbort, { once: true });
+        job.resolve = (result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        };
+        job.reject = (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        };
+      }
+
+      this.queue.push(job);
+      this.drain();
+    });
+  }
+
+  // Take a job off the queue, or terminate the worker running it, and reject it
+  private cancel(job: PendingJob): void {
+    const worker = this.workers.find((candidate) => candidate.job === job);
+    if (worker) {
+      this.remove(worker);
+      void worker.thread.terminate();
+    } else if (this.queue.includes(job)) {
+      this.queue = this.queue.filter((candidate) => candidate !== job);
+    } else {
+      return;
+    }
+
+    job.reject(new Error(CANCELLED_ERROR));
+    this.drain();
+  }
+
+  // Hand queued jobs to idle workers, starting workers up to the pool size
+  private drain(): void {
+    for (const worker of this.workers) {
+      if (this.queue.length > 0 && worker.ready && !worker.job) {
+        this.dispatch(worker, this.queue.shift()!);
+      }
+    }
+
+    let starting = this.workers.filter((worker) => !worker.ready).length;
+    while (starting < this.queue.length && this.workers.length < this.options.size) {
+      this.spawn();
+      starting++;
+    }
+
+    // Only workers with (or starting for) a job keep the process alive
+    for (const worker of this.workers) {
+      if (worker.ready && !worker.job) {
+        worker.thread.unref();
+      } else {
+        worker.thread.ref();
+      }
+    }
+  }
+
+  private spawn(): void {
+    const data: WorkerData = {
+      progress: new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT),
+      rulesDir: this.options.rulesDir,
+      plugins: this.options.plugins,
+    };
+    const thread = new Worker(WORKER_SCRIPT, {
+      workerData: data,
+      execArgv: WORKER_EXEC_ARGV,
+      resourceLimits: { maxOldGenerationSizeMb: this.options.maxMemoryMb },
+    });
+
+    const worker: PoolWorker = { thread, progress: new Int32Array(data.progress), ready: false };
+    this.workers.push(worker);
+
+    thread.on('message', (message: WorkerMessage) => this.onMessage(worker, message));
+    thread.on('error', (error) => this.onExit(worker, error));
+    thread.on('exit', () => this.onExit(worker));
+  }
+
+  private dispatch(worker: PoolWorker, job: PendingJob): void {
+    const {
+      minSeverity,
+      minConfidence,
+      timeoutMs,
+      config: ruleConfig,
+      positionEncoding,
+      typeCheck,
+    } = job.options;
+    const message: WorkerJob = {
+      id: job.id,
+      task: job.task,
+      detectors: job.detectors,
+      options: {
+        minSeverity,
+        minConfidence,
+        timeoutMs,
+        config: ruleConfig,
+        positionEncoding,
+        typeCheck,
+      },
+      reportProgress: job.options.onProgress !== undefined,
+    };
+
+    job.attempts++;
+    worker.job = job;
+    worker.timer = setTimeout(() => this.stop(worker, 'timeout'), this.options.timeoutMs);
+    worker.thread.postMessage(message);
+  }
+
+  private onMessage(worker: PoolWorker, message: WorkerMessage): void {
+    if (message.type === 'ready') {
+      worker.ready = true;
+      this.drain();
+      return;
+    }
+
+    const job = worker.job;
+    if (!job || job.id !== message.id) {
+      return;
+    }
+    if (message.type === 'progress') {
+      this.report(job, message.event);
+      return;
+    }
+    clearTimeout(worker.timer);
+    worker.job = undefined;
+
+    if (message.type === 'done') {
+      this.complete(job, message.result);
+    } else if (message.error.kind === 'parse') {
+      job.reject(new ParseError(message.error.message));
+    } else if (message.error.kind === 'project') {
+      job.reject(new ProjectError(message.error.message));
+    } else {
+      job.reject(new Error(message.error.message));
+    }
+    this.drain();
+  }
+
+  private onExit(worker: PoolWorker, error?: Error): void {
+    if (!this.workers.includes(worker)) {
+      return;
+    }
+
+    const code = (error as NodeJS.ErrnoException | undefined)?.code;
+    if (code === 'ERR_WORKER_OUT_OF_MEMORY' && worker.job) {
+      this.stop(worker, 'memory');
+      return;
+    }
+
+    this.remove(worker);
+    const failure = error ?? new Error('Analysis worker exited unexpectedly');
+    logger.error('Analysis worker failed', { error: failure.message });
+
+    if (worker.job) {
+      worker.job.reject(failure);
+    } else if (!worker.ready) {
+      // A worker that cannot start would fail again; give up on waiting jobs
+      for (const job of this.queue.splice(0)) {
+        job.reject(failure);
+      }
+    }
+    this.drain();
+  }
+
+  /**
+   * Terminate a worker that exceeded a limit and retry its job without the
+   * detector that was running. When no detector was running (e.g. the code
+   * was still being parsed) or the attempts are used up, every detector that
+   * has not finished is stopped and the job completes without findings.
+   */
+  private stop(worker: PoolWorker, reason: StopReason): void {
+    const job = worker.job;
+    const running = job?.detectors[Atomics.load(worker.progress, 0)];
+    this.remove(worker);
+    void worker.thread.terminate();
+    if (!job) {
+      return;
+    }
+
+    logger.warn(reason === 'timeout' ? 'Analysis timed out' : 'Analysis ran out of memory', {
+      language: 'code' in job.task ? job.task.language : 'project',
+      detector: running ?? null,
+      attempt: job.attempts,
+    });
+
+    const retry = running !== undefined && job.attempts < MAX_ATTEMPTS;
+    const stopped = retry ? [running] : job.detectors;
+    (reason === 'timeout' ? job.timedOut : job.outOfMemory).push(...stopped);
+    job.detectors = job.detectors.filter((name) => !stopped.includes(name));
+
+    if (job.detectors.length > 0) {
+      this.queue.unshift(job);
+    } else {
+      this.complete(job, emptyResult(job.task));
+    }
+    this.drain();
+  }
+
+  private remove(worker: PoolWorker): void {
+    clearTimeout(worker.timer);
+    this.workers = this.workers.filter((candidate) => candidate !== worker);
+  }
+
+  // Pass a worker's progress on, skipping detectors an earlier attempt reported
+  private report(job: PendingJob, event: AnalysisEvent): void {
+    if (event.type === 'detector-start') {
+      if (job.started.has(event.detector)) {
+        return;
+      }
+      job.started.add(event.detector);
+    } else if (job.finished.has(event.detector)) {
+      return;
+    } else if (event.type === 'detector-done') {
+      job.finished.add(event.detector);
+    }
+    job.options.onProgress?.(event);
+  }
+
+  // Record the detectors stopped by the pool and resolve the job
+  private complete(job: PendingJob, result: AnalysisResult | ProjectAnalysisResult): void {
+    if ('code' in job.task) {
+      const { response, metadata } = result as AnalysisResult;
+      recordStopped(response, metadata, job.timedOut, job.outOfMemory);
+      metadata.durationMs = Date.now() - job.startTime;
+    } else {
+      const project = result as ProjectAnalysisResult;
+      for (const [filePath, analysis] of Object.entries(project.response.files)) {
+        const applies = new Set(
+          selectDetectors(analysis.language, job.options).map((detector) => detector.name)
+        );
+        recordStopped(
+          analysis,
+          project.metadata[filePath],
+          job.timedOut.filter((name) => applies.has(name)),
+          job.outOfMemory.filter((name) => applies.has(name))
+        );
+        if (analysis.partial) {
+          project.response.partial = true;
+        }
+      }
+      project.durationMs = Date.now() - job.startTime;
+    }
+
+    job.resolve(result);
+  }
+}
+
+// Add the detectors stopped by the pool to a file's response and metadata
+function recordStopped(
+  response: AnalyzeResponse,
+  metadata: AnalysisMetadata,
+  timedOut: string[],
+  outOfMemory: string[]
+): void {
+  metadata.failedDetectors.push(...outOfMemory);
+  response.diagnostics ??= { syntaxErrors: [], failedDetectors: [], skippedDetectors: [] };
+  response.diagnostics.failedDetectors.push(...outOfMemory);
+  response.diagnostics.skippedDetectors.unshift(...timedOut);
+  if (timedOut.length > 0) {
+    metadata.timedOut = true;
+    response.partial = true;
+    response.timedOutDetectors = [...timedOut, ...(response.timedOutDetectors ?? [])];
+  }
+}
+
+// Result without findings, for a job whose detectors were all stopped
+function emptyResult(task: PoolTask): AnalysisResult | ProjectAnalysisResult {
+  const { score, breakdown } = calculateScore([]);
+  const empty = (): AnalyzeResponse => ({
+    mistakes: [],
+    score,
+    scoring: breakdown,
+    suppressed: [],
+  });
+
+  if ('code' in task) {
+    return { response: empty(), metadata: createMetadata(task.language) };
+  }
+
+  const paths = Object.keys(task.files);
+  const result: ProjectAnalysisResult = {
+    response: { files: {}, summary: { files: paths.length, mistakes: 0, score } },
+    metadata: {},
+    durationMs: 0,
+  };
+  for (const filePath of paths) {
+    const language = getProjectFileLanguage(filePath);
+    result.response.files[filePath] = { language, ...empty() };
+    result.metadata[filePath] = createMetadata(language);
+  }
+  return result;
+}
+
+// Shared by the API routes
+export const analysisPool = new AnalysisPool({
+  ...config.workers,
+  rulesDir: config.rules.dir,
+  plugins: { dir: config.plugins.dir, packages: [...config.plugins.packages] },
+});
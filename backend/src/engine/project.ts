@@ -0,0 +1,158 @@
+import { getLanguageForPath, parseCode } from '../parser';
+import { Language, ProjectAnalyzeResponse, ProjectFileAnalysis } from '../types';
+import { normalizeProjectPath, ProjectFile, ProjectIndex } from '../analysis/project';
+import {
+  AnalysisMetadata,
+  AnalyzeOptions,
+  buildResponse,
+  createMetadata,
+  ParseError,
+  runDetectors,
+  selectDetectors,
+} from './analyze';
+
+/**
+ * Project analysis
+ *
+ * Analyzes several files together. Every file is parsed and indexed first
+ * (see analysis/project), so detectors can follow imports into the other
+ * files, and the results are grouped by file path. The options apply to
+ * every file; `timeoutMs` covers the whole project.
+ */
+
+// Options accepted by analyzeProject()
+export type ProjectAnalyzeOptions = Omit<AnalyzeOptions, 'cache' | 'project' | 'typeCheck'>;
+
+// Result of analyzeProject(): the response plus each file's metadata
+export interface ProjectAnalysisResult {
+  response: ProjectAnalyzeResponse;
+  metadata: Record<string, AnalysisMetadata>;
+  durationMs: number;
+}
+
+// Thrown when the files do not form a valid project
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+// Mean of the file scores weighted by lines of code, to one decimal
+function projectScore(files: ProjectFileAnalysis[]): number {
+  let weighted = 0;
+  let lines = 0;
+  for (const file of files) {
+    const weight = Math.max(1, file.scoring?.linesOfCode ?? 1);
+    weighted += file.score * weight;
+    lines += weight;
+  }
+  return lines === 0 ? 10 : Math.round((weighted / lines) * 10) / 10;
+}
+
+/**
+ * Language of a project file, inferred from its extension. Throws
+ * ProjectError for unknown extensions.
+ */
+export function getProjectFileLanguage(filePath: string): Language {
+  const language = getLanguageForPath(filePath);
+  if (!language) {
+    throw new ProjectError(`Cannot infer the language of '${filePath}'`);
+  }
+  return language;
+}
+
+// Parse the files, inferring their language from the extension
+function parseProject(sources: Record<string, string>, files: ProjectFile[]): void {
+  const paths = new Map<string, string>();
+
+  for (const [filePath, code] of Object.entries(sources)) {
+    const language = getProjectFileLanguage(filePath);
+    const normalized = normalizeProjectPath(filePath);
+    const duplicate = paths.get(normalized);
+    if (duplicate !== undefined) {
+      throw new ProjectError(`'${duplicate}' and '${filePath}' are the same file`);
+    }
+    paths.set(normalized, filePath);
+
+    try {
+      files.push({ path: filePath, code, language, tree: parseCode(code, language) });
+    } catch (parseError) {
+      const message = parseError instanceof Error ? parseError.message : String(parseError);
+      throw new ParseError(`${filePath}: ${message}`);
+    }
+  }
+}
+
+/**
+ * Analyze the files of a project, given as a map of paths to contents.
+ *
+ * Throws ProjectError if a file's language cannot be inferred from its
+ * extension or two paths name the same file, and ParseError if a file cannot
+ * be parsed at all.
+ */
+export function analyzeProject(
+  sources: Record<string, string>,
+  options: ProjectAnalyzeOptions = {}
+): ProjectAnalysisResult {
+  const startTime = Date.now();
+  const files: ProjectFile[] = [];
+  const response: ProjectAnalyzeResponse = {
+    files: {},
+    summary: { files: 0, mistakes: 0, score: 10 },
+  };
+  const metadata: Record<string, AnalysisMetadata> = {};
+
+  try {
+    parseProject(sources, files);
+    const index = new ProjectIndex(files);
+
+    for (const file of files) {
+      const fileStart = Date.now();
+      const fileMetadata = createMetadata(file.language);
+      const fileOptions: AnalyzeOptions = { ...options, project: index.module(file.path) };
+
+      const detectors = selectDetectors(file.language, options);
+      const findings = runDetectors(
+        file.tree,
+        file.code,
+        file.language,
+        detectors,
+        fileOptions,
+        fileMetadata,
+        startTime
+      );
+      const analysis = buildResponse(
+        findings,
+        file.tree,
+        file.code,
+        file.language,
+        fileOptions,
+        fileMetadata
+      );
+
+      fileMetadata.durationMs = Date.now() - fileStart;
+      if (fileMetadata.timedOut) {
+        analysis.partial = true;
+        analysis.timedOutDetectors = [...fileMetadata.skippedDetectors];
+        response.partial = true;
+      }
+
+      response.files[file.path] = { language: file.language, ...analysis };
+      metadata[file.path] = fileMetadata;
+    }
+  } finally {
+    for (const file of files) {
+      file.tree.delete();
+    }
+  }
+
+  const analyses = Object.values(response.files);
+  response.summary = {
+    files: analyses.length,
+    mistakes: analyses.reduce((sum, analysis) => sum + analysis.mistakes.length, 0),
+    score: projectScore(analyses),
+  };
+
+  return { response, metadata, durationMs: Date.now() - startTime };
+}
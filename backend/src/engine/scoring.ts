@@ -0,0 +1,172 @@
+import {
+  Category,
+  CategoryScore,
+  Certainty,
+  Grade,
+  Mistake,
+  ScoreBreakdown,
+  ScoringConfig,
+  Severity,
+} from '../types';
+
+/**
+ * Scoring
+ *
+ * Every finding weighs severity x certainty x confidence, so a definite
+ * error counts fully and an unsure style hint barely. The sum is the
+ * penalty. Files longer than the reference length have their penalty
+ * scaled down in proportion (a finding per 50 lines scores the same in a
+ * 50- and a 500-line file); shorter files are not scaled up. The score is
+ * max(0, 10 - normalized penalty), rounded to one decimal.
+ */
+
+export interface ScoringWeights {
+  severity: Record<Severity, number>;
+  certainty: Record<Certainty, number>;
+  referenceLines: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  severity: { error: 1, warning: 0.6, info: 0.3 },
+  certainty: { definite: 1, possible: 0.75, heuristic: 0.5 },
+  referenceLines: 50,
+};
+
+// Order of the categories in the breakdown
+export const CATEGORIES: Category[] = [
+  'correctness',
+  'error-handling',
+  'async',
+  'maintainability',
+  'other',
+];
+
+// Lowest score of each grade, best first
+const GRADES: Array<[Grade, number]> = [
+  ['A', 9],
+  ['B', 7.5],
+  ['C', 6],
+  ['D', 4],
+  ['F', 0],
+];
+
+// Score and breakdown of a set of findings
+export interface ScoreResult {
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+export interface ScoringOptions {
+  linesOfCode?: number;
+  // Category of a finding (default: 'other')
+  categoryOf?: (mistake: Mistake) => Category;
+  config?: ScoringConfig;
+}
+
+/**
+ * Apply configured weights over the defaults
+ */
+export function resolveScoringWeights(config?: ScoringConfig): ScoringWeights {
+  const defaults = DEFAULT_SCORING_WEIGHTS;
+  return {
+    severity: { ...defaults.severity, ...config?.severity },
+    certainty: { ...defaults.certainty, ...config?.certainty },
+    referenceLines: config?.referenceLines ?? defaults.referenceLines,
+  };
+}
+
+/**
+ * Count non-blank lines
+ */
+export function countLinesOfCode(code: string): number {
+  return code.split('\n').filter((line) => line.trim() !== '').length;
+}
+
+/**
+ * Letter grade for a score
+ */
+export function gradeFor(score: number): Grade {
+  return GRADES.find(([, minimum]) => score >= minimum)![0];
+}
+
+const round = (value: number, digits: number): number => {
+  const factor = 10 ** digits;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+function explain(
+  findings: number,
+  penalty: number,
+  normalizedPenalty: number,
+  linesOfCode: number,
+  referenceLines: number,
+  score: number,
+  grade: Grade
+): string {
+  if (findings === 0) {
+    return `No findings: score 10 (${grade}).`;
+  }
+
+  const weighed =
+    `${findings} finding${findings === 1 ? '' : 's'} weighted by severity, certainty and ` +
+    `confidence ${findings === 1 ? 'gives' : 'add up to'} a penalty of ${penalty}.`;
+  const scaled =
+    linesOfCode > referenceLines
+      ? ` Scaled from ${linesOfCode} lines of code to the ${referenceLines}-line reference ` +
+        `length, that is ${normalizedPenalty}.`
+      : '';
+  return `${weighed}${scaled} Score: max(0, 10 - ${normalizedPenalty}) = ${score} (${grade}).`;
+}
+
+/**
+ * Score findings (see the module comment). Suppressed findings should not be
+ * passed in.
+ */
+export function calculateScore(mistakes: Mistake[], options: ScoringOptions = {}): ScoreResult {
+  const weights = resolveScoringWeights(options.config);
+  const linesOfCode = options.linesOfCode ?? 0;
+  const categoryOf = options.categoryOf ?? (() => 'other');
+
+  const categories = new Map<Category, CategoryScore>(
+    CATEGORIES.map((category) => [category, { category, findings: 0, penalty: 0 }])
+  );
+  let penalty = 0;
+  for (const mistake of mistakes) {
+    const weight =
+      weights.severity[mistake.severity] *
+      weights.certainty[mistake.certainty] *
+      mistake.confidence;
+    const category = categories.get(categoryOf(mistake)) ?? categories.get('other')!;
+    category.findings++;
+    category.penalty += weight;
+    penalty += weight;
+  }
+
+  const scale = weights.referenceLines / Math.max(linesOfCode, weights.referenceLines);
+  const normalizedPenalty = round(penalty * scale, 2);
+  const score = round(Math.max(0, 10 - normalizedPenalty), 1);
+  const grade = gradeFor(score);
+
+  return {
+    score,
+    breakdown: {
+      grade,
+      linesOfCode,
+      penalty: round(penalty, 2),
+      normalizedPenalty,
+      categories: [...categories.values()].map((category) => ({
+        ...category,
+        penalty: round(category.penalty, 2),
+      })),
+      explanation: explain(
+        mistakes.length,
+        round(penalty, 2),
+        normalizedPenalty,
+        linesOfCode,
+        weights.referenceLines,
+        score,
+        grade
+      ),
+    },
+  };
+}
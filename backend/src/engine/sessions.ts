@@ -0,0 +1,498 @@
+import { nanoid } from 'nanoid';
+import { config } from '../config';
+import { acquireParser, releaseParser, walkTree, Parser } from '../parser';
+import {
+  AnalyzeResponse,
+  Detector,
+  DetectorResult,
+  Language,
+  SessionEdit,
+  SourceRange,
+  TextPosition,
+} from '../types';
+import {
+  AnalysisMetadata,
+  AnalyzeOptions,
+  buildResponse,
+  createMetadata,
+  DetectorFindings,
+  ParseError,
+  runDetectors,
+  selectDetectors,
+} from './analyze';
+
+/**
+ * Incremental analysis sessions
+ *
+ * A session keeps the source and syntax tree of one editor buffer. Edits are
+ * applied with tree.edit() and the buffer is re-parsed against the old tree.
+ * The top-level statements touched by an edit (the edited text plus the
+ * ranges tree-sitter reports as changed) decide which detectors re-run:
+ * a `local` detector is skipped when none of its node types occur in them,
+ * and its previous findings are moved along with the text. Every other
+ * detector re-runs on each edit.
+ *
+ * Sessions run on the main thread, since they keep their syntax trees, so
+ * they never run the TypeScript compiler (`typeCheck` is ignored) and each
+ * analysis has a deadline instead of the pool's limits. The deadline is also
+ * checked during the tree walk (see runDetectors()): detectors not finished
+ * by then are skipped, the response is marked `partial`, and they run again
+ * on the next edit.
+ *
+ * Sessions expire after an idle TTL, and the least recently used ones are
+ * closed when the estimated memory of all sessions exceeds the cap.
+ */
+
+// Rough size of a syntax tree node in the WASM heap, for the memory estimate
+const TREE_NODE_BYTES = 64;
+
+// Thrown for edits outside the session's text or a buffer over the size limit
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+export interface SessionStoreOptions {
+  // Sessions idle for longer than this are closed
+  ttlMs: number;
+  // Estimated memory (source plus syntax tree) all sessions may hold
+  maxBytes: number;
+  // Largest buffer a session accepts, in characters
+  maxCodeSize?: number;
+  // Deadline of each analysis (creating or editing a session), in milliseconds
+  timeoutMs?: number;
+  // Clock used for the TTL (tests)
+  now?: () => number;
+}
+
+// Metadata of a session analysis
+export interface SessionMetadata extends AnalysisMetadata {
+  // Local detectors whose previous findings were kept instead of re-running
+  reusedDetectors: string[];
+}
+
+// Result of creating or editing a session
+export interface SessionAnalysis {
+  sessionId: string;
+  response: AnalyzeResponse;
+  metadata: SessionMetadata;
+}
+
+interface Session {
+  id: string;
+  language: Language;
+  options: AnalyzeOptions;
+  detectors: Detector[];
+  code: string;
+  tree: Parser.Tree;
+  // Findings of the detectors that completed their last run, by name
+  findings: Map<string, DetectorFindings>;
+  bytes: number;
+  lastUsed: number;
+}
+
+// A span of the source, as string offsets (both ends inclusive for overlap checks)
+interface OffsetRange {
+  start: number;
+  end: number;
+}
+
+function getLineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function toOffset(code: string, lineStarts: number[], position: TextPosition): number {
+  const { line, column } = position;
+  if (line >= 1 && line <= lineStarts.length && column >= 1) {
+    const lineEnd = line < lineStarts.length ? lineStarts[line] - 1 : code.length;
+    const offset = lineStarts[line - 1] + column - 1;
+    if (offset <= lineEnd) {
+      return offset;
+    }
+  }
+  throw new SessionError(`Position ${line}:${column} is outside the document`);
+}
+
+// Position at the end of `text` inserted at `start`
+function endOfInsertion(start: Parser.Point, text: string): Parser.Point {
+  const lastBreak = text.lastIndexOf('\n');
+  if (lastBreak === -1) {
+    return { row: start.row, column: start.column + text.length };
+  }
+  return { row: start.row + text.split('\n').length - 1, column: text.length - lastBreak - 1 };
+}
+
+/**
+ * Convert an editor change to a tree-sitter edit of `code`
+ */
+export function resolveEdit(code: string, edit: SessionEdit): Parser.Edit {
+  const lineStarts = getLineStarts(code);
+  const startIndex = toOffset(code, lineStarts, edit.start);
+  const oldEndIndex = toOffset(code, lineStarts, edit.end);
+  if (oldEndIndex < startIndex) {
+    throw new SessionError(
+      `Edit ends (${edit.end.line}:${edit.end.column}) before it starts (${edit.start.line}:${edit.start.column})`
+    );
+  }
+
+  const startPosition = { row: edit.start.line - 1, column: edit.start.column - 1 };
+  return {
+    startIndex,
+    oldEndIndex,
+    newEndIndex: startIndex + edit.text.length,
+    startPosition,
+    oldEndPosition: { row: edit.end.line - 1, column: edit.end.column - 1 },
+    newEndPosition: endOfInsertion(startPosition, edit.text),
+  };
+}
+
+// Add the node types of every top-level statement overlapping the ranges
+function collectStatementTypes(
+  root: Parser.SyntaxNode,
+  ranges: OffsetRange[],
+  types: Set<string>
+): void {
+  for (const statement of root.children) {
+    const touched = ranges.some(
+      (range) => statement.startIndex <= range.end && statement.endIndex >= range.start
+    );
+    if (touched) {
+      walkTree(statement, (node) => {
+        types.add(node.type);
+      });
+    }
+  }
+}
+
+// Move a 1-based position after the edited text along with the text
+function movePosition(line: number, column: number, edit: Parser.Edit) {
+  const row = line - 1;
+  const { oldEndPosition, newEndPosition } = edit;
+  if (
+    row < oldEndPosition.row ||
+    (row === oldEndPosition.row && column - 1 < oldEndPosition.column)
+  ) {
+    return { line, column };
+  }
+  return {
+    line: row + newEndPosition.row - oldEndPosition.row + 1,
+    column:
+      row === oldEndPosition.row ? column + newEndPosition.column - oldEndPosition.column : column,
+  };
+}
+
+// Move a finding that lies outside the edited text along with the text
+function moveResult(result: DetectorResult, edit: Parser.Edit): DetectorResult {
+  const moveOffset = (offset: number) =>
+    offset >= edit.oldEndIndex ? offset + edit.newEndIndex - edit.oldEndIndex : offset;
+  const moveRange = <T extends Partial<SourceRange>>(range: T): T => {
+    const end =
+      range.endLine !== undefined && range.endColumn !== undefined
+        ? movePosition(range.endLine, range.endColumn, edit)
+        : undefined;
+    return {
+      ...range,
+      endLine: end?.line,
+      endColumn: end?.column,
+      startOffset: range.startOffset === undefined ? undefined : moveOffset(range.startOffset),
+      endOffset: range.endOffset === undefined ? undefined : moveOffset(range.endOffset),
+    };
+  };
+
+  return {
+    ...moveRange(result),
+    ...movePosition(result.line, result.column, edit),
+    relatedLocations: result.relatedLocations?.map((location) => ({
+      ...moveRange(location),
+      ...movePosition(location.line, location.column, edit),
+    })),
+    autofix: result.autofix && {
+      ...result.autofix,
+      edits: result.autofix.edits.map((textEdit) => ({
+        ...textEdit,
+        start: moveOffset(textEdit.start),
+        end: moveOffset(textEdit.end),
+      })),
+    },
+  };
+}
+
+function parse(code: string, language: Language, oldTree?: Parser.Tree): Parser.Tree {
+  const parser = acquireParser(language);
+  try {
+    return parser.parse(code, oldTree);
+  } catch (parseError) {
+    throw new ParseError(parseError instanceof Error ? parseError.message : String(parseError));
+  } finally {
+    releaseParser(language, parser);
+  }
+}
+
+export class SessionStore {
+  // In least recently used order
+  private sessions = new Map<string, Session>();
+  private totalBytes = 0;
+  private sweeper?: NodeJS.Timeout;
+  private readonly now: () => number;
+
+  constructor(private readonly options: SessionStoreOptions) {
+    this.now = options.now || Date.now;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Estimated memory held by all sessions
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Open a session for a buffer and analyze it. `options` apply to every
+   * later edit; `cache` is ignored.
+   */
+  create(code: string, language: Language, options: AnalyzeOptions = {}): SessionAnalysis {
+    this.sweep();
+    this.checkSize(code);
+
+    const startTime = Date.now();
+    const tree = parse(code, language);
+    const sessionOptions = { ...options, cache: undefined, typeCheck: undefined };
+    const session: Session = {
+      id: nanoid(12),
+      language,
+      options: sessionOptions,
+      detectors: selectDetectors(language, sessionOptions),
+      code,
+      tree,
+      findings: new Map(),
+      bytes: 0,
+      lastUsed: this.now(),
+    };
+
+    const metadata: SessionMetadata = { ...createMetadata(language), reusedDetectors: [] };
+    let response: AnalyzeResponse;
+    try {
+      response = this.run(session, session.detectors, metadata, startTime);
+    } catch (error) {
+      tree.delete();
+      throw error;
+    }
+
+    this.sessions.set(session.id, session);
+    this.resize(session);
+    this.startSweeper();
+
+    metadata.durationMs = Date.now() - startTime;
+    return { sessionId: session.id, response, metadata };
+  }
+
+  /**
+   * Apply editor changes, in order, to a session and re-analyze it.
+   * Returns undefined if the session does not exist or has expired.
+   */
+  update(id: string, edits: SessionEdit[]): SessionAnalysis | undefined {
+    this.sweep();
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+
+    const startTime = Date.now();
+
+    // Resolve every edit before touching the tree, so a bad one changes nothing
+    const steps: { edit: Parser.Edit; code: string }[] = [];
+    let code = session.code;
+    for (const change of edits) {
+      const edit = resolveEdit(code, change);
+      code = code.slice(0, edit.startIndex) + change.text + code.slice(edit.oldEndIndex);
+      steps.push({ edit, code });
+    }
+    this.checkSize(code);
+
+    const changedTypes = new Set<string>();
+    for (const { edit, code: editedCode } of steps) {
+      collectStatementTypes(
+        session.tree.rootNode,
+        [{ start: edit.startIndex, end: edit.oldEndIndex }],
+        changedTypes
+      );
+
+      session.tree.edit(edit);
+      const tree = parse(editedCode, session.language, session.tree);
+      const changed = [
+        { start: edit.startIndex, end: edit.newEndIndex },
+        ...session.tree
+          .getChangedRanges(tree)
+          .map((range) => ({ start: range.startIndex, end: range.endIndex })),
+      ];
+
+      // The edited old tree shares the new tree's offsets, so both are
+      // checked: nodes can disappear from a changed range as well as appear
+      collectStatementTypes(session.tree.rootNode, changed, changedTypes);
+      collectStatementTypes(tree.rootNode, changed, changedTypes);
+
+      session.tree.delete();
+      session.tree = tree;
+      session.code = editedCode;
+
+      for (const findings of session.findings.values()) {
+        findings.results = findings.results.map((result) => moveResult(result, edit));
+      }
+    }
+
+    const metadata: SessionMetadata = {
+      ...createMetadata(session.language),
+      reusedDetectors: [],
+    };
+    const rerun = session.detectors.filter((detector) => {
+      const findings = session.findings.get(detector.name);
+      const reusable =
+        detector.local &&
+        findings !== undefined &&
+        !findings.nodeTypes.some((type) => changedTypes.has(type));
+      if (reusable) {
+        metadata.reusedDetectors.push(detector.name);
+      }
+      return !reusable;
+    });
+
+    const response = this.run(session, rerun, metadata, startTime);
+    this.touch(session);
+    this.resize(session);
+
+    metadata.durationMs = Date.now() - startTime;
+    return { sessionId: session.id, response, metadata };
+  }
+
+  /**
+   * Close a session. Returns false if it did not exist.
+   */
+  close(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    session.tree.delete();
+    this.totalBytes -= session.bytes;
+    this.sessions.delete(id);
+    if (this.sessions.size === 0) {
+      this.stopSweeper();
+    }
+    return true;
+  }
+
+  /**
+   * Close sessions that have been idle for longer than the TTL
+   */
+  sweep(): void {
+    const cutoff = this.now() - this.options.ttlMs;
+    for (const session of [...this.sessions.values()]) {
+      if (session.lastUsed >= cutoff) break;
+      this.close(session.id);
+    }
+  }
+
+  closeAll(): void {
+    for (const id of [...this.sessions.keys()]) {
+      this.close(id);
+    }
+  }
+
+  // Run detectors, keep their findings and build the response from all findings
+  private run(
+    session: Session,
+    detectors: Detector[],
+    metadata: SessionMetadata,
+    startTime: number
+  ): AnalyzeResponse {
+    const { tree, code, language } = session;
+    const options = { ...session.options, timeoutMs: this.options.timeoutMs };
+
+    for (const detector of detectors) {
+      session.findings.delete(detector.name);
+    }
+    for (const findings of runDetectors(
+      tree,
+      code,
+      language,
+      detectors,
+      options,
+      metadata,
+      startTime
+    )) {
+      session.findings.set(findings.detector.name, findings);
+    }
+
+    const all = session.detectors
+      .map((detector) => session.findings.get(detector.name))
+      .filter((findings): findings is DetectorFindings => findings !== undefined);
+    const response = buildResponse(all, tree, code, language, options, metadata);
+    if (metadata.timedOut) {
+      response.partial = true;
+      response.timedOutDetectors = [...metadata.skippedDetectors];
+    }
+    return response;
+  }
+
+  private checkSize(code: string): void {
+    const { maxCodeSize } = this.options;
+    if (maxCodeSize !== undefined && code.length > maxCodeSize) {
+      throw new SessionError(`Code cannot exceed ${maxCodeSize} characters`);
+    }
+  }
+
+  // Mark a session as most recently used
+  private touch(session: Session): void {
+    session.lastUsed = this.now();
+    this.sessions.delete(session.id);
+    this.sessions.set(session.id, session);
+  }
+
+  // Update a session's memory estimate and close the least recently used
+  // other sessions while the total exceeds the cap
+  private resize(session: Session): void {
+    const bytes = session.code.length * 2 + session.tree.rootNode.descendantCount * TREE_NODE_BYTES;
+    this.totalBytes += bytes - session.bytes;
+    session.bytes = bytes;
+
+    for (const oldest of [...this.sessions.values()]) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+      if (oldest !== session) {
+        this.close(oldest.id);
+      }
+    }
+  }
+
+  private startSweeper(): void {
+    if (!this.sweeper) {
+      this.sweeper = setInterval(() => this.sweep(), this.options.ttlMs);
+      this.sweeper.unref();
+    }
+  }
+
+  private stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+}
+
+// Shared by the API routes
+export const sessionStore = new SessionStore({
+  ttlMs: config.sessions.ttlMs,
+  maxBytes: config.sessions.maxMemoryMb * 1024 * 1024,
+  maxCodeSize: config.api.maxCodeSize,
+  timeoutMs: config.workers.timeoutMs,
+});
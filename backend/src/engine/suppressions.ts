@@ -0,0 +1,129 @@
+import { Parser, findNodes, getNodeText } from '../parser';
+import { DetectorResult } from '../types';
+
+/**
+ * Inline suppression comments
+ *
+ * Supported directives (in any comment style the language allows):
+ *   // rookie-ignore-next-line double_equals   suppress on the following line
+ *   // rookie-ignore-file console_log_left     suppress in the whole file
+ *   x = None  # rookie-ignore nullable_access  suppress on this line
+ *
+ * A bare `rookie-ignore` on a line of its own applies to the next line.
+ * Rule names are separated by commas or spaces; no rule names means all
+ * rules. Anything after `--` is treated as a free-form reason.
+ */
+
+export type SuppressionKind = 'line' | 'next-line' | 'file';
+
+export interface Suppression {
+  kind: SuppressionKind;
+  // Line of the comment that declared the suppression (1-indexed)
+  line: number;
+  // Line the suppression applies to (undefined for file-wide suppressions)
+  targetLine?: number;
+  // Suppressed rule names, or null for every rule
+  rules: string[] | null;
+  reason?: string;
+}
+
+const DIRECTIVE_PATTERN = /rookie-ignore(-next-line|-file|-line)?(?![\w-])(.*)$/;
+
+// Parse the directive in a single comment, if any
+function parseDirective(text: string): Omit<Suppression, 'line' | 'targetLine'> | null {
+  // Line comments end with the `\r` of a CRLF line break
+  const body = text.replace(/\*\/\s*$/, '').trimEnd();
+  const match = DIRECTIVE_PATTERN.exec(body);
+  if (!match) {
+    return null;
+  }
+
+  const [, suffix, rest] = match;
+  const kind: SuppressionKind =
+    suffix === '-next-line' ? 'next-line' : suffix === '-file' ? 'file' : 'line';
+
+  const [rulePart, ...reasonParts] = rest.split('--');
+  const rules = rulePart
+    .split(/[\s,]+/)
+    .map((rule) => rule.trim())
+    .filter(Boolean);
+  const reason = reasonParts.join('--').trim();
+
+  return {
+    kind,
+    rules: rules.length > 0 ? rules : null,
+    reason: reason || undefined,
+  };
+}
+
+// Check whether a comment is the only thing on its line
+function isStandaloneComment(comment: Parser.SyntaxNode, code: string): boolean {
+  const lineStart = code.lastIndexOf('\n', comment.startIndex - 1) + 1;
+  return code.slice(lineStart, comment.startIndex).trim() === '';
+}
+
+/**
+ * Set of suppressions declared in a file
+ */
+export class SuppressionSet {
+  private fileSuppressions: Suppression[] = [];
+  private lineSuppressions = new Map<number, Suppression[]>();
+
+  constructor(readonly suppressions: Suppression[]) {
+    for (const suppression of suppressions) {
+      if (suppression.kind === 'file') {
+        this.fileSuppressions.push(suppression);
+      } else if (suppression.targetLine !== undefined) {
+        const existing = this.lineSuppressions.get(suppression.targetLine) || [];
+        existing.push(suppression);
+        this.lineSuppressions.set(suppression.targetLine, existing);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.suppressions.length;
+  }
+
+  /**
+   * Find the suppression that applies to a detector result, if any
+   */
+  match(result: Pick<DetectorResult, 'name' | 'line'>): Suppression | null {
+    const candidates = [
+      ...(this.lineSuppressions.get(result.line) || []),
+      ...this.fileSuppressions,
+    ];
+
+    return (
+      candidates.find(
+        (suppression) => suppression.rules === null || suppression.rules.includes(result.name)
+      ) || null
+    );
+  }
+}
+
+/**
+ * Collect suppression directives from the tree's comment nodes
+ */
+export function collectSuppressions(tree: Parser.Tree, code: string): SuppressionSet {
+  const suppressions: Suppression[] = [];
+
+  for (const comment of findNodes(tree.rootNode, 'comment')) {
+    const directive = parseDirective(getNodeText(comment, code));
+    if (!directive) continue;
+
+    const line = comment.startPosition.row + 1;
+    const endLine = comment.endPosition.row + 1;
+
+    let targetLine: number | undefined;
+    if (directive.kind === 'next-line') {
+      targetLine = endLine + 1;
+    } else if (directive.kind === 'line') {
+      targetLine = isStandaloneComment(comment, code) ? endLine + 1 : line;
+    }
+
+    suppressions.push({ ...directive, line, targetLine });
+  }
+
+  return new SuppressionSet(suppressions);
+}
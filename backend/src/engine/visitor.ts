@@ -0,0 +1,112 @@
+import { Parser } from '../parser';
+import { Detector, DetectorContext, DetectorResult, DetectorVisitor, Language } from '../types';
+
+/**
+ * Single-pass visitor dispatch
+ *
+ * Detectors that implement createVisitor() name the node types they need;
+ * one iterative TreeCursor walk hands every node of those types to the
+ * interested visitors, so the tree is traversed once per analysis instead
+ * of once per detector. Detectors that only implement detect() take part
+ * through an adapter whose finish() calls detect().
+ */
+
+/**
+ * Get the visitor for a detector, adapting detect()-only detectors
+ */
+export function createDetectorVisitor(
+  detector: Detector,
+  code: string,
+  language: Language,
+  tree: Parser.Tree,
+  context?: DetectorContext
+): DetectorVisitor {
+  if (detector.createVisitor) {
+    return detector.createVisitor(code, language, tree, context);
+  }
+
+  return {
+    nodeTypes: [],
+    visit() {},
+    finish: () => detector.detect(code, language, tree, context),
+  };
+}
+
+/**
+ * Walk the tree below `root` once, calling each visitor for the nodes of the
+ * types it registered. A visitor that throws is reported to `onError` and
+ * gets no further nodes; without `onError` the error propagates.
+ * `beforeVisit` is called before each visit. The walk ends early once
+ * `shouldStop` returns true (asked before each node that has visitors);
+ * returns whether the whole tree was walked.
+ */
+export function dispatchVisitors(
+  root: Parser.SyntaxNode,
+  visitors: DetectorVisitor[],
+  onError?: (visitor: DetectorVisitor, error: unknown) => void,
+  beforeVisit?: (visitor: DetectorVisitor) => void,
+  shouldStop?: () => boolean
+): boolean {
+  const byType = new Map<string, DetectorVisitor[]>();
+  for (const visitor of visitors) {
+    for (const type of new Set(visitor.nodeTypes)) {
+      const list = byType.get(type);
+      if (list) {
+        list.push(visitor);
+      } else {
+        byType.set(type, [visitor]);
+      }
+    }
+  }
+
+  if (byType.size === 0) {
+    return true;
+  }
+
+  const failed = new Set<DetectorVisitor>();
+  const cursor = root.walk();
+
+  try {
+    for (;;) {
+      // Nodes are only materialized for types someone is interested in
+      const interested = byType.get(cursor.nodeType);
+      if (interested) {
+        if (shouldStop?.()) return false;
+        const node = cursor.currentNode;
+        for (const visitor of interested) {
+          if (failed.has(visitor)) continue;
+          try {
+            beforeVisit?.(visitor);
+            visitor.visit(node);
+          } catch (error) {
+            if (!onError) throw error;
+            failed.add(visitor);
+            onError(visitor, error);
+          }
+        }
+      }
+
+      if (cursor.gotoFirstChild()) continue;
+      while (!cursor.gotoNextSibling()) {
+        if (!cursor.gotoParent()) return true;
+      }
+    }
+  } finally {
+    cursor.delete();
+  }
+}
+
+/**
+ * detect() implementation for detectors written as visitors
+ */
+export function detectWithVisitor(
+  detector: Detector,
+  code: string,
+  language: Language,
+  tree: Parser.Tree,
+  context?: DetectorContext
+): DetectorResult[] {
+  const visitor = createDetectorVisitor(detector, code, language, tree, context);
+  dispatchVisitors(tree.rootNode, [visitor]);
+  return visitor.finish();
+}
@@ -0,0 +1,84 @@
+import { parentPort, workerData } from 'worker_threads';
+import { initParser } from '../parser';
+import { loadQueryRules } from '../rules';
+import { loadPlugins } from '../plugins';
+import { analyze, ParseError } from './analyze';
+import { analyzeProject, ProjectError } from './project';
+import type { WorkerData, WorkerJob, WorkerMessage } from './pool';
+
+/**
+ * Analysis worker
+ *
+ * Entry point of the threads started by ./pool. Registers the query rules
+ * and plugins the pool names (the server's own), then analyzes the jobs it
+ * is sent (files or projects), one at a time. Before any detector code runs,
+ * the detector's index in the job's list is written to the shared progress
+ * slot (-1 outside detectors), so the pool can tell which detector was
+ * running when it stops the thread.
+ */
+
+const port = parentPort!;
+const data = workerData as WorkerData;
+const progress = new Int32Array(data.progress);
+
+function post(message: WorkerMessage): void {
+  port.postMessage(message);
+}
+
+function runJob(job: WorkerJob): void {
+  const indexes = new Map(job.detectors.map((name, index) => [name, index]));
+  Atomics.store(progress, 0, -1);
+
+  const options = {
+    ...job.options,
+    include: job.detectors,
+    trackDetector: (name: string | undefined) =>
+      Atomics.store(progress, 0, name ? (indexes.get(name) ?? -1) : -1),
+  };
+
+  try {
+    const result =
+      'files' in job.task
+        ? analyzeProject(job.task.files, options)
+        : analyze(job.task.code, job.task.language, {
+            ...options,
+            onProgress: job.reportProgress
+              ? (event) => post({ type: 'progress', id: job.id, event })
+              : undefined,
+          });
+    post({ type: 'done', id: job.id, result });
+  } catch (error) {
+    post({
+      type: 'failed',
+      id: job.id,
+      error: {
+        kind:
+          error instanceof ParseError
+            ? 'parse'
+            : error instanceof ProjectError
+              ? 'project'
+              : 'other',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+  } finally {
+    Atomics.store(progress, 0, -1);
+  }
+}
+
+async function start(): Promise<void> {
+  await initParser();
+
+  if (data.rulesDir) {
+    loadQueryRules(data.rulesDir);
+  }
+  if (data.plugins) {
+    loadPlugins(data.plugins);
+  }
+
+  port.on('message', runJob);
+  post({ type: 'ready' });
+}
+
+// A failed start rejects unhandled, which the pool sees as an 'error' event
+void start();
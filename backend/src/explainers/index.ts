@@ -1 +1,7 @@
-export { generateExplanation, getRawTemplate, listTemplates } from './templates';
+export {
+  generateExplanation,
+  getRawTemplate,
+  listTemplates,
+  registerTemplate,
+} from './templates';
+export type { ExplanationTemplate } from './templates';
@@ -7,7 +7,7 @@ Handlebars.registerHelper('eq', (a: unknown, b: unknown) => a === b);
 Handlebars.registerHelper('not', (a: unknown) => !a);
 
 // Template definitions for each detector
-interface ExplanationTemplate {
+export interface ExplanationTemplate {
   explanation: string;
   fix: string;
   codeExample?: string;
@@ -248,25 +248,37 @@ const fallbackTemplate: ExplanationTemplate = {
   codeExample: '// Review the code and apply appropriate fixes',
 };
 
-// Compile templates once for performance
-const compiledTemplates: Record<
-  string,
-  { explanation: HandlebarsTemplateDelegate; fix: HandlebarsTemplateDelegate; codeExample?: HandlebarsTemplateDelegate }
-> = {};
+interface CompiledTemplate {
+  explanation: HandlebarsTemplateDelegate;
+  fix: HandlebarsTemplateDelegate;
+  codeExample?: HandlebarsTemplateDelegate;
+}
 
-for (const [name, template] of Object.entries(templates)) {
-  compiledTemplates[name] = {
+function compileTemplate(template: ExplanationTemplate): CompiledTemplate {
+  return {
     explanation: Handlebars.compile(template.explanation, { noEscape: true }),
     fix: Handlebars.compile(template.fix, { noEscape: true }),
     codeExample: template.codeExample ? Handlebars.compile(template.codeExample, { noEscape: true }) : undefined,
   };
 }
 
-const compiledFallback = {
-  explanation: Handlebars.compile(fallbackTemplate.explanation, { noEscape: true }),
-  fix: Handlebars.compile(fallbackTemplate.fix, { noEscape: true }),
-  codeExample: fallbackTemplate.codeExample ? Handlebars.compile(fallbackTemplate.codeExample, { noEscape: true }) : undefined,
-};
+// Compile templates once for performance
+const compiledTemplates: Record<string, CompiledTemplate> = {};
+
+for (const [name, template] of Object.entries(templates)) {
+  compiledTemplates[name] = compileTemplate(template);
+}
+
+const compiledFallback = compileTemplate(fallbackTemplate);
+
+/**
+ * Add or replace the template of a detector registered at runtime
+ * (query rules, plugins)
+ */
+export function registerTemplate(detectorName: string, template: ExplanationTemplate): void {
+  templates[detectorName] = template;
+  compiledTemplates[detectorName] = compileTemplate(template);
+}
 
 /**
  * Generate explanation and fix for a detected mistake
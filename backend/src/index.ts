@@ -19,12 +19,21 @@ import snippetsRouter from './routes/snippets';
 
 // Utilities
 import { initParser } from './parser';
-import { initDatabase } from './db';
+import { closeDatabase, initDatabase } from './db';
+import { jobQueue } from './jobs';
+import { loadQueryRules } from './rules';
+import { loadPlugins } from './plugins';
 import { logger } from './lib/logger';
 import swaggerSpec from './swagger';
 
 const app = express();
 
+// Bytes a JSON body with `characters` characters of code may take: up to six
+// per character (escaped as \uXXXX), plus 1 MB for the rest of the request
+function jsonBodyLimit(characters: number): number {
+  return characters * 6 + 1024 * 1024;
+}
+
 // Trust proxy for rate limiting behind reverse proxy
 app.set('trust proxy', 1);
 
@@ -35,13 +44,19 @@ app.use(requestTimer);
 app.use(
   cors({
     origin: config.corsOrigins,
-    methods: ['GET', 'POST', 'OPTIONS'],
+    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
     credentials: true,
   })
 );
 
-// Body parsing
+// Body parsing. The routes that take many files get a limit that fits their
+// budget of code; the parser leaves bodies that are already parsed alone.
+const projectBodyLimit = jsonBodyLimit(config.api.maxProjectFiles * config.api.maxCodeSize);
+const batchBodyLimit = jsonBodyLimit(config.api.maxBatchSize);
+app.use('/api/v1/analyze/project', express.json({ limit: projectBodyLimit }));
+app.use('/api/v1/analyze/batch', express.json({ limit: batchBodyLimit }));
+app.use('/api/v1/jobs', express.json({ limit: Math.max(projectBodyLimit, batchBodyLimit) }));
 app.use(express.json({ limit: '1mb' }));
 
 // Global rate limiting
@@ -96,6 +111,30 @@ export async function initializeApp(): Promise<void> {
 
   try {
     await Promise.all([initParser(), initDatabase()]);
+
+    if (config.rules.dir) {
+      const rules = loadQueryRules(config.rules.dir);
+      logger.info(`Loaded ${rules.length} query rule(s) from ${config.rules.dir}`);
+    }
+
+    if (config.plugins.dir || config.plugins.packages.length > 0) {
+      const plugins = loadPlugins(config.plugins);
+      for (const plugin of plugins.loaded) {
+        logger.info(`Loaded plugin ${plugin.name} from ${plugin.source}`, {
+          detectors: plugin.detectors,
+        });
+      }
+      for (const failure of plugins.failed) {
+        logger.error(`Failed to load plugin ${failure.source}: ${failure.error}`);
+      }
+    }
+
+    // Jobs queued or running when the server stopped start again
+    const resumed = jobQueue.resume();
+    if (resumed > 0) {
+      logger.info(`Resumed ${resumed} analysis job(s)`);
+    }
+
     logger.info('Application initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize application', { error });
@@ -106,6 +145,7 @@ export async function initializeApp(): Promise<void> {
 // Graceful shutdown handler
 function gracefulShutdown(signal: string): void {
   logger.info(`Received ${signal}, shutting down gracefully...`);
+  closeDatabase();
   process.exit(0);
 }
 
@@ -0,0 +1,157 @@
+import { config } from './config';
+import { deleteFinishedJobs, getJob, getUnfinishedJobs, saveJob } from './db';
+import {
+  analysisCache,
+  analysisPool,
+  analyzeBatch,
+  JobControl,
+  JobQueue,
+  ParseError,
+  ProjectError,
+  selectDetectors,
+  summarizeBatch,
+} from './engine';
+import { logAnalysis, logger } from './lib/logger';
+import { recordAnalysisMetric } from './lib/metrics';
+import { checkBatchItems, JobRequest } from './middleware/validation';
+import {
+  AnalysisJob,
+  AnalyzeResponse,
+  BatchAnalyzeResponse,
+  JobRecord,
+  Language,
+  ProjectAnalyzeResponse,
+} from './types';
+
+/**
+ * Analysis jobs of the API
+ *
+ * Runs the requests of /api/v1/jobs the way their synchronous endpoints do,
+ * on the job queue (see engine/jobs), with the jobs stored in the database.
+ */
+
+type RequestOf<K extends JobRequest['kind']> = Extract<JobRequest, { kind: K }>['request'];
+
+const PARSE_ERROR = 'Failed to parse code. Please check for syntax errors.';
+
+// Progress: detectors finished
+async function runAnalyzeJob(
+  request: RequestOf<'analyze'>,
+  control: JobControl
+): Promise<AnalyzeResponse> {
+  const { code, language, options, ...filters } = request;
+  const analyzeOptions = { config: options, ...filters, cache: analysisCache };
+  const total = selectDetectors(language as Language, analyzeOptions).length;
+  let completed = 0;
+  control.progress(completed, total);
+
+  const { response, metadata } = await analysisPool.analyze(code, language as Language, {
+    ...analyzeOptions,
+    signal: control.signal,
+    onProgress: (event) => {
+      if (event.type === 'detector-done') {
+        control.progress(++completed, total);
+      }
+    },
+  });
+  logAnalysis(language, code.length, response.mistakes.length, metadata.durationMs);
+  recordAnalysisMetric(language, response.mistakes.length, metadata.durationMs);
+
+  return response;
+}
+
+// Progress: files analyzed, all at once (a project is one pool job)
+async function runProjectJob(
+  request: RequestOf<'project'>,
+  control: JobControl
+): Promise<ProjectAnalyzeResponse> {
+  const { files, options, ...filters } = request;
+  const total = Object.keys(files).length;
+  control.progress(0, total);
+
+  const result = await analysisPool.analyzeProject(files, {
+    config: options,
+    ...filters,
+    signal: control.signal,
+  });
+  for (const [filePath, metadata] of Object.entries(result.metadata)) {
+    const { mistakes } = result.response.files[filePath];
+    logAnalysis(metadata.language, files[filePath].length, mistakes.length, metadata.durationMs);
+    recordAnalysisMetric(metadata.language, mistakes.length, metadata.durationMs);
+  }
+  control.progress(total, total);
+
+  return result.response;
+}
+
+// Progress: items finished (invalid items count as finished)
+async function runBatchJob(
+  request: RequestOf<'batch'>,
+  control: JobControl
+): Promise<BatchAnalyzeResponse> {
+  const { items, options, ...filters } = request;
+  const { results, valid, indexes } = checkBatchItems(items);
+  const invalid = items.length - valid.length;
+  control.progress(invalid, items.length);
+
+  const batch = await analyzeBatch(analysisPool, valid, {
+    config: options,
+    ...filters,
+    cache: analysisCache,
+    signal: control.signal,
+    onItemDone: (completed) => control.progress(invalid + completed, items.length),
+  });
+
+  batch.results.forEach((result, position) => {
+    results[indexes[position]] = result;
+    const metadata = batch.metadata[position];
+    if (metadata && 'mistakes' in result) {
+      const { code, language } = valid[position];
+      logAnalysis(language, code.length, result.mistakes.length, metadata.durationMs);
+      recordAnalysisMetric(language, result.mistakes.length, metadata.durationMs);
+    }
+  });
+
+  return { results, summary: summarizeBatch(results) };
+}
+
+// Runs a job by kind; a failed job's error is what the endpoint would say
+async function runJob(job: JobRecord, control: JobControl): Promise<AnalysisJob['result']> {
+  try {
+    switch (job.kind) {
+      case 'analyze':
+        return await runAnalyzeJob(job.request as RequestOf<'analyze'>, control);
+      case 'project':
+        return await runProjectJob(job.request as RequestOf<'project'>, control);
+      case 'batch':
+        return await runBatchJob(job.request as RequestOf<'batch'>, control);
+    }
+  } catch (error) {
+    // A cancelled job's error is discarded by the queue
+    if (control.signal.aborted || error instanceof ProjectError) {
+      throw error;
+    }
+    if (error instanceof ParseError) {
+      throw new Error(PARSE_ERROR);
+    }
+    logger.error('Analysis job crashed', {
+      jobId: job.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new Error('Analysis failed');
+  }
+}
+
+// Shared job queue, stored in the jobs table
+export const jobQueue = new JobQueue({
+  concurrency: Math.max(1, config.jobs.concurrency),
+  maxQueued: config.jobs.maxQueued,
+  store: {
+    save: saveJob,
+    get: getJob,
+    unfinished: getUnfinishedJobs,
+    deleteFinished: deleteFinishedJobs,
+  },
+  run: runJob,
+  retentionMs: config.jobs.retentionMs,
+});
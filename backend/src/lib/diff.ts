@@ -0,0 +1,202 @@
+/**
+ * Line-based unified diff
+ *
+ * Uses the Myers O(ND) algorithm on the lines between the common prefix and
+ * suffix, which keeps it cheap for the small, local changes made by autofixes.
+ */
+
+export interface UnifiedDiffOptions {
+  fromFile?: string;
+  toFile?: string;
+  // Number of unchanged lines shown around each change
+  context?: number;
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; text: string };
+
+interface SplitText {
+  lines: string[];
+  // Whether the text ends with a newline
+  trailingNewline: boolean;
+}
+
+function splitLines(text: string): SplitText {
+  if (text === '') {
+    return { lines: [], trailingNewline: true };
+  }
+
+  const lines = text.split('\n');
+  const trailingNewline = lines[lines.length - 1] === '';
+  if (trailingNewline) {
+    lines.pop();
+  }
+  return { lines, trailingNewline };
+}
+
+// Shortest edit script between two line arrays
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+          ? v[k + 1 + offset]
+          : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the operations
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[k - 1 + offset] < vd[k + 1 + offset]) ? k + 1 : k - 1;
+    const prevX = vd[prevK + offset];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: ' ', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: '+', text: b[--y] });
+      } else {
+        ops.push({ type: '-', text: a[--x] });
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Compute the line operations turning `a` into `b`
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const same = (text: string): DiffOp => ({ type: ' ', text });
+  return [
+    ...a.slice(0, prefix).map(same),
+    ...myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(same),
+  ];
+}
+
+// Format a hunk range; empty ranges point at the preceding line
+function formatRange(start: number, length: number): string {
+  const first = length === 0 ? start : start + 1;
+  return length === 1 ? `${first}` : `${first},${length}`;
+}
+
+/**
+ * Create a unified diff between two texts. Returns an empty string when the
+ * texts are identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const { fromFile = 'a/code', toFile = 'b/code', context = 3 } = options;
+
+  if (oldText === newText) {
+    return '';
+  }
+
+  const oldSplit = splitLines(oldText);
+  const newSplit = splitLines(newText);
+  const ops = diffLines(oldSplit.lines, newSplit.lines);
+
+  // A missing final newline counts as a change to the last line
+  if (oldSplit.trailingNewline !== newSplit.trailingNewline) {
+    const last = ops.length - 1;
+    if (last >= 0 && ops[last].type === ' ') {
+      ops.splice(last, 1, { type: '-', text: ops[last].text }, { type: '+', text: ops[last].text });
+    }
+  }
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  const changes = ops.map((op, index) => (op.type === ' ' ? -1 : index)).filter((i) => i >= 0);
+
+  let index = 0;
+  while (index < changes.length) {
+    // Extend the hunk while the next change is within 2 * context lines
+    let end = index;
+    while (end + 1 < changes.length && changes[end + 1] - changes[end] <= 2 * context + 1) {
+      end++;
+    }
+
+    const hunkStart = Math.max(0, changes[index] - context);
+    const hunkEnd = Math.min(ops.length - 1, changes[end] + context);
+
+    // Line numbers at the start of the hunk
+    let oldLine = 0;
+    let newLine = 0;
+    for (let i = 0; i < hunkStart; i++) {
+      if (ops[i].type !== '+') oldLine++;
+      if (ops[i].type !== '-') newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let i = hunkStart; i <= hunkEnd; i++) {
+      const op = ops[i];
+      body.push(`${op.type}${op.text}`);
+
+      let endsOld = false;
+      let endsNew = false;
+      if (op.type !== '+') {
+        oldCount++;
+        endsOld = oldLine + oldCount === oldSplit.lines.length && !oldSplit.trailingNewline;
+      }
+      if (op.type !== '-') {
+        newCount++;
+        endsNew = newLine + newCount === newSplit.lines.length && !newSplit.trailingNewline;
+      }
+      if (endsOld || endsNew) {
+        body.push('\\ No newline at end of file');
+      }
+    }
+
+    output.push(`@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@`);
+    output.push(...body);
+    index = end + 1;
+  }
+
+  return `${output.join('\n')}\n`;
+}
@@ -5,6 +5,7 @@
  * - Request counts and latencies
  * - Error rates
  * - Analysis statistics
+ * - Analysis cache hits and misses
  * 
  * For production use, consider integrating with:
  * - Prometheus (prom-client)
@@ -29,6 +30,11 @@ interface AnalysisMetrics {
   durations: number[];
 }
 
+interface CacheMetrics {
+  hits: number;
+  misses: number;
+}
+
 interface ErrorMetrics {
   total: number;
   byType: Record<string, number>;
@@ -58,6 +64,11 @@ class MetricsCollector {
     byEndpoint: {},
   };
 
+  private cacheMetrics: CacheMetrics = {
+    hits: 0,
+    misses: 0,
+  };
+
   private startTime: number = Date.now();
 
   /**
@@ -102,6 +113,17 @@ class MetricsCollector {
     this.analysisMetrics.avgDuration = sum / this.analysisMetrics.durations.length;
   }
 
+  /**
+   * Record an analysis cache lookup
+   */
+  recordCacheLookup(hit: boolean): void {
+    if (hit) {
+      this.cacheMetrics.hits++;
+    } else {
+      this.cacheMetrics.misses++;
+    }
+  }
+
   /**
    * Record an error metric
    */
@@ -147,6 +169,13 @@ class MetricsCollector {
         avgDuration: Math.round(this.analysisMetrics.avgDuration),
         p95Duration: this.calculatePercentile(this.analysisMetrics.durations, 95),
       },
+      cache: {
+        hits: this.cacheMetrics.hits,
+        misses: this.cacheMetrics.misses,
+        hitRate: this.cacheMetrics.hits + this.cacheMetrics.misses > 0
+          ? (this.cacheMetrics.hits / (this.cacheMetrics.hits + this.cacheMetrics.misses) * 100).toFixed(2) + '%'
+          : '0%',
+      },
       errors: {
         total: this.errorMetrics.total,
         byType: this.errorMetrics.byType,
@@ -204,6 +233,10 @@ class MetricsCollector {
       byType: {},
       byEndpoint: {},
     };
+    this.cacheMetrics = {
+      hits: 0,
+      misses: 0,
+    };
     this.startTime = Date.now();
   }
 
@@ -239,6 +272,10 @@ export function recordAnalysisMetric(language: string, mistakeCount: number, dur
   metrics.recordAnalysis(language, mistakeCount, duration);
 }
 
+export function recordCacheMetric(hit: boolean): void {
+  metrics.recordCacheLookup(hit);
+}
+
 export function recordErrorMetric(type: string, endpoint: string): void {
   metrics.recordError(type, endpoint);
 }
@@ -0,0 +1,25 @@
+import { Severity } from '../types';
+
+// Severities ordered from least to most severe
+export const SEVERITY_LEVELS: Severity[] = ['info', 'warning', 'error'];
+
+/**
+ * Get the numeric rank of a severity (higher is more severe)
+ */
+export function severityRank(severity: Severity): number {
+  return SEVERITY_LEVELS.indexOf(severity);
+}
+
+/**
+ * Check if a severity is at or above a threshold
+ */
+export function meetsSeverity(severity: Severity, threshold: Severity): boolean {
+  return severityRank(severity) >= severityRank(threshold);
+}
+
+/**
+ * Type guard for severity strings (e.g. from CLI flags or config files)
+ */
+export function isSeverity(value: unknown): value is Severity {
+  return typeof value === 'string' && SEVERITY_LEVELS.includes(value as Severity);
+}
@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+
+/**
+ * Streamed responses
+ *
+ * Writes named events to a response as Server-Sent Events
+ * (`text/event-stream`) or as newline-delimited JSON
+ * (`application/x-ndjson`, one `{ "event", "data" }` object per line). The
+ * headers are only sent with the first event, so a request can still fail
+ * with an ordinary error response until then.
+ */
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+const CONTENT_TYPES: Record<StreamFormat, string> = {
+  sse: 'text/event-stream',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * The stream format a request asks for in its Accept header, or undefined
+ * when it prefers JSON (or sends no Accept header)
+ */
+export function streamFormat(req: Request): StreamFormat | undefined {
+  const accepted = req.accepts(['application/json', CONTENT_TYPES.sse, CONTENT_TYPES.ndjson]);
+  if (accepted === CONTENT_TYPES.sse) {
+    return 'sse';
+  }
+  if (accepted === CONTENT_TYPES.ndjson) {
+    return 'ndjson';
+  }
+  return undefined;
+}
+
+// Events written to one response in one of the stream formats
+export class EventStream {
+  private closed = false;
+
+  constructor(
+    private readonly res: Response,
+    readonly format: StreamFormat
+  ) {
+    res.on('close', () => {
+      this.closed = true;
+    });
+  }
+
+  // Whether any event was sent (the status and headers are then final)
+  get started(): boolean {
+    return this.res.headersSent;
+  }
+
+  /**
+   * Write an event. Events sent after the client went away are dropped.
+   */
+  send(event: string, data: unknown): void {
+    if (this.closed || this.res.writableEnded) {
+      return;
+    }
+    if (!this.started) {
+      this.res.status(200);
+      this.res.setHeader('Content-Type', `${CONTENT_TYPES[this.format]}; charset=utf-8`);
+      this.res.setHeader('Cache-Control', 'no-cache');
+      // Keep reverse proxies (nginx) from buffering the events
+      this.res.setHeader('X-Accel-Buffering', 'no');
+      this.res.flushHeaders();
+    }
+
+    this.res.write(
+      this.format === 'sse'
+        ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+        : `${JSON.stringify({ event, data })}\n`
+    );
+  }
+
+  end(): void {
+    if (!this.res.writableEnded) {
+      this.res.end();
+    }
+  }
+}
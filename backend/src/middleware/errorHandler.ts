@@ -44,6 +44,20 @@ export class ValidationError extends ApiError {
   }
 }
 
+export class ConflictError extends ApiError {
+  constructor(message: string = 'Conflict') {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+export class UnprocessableEntityError extends ApiError {
+  constructor(message: string = 'Unprocessable entity') {
+    super(message, 422);
+    this.name = 'UnprocessableEntityError';
+  }
+}
+
 export class RateLimitError extends ApiError {
   retryAfter: number;
 
@@ -54,6 +68,13 @@ export class RateLimitError extends ApiError {
   }
 }
 
+export class ServiceUnavailableError extends ApiError {
+  constructor(message: string = 'Service unavailable') {
+    super(message, 503);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
 export class InternalError extends ApiError {
   constructor(message: string = 'Internal server error') {
     super(message, 500, false);
@@ -193,7 +214,10 @@ export default {
   BadRequestError,
   NotFoundError,
   ValidationError,
+  ConflictError,
+  UnprocessableEntityError,
   RateLimitError,
+  ServiceUnavailableError,
   InternalError,
   errorHandler,
   notFoundHandler,
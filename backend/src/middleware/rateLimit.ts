@@ -6,6 +6,9 @@ import { logger } from '../lib/logger';
 // Skip rate limiting in test environment
 const isTestEnv = process.env.NODE_ENV === 'test';
 
+// Session edits arrive while the user types; they have their own limiter
+const SESSION_EDITS_PATH = /^\/api\/v1\/sessions\/[^/]+\/edits$/;
+
 // Custom handler when rate limit is exceeded
 const rateLimitHandler = (req: Request, res: Response): void => {
   logger.warn('Rate limit exceeded', {
@@ -34,7 +37,9 @@ export const apiLimiter = rateLimit({
   // Use default key generator (handles IPv6 properly)
   handler: rateLimitHandler,
   skip: (req: Request) => {
-    return req.path === '/api/health' || isTestEnv;
+    return (
+      req.path === '/api/health' || SESSION_EDITS_PATH.test(req.baseUrl + req.path) || isTestEnv
+    );
   },
   validate: { xForwardedForHeader: false },
 });
@@ -65,6 +70,20 @@ export const analyzeLimiter = rateLimit({
   },
 });
 
+// Rate limiter for session edits (one request per editor change, debounced by the client)
+export const sessionEditLimiter = rateLimit({
+  windowMs: config.rateLimit.windowMs,
+  max: config.rateLimit.maxSessionEdits,
+  message: {
+    error: 'Too many session edits',
+    message: 'Please slow down the rate of editor updates.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: () => isTestEnv,
+  validate: { xForwardedForHeader: false },
+});
+
 // Rate limiter for save endpoint
 export const saveLimiter = rateLimit({
   windowMs: config.rateLimit.windowMs,
@@ -82,5 +101,6 @@ export const saveLimiter = rateLimit({
 export default {
   apiLimiter,
   analyzeLimiter,
+  sessionEditLimiter,
   saveLimiter,
 };
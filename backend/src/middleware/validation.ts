@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { Request, Response, NextFunction } from 'express';
 import config from '../config';
 import { logger } from '../lib/logger';
+import { getDetectorNames } from '../detectors';
+import { BatchItemResult } from '../types';
 
 // Language enum
 export const languageSchema = z.enum(['javascript', 'typescript', 'python']);
@@ -19,12 +21,53 @@ export type Certainty = z.infer<typeof certaintySchema>;
 export const scopeSchema = z.enum(['local', 'function', 'module']);
 export type Scope = z.infer<typeof scopeSchema>;
 
+// Detector category enum
+export const categorySchema = z.enum([
+  'correctness',
+  'error-handling',
+  'async',
+  'maintainability',
+  'other',
+]);
+
+// Unit of the columns in a response
+export const positionEncodingSchema = z.enum(['utf-16', 'utf-8', 'code-points']);
+
+// Machine-applicable fix
+export const autofixSchema = z.object({
+  description: z.string(),
+  edits: z.array(
+    z.object({
+      start: z.number().int().min(0),
+      end: z.number().int().min(0),
+      text: z.string(),
+    })
+  ),
+});
+
+// Location of another piece of code involved in a finding
+export const relatedLocationSchema = z.object({
+  line: z.number(),
+  column: z.number(),
+  endLine: z.number(),
+  endColumn: z.number(),
+  startOffset: z.number().int().min(0),
+  endOffset: z.number().int().min(0),
+  message: z.string(),
+  file: z.string().optional(),
+});
+
 // Mistake schema
 export const mistakeSchema = z.object({
   id: z.number(),
+  fingerprint: z.string().optional(),
   name: z.string(),
   line: z.number(),
   column: z.number(),
+  endLine: z.number().optional(),
+  endColumn: z.number().optional(),
+  startOffset: z.number().int().min(0).optional(),
+  endOffset: z.number().int().min(0).optional(),
   severity: severitySchema,
   certainty: certaintySchema,
   confidence: z.number().min(0).max(1),
@@ -33,14 +76,212 @@ export const mistakeSchema = z.object({
   ast_facts: z.record(z.string(), z.unknown()),
   explanation: z.string(),
   fix: z.string(),
+  autofix: autofixSchema.optional(),
+  relatedLocations: z.array(relatedLocationSchema).optional(),
+});
+
+// Mistake silenced by an inline suppression comment
+export const suppressedMistakeSchema = mistakeSchema.extend({
+  suppressedBy: z.object({
+    kind: z.enum(['line', 'next-line', 'file']),
+    line: z.number(),
+    reason: z.string().optional(),
+  }),
+});
+
+// Syntax errors and incomplete detector runs of an analysis
+export const analysisDiagnosticsSchema = z.object({
+  syntaxErrors: z.array(
+    z.object({
+      kind: z.enum(['error', 'missing']),
+      line: z.number(),
+      column: z.number(),
+      endLine: z.number(),
+      endColumn: z.number(),
+      message: z.string(),
+    })
+  ),
+  failedDetectors: z.array(z.string()),
+  skippedDetectors: z.array(z.string()),
+});
+
+// Score breakdown of an analysis
+export const scoreBreakdownSchema = z.object({
+  grade: z.enum(['A', 'B', 'C', 'D', 'F']),
+  linesOfCode: z.number().int().min(0),
+  penalty: z.number().min(0),
+  normalizedPenalty: z.number().min(0),
+  categories: z.array(
+    z.object({
+      category: categorySchema,
+      findings: z.number().int().min(0),
+      penalty: z.number().min(0),
+    })
+  ),
+  explanation: z.string(),
+});
+
+// A finding recorded in a baseline
+export const baselineEntrySchema = z.object({
+  fingerprint: z.string().min(1),
+  name: z.string(),
+  line: z.number().int().min(1),
+  message: z.string(),
+});
+
+// Comparison of an analysis with a baseline
+export const baselineComparisonSchema = z.object({
+  matched: z.number().int().min(0),
+  fixed: z.array(baselineEntrySchema),
+});
+
+// Baseline file written by `rookie --write-baseline`, entries by file path
+export const baselineFileSchema = z.object({
+  version: z.literal(1),
+  files: z.record(z.string(), z.array(baselineEntrySchema)),
 });
 
 // Analysis results schema
 export const analysisResultsSchema = z.object({
   mistakes: z.array(mistakeSchema),
   score: z.number().min(0).max(10),
+  scoring: scoreBreakdownSchema.optional(),
+  suppressed: z.array(suppressedMistakeSchema).optional(),
+  baseline: baselineComparisonSchema.optional(),
+  partial: z.boolean().optional(),
+  timedOutDetectors: z.array(z.string()).optional(),
+  diagnostics: analysisDiagnosticsSchema.optional(),
+  positionEncoding: positionEncodingSchema.optional(),
+});
+
+// Name of a registered detector
+export const ruleNameSchema = z.string().superRefine((name, ctx) => {
+  const validNames = getDetectorNames();
+  if (!validNames.includes(name)) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `Unknown rule '${name}'. Valid rules: ${validNames.join(', ')}`,
+    });
+  }
+});
+
+// Options understood by individual detectors
+export const ruleOptionSchemas: Record<string, z.ZodType> = {
+  console_log_left: z
+    .strictObject({
+      allowedLoggers: z.array(
+        z.string().regex(/^console\.\w+$/, 'Expected a name like console.info')
+      ),
+    })
+    .partial(),
+  variable_shadowing: z
+    .strictObject({
+      ignoredNames: z.array(z.string().min(1)),
+    })
+    .partial(),
+  double_equals: z
+    .strictObject({
+      allowNullComparison: z.boolean(),
+    })
+    .partial(),
+};
+
+// Settings for a single rule
+export const ruleSettingsSchema = z.strictObject({
+  enabled: z.boolean().optional(),
+  severity: severitySchema.optional(),
+  options: z.record(z.string(), z.unknown()).optional(),
+});
+
+// A rule entry: on/off, a severity override, or full settings
+export const ruleConfigSchema = z.union([
+  z.boolean(),
+  z.literal('off'),
+  severitySchema,
+  ruleSettingsSchema,
+]);
+
+// Scoring weights (engine/scoring.ts)
+export const scoringConfigSchema = z.strictObject({
+  severity: z.partialRecord(severitySchema, z.number().min(0)).optional(),
+  certainty: z.partialRecord(certaintySchema, z.number().min(0)).optional(),
+  referenceLines: z.number().int().min(1).optional(),
 });
 
+// Analysis configuration (.rookierc.json and the analyze request's `options`);
+// rules are checked against the registered detectors
+export const analysisConfigSchema = z
+  .strictObject({
+    rules: z.record(z.string(), ruleConfigSchema).optional(),
+    scoring: scoringConfigSchema.optional(),
+  })
+  .superRefine((value, ctx) => {
+    for (const [ruleName, entry] of Object.entries(value.rules || {})) {
+      const known = ruleNameSchema.safeParse(ruleName);
+      if (!known.success) {
+        ctx.addIssue({
+          code: 'custom',
+          message: known.error.issues[0].message,
+          path: ['rules', ruleName],
+        });
+        continue;
+      }
+
+      const optionSchema = ruleOptionSchemas[ruleName];
+      if (!optionSchema || typeof entry !== 'object' || !entry.options) continue;
+
+      const result = optionSchema.safeParse(entry.options);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({
+            code: 'custom',
+            message: issue.message,
+            path: ['rules', ruleName, 'options', ...issue.path],
+          });
+        }
+      }
+    }
+  });
+
+// Declarative query rule (src/rules); see QueryRule in types.ts
+export const queryRuleSchema = z
+  .strictObject({
+    name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Rule names must be lower_snake_case'),
+    description: z.string().optional(),
+    languages: z.array(languageSchema).min(1, 'languages must list at least one language'),
+    query: z.union([
+      z.string().min(1, 'query cannot be empty'),
+      z.partialRecord(languageSchema, z.string().min(1, 'query cannot be empty')),
+    ]),
+    capture: z.string().optional(),
+    message: z.string().min(1, 'message cannot be empty'),
+    severity: severitySchema.default('warning'),
+    certainty: certaintySchema.default('possible'),
+    confidence: z.number().min(0).max(1).default(0.8),
+    scope: scopeSchema.default('local'),
+    category: categorySchema.optional(),
+    explanation: z.string().min(1, 'explanation cannot be empty'),
+    fix: z.string().optional(),
+    codeExample: z.string().optional(),
+  })
+  .superRefine((rule, ctx) => {
+    if (typeof rule.query === 'string') return;
+    for (const language of rule.languages) {
+      if (!rule.query[language]) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `No query for ${language}`,
+          path: ['query', language],
+        });
+      }
+    }
+  });
+
+// A rule file holding an array of rules (a file may also hold a single rule)
+export const queryRuleFileSchema = z
+  .array(queryRuleSchema)
+  .min(1, 'A rule file must contain at least one rule');
+
 // POST /api/analyze request body
 export const analyzeRequestSchema = z.object({
   code: z
@@ -48,10 +289,232 @@ export const analyzeRequestSchema = z.object({
     .min(1, 'Code cannot be empty')
     .max(config.api.maxCodeSize, `Code cannot exceed ${config.api.maxCodeSize} characters`),
   language: languageSchema,
+  options: analysisConfigSchema.optional(),
+  // Only run these rules
+  include: z.array(ruleNameSchema).min(1, 'include must list at least one rule').optional(),
+  // Skip these rules
+  exclude: z.array(ruleNameSchema).optional(),
+  // Drop findings below this confidence or severity
+  minConfidence: z.number().min(0).max(1).optional(),
+  minSeverity: severitySchema.optional(),
+  // Unit of the columns in the response (default: UTF-16 code units)
+  positionEncoding: positionEncodingSchema.optional(),
+  // Ask the TypeScript compiler for types (TypeScript only)
+  typeCheck: z.boolean().optional(),
+  // Only report findings that are not in this baseline: its entries, or the
+  // findings saved with a snippet
+  baseline: z
+    .union([
+      z.object({ entries: z.array(baselineEntrySchema) }).strict(),
+      z
+        .object({
+          snippetId: z
+            .string()
+            .max(50, 'Invalid snippet ID')
+            .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid snippet ID format'),
+        })
+        .strict(),
+    ])
+    .optional(),
 });
 
 export type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>;
 
+// POST /api/v1/fix request body: the analyze request (without a baseline)
+// plus the fixes to apply
+export const fixRequestSchema = analyzeRequestSchema
+  .omit({ baseline: true, positionEncoding: true })
+  .extend({
+    // Mistake ids from the analyze response (default: every fixable mistake)
+    ids: z.array(z.number().int().positive()).optional(),
+    // Only fix mistakes reported by these rules
+    rules: z.array(ruleNameSchema).optional(),
+  });
+
+export type FixRequest = z.infer<typeof fixRequestSchema>;
+
+// POST /api/v1/analyze/project request body: file contents by path plus the
+// analyze options, which apply to every file
+export const projectAnalyzeRequestSchema = analyzeRequestSchema
+  .omit({ code: true, language: true, baseline: true, typeCheck: true })
+  .extend({
+    files: z
+      .record(
+        z
+          .string()
+          .min(1, 'File paths cannot be empty')
+          .max(500, 'File paths cannot exceed 500 characters'),
+        z
+          .string()
+          .max(config.api.maxCodeSize, `Files cannot exceed ${config.api.maxCodeSize} characters`)
+      )
+      .refine((files) => Object.keys(files).length > 0, 'files must contain at least one file')
+      .refine(
+        (files) => Object.keys(files).length <= config.api.maxProjectFiles,
+        `files cannot contain more than ${config.api.maxProjectFiles} files`
+      ),
+  });
+
+export type ProjectAnalyzeRequest = z.infer<typeof projectAnalyzeRequestSchema>;
+
+// One item of a batch. Items are checked one by one (checkBatchItems), so an
+// invalid item only fails itself
+export const batchItemSchema = z.object({
+  id: z.string(),
+  code: analyzeRequestSchema.shape.code,
+  language: languageSchema,
+});
+
+export type BatchItemRequest = z.infer<typeof batchItemSchema>;
+
+// POST /api/v1/analyze/batch request body: the items plus the analyze
+// options, which apply to every item. Only the item IDs and the total size
+// are checked here
+export const batchAnalyzeRequestSchema = analyzeRequestSchema
+  .omit({ code: true, language: true, baseline: true })
+  .extend({
+    items: z
+      .array(
+        z.looseObject({
+          id: z
+            .string()
+            .min(1, 'Item IDs cannot be empty')
+            .max(200, 'Item IDs cannot exceed 200 characters'),
+        })
+      )
+      .min(1, 'items must contain at least one item')
+      .max(
+        config.api.maxBatchItems,
+        `items cannot contain more than ${config.api.maxBatchItems} items`
+      )
+      .refine(
+        (items) => new Set(items.map((item) => item.id)).size === items.length,
+        'Item IDs must be unique'
+      )
+      .refine(
+        (items) =>
+          items.reduce(
+            (total, item) => total + (typeof item.code === 'string' ? item.code.length : 0),
+            0
+          ) <= config.api.maxBatchSize,
+        `The items' code cannot exceed ${config.api.maxBatchSize} characters in total`
+      ),
+  });
+
+export type BatchAnalyzeRequest = z.infer<typeof batchAnalyzeRequestSchema>;
+
+/**
+ * Check the items of a batch one by one. Invalid items get their error
+ * result; the valid ones are returned with their positions in `items`.
+ */
+export function checkBatchItems(items: BatchAnalyzeRequest['items']): {
+  results: BatchItemResult[];
+  valid: BatchItemRequest[];
+  indexes: number[];
+} {
+  const results: BatchItemResult[] = new Array(items.length);
+  const valid: BatchItemRequest[] = [];
+  const indexes: number[] = [];
+
+  items.forEach((item, index) => {
+    const parsed = batchItemSchema.safeParse(item);
+    if (parsed.success) {
+      valid.push(parsed.data);
+      indexes.push(index);
+    } else {
+      results[index] = {
+        id: item.id,
+        error: 'Validation failed',
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      };
+    }
+  });
+
+  return { results, valid, indexes };
+}
+
+// Hosts a job's callback URL may point to: the API only calls back locally
+const CALLBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const callbackUrlSchema = z
+  .url({ protocol: /^https?$/, error: 'Callback URL must be an http(s) URL' })
+  .max(2000, 'Callback URL cannot exceed 2000 characters')
+  .refine(
+    (url) => CALLBACK_HOSTS.includes(new URL(url).hostname),
+    'Callback URL must point to localhost'
+  );
+
+// POST /api/v1/jobs request body: the kind of analysis and the body its
+// endpoint takes (an analyze request cannot have a baseline)
+export const jobRequestSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('analyze'),
+    request: analyzeRequestSchema.omit({ baseline: true }),
+    callbackUrl: callbackUrlSchema.optional(),
+  }),
+  z.object({
+    kind: z.literal('project'),
+    request: projectAnalyzeRequestSchema,
+    callbackUrl: callbackUrlSchema.optional(),
+  }),
+  z.object({
+    kind: z.literal('batch'),
+    request: batchAnalyzeRequestSchema,
+    callbackUrl: callbackUrlSchema.optional(),
+  }),
+]);
+
+export type JobRequest = z.infer<typeof jobRequestSchema>;
+
+// /api/v1/jobs/:id params
+export const jobParamsSchema = z.object({
+  id: z
+    .string()
+    .max(50, 'Invalid job ID')
+    .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid job ID format'),
+});
+
+// 1-based line/column position in a session's text
+export const textPositionSchema = z.object({
+  line: z.number().int().min(1),
+  column: z.number().int().min(1),
+});
+
+// An editor change: replace the text between start and end
+export const sessionEditSchema = z.object({
+  start: textPositionSchema,
+  end: textPositionSchema,
+  text: z
+    .string()
+    .max(config.api.maxCodeSize, `Text cannot exceed ${config.api.maxCodeSize} characters`),
+});
+
+// POST /api/v1/sessions/:id/edits request body; edits are applied in order
+export const sessionEditsRequestSchema = z.object({
+  edits: z.array(sessionEditSchema).min(1, 'edits must contain at least one edit'),
+});
+
+export type SessionEditsRequest = z.infer<typeof sessionEditsRequestSchema>;
+
+// POST /api/v1/sessions request body: the analyze request without the fields
+// sessions do not support, which are rejected rather than ignored
+export const sessionRequestSchema = analyzeRequestSchema
+  .omit({ positionEncoding: true, typeCheck: true, baseline: true })
+  .strict();
+
+export type SessionRequest = z.infer<typeof sessionRequestSchema>;
+
+// /api/v1/sessions/:id params
+export const sessionParamsSchema = z.object({
+  id: z
+    .string()
+    .max(50, 'Invalid session ID')
+    .regex(/^[a-zA-Z0-9_-]+$/, 'Invalid session ID format'),
+});
+
 // POST /api/save request body
 export const saveRequestSchema = z.object({
   code: z
@@ -125,23 +588,65 @@ export function validate<T extends z.ZodSchema>(
 
 // Convenience validators
 export const validateAnalyzeRequest = validate(analyzeRequestSchema, 'body');
+export const validateFixRequest = validate(fixRequestSchema, 'body');
+export const validateProjectAnalyzeRequest = validate(projectAnalyzeRequestSchema, 'body');
+export const validateBatchAnalyzeRequest = validate(batchAnalyzeRequestSchema, 'body');
+export const validateJobRequest = validate(jobRequestSchema, 'body');
+export const validateJobParams = validate(jobParamsSchema, 'params');
 export const validateSaveRequest = validate(saveRequestSchema, 'body');
+export const validateSessionRequest = validate(sessionRequestSchema, 'body');
+export const validateSessionEditsRequest = validate(sessionEditsRequestSchema, 'body');
+export const validateSessionParams = validate(sessionParamsSchema, 'params');
 export const validateSnippetParams = validate(snippetParamsSchema, 'params');
 
 export default {
   validate,
   validateAnalyzeRequest,
+  validateFixRequest,
+  validateProjectAnalyzeRequest,
+  validateBatchAnalyzeRequest,
+  validateJobRequest,
+  validateJobParams,
   validateSaveRequest,
   validateSnippetParams,
+  validateSessionRequest,
+  validateSessionEditsRequest,
+  validateSessionParams,
   schemas: {
     analyzeRequestSchema,
+    fixRequestSchema,
+    projectAnalyzeRequestSchema,
+    batchItemSchema,
+    batchAnalyzeRequestSchema,
+    jobRequestSchema,
+    jobParamsSchema,
     saveRequestSchema,
     snippetParamsSchema,
+    sessionRequestSchema,
+    sessionEditsRequestSchema,
+    sessionParamsSchema,
     languageSchema,
     severitySchema,
     certaintySchema,
     scopeSchema,
+    categorySchema,
+    positionEncodingSchema,
+    autofixSchema,
+    relatedLocationSchema,
     mistakeSchema,
+    suppressedMistakeSchema,
+    analysisDiagnosticsSchema,
+    scoreBreakdownSchema,
+    baselineEntrySchema,
+    baselineComparisonSchema,
+    baselineFileSchema,
     analysisResultsSchema,
+    ruleNameSchema,
+    ruleSettingsSchema,
+    ruleConfigSchema,
+    scoringConfigSchema,
+    analysisConfigSchema,
+    queryRuleSchema,
+    queryRuleFileSchema,
   },
 };
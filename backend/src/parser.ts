@@ -1,6 +1,7 @@
 import Parser from 'web-tree-sitter';
-import { Language } from './types';
+import { Language, PositionEncoding, RelatedLocation, SourceRange, TextEdit } from './types';
 import * as path from 'path';
+import { logger } from './lib/logger';
 
 // Store initialized parser and languages
 let parserInitialized = false;
@@ -8,6 +9,18 @@ let jsLanguage: Parser.Language | null = null;
 let tsLanguage: Parser.Language | null = null;
 let pyLanguage: Parser.Language | null = null;
 
+// File extensions recognised for each supported language
+const LANGUAGE_EXTENSIONS: Record<string, Language> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.py': 'python',
+};
+
 // WASM file paths - bundled with tree-sitter-wasms package
 const WASM_DIR = path.join(__dirname, '..', 'node_modules', 'tree-sitter-wasms', 'out');
 
@@ -34,42 +47,84 @@ export async function initParser(): Promise<void> {
   pyLanguage = await Parser.Language.load(getWasmPath('python'));
   
   parserInitialized = true;
-  console.log('Parser initialized with all language grammars');
+  logger.debug('Parser initialized with all language grammars');
 }
 
 /**
- * Get a parser configured for a specific language
+ * Get the loaded grammar for a language (e.g. to compile tree-sitter queries)
  */
-export function getParser(language: Language): Parser {
+export function getLanguage(language: Language): Parser.Language {
   if (!parserInitialized) {
     throw new Error('Parser not initialized. Call initParser() first.');
   }
-  
-  const parser = new Parser();
-  
+
   switch (language) {
     case 'javascript':
-      parser.setLanguage(jsLanguage!);
-      break;
+      return jsLanguage!;
     case 'typescript':
-      parser.setLanguage(tsLanguage!);
-      break;
+      return tsLanguage!;
     case 'python':
-      parser.setLanguage(pyLanguage!);
-      break;
+      return pyLanguage!;
     default:
       throw new Error(`Unsupported language: ${language}`);
   }
-  
+}
+
+/**
+ * Get a new parser configured for a specific language. The caller owns it
+ * and should delete() it when done; parseCode() uses the shared pool instead.
+ */
+export function getParser(language: Language): Parser {
+  const parser = new Parser();
+  parser.setLanguage(getLanguage(language));
   return parser;
 }
 
+// Idle parsers per language, reused instead of building one per parse
+const MAX_IDLE_PARSERS = 4;
+const parserPool: Record<Language, Parser[]> = {
+  javascript: [],
+  typescript: [],
+  python: [],
+};
+
+/**
+ * Take a parser for a language from the pool. Return it with releaseParser().
+ */
+export function acquireParser(language: Language): Parser {
+  return parserPool[language].pop() || getParser(language);
+}
+
+/**
+ * Return a parser obtained from acquireParser() to the pool
+ */
+export function releaseParser(language: Language, parser: Parser): void {
+  const idle = parserPool[language];
+  if (idle.length < MAX_IDLE_PARSERS) {
+    parser.reset();
+    idle.push(parser);
+  } else {
+    parser.delete();
+  }
+}
+
+/**
+ * Infer the analysis language from a file path's extension
+ */
+export function getLanguageForPath(filePath: string): Language | null {
+  return LANGUAGE_EXTENSIONS[path.extname(filePath).toLowerCase()] || null;
+}
+
 /**
  * Parse code and return the syntax tree
  */
 export function parseCode(code: string, language: Language): Parser.Tree {
-  const parser = getParser(language);
-  return parser.parse(code);
+  const parser = acquireParser(language);
+  try {
+    return parser.parse(code);
+  } finally {
+    releaseParser(language, parser);
+  }
 }
 
 /**
@@ -80,18 +135,28 @@ export function getNodeText(node: Parser.SyntaxNode, code: string): string {
 }
 
 /**
- * Walk the tree and call visitor for each node
+ * Walk the tree and call visitor for each node (pre-order). Iterative, so
+ * deeply nested code cannot overflow the stack.
  */
 export function walkTree(
   node: Parser.SyntaxNode,
   visitor: (node: Parser.SyntaxNode) => void
 ): void {
+  // The root is passed as given so callers can compare it by identity
   visitor(node);
-  for (let i = 0; i < node.childCount; i++) {
-    const child = node.child(i);
-    if (child) {
-      walkTree(child, visitor);
+
+  const cursor = node.walk();
+  try {
+    if (!cursor.gotoFirstChild()) return;
+    for (;;) {
+      visitor(cursor.currentNode);
+      if (cursor.gotoFirstChild()) continue;
+      while (!cursor.gotoNextSibling()) {
+        if (!cursor.gotoParent()) return;
+      }
     }
+  } finally {
+    cursor.delete();
   }
 }
 
@@ -235,6 +300,9 @@ export function getFunctionName(node: Parser.SyntaxNode, code: string): string |
 
 /**
  * Get all variable declarations in a scope
+ *
+ * @deprecated Text-based and JS-only; use analyzeScopes() from
+ * analysis/scopes (or `context.scopes` in a detector) to resolve names.
  */
 export function getVariableDeclarations(
   root: Parser.SyntaxNode,
@@ -304,11 +372,125 @@ export function getLineNumber(node: Parser.SyntaxNode): number {
 }
 
 /**
- * Get column number (1-indexed)
+ * Get column number (1-indexed, in UTF-16 code units: web-tree-sitter parses
+ * JavaScript strings, so its columns index them like `startIndex` does)
  */
 export function getColumnNumber(node: Parser.SyntaxNode): number {
   return node.startPosition.column + 1;
 }
 
+/**
+ * Get the range of a node (1-indexed, end exclusive) with its source offsets
+ */
+export function getNodeRange(node: Parser.SyntaxNode): SourceRange {
+  return {
+    line: getLineNumber(node),
+    column: getColumnNumber(node),
+    endLine: node.endPosition.row + 1,
+    endColumn: node.endPosition.column + 1,
+    startOffset: node.startIndex,
+    endOffset: node.endIndex,
+  };
+}
+
+// A range whose end and offsets may be missing, e.g. from a plugin
+type PartialRange = Pick<SourceRange, 'line' | 'column'> & Partial<SourceRange>;
+
+/**
+ * Converts the UTF-16 columns of detector results into the position encoding
+ * of a response. Tree-sitter only breaks lines at `\n`, so with CRLF line
+ * endings some nodes (e.g. line comments) end after the `\r`; their ranges
+ * are ended before it, as editors do.
+ */
+export class PositionConverter {
+  // Offset of the first character of each line
+  private lineStarts = [0];
+
+  constructor(
+    private readonly code: string,
+    readonly encoding: PositionEncoding = 'utf-16'
+  ) {
+    for (let i = code.indexOf('\n'); i !== -1; i = code.indexOf('\n', i + 1)) {
+      this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * Column in this encoding of a 1-indexed UTF-16 column
+   */
+  column(line: number, column: number): number {
+    const lineStart = this.lineStarts[line - 1];
+    if (this.encoding === 'utf-16' || lineStart === undefined) {
+      return column;
+    }
+
+    const prefix = this.code.slice(lineStart, lineStart + column - 1);
+    const units =
+      this.encoding === 'utf-8' ? Buffer.byteLength(prefix, 'utf8') : [...prefix].length;
+    return units + 1;
+  }
+
+  /**
+   * Convert the columns of a range; offsets stay UTF-16 code units
+   */
+  range<T extends PartialRange>(range: T): T {
+    let { endColumn, endOffset } = range;
+    if (range.endLine !== undefined && endColumn !== undefined) {
+      if (this.endsBeforeLineFeed(range, range.endLine, endColumn)) {
+        endColumn--;
+        endOffset = endOffset === undefined ? undefined : endOffset - 1;
+      }
+      endColumn = this.column(range.endLine, endColumn);
+    }
+
+    return {
+      ...range,
+      column: this.column(range.line, range.column),
+      endColumn,
+      endOffset,
+    };
+  }
+
+  // Whether a non-empty range ends with the `\r` of a CRLF line break
+  private endsBeforeLineFeed(range: PartialRange, endLine: number, endColumn: number): boolean {
+    const lineStart = this.lineStarts[endLine - 1];
+    if (lineStart === undefined || (endLine === range.line && endColumn <= range.column)) {
+      return false;
+    }
+    const end = lineStart + endColumn - 1;
+    return this.code[end - 1] === '\r' && this.code[end] === '\n';
+  }
+}
+
+/**
+ * Point a finding at another node, e.g. the declaration it depends on;
+ * `file` is the path of the node's file when it is another project file
+ */
+export function getRelatedLocation(
+  node: Parser.SyntaxNode,
+  message: string,
+  file?: string
+): RelatedLocation {
+  const location: RelatedLocation = { ...getNodeRange(node), message };
+  if (file !== undefined) {
+    location.file = file;
+  }
+  return location;
+}
+
+/**
+ * Create an edit that replaces a node's text
+ */
+export function replaceNode(node: Parser.SyntaxNode, text: string): TextEdit {
+  return { start: node.startIndex, end: node.endIndex, text };
+}
+
+/**
+ * Create an edit that inserts text before a node
+ */
+export function insertBefore(node: Parser.SyntaxNode, text: string): TextEdit {
+  return { start: node.startIndex, end: node.startIndex, text };
+}
+
 // Export Parser type for use in detectors
 export { Parser };
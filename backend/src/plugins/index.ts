@@ -0,0 +1,8 @@
+export {
+  PluginError,
+  SUPPORTED_PLUGIN_API_VERSIONS,
+  loadPlugins,
+  registerPlugin,
+  validatePlugin,
+} from './loader';
+export type { LoadedPlugin, PluginFailure, PluginLoadResult, PluginSources } from './loader';
@@ -0,0 +1,282 @@
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { Category, Detector, Language, RookiePlugin } from '../types';
+import { getDetectorByName, registerDetector } from '../detectors';
+import { registerTemplate } from '../explainers';
+import { CATEGORIES } from '../engine/scoring';
+
+/**
+ * Plugin loading
+ *
+ * A plugin is a CommonJS module whose export (or default export) is a
+ * RookiePlugin:
+ *
+ *   module.exports = {
+ *     name: 'acme-rules',
+ *     apiVersion: 1,
+ *     detectors: [noRawSql],
+ *     templates: { no_raw_sql: { explanation: '...', fix: '...' } },
+ *   };
+ *
+ * Plugins are loaded from a directory (every *.js/*.cjs file or package
+ * directory in it) and from package names. Each plugin is loaded in
+ * isolation: one that throws, targets another plugin API version or reuses a
+ * detector name is reported in the result and nothing of it is registered.
+ */
+
+// Plugin API versions this release can load
+export const SUPPORTED_PLUGIN_API_VERSIONS = [1];
+
+const LANGUAGES: Language[] = ['javascript', 'typescript', 'python'];
+
+const DETECTOR_NAME = /^[a-z][a-z0-9_]*$/;
+
+// Thrown when a plugin cannot be loaded or registered
+export class PluginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PluginError';
+  }
+}
+
+export interface LoadedPlugin {
+  name: string;
+  version?: string;
+  // File path or package name the plugin was loaded from
+  source: string;
+  detectors: string[];
+}
+
+export interface PluginFailure {
+  source: string;
+  error: string;
+}
+
+export interface PluginLoadResult {
+  loaded: LoadedPlugin[];
+  failed: PluginFailure[];
+}
+
+export interface PluginSources {
+  // Directory of plugin modules
+  dir?: string;
+  // Package names, resolved from `cwd`
+  packages?: string[];
+  cwd?: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function validateDetector(detector: unknown, plugin: string): Detector {
+  if (!isObject(detector) || typeof detector.name !== 'string') {
+    throw new PluginError(`Plugin '${plugin}' exports a detector without a name`);
+  }
+
+  const name = detector.name;
+  if (!DETECTOR_NAME.test(name)) {
+    throw new PluginError(`Plugin '${plugin}': detector name '${name}' must be lower_snake_case`);
+  }
+  if (typeof detector.detect !== 'function') {
+    throw new PluginError(`Plugin '${plugin}': detector '${name}' has no detect() function`);
+  }
+
+  const languages = detector.supportedLanguages;
+  if (
+    !Array.isArray(languages) ||
+    languages.length === 0 ||
+    languages.some((language) => !LANGUAGES.includes(language))
+  ) {
+    throw new PluginError(
+      `Plugin '${plugin}': detector '${name}' must list supportedLanguages from ${LANGUAGES.join(', ')}`
+    );
+  }
+
+  if (detector.category !== undefined && !CATEGORIES.includes(detector.category as Category)) {
+    throw new PluginError(
+      `Plugin '${plugin}': detector '${name}' has category '${String(detector.category)}'; use one of ${CATEGORIES.join(', ')}`
+    );
+  }
+
+  return detector as unknown as Detector;
+}
+
+function validateTemplates(
+  templates: unknown,
+  detectorNames: Set<string>,
+  plugin: string
+): NonNullable<RookiePlugin['templates']> {
+  if (templates === undefined) {
+    return {};
+  }
+  if (!isObject(templates)) {
+    throw new PluginError(`Plugin '${plugin}': templates must be an object`);
+  }
+
+  for (const [name, template] of Object.entries(templates)) {
+    if (!detectorNames.has(name)) {
+      throw new PluginError(
+        `Plugin '${plugin}': template '${name}' does not belong to one of its detectors`
+      );
+    }
+    if (
+      !isObject(template) ||
+      typeof template.explanation !== 'string' ||
+      typeof template.fix !== 'string' ||
+      (template.codeExample !== undefined && typeof template.codeExample !== 'string')
+    ) {
+      throw new PluginError(
+        `Plugin '${plugin}': template '${name}' needs string explanation and fix fields`
+      );
+    }
+
+    for (const field of ['explanation', 'fix', 'codeExample'] as const) {
+      const text = template[field];
+      if (typeof text !== 'string') continue;
+      try {
+        Handlebars.parse(text);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        throw new PluginError(
+          `Plugin '${plugin}': invalid ${field} template for '${name}': ${reason}`
+        );
+      }
+    }
+  }
+
+  return templates as NonNullable<RookiePlugin['templates']>;
+}
+
+/**
+ * Check a module export against the plugin API, throwing a PluginError if
+ * it is not a loadable plugin
+ */
+export function validatePlugin(exported: unknown): RookiePlugin {
+  const candidate = isObject(exported) && isObject(exported.default) ? exported.default : exported;
+
+  if (!isObject(candidate) || typeof candidate.name !== 'string' || !candidate.name) {
+    throw new PluginError('Module does not export a plugin with a name');
+  }
+
+  const name = candidate.name;
+  if (!SUPPORTED_PLUGIN_API_VERSIONS.includes(candidate.apiVersion as number)) {
+    throw new PluginError(
+      `Plugin '${name}' targets plugin API version ${String(candidate.apiVersion)}; ` +
+        `supported: ${SUPPORTED_PLUGIN_API_VERSIONS.join(', ')}`
+    );
+  }
+
+  if (!Array.isArray(candidate.detectors) || candidate.detectors.length === 0) {
+    throw new PluginError(`Plugin '${name}' exports no detectors`);
+  }
+
+  const detectors = candidate.detectors.map((detector) => validateDetector(detector, name));
+  const detectorNames = new Set(detectors.map((detector) => detector.name));
+  const templates = validateTemplates(candidate.templates, detectorNames, name);
+
+  return {
+    name,
+    version: typeof candidate.version === 'string' ? candidate.version : undefined,
+    apiVersion: candidate.apiVersion as number,
+    detectors,
+    templates,
+  };
+}
+
+/**
+ * Register a plugin's detectors and templates. Nothing is registered if one
+ * of its detector names is already taken.
+ */
+export function registerPlugin(plugin: RookiePlugin): void {
+  const seen = new Set<string>();
+  for (const detector of plugin.detectors) {
+    if (seen.has(detector.name)) {
+      throw new PluginError(
+        `Plugin '${plugin.name}' defines detector '${detector.name}' more than once`
+      );
+    }
+    if (getDetectorByName(detector.name)) {
+      throw new PluginError(
+        `Plugin '${plugin.name}': detector '${detector.name}' conflicts with an existing detector`
+      );
+    }
+    seen.add(detector.name);
+  }
+
+  for (const detector of plugin.detectors) {
+    registerDetector(detector);
+  }
+  for (const [name, template] of Object.entries(plugin.templates || {})) {
+    registerTemplate(name, template);
+  }
+}
+
+// Plugin modules in a directory, in file name order
+function listPluginModules(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter(
+      (entry) =>
+        entry.isDirectory() ||
+        (entry.isFile() && (entry.name.endsWith('.js') || entry.name.endsWith('.cjs')))
+    )
+    .map((entry) => path.join(dir, entry.name))
+    .sort();
+}
+
+function loadPlugin(modulePath: string, source: string): LoadedPlugin {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const plugin = validatePlugin(require(modulePath));
+  registerPlugin(plugin);
+
+  return {
+    name: plugin.name,
+    version: plugin.version,
+    source,
+    detectors: plugin.detectors.map((detector) => detector.name),
+  };
+}
+
+/**
+ * Load and register plugins. Never throws: plugins that fail are listed in
+ * the result's `failed` entries.
+ */
+export function loadPlugins(sources: PluginSources): PluginLoadResult {
+  const result: PluginLoadResult = { loaded: [], failed: [] };
+  const cwd = sources.cwd || process.cwd();
+
+  const attempt = (source: string, resolve: () => string) => {
+    try {
+      result.loaded.push(loadPlugin(resolve(), source));
+    } catch (error) {
+      result.failed.push({
+        source,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  if (sources.dir) {
+    const dir = path.resolve(cwd, sources.dir);
+    let modules: string[] = [];
+    try {
+      modules = listPluginModules(dir);
+    } catch (error) {
+      result.failed.push({
+        source: dir,
+        error: `Cannot read plugin directory: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+    for (const modulePath of modules) {
+      attempt(modulePath, () => modulePath);
+    }
+  }
+
+  for (const packageName of sources.packages || []) {
+    attempt(packageName, () => require.resolve(packageName, { paths: [cwd] }));
+  }
+
+  return result;
+}
@@ -1,8 +1,6 @@
 import { Router, Request, Response } from 'express';
-import { parseCode } from '../parser';
-import { getDetectorsForLanguage } from '../detectors';
-import { generateExplanation } from '../explainers';
-import { AnalyzeRequest, AnalyzeResponse, Mistake, Language } from '../types';
+import { analysisCache, analysisPool, ParseError } from '../engine';
+import { AnalyzeRequest, AnalyzeResponse, Language } from '../types';
 import { logger, logAnalysis, logError } from '../lib/logger';
 import { recordAnalysisMetric } from '../lib/metrics';
 
@@ -30,7 +28,7 @@ function isValidLanguage(lang: unknown): lang is Language {
  *   score: number
  * }
  */
-router.post('/', (req: Request, res: Response) => {
+router.post('/', async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -61,11 +59,13 @@ router.post('/', (req: Request, res: Response) => {
 
     logger.debug('Starting analysis', { language, codeLength: code.length });
 
-    // Parse the code
-    let tree;
+    let result;
     try {
-      tree = parseCode(code, language);
+      result = await analysisPool.analyze(code, language, { cache: analysisCache });
     } catch (parseError) {
+      if (!(parseError instanceof ParseError)) {
+        throw parseError;
+      }
       logger.warn('Code parsing failed', { language, error: String(parseError) });
       return res.status(400).json({
         error: 'Failed to parse code. Please check for syntax errors.',
@@ -73,65 +73,12 @@ router.post('/', (req: Request, res: Response) => {
       });
     }
 
-    // Get applicable detectors
-    const applicableDetectors = getDetectorsForLanguage(language);
-
-    // Run all detectors
-    const allMistakes: Mistake[] = [];
-    let mistakeId = 1;
-
-    for (const detector of applicableDetectors) {
-      try {
-        const detectorResults = detector.detect(code, language, tree);
-
-        for (const result of detectorResults) {
-          // Generate explanation from template
-          const { explanation, fix, codeExample } = generateExplanation(result.name, {
-            ...result.ast_facts,
-            language,
-            certainty: result.certainty,
-          });
-
-          allMistakes.push({
-            id: mistakeId++,
-            name: result.name,
-            line: result.line,
-            column: result.column,
-            severity: result.severity,
-            certainty: result.certainty,
-            confidence: result.confidence,
-            scope: result.scope,
-            message: result.message,
-            ast_facts: result.ast_facts,
-            explanation,
-            fix,
-            codeExample,
-          });
-        }
-      } catch (detectorError) {
-        // Log but don't fail the entire analysis
-        logError(detectorError instanceof Error ? detectorError : new Error(String(detectorError)), {
-          detector: detector.name,
-          language,
-        });
-      }
-    }
-
-    // Sort mistakes by line number
-    allMistakes.sort((a, b) => a.line - b.line || a.column - b.column);
-
-    // Calculate score: max(0, 10 - number of mistakes)
-    const score = Math.max(0, 10 - allMistakes.length);
-
-    const response: AnalyzeResponse = {
-      mistakes: allMistakes,
-      score,
-    };
+    const response: AnalyzeResponse = result.response;
 
     // Log analysis completion
     const duration = Date.now() - startTime;
-    logAnalysis(language, code.length, allMistakes.length, duration);
-    recordAnalysisMetric(language, allMistakes.length, duration);
+    logAnalysis(language, code.length, response.mistakes.length, duration);
+    recordAnalysisMetric(language, response.mistakes.length, duration);
 
     return res.json(response);
   } catch (error) {
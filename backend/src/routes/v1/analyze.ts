@@ -1,104 +1,272 @@
 import { Router, Request, Response } from 'express';
-import { parseCode } from '../../parser';
-import { getDetectorsForLanguage } from '../../detectors';
-import { generateExplanation } from '../../explainers';
-import { Mistake, Language } from '../../types';
-import { validateAnalyzeRequest, AnalyzeRequest } from '../../middleware/validation';
-import { asyncHandler, BadRequestError } from '../../middleware/errorHandler';
+import {
+  analysisCache,
+  analysisPool,
+  analyzeBatch,
+  applyBaseline,
+  createBaseline,
+  ParseError,
+  ProjectAnalysisResult,
+  ProjectError,
+  summarizeBatch,
+} from '../../engine';
+import { getSnippet } from '../../db';
+import { AnalysisEvent, BaselineEntry, BatchAnalyzeResponse, Language } from '../../types';
+import {
+  checkBatchItems,
+  validateAnalyzeRequest,
+  validateBatchAnalyzeRequest,
+  validateProjectAnalyzeRequest,
+  AnalyzeRequest,
+  BatchAnalyzeRequest,
+  ProjectAnalyzeRequest,
+} from '../../middleware/validation';
+import { asyncHandler, BadRequestError, NotFoundError } from '../../middleware/errorHandler';
 import { analyzeLimiter } from '../../middleware/rateLimit';
 import { logger, logAnalysis } from '../../lib/logger';
 import { recordAnalysisMetric } from '../../lib/metrics';
+import { EventStream, streamFormat } from '../../lib/stream';
 
 const router = Router();
 
+// onProgress of a streamed analysis: writes the events, leaving out findings
+// in the baseline so that `findings` counts only the ones sent
+function streamProgress(
+  stream: EventStream,
+  baseline: BaselineEntry[] | undefined
+): (event: AnalysisEvent) => void {
+  const known = new Set(baseline?.map((entry) => entry.fingerprint));
+  const sent = new Map<string, number>();
+
+  return (event) => {
+    if (event.type === 'finding') {
+      if (event.mistake.fingerprint !== undefined && known.has(event.mistake.fingerprint)) {
+        return;
+      }
+      sent.set(event.detector, (sent.get(event.detector) ?? 0) + 1);
+    } else if (event.type === 'detector-done' && baseline) {
+      event = { ...event, findings: sent.get(event.detector) ?? 0 };
+    }
+    const { type, ...data } = event;
+    stream.send(type, data);
+  };
+}
+
+// Entries of the request's baseline; a snippet's are its saved findings
+function resolveBaseline(baseline: AnalyzeRequest['baseline']): BaselineEntry[] | undefined {
+  if (!baseline) {
+    return undefined;
+  }
+  if ('entries' in baseline) {
+    return baseline.entries;
+  }
+
+  const snippet = getSnippet(baseline.snippetId);
+  if (!snippet) {
+    throw new NotFoundError('Baseline snippet not found');
+  }
+  return createBaseline(snippet.results.mistakes);
+}
+
 /**
  * POST /api/v1/analyze
  *
  * Analyzes code for common mistakes using AST-based detection.
+ * The optional `options` field accepts the same schema as .rookierc.json;
+ * `include`/`exclude`, `minConfidence` and `minSeverity` narrow the findings,
+ * and `positionEncoding` sets the unit of the columns (UTF-16 by default).
+ * `typeCheck` runs the TypeScript compiler on TypeScript code so detectors
+ * can use its types (see analysis/typecheck).
+ * Runs on the analysis worker pool; detectors that exceed its time limit are
+ * dropped and the response is marked `partial` (see engine/pool). With a
+ * `baseline`, findings in it are left out and fixed entries are listed (see
+ * engine/baseline).
+ *
+ * With `Accept: text/event-stream` or `application/x-ndjson`, the analysis
+ * is streamed (see lib/stream): `detector-start`, `finding` and
+ * `detector-done` events as each detector starts and finishes (see
+ * AnalysisEvent), then a `summary` event with the full response. Errors
+ * before the first event are ordinary error responses; later ones end the
+ * stream with an `error` event.
  */
 router.post(
   '/',
   analyzeLimiter,
   validateAnalyzeRequest,
   asyncHandler(async (req: Request, res: Response) => {
-    const startTime = Date.now();
-    const { code, language } = req.body as AnalyzeRequest;
+    const {
+      code,
+      language,
+      options,
+      include,
+      exclude,
+      minConfidence,
+      minSeverity,
+      positionEncoding,
+      typeCheck,
+      baseline,
+    } = req.body as AnalyzeRequest;
+    const baselineEntries = resolveBaseline(baseline);
+    const format = streamFormat(req);
+    const stream = format ? new EventStream(res, format) : undefined;
 
     logger.info('Starting code analysis', {
       language,
       codeLength: code.length,
+      stream: format,
     });
 
-    // Parse the code
-    let tree;
+    let result;
     try {
-      tree = parseCode(code, language as Language);
-    } catch (parseError) {
-      logger.warn('Code parsing failed', {
-        language,
-        error: parseError instanceof Error ? parseError.message : 'Unknown error',
+      result = await analysisPool.analyze(code, language as Language, {
+        config: options,
+        include,
+        exclude,
+        minConfidence,
+        minSeverity,
+        positionEncoding,
+        typeCheck,
+        cache: analysisCache,
+        onProgress: stream && streamProgress(stream, baselineEntries),
       });
-      throw new BadRequestError('Failed to parse code. Please check for syntax errors.');
+    } catch (error) {
+      if (stream?.started) {
+        logger.error('Streamed analysis failed', {
+          language,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        stream.send('error', { error: 'Analysis failed' });
+        return stream.end();
+      }
+      if (error instanceof ParseError) {
+        logger.warn('Code parsing failed', { language, error: error.message });
+        throw new BadRequestError('Failed to parse code. Please check for syntax errors.');
+      }
+      throw error;
     }
 
-    // Get applicable detectors
-    const applicableDetectors = getDetectorsForLanguage(language as Language);
-
-    // Run all detectors
-    const allMistakes: Mistake[] = [];
-    let mistakeId = 1;
-
-    for (const detector of applicableDetectors) {
-      try {
-        const detectorResults = detector.detect(code, language as Language, tree);
-
-        for (const result of detectorResults) {
-          // Generate explanation from template
-          const { explanation, fix, codeExample } = generateExplanation(result.name, {
-            ...result.ast_facts,
-            language,
-            certainty: result.certainty,
-          });
-
-          allMistakes.push({
-            id: mistakeId++,
-            name: result.name,
-            line: result.line,
-            column: result.column,
-            severity: result.severity,
-            certainty: result.certainty,
-            confidence: result.confidence,
-            scope: result.scope,
-            message: result.message,
-            ast_facts: result.ast_facts,
-            explanation,
-            fix,
-            codeExample,
-          });
-        }
-      } catch (detectorError) {
-        // Log but don't fail the entire analysis
-        logger.error('Detector failed', {
-          detector: detector.name,
-          error: detectorError instanceof Error ? detectorError.message : 'Unknown error',
-        });
+    const { metadata } = result;
+    const response = baselineEntries
+      ? applyBaseline(result.response, baselineEntries, options?.scoring)
+      : result.response;
+    logAnalysis(language, code.length, response.mistakes.length, metadata.durationMs);
+    recordAnalysisMetric(language, response.mistakes.length, metadata.durationMs);
+
+    if (stream) {
+      stream.send('summary', response);
+      return stream.end();
+    }
+    return res.json(response);
+  })
+);
+
+/**
+ * POST /api/v1/analyze/project
+ *
+ * Analyzes several files together so detectors can follow imports between
+ * them (see engine/project). `files` maps paths to contents, and each file's
+ * language is inferred from its extension. Accepts the analyze options except
+ * `baseline` and `typeCheck`; the findings are grouped by path. Runs as one
+ * job on the analysis worker pool, whose time and memory limits cover the
+ * whole project (see engine/pool).
+ */
+router.post(
+  '/project',
+  analyzeLimiter,
+  validateProjectAnalyzeRequest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { files, options, include, exclude, minConfidence, minSeverity, positionEncoding } =
+      req.body as ProjectAnalyzeRequest;
+
+    logger.info('Starting project analysis', { files: Object.keys(files).length });
+
+    let result: ProjectAnalysisResult;
+    try {
+      result = await analysisPool.analyzeProject(files, {
+        config: options,
+        include,
+        exclude,
+        minConfidence,
+        minSeverity,
+        positionEncoding,
+      });
+    } catch (error) {
+      if (error instanceof ProjectError) {
+        throw new BadRequestError(error.message);
+      }
+      if (error instanceof ParseError) {
+        logger.warn('Code parsing failed', { error: error.message });
+        throw new BadRequestError('Failed to parse code. Please check for syntax errors.');
       }
+      throw error;
     }
 
-    // Sort mistakes by line number
-    allMistakes.sort((a, b) => a.line - b.line || a.column - b.column);
+    for (const [filePath, metadata] of Object.entries(result.metadata)) {
+      const { mistakes } = result.response.files[filePath];
+      logAnalysis(metadata.language, files[filePath].length, mistakes.length, metadata.durationMs);
+      recordAnalysisMetric(metadata.language, mistakes.length, metadata.durationMs);
+    }
+
+    return res.json(result.response);
+  })
+);
+
+/**
+ * POST /api/v1/analyze/batch
+ *
+ * Analyzes many independent files in one request, which counts once against
+ * the analyze rate limit. `items` lists `{ id, code, language }` objects
+ * within a total size budget; the other fields are the analyze options
+ * (without `baseline`) and apply to every item. Items run concurrently on
+ * the worker pool (see engine/batch). Results keep the order of the items;
+ * an item that is invalid or cannot be parsed gets an `error` instead of
+ * failing the batch.
+ */
+router.post(
+  '/batch',
+  analyzeLimiter,
+  validateBatchAnalyzeRequest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      items,
+      options,
+      include,
+      exclude,
+      minConfidence,
+      minSeverity,
+      positionEncoding,
+      typeCheck,
+    } = req.body as BatchAnalyzeRequest;
 
-    // Calculate score: max(0, 10 - number of mistakes)
-    const score = Math.max(0, 10 - allMistakes.length);
+    logger.info('Starting batch analysis', { items: items.length });
 
-    const duration = Date.now() - startTime;
-    logAnalysis(language, code.length, allMistakes.length, duration);
-    recordAnalysisMetric(language as string, allMistakes.length, duration);
+    // Invalid items get their result now; the others are analyzed
+    const { results, valid, indexes } = checkBatchItems(items);
 
-    return res.json({
-      mistakes: allMistakes,
-      score,
+    const batch = await analyzeBatch(analysisPool, valid, {
+      config: options,
+      include,
+      exclude,
+      minConfidence,
+      minSeverity,
+      positionEncoding,
+      typeCheck,
+      cache: analysisCache,
     });
+
+    batch.results.forEach((result, position) => {
+      results[indexes[position]] = result;
+      const metadata = batch.metadata[position];
+      if (metadata && 'mistakes' in result) {
+        const { code, language } = valid[position];
+        logAnalysis(language, code.length, result.mistakes.length, metadata.durationMs);
+        recordAnalysisMetric(language, result.mistakes.length, metadata.durationMs);
+      }
+    });
+
+    const response: BatchAnalyzeResponse = { results, summary: summarizeBatch(results) };
+
+    return res.json(response);
   })
 );
 
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from 'express';
+import { analysisPool, fixCode, FixResult, InvalidFixError, ParseError } from '../../engine';
+import { Language } from '../../types';
+import { validateFixRequest, FixRequest } from '../../middleware/validation';
+import {
+  asyncHandler,
+  BadRequestError,
+  UnprocessableEntityError,
+} from '../../middleware/errorHandler';
+import { analyzeLimiter } from '../../middleware/rateLimit';
+import { logger } from '../../lib/logger';
+
+const router = Router();
+
+/**
+ * POST /api/v1/fix
+ *
+ * Analyzes code on the worker pool, applies the selected autofixes (by mistake
+ * id or rule) and returns the patched code with a unified diff. The patched
+ * code is re-parsed; fixes that would introduce syntax errors are rejected
+ * with a 422.
+ */
+router.post(
+  '/',
+  analyzeLimiter,
+  validateFixRequest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      code,
+      language,
+      options,
+      include,
+      exclude,
+      minConfidence,
+      minSeverity,
+      typeCheck,
+      ids,
+      rules,
+    } = req.body as FixRequest;
+
+    let result: FixResult;
+    try {
+      result = await fixCode(analysisPool, code, language as Language, {
+        config: options,
+        include,
+        exclude,
+        minConfidence,
+        minSeverity,
+        typeCheck,
+        ids,
+        rules,
+      });
+    } catch (error) {
+      if (error instanceof ParseError) {
+        logger.warn('Code parsing failed', { language, error: error.message });
+        throw new BadRequestError('Failed to parse code. Please check for syntax errors.');
+      }
+      if (error instanceof InvalidFixError) {
+        logger.warn('Autofix verification failed', { language, ids, rules });
+        throw new UnprocessableEntityError(error.message);
+      }
+      throw error;
+    }
+
+    logger.info('Applied autofixes', {
+      language,
+      applied: result.applied.length,
+      skipped: result.skipped.length,
+    });
+
+    return res.json(result);
+  })
+);
+
+export default router;
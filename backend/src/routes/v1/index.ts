@@ -1,12 +1,18 @@
 import { Router } from 'express';
 import analyzeRouter from './analyze';
+import fixRouter from './fix';
 import snippetsRouter from './snippets';
 import metricsRouter from './metrics';
+import sessionsRouter from './sessions';
+import jobsRouter from './jobs';
 
 const router = Router();
 
 // Mount v1 routes
 router.use('/analyze', analyzeRouter);
+router.use('/fix', fixRouter);
+router.use('/sessions', sessionsRouter);
+router.use('/jobs', jobsRouter);
 router.use('/', snippetsRouter);
 router.use('/metrics', metricsRouter);
 
@@ -0,0 +1,95 @@
+import { Router, Request, Response } from 'express';
+import { JobError } from '../../engine';
+import { jobQueue } from '../../jobs';
+import { validateJobParams, validateJobRequest, JobRequest } from '../../middleware/validation';
+import {
+  asyncHandler,
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '../../middleware/errorHandler';
+import { analyzeLimiter } from '../../middleware/rateLimit';
+import { logger } from '../../lib/logger';
+
+const router = Router();
+
+/**
+ * POST /api/v1/jobs
+ *
+ * Queues an analysis and responds at once with the job (202). `kind` is
+ * `analyze`, `project` or `batch`, and `request` is the body the matching
+ * endpoint takes (an analyze request without `baseline`). When the job
+ * finishes, the optional `callbackUrl` (on localhost) is sent the job as a
+ * POST. Responds with 503 when too many jobs are waiting.
+ */
+router.post(
+  '/',
+  analyzeLimiter,
+  validateJobRequest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { kind, request, callbackUrl } = req.body as JobRequest;
+
+    let job;
+    try {
+      job = jobQueue.submit(kind, request, callbackUrl);
+    } catch (error) {
+      if (error instanceof JobError) {
+        throw new ServiceUnavailableError(error.message);
+      }
+      throw error;
+    }
+
+    logger.info('Queued analysis job', { jobId: job.id, kind, callback: !!callbackUrl });
+
+    return res.status(202).location(`${req.baseUrl}/${job.id}`).json(job);
+  })
+);
+
+/**
+ * GET /api/v1/jobs/:id
+ *
+ * The job's status and progress, and its result once completed.
+ */
+router.get(
+  '/:id',
+  validateJobParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = jobQueue.get(req.params.id);
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+
+    return res.json(job);
+  })
+);
+
+/**
+ * DELETE /api/v1/jobs/:id
+ *
+ * Cancels a queued or running job and responds with it. Finished jobs
+ * cannot be cancelled (409).
+ */
+router.delete(
+  '/:id',
+  validateJobParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    let job;
+    try {
+      job = jobQueue.cancel(req.params.id);
+    } catch (error) {
+      if (error instanceof JobError) {
+        throw new ConflictError(error.message);
+      }
+      throw error;
+    }
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+
+    logger.info('Cancelled analysis job', { jobId: job.id });
+
+    return res.json(job);
+  })
+);
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router, Request, Response } from 'express';
+import { ParseError, SessionError, sessionStore } from '../../engine';
+import { Language } from '../../types';
+import {
+  validateSessionEditsRequest,
+  validateSessionParams,
+  validateSessionRequest,
+  SessionEditsRequest,
+  SessionRequest,
+} from '../../middleware/validation';
+import { asyncHandler, BadRequestError, NotFoundError } from '../../middleware/errorHandler';
+import { analyzeLimiter, sessionEditLimiter } from '../../middleware/rateLimit';
+import { logger } from '../../lib/logger';
+
+const router = Router();
+
+// Map engine errors to API errors
+function runSession<T>(action: () => T): T {
+  try {
+    return action();
+  } catch (error) {
+    if (error instanceof ParseError) {
+      logger.warn('Code parsing failed', { error: error.message });
+      throw new BadRequestError('Failed to parse code. Please check for syntax errors.');
+    }
+    if (error instanceof SessionError) {
+      throw new BadRequestError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * POST /api/v1/sessions
+ *
+ * Opens an incremental analysis session for an editor buffer. Accepts the
+ * body of POST /api/v1/analyze without `positionEncoding`, `typeCheck` and
+ * `baseline`; the options apply to every later edit. Responds with the
+ * session id and the analysis of the buffer.
+ */
+router.post(
+  '/',
+  analyzeLimiter,
+  validateSessionRequest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code, language, options, include, exclude, minConfidence, minSeverity } =
+      req.body as SessionRequest;
+
+    const result = runSession(() =>
+      sessionStore.create(code, language as Language, {
+        config: options,
+        include,
+        exclude,
+        minConfidence,
+        minSeverity,
+      })
+    );
+
+    logger.info('Opened analysis session', {
+      sessionId: result.sessionId,
+      language,
+      codeLength: code.length,
+    });
+
+    return res.status(201).json({ sessionId: result.sessionId, ...result.response });
+  })
+);
+
+/**
+ * POST /api/v1/sessions/:id/edits
+ *
+ * Applies editor changes, in order, and responds with the new analysis.
+ * Each edit replaces the text between `start` and `end` (1-based line and
+ * column, as in the editor) with `text`.
+ */
+router.post(
+  '/:id/edits',
+  sessionEditLimiter,
+  validateSessionParams,
+  validateSessionEditsRequest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { edits } = req.body as SessionEditsRequest;
+
+    const result = runSession(() => sessionStore.update(req.params.id, edits));
+    if (!result) {
+      throw new NotFoundError('Session not found or expired');
+    }
+
+    logger.debug('Re-analyzed session', {
+      sessionId: result.sessionId,
+      edits: edits.length,
+      durationMs: result.metadata.durationMs,
+      reusedDetectors: result.metadata.reusedDetectors,
+    });
+
+    return res.json({ sessionId: result.sessionId, ...result.response });
+  })
+);
+
+/**
+ * DELETE /api/v1/sessions/:id
+ *
+ * Closes a session (e.g. when the editor is closed).
+ */
+router.delete(
+  '/:id',
+  validateSessionParams,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!sessionStore.close(req.params.id)) {
+      throw new NotFoundError('Session not found or expired');
+    }
+
+    return res.status(204).end();
+  })
+);
+
+export default router;
@@ -0,0 +1,2 @@
+export { RuleError, createQueryDetector } from './query-detector';
+export { loadRuleFile, loadRuleDirectory, registerQueryRules, loadQueryRules } from './loader';
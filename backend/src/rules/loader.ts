@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { Detector, QueryRule } from '../types';
+import { queryRuleFileSchema, queryRuleSchema } from '../middleware/validation';
+import { getDetectorByName, registerDetector } from '../detectors';
+import { registerTemplate } from '../explainers';
+import { RuleError, checkTemplate, createQueryDetector } from './query-detector';
+
+/**
+ * Query rule loading
+ *
+ * A rule file holds one rule or an array of rules, e.g.
+ *
+ *   {
+ *     "name": "no_alert",
+ *     "languages": ["javascript", "typescript"],
+ *     "query": "(call_expression function: (identifier) @fn (#eq? @fn \"alert\")) @call",
+ *     "capture": "call",
+ *     "message": "Avoid {{fn}}() in production code",
+ *     "severity": "warning",
+ *     "explanation": "{{fn}}() blocks the page until the user dismisses it."
+ *   }
+ *
+ * Loaded rules are registered as detectors, so they can be selected,
+ * configured and suppressed like the built-in ones.
+ */
+
+const DEFAULT_FIX = 'Review the flagged code and update it to follow the rule.';
+
+/**
+ * Read and validate a rule file, throwing a RuleError if invalid
+ */
+export function loadRuleFile(filePath: string): QueryRule[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new RuleError(
+      `Cannot read rule file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // Validate a single rule on its own so its issues keep their field paths
+  const result = Array.isArray(raw)
+    ? queryRuleFileSchema.safeParse(raw)
+    : queryRuleSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    throw new RuleError(`Invalid rule file ${filePath}:\n${problems.join('\n')}`);
+  }
+
+  return Array.isArray(result.data) ? result.data : [result.data];
+}
+
+/**
+ * Read every *.json rule file in a directory, in file name order
+ */
+export function loadRuleDirectory(dir: string): QueryRule[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch (error) {
+    throw new RuleError(
+      `Cannot read rules directory ${dir}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return entries
+    .filter((entry) => entry.endsWith('.json'))
+    .sort()
+    .flatMap((entry) => loadRuleFile(path.join(dir, entry)));
+}
+
+/**
+ * Compile and register rules as detectors. Nothing is registered if any
+ * rule is invalid or its name is already taken.
+ */
+export function registerQueryRules(rules: QueryRule[]): Detector[] {
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (seen.has(rule.name)) {
+      throw new RuleError(`Rule '${rule.name}' is defined more than once`);
+    }
+    if (getDetectorByName(rule.name)) {
+      throw new RuleError(`Rule '${rule.name}' conflicts with an existing detector`);
+    }
+    seen.add(rule.name);
+  }
+
+  const detectors = rules.map((rule) => {
+    checkTemplate(rule, 'explanation', rule.explanation);
+    if (rule.fix) checkTemplate(rule, 'fix', rule.fix);
+    if (rule.codeExample) checkTemplate(rule, 'codeExample', rule.codeExample);
+    return createQueryDetector(rule);
+  });
+
+  rules.forEach((rule, i) => {
+    registerDetector(detectors[i]);
+    registerTemplate(rule.name, {
+      explanation: rule.explanation,
+      fix: rule.fix || DEFAULT_FIX,
+      codeExample: rule.codeExample,
+    });
+  });
+
+  return detectors;
+}
+
+/**
+ * Load and register the rules in a directory
+ */
+export function loadQueryRules(dir: string): Detector[] {
+  return registerQueryRules(loadRuleDirectory(dir));
+}
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import Handlebars from 'handlebars';
+import { Parser, getLanguage, getNodeText, getNodeRange } from '../parser';
+import { AstFacts, Detector, DetectorResult, Language, QueryRule } from '../types';
+
+/**
+ * Query rule detector
+ *
+ * Compiles a declarative QueryRule into a Detector. The rule's tree-sitter
+ * query is compiled once per language; every match is reported at the rule's
+ * `capture` (default: the outermost captured node), with the captured texts
+ * as ast_facts for the message and explanation templates.
+ *
+ * Besides the built-in query predicates (#eq?, #match?, #any-of? and their
+ * negations), rules can use:
+ *   (#inside? @capture node_type...)      the capture has an ancestor of one of the types
+ *   (#not-inside? @capture node_type...)  it has none
+ */
+
+// Thrown when a rule file or rule definition is invalid
+export class RuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleError';
+  }
+}
+
+interface AncestorPredicate {
+  capture: string;
+  types: string[];
+  negated: boolean;
+}
+
+interface CompiledQuery {
+  query: Parser.Query;
+  // Custom predicates by pattern index
+  predicates: AncestorPredicate[][];
+}
+
+// Predicate operand as returned by web-tree-sitter
+interface PredicateOperand {
+  type: string;
+  name?: string;
+  value?: string;
+}
+
+// Predicates handled by web-tree-sitter itself
+const BUILT_IN_PREDICATES = new Set(['set!', 'is?', 'is-not?']);
+
+function compileQuery(rule: QueryRule, language: Language): CompiledQuery {
+  const source = typeof rule.query === 'string' ? rule.query : rule.query[language]!;
+
+  let query: Parser.Query;
+  try {
+    query = getLanguage(language).query(source);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new RuleError(`Rule '${rule.name}': invalid ${language} query: ${reason}`);
+  }
+
+  if (query.captureNames.length === 0) {
+    throw new RuleError(`Rule '${rule.name}': the ${language} query has no captures`);
+  }
+  if (rule.capture && !query.captureNames.includes(rule.capture)) {
+    throw new RuleError(
+      `Rule '${rule.name}': capture @${rule.capture} is not defined in the ${language} query`
+    );
+  }
+
+  const predicates: AncestorPredicate[][] = [];
+  for (let pattern = 0; pattern < query.predicates.length; pattern++) {
+    predicates.push([]);
+    for (const predicate of query.predicatesForPattern(pattern)) {
+      if (BUILT_IN_PREDICATES.has(predicate.operator)) continue;
+
+      const [subject, ...types] = predicate.operands as PredicateOperand[];
+      const isAncestorPredicate =
+        predicate.operator === 'inside?' || predicate.operator === 'not-inside?';
+      if (!isAncestorPredicate) {
+        throw new RuleError(`Rule '${rule.name}': unsupported predicate #${predicate.operator}`);
+      }
+      if (
+        subject?.type !== 'capture' ||
+        types.length === 0 ||
+        types.some((type) => type.type !== 'string')
+      ) {
+        throw new RuleError(
+          `Rule '${rule.name}': #${predicate.operator} expects a capture followed by node types`
+        );
+      }
+
+      predicates[pattern].push({
+        capture: subject.name!,
+        types: types.map((type) => type.value!),
+        negated: predicate.operator === 'not-inside?',
+      });
+    }
+  }
+
+  return { query, predicates };
+}
+
+function hasAncestor(node: Parser.SyntaxNode, types: string[]): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (types.includes(current.type)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function matchesPredicates(match: Parser.QueryMatch, predicates: AncestorPredicate[]): boolean {
+  return predicates.every((predicate) => {
+    const captured = match.captures.filter((capture) => capture.name === predicate.capture);
+    return captured.every(
+      (capture) => hasAncestor(capture.node, predicate.types) !== predicate.negated
+    );
+  });
+}
+
+// Node a match is reported at
+function getReportNode(match: Parser.QueryMatch, captureName?: string): Parser.SyntaxNode | null {
+  if (captureName) {
+    return match.captures.find((capture) => capture.name === captureName)?.node || null;
+  }
+
+  let outermost: Parser.SyntaxNode | null = null;
+  for (const { node } of match.captures) {
+    if (
+      !outermost ||
+      node.startIndex < outermost.startIndex ||
+      (node.startIndex === outermost.startIndex && node.endIndex > outermost.endIndex)
+    ) {
+      outermost = node;
+    }
+  }
+  return outermost;
+}
+
+/**
+ * Check that a Handlebars template parses, throwing a RuleError if not
+ */
+export function checkTemplate(rule: QueryRule, field: string, template: string): void {
+  try {
+    Handlebars.parse(template);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    throw new RuleError(`Rule '${rule.name}': invalid ${field} template: ${reason}`);
+  }
+}
+
+/**
+ * Compile a query rule into a detector. Requires initParser() to have run.
+ */
+export function createQueryDetector(rule: QueryRule): Detector {
+  const queries = new Map<Language, CompiledQuery>();
+  for (const language of rule.languages) {
+    queries.set(language, compileQuery(rule, language));
+  }
+
+  checkTemplate(rule, 'message', rule.message);
+  const message = Handlebars.compile(rule.message, { noEscape: true });
+
+  return {
+    name: rule.name,
+    // Editing the rule changes its version, so cached results are not reused
+    version: crypto.createHash('sha256').update(JSON.stringify(rule)).digest('hex').slice(0, 12),
+    supportedLanguages: [...rule.languages],
+    category: rule.category,
+
+    detect(code: string, language: Language, tree: Parser.Tree): DetectorResult[] {
+      const compiled = queries.get(language);
+      if (!compiled) {
+        return [];
+      }
+
+      const results: DetectorResult[] = [];
+      const reported = new Set<string>();
+
+      for (const match of compiled.query.matches(tree.rootNode)) {
+        if (!matchesPredicates(match, compiled.predicates[match.pattern] || [])) {
+          continue;
+        }
+
+        const node = getReportNode(match, rule.capture);
+        const key = node && `${node.startIndex}:${node.endIndex}`;
+        if (!node || reported.has(key!)) {
+          continue;
+        }
+        reported.add(key!);
+
+        const facts: AstFacts = {};
+        for (const capture of match.captures) {
+          facts[capture.name] ??= getNodeText(capture.node, code);
+        }
+
+        results.push({
+          name: rule.name,
+          ...getNodeRange(node),
+          severity: rule.severity,
+          certainty: rule.certainty,
+          confidence: rule.confidence,
+          scope: rule.scope,
+          message: message(facts).trim(),
+          ast_facts: facts,
+        });
+      }
+
+      return results;
+    },
+  };
+}
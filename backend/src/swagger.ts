@@ -79,6 +79,13 @@ AST-based code analysis API that detects common junior developer mistakes.
           description: 'Scope affected by the mistake',
           example: 'function',
         },
+        PositionEncoding: {
+          type: 'string',
+          enum: ['utf-16', 'utf-8', 'code-points'],
+          description:
+            'Unit of the columns: UTF-16 code units (default), UTF-8 bytes or Unicode code points. Offsets are always UTF-16 code units',
+          example: 'utf-16',
+        },
         AstFacts: {
           type: 'object',
           description: 'Structured facts extracted from the AST',
@@ -111,6 +118,12 @@ AST-based code analysis API that detects common junior developer mistakes.
               description: 'Unique identifier within the analysis',
               example: 1,
             },
+            fingerprint: {
+              type: 'string',
+              description:
+                'Stable identifier of the finding across edits (rule, enclosing functions, flagged code and its line)',
+              example: '3f9a1c0b7d2e4a61',
+            },
             name: {
               type: 'string',
               description: 'Detector name',
@@ -123,9 +136,50 @@ AST-based code analysis API that detects common junior developer mistakes.
             },
             column: {
               type: 'integer',
-              description: 'Column number (0-indexed)',
+              description: 'Column number (1-indexed, in the response position encoding)',
               example: 8,
             },
+            endLine: {
+              type: 'integer',
+              description: 'Line where the flagged code ends (1-indexed)',
+              example: 5,
+            },
+            endColumn: {
+              type: 'integer',
+              description: 'Column just after the flagged code (1-indexed, exclusive)',
+              example: 10,
+            },
+            startOffset: {
+              type: 'integer',
+              description: 'Offset of the flagged code in the analyzed source',
+              example: 61,
+            },
+            endOffset: {
+              type: 'integer',
+              description: 'Offset just after the flagged code',
+              example: 63,
+            },
+            relatedLocations: {
+              type: 'array',
+              description:
+                'Other code involved in the finding, e.g. the shadowed declaration or the null assignment',
+              items: {
+                type: 'object',
+                properties: {
+                  line: { type: 'integer', example: 1 },
+                  column: { type: 'integer', example: 7 },
+                  endLine: { type: 'integer', example: 1 },
+                  endColumn: { type: 'integer', example: 12 },
+                  startOffset: { type: 'integer', example: 6 },
+                  endOffset: { type: 'integer', example: 11 },
+                  message: { type: 'string', example: "Outer declaration of 'count'" },
+                  file: {
+                    type: 'string',
+                    description: 'Path of its file, when it is in another file of a project',
+                  },
+                },
+              },
+            },
             severity: {
               $ref: '#/components/schemas/Severity',
             },
@@ -175,6 +229,15 @@ AST-based code analysis API that detects common junior developer mistakes.
             language: {
               $ref: '#/components/schemas/Language',
             },
+            positionEncoding: {
+              $ref: '#/components/schemas/PositionEncoding',
+            },
+            typeCheck: {
+              type: 'boolean',
+              description:
+                'Run the TypeScript compiler so detectors can use its types (TypeScript only)',
+              example: true,
+            },
           },
         },
         AnalyzeResponse: {
@@ -188,11 +251,124 @@ AST-based code analysis API that detects common junior developer mistakes.
               },
             },
             score: {
-              type: 'integer',
+              type: 'number',
               minimum: 0,
               maximum: 10,
-              description: 'Code quality score (10 - number of mistakes, minimum 0)',
-              example: 8,
+              description:
+                'Code quality score: 10 minus the findings weighted by severity, certainty and confidence, scaled by file length (minimum 0, one decimal)',
+              example: 8.6,
+            },
+            scoring: {
+              type: 'object',
+              description: 'How the score was calculated',
+              properties: {
+                grade: { type: 'string', enum: ['A', 'B', 'C', 'D', 'F'], example: 'B' },
+                linesOfCode: { type: 'integer', description: 'Non-blank lines', example: 12 },
+                penalty: {
+                  type: 'number',
+                  description: 'Sum of the weighted findings',
+                  example: 1.44,
+                },
+                normalizedPenalty: {
+                  type: 'number',
+                  description: 'Penalty scaled down for files longer than the reference length',
+                  example: 1.44,
+                },
+                categories: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      category: {
+                        type: 'string',
+                        enum: [
+                          'correctness',
+                          'error-handling',
+                          'async',
+                          'maintainability',
+                          'other',
+                        ],
+                      },
+                      findings: { type: 'integer', example: 1 },
+                      penalty: { type: 'number', example: 1 },
+                    },
+                  },
+                },
+                explanation: {
+                  type: 'string',
+                  example:
+                    '3 findings weighted by severity, certainty and confidence add up to a penalty of 1.44. Score: max(0, 10 - 1.44) = 8.6 (B).',
+                },
+              },
+            },
+            baseline: {
+              type: 'object',
+              description: 'Present when the request had a baseline',
+              properties: {
+                matched: {
+                  type: 'integer',
+                  description: 'Findings left out because they are in the baseline',
+                  example: 12,
+                },
+                fixed: {
+                  type: 'array',
+                  description: 'Baseline entries that are no longer found',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      fingerprint: { type: 'string', example: '3f9a1c0b7d2e4a61' },
+                      name: { type: 'string', example: 'var_usage' },
+                      line: { type: 'integer', example: 3 },
+                      message: { type: 'string', example: "Use 'let' or 'const' instead of 'var'" },
+                    },
+                  },
+                },
+              },
+            },
+            partial: {
+              type: 'boolean',
+              description:
+                'Present when some detectors ran out of time; their findings are missing',
+              example: true,
+            },
+            timedOutDetectors: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Detectors that were stopped or skipped because of the analysis timeout',
+              example: ['variable_shadowing'],
+            },
+            positionEncoding: {
+              $ref: '#/components/schemas/PositionEncoding',
+            },
+            diagnostics: {
+              type: 'object',
+              properties: {
+                syntaxErrors: {
+                  type: 'array',
+                  description: 'Syntax errors the parser recovered from (ERROR and MISSING nodes)',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      kind: { type: 'string', enum: ['error', 'missing'] },
+                      line: { type: 'integer', example: 1 },
+                      column: { type: 'integer', example: 11 },
+                      endLine: { type: 'integer', example: 1 },
+                      endColumn: { type: 'integer', example: 11 },
+                      message: { type: 'string', example: "Missing ')'" },
+                    },
+                  },
+                },
+                failedDetectors: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Detectors that threw; their findings are missing',
+                },
+                skippedDetectors: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Detectors that did not finish in time; their findings are missing',
+                },
+              },
             },
           },
         },
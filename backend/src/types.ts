@@ -1,3 +1,9 @@
+import type { ScopeAnalysis } from './analysis/scopes';
+import type { TypeAnalysis } from './analysis/typecheck';
+import type { ProjectModule } from './analysis/project';
+import type { Parser } from './parser';
+import type { ExplanationTemplate } from './explainers/templates';
+
 // Supported languages for analysis
 export type Language = 'javascript' | 'typescript' | 'python';
 
@@ -10,17 +16,82 @@ export type Certainty = 'definite' | 'possible' | 'heuristic';
 // Scope levels for detected mistakes
 export type Scope = 'local' | 'function' | 'module';
 
+// What kind of problem a detector finds; used for the score breakdown
+export type Category = 'correctness' | 'error-handling' | 'async' | 'maintainability' | 'other';
+
+// Letter grade derived from the score
+export type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+// Unit of the columns in a response: UTF-16 code units (JavaScript strings,
+// Monaco, LSP), UTF-8 bytes or Unicode code points
+export type PositionEncoding = 'utf-16' | 'utf-8' | 'code-points';
+
 // AST facts extracted by detectors - varies by detector type
 export interface AstFacts {
   [key: string]: string | number | boolean | string[] | undefined;
 }
 
+// A text replacement; offsets index into the analyzed source string
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A line/column position; both 1-based, columns in UTF-16 code units
+export interface TextPosition {
+  line: number;
+  column: number;
+}
+
+// A span of source: 1-based lines and columns with an exclusive end, plus
+// offsets into the analyzed source string (the units of TextEdit). Columns are
+// UTF-16 code units unless a response declares another `positionEncoding`
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+// Another place that explains a finding, e.g. the declaration a variable shadows
+export interface RelatedLocation extends SourceRange {
+  message: string;
+  // Path of another file of a project analysis the location is in
+  file?: string;
+}
+
+// An editor change sent to an analysis session (engine/sessions.ts)
+export interface SessionEdit {
+  start: TextPosition;
+  end: TextPosition;
+  text: string;
+}
+
+// A machine-applicable fix for a mistake
+export interface Autofix {
+  description: string;
+  edits: TextEdit[];
+}
+
 // A single detected mistake
 export interface Mistake {
+  // Position of the finding in this response
   id: number;
+  // Identifies the same finding across edits of the file; missing in snippets
+  // saved before fingerprints were introduced
+  fingerprint?: string;
   name: string;
   line: number;
   column: number;
+  // End and offsets of the flagged code; missing in snippets saved before ranges
+  endLine?: number;
+  endColumn?: number;
+  startOffset?: number;
+  endOffset?: number;
+  relatedLocations?: RelatedLocation[];
   severity: Severity;
   certainty: Certainty;
   confidence: number;
@@ -30,12 +101,157 @@ export interface Mistake {
   explanation: string;
   fix: string;
   codeExample?: string;
+  autofix?: Autofix;
+}
+
+// A mistake silenced by an inline `rookie-ignore` comment
+export interface SuppressedMistake extends Mistake {
+  suppressedBy: {
+    kind: 'line' | 'next-line' | 'file';
+    line: number;
+    reason?: string;
+  };
+}
+
+// A syntax error tree-sitter recovered from (engine/diagnostics.ts)
+export interface SyntaxDiagnostic {
+  // 'error': text that could not be parsed; 'missing': a token the parser assumed
+  kind: 'error' | 'missing';
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  message: string;
+}
+
+// What made an analysis incomplete or less reliable
+export interface AnalysisDiagnostics {
+  syntaxErrors: SyntaxDiagnostic[];
+  // Detectors that threw; their findings are missing
+  failedDetectors: string[];
+  // Detectors that did not finish in time; their findings are missing
+  skippedDetectors: string[];
+}
+
+// Findings and penalty of one category in the score breakdown
+export interface CategoryScore {
+  category: Category;
+  findings: number;
+  penalty: number;
+}
+
+// How the score was derived (engine/scoring.ts)
+export interface ScoreBreakdown {
+  grade: Grade;
+  // Non-blank lines
+  linesOfCode: number;
+  // Sum of the finding weights (severity x certainty x confidence)
+  penalty: number;
+  // The penalty scaled to the reference file length; score = max(0, 10 - normalizedPenalty)
+  normalizedPenalty: number;
+  categories: CategoryScore[];
+  explanation: string;
+}
+
+// A finding recorded in a baseline, identified by its fingerprint
+export interface BaselineEntry {
+  fingerprint: string;
+  name: string;
+  // Position and message when the baseline was created
+  line: number;
+  message: string;
+}
+
+// Comparison of an analysis with a baseline
+export interface BaselineComparison {
+  // Findings left out of `mistakes` because they are in the baseline
+  matched: number;
+  // Baseline entries that are no longer found
+  fixed: BaselineEntry[];
 }
 
 // Response from /api/analyze
 export interface AnalyzeResponse {
   mistakes: Mistake[];
   score: number;
+  scoring?: ScoreBreakdown;
+  suppressed?: SuppressedMistake[];
+  // Set when the analysis was compared with a baseline
+  baseline?: BaselineComparison;
+  // Set when detectors ran out of time; their findings are missing
+  partial?: boolean;
+  timedOutDetectors?: string[];
+  diagnostics?: AnalysisDiagnostics;
+  // Unit of the columns (offsets are always UTF-16 code units)
+  positionEncoding?: PositionEncoding;
+}
+
+// Progress of an analysis, reported as each detector starts and finishes.
+// `finding` events carry the detector's findings that are not suppressed, with
+// the same IDs as in the final response
+export type AnalysisEvent =
+  | { type: 'detector-start'; detector: string }
+  | { type: 'finding'; detector: string; mistake: Mistake }
+  | { type: 'detector-done'; detector: string; findings: number; failed?: boolean };
+
+// Analysis of one file of a project
+export interface ProjectFileAnalysis extends AnalyzeResponse {
+  language: Language;
+}
+
+// Response of a project analysis: the analyses grouped by file path
+export interface ProjectAnalyzeResponse {
+  files: Record<string, ProjectFileAnalysis>;
+  summary: {
+    files: number;
+    mistakes: number;
+    // File scores weighted by lines of code
+    score: number;
+  };
+  // Set when detectors ran out of time in some file
+  partial?: boolean;
+}
+
+// Result of one item of a batch: its analysis, or why it has none
+export type BatchItemResult =
+  | ({ id: string } & AnalyzeResponse)
+  | {
+      id: string;
+      error: string;
+      // Validation problems of the item, as in a 400 response
+      details?: { field: string; message: string }[];
+    };
+
+// Response of a batch analysis: one result per item, in request order
+export interface BatchAnalyzeResponse {
+  results: BatchItemResult[];
+  summary: {
+    items: number;
+    succeeded: number;
+    failed: number;
+    mistakes: number;
+  };
+}
+
+// Kinds of analysis a job can run: the bodies of /api/v1/analyze,
+// /api/v1/analyze/project and /api/v1/analyze/batch
+export type JobKind = 'analyze' | 'project' | 'batch';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// An asynchronous analysis job, as returned by /api/v1/jobs
+export interface AnalysisJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  // Units of work done: detectors, files or batch items
+  progress: { completed: number; total: number };
+  // The response the synchronous endpoint would have sent
+  result?: AnalyzeResponse | ProjectAnalyzeResponse | BatchAnalyzeResponse;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
 }
 
 // Request body for /api/analyze
@@ -65,11 +281,111 @@ export interface Snippet {
   created_at: string;
 }
 
+// Stored analysis job: the job plus what is needed to run it again
+export interface JobRecord extends AnalysisJob {
+  // Validated body of the job's kind of request
+  request: unknown;
+  callbackUrl?: string;
+}
+
+// Per-rule settings from a .rookierc.json file or the analyze request
+export interface RuleSettings {
+  enabled?: boolean;
+  severity?: Severity;
+  options?: Record<string, unknown>;
+}
+
+// A rule entry: `false`/'off' disables, a severity overrides, an object sets everything
+export type RuleConfig = boolean | 'off' | Severity | RuleSettings;
+
+// Scoring weights; unset values keep their defaults (engine/scoring.ts)
+export interface ScoringConfig {
+  severity?: Partial<Record<Severity, number>>;
+  certainty?: Partial<Record<Certainty, number>>;
+  // Files longer than this many lines of code have their penalty scaled down
+  referenceLines?: number;
+}
+
+// Project configuration (.rookierc.json / `options` on POST /api/v1/analyze)
+export interface AnalysisConfig {
+  rules?: Record<string, RuleConfig>;
+  scoring?: ScoringConfig;
+}
+
+// A declarative rule: a tree-sitter query plus report metadata (src/rules)
+export interface QueryRule {
+  name: string;
+  description?: string;
+  languages: Language[];
+  // S-expression query, or one query per language when the grammars differ
+  query: string | Partial<Record<Language, string>>;
+  // Capture whose node is reported (default: the outermost captured node)
+  capture?: string;
+  // Handlebars templates; capture names resolve to the captured text
+  message: string;
+  severity: Severity;
+  certainty: Certainty;
+  confidence: number;
+  scope: Scope;
+  category?: Category;
+  explanation: string;
+  fix?: string;
+  codeExample?: string;
+}
+
+// A third-party detector package (src/plugins)
+export interface RookiePlugin {
+  name: string;
+  version?: string;
+  // Plugin API the package targets; must be one of SUPPORTED_PLUGIN_API_VERSIONS
+  apiVersion: number;
+  detectors: Detector[];
+  // Explanation templates keyed by detector name
+  templates?: Record<string, ExplanationTemplate>;
+}
+
+// Extra information passed to detectors by the analysis engine
+export interface DetectorContext {
+  // Rule-specific options from the configuration (empty when not configured)
+  options: Record<string, unknown>;
+  // Scope analysis of the file, computed once and shared by all detectors
+  scopes?: ScopeAnalysis;
+  // Compiler type information; only for TypeScript analyzed with `typeCheck`
+  types?: TypeAnalysis;
+  // The file's imports of other files; only in a project analysis
+  project?: ProjectModule;
+}
+
+// Per-file state of a detector in the single-pass traversal (engine/visitor.ts)
+export interface DetectorVisitor {
+  // Node types the detector wants to receive
+  nodeTypes: string[];
+  // Called for each node of those types, in document order
+  visit(node: Parser.SyntaxNode): void;
+  // Called once the traversal is done; returns the findings
+  finish(): DetectorResult[];
+}
+
 // Detector interface - all detectors must implement this
 export interface Detector {
   name: string;
+  // Change when the detector's findings change; part of the analysis cache key
+  version?: string;
   supportedLanguages: Language[];
-  detect(code: string, language: Language, tree: any): DetectorResult[];
+  // Category in the score breakdown (default: 'other')
+  category?: Category;
+  detect(code: string, language: Language, tree: any, context?: DetectorContext): DetectorResult[];
+  // Optional single-pass API; the engine prefers it over detect() when present
+  createVisitor?(
+    code: string,
+    language: Language,
+    tree: Parser.Tree,
+    context?: DetectorContext
+  ): DetectorVisitor;
+  // Findings only depend on the top-level statement they are in, so analysis
+  // sessions can skip the detector when no statement holding its node types
+  // changed (engine/sessions.ts). Requires createVisitor().
+  local?: boolean;
 }
 
 // Raw result from a detector before explanation is added
@@ -77,10 +393,18 @@ export interface DetectorResult {
   name: string;
   line: number;
   column: number;
+  // Filled in from the smallest named node at line/column when missing
+  endLine?: number;
+  endColumn?: number;
+  startOffset?: number;
+  endOffset?: number;
+  relatedLocations?: RelatedLocation[];
   severity: Severity;
   certainty: Certainty;
   confidence: number;
   scope: Scope;
   message: string;
   ast_facts: AstFacts;
+  // Present when the mistake can be fixed mechanically
+  autofix?: Autofix;
 }
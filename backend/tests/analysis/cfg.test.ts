@@ -0,0 +1,158 @@
+import { parseCode, findNodes, getNodeText, Parser } from '../../src/parser';
+import {
+  buildControlFlowGraph,
+  ControlFlowGraph,
+  findCfgNode,
+  ForwardAnalysis,
+  solveForward,
+} from '../../src/analysis/cfg';
+import { Language } from '../../src/types';
+
+function build(code: string, language: Language): ControlFlowGraph {
+  const root = parseCode(code, language).rootNode;
+  const fn = findNodes(root, ['function_declaration', 'function_definition'])[0] || root;
+  return buildControlFlowGraph(fn, code, language);
+}
+
+// Texts of the nodes evaluated in reachable blocks
+function reachable(cfg: ControlFlowGraph, code: string): string[] {
+  const states = solveForward(cfg, {
+    initial: true,
+    transfer: (_node, state) => state,
+    branch: (_condition, _assume, state) => state,
+    join: (a, b) => a || b,
+    equals: (a, b) => a === b,
+  });
+  return cfg.blocks
+    .filter((block) => states.has(block))
+    .flatMap((block) => block.nodes.map((node) => getNodeText(node, code)));
+}
+
+describe('control-flow graph', () => {
+  it('splits if/else into conditional edges', () => {
+    const code = `function f(x) {
+  if (x) {
+    a();
+  } else {
+    b();
+  }
+  c();
+}`;
+    const cfg = build(code, 'javascript');
+    const condition = cfg.entry.nodes[0];
+
+    expect(getNodeText(condition, code)).toBe('(x)');
+    expect(cfg.entry.successors.map((edge) => edge.assume)).toEqual([true, false]);
+    expect(reachable(cfg, code).sort()).toEqual(['(x)', 'a();', 'b();', 'c();']);
+  });
+
+  it('does not reach code after return or throw', () => {
+    const code = `function f(x) {
+  if (!x) {
+    throw new Error('no x');
+  }
+  return x;
+  unreachable();
+}`;
+    const cfg = build(code, 'javascript');
+
+    expect(reachable(cfg, code)).not.toContain('unreachable();');
+  });
+
+  it('adds back edges for loops and honors break/continue', () => {
+    const code = `function f(items) {
+  for (let i = 0; i < items.length; i++) {
+    if (skip(i)) continue;
+    if (stop(i)) break;
+    use(i);
+  }
+  done();
+}`;
+    const cfg = build(code, 'javascript');
+    const header = findCfgNode(cfg, findNodes(cfg.root, 'binary_expression')[0])!.block;
+    const increment = findCfgNode(cfg, findNodes(cfg.root, 'update_expression')[0])!.block;
+
+    expect(increment.successors.map((edge) => edge.to)).toEqual([header]);
+    expect(reachable(cfg, code)).toContain('done();');
+  });
+
+  it('models switch fallthrough and missing default', () => {
+    const code = `function f(kind) {
+  switch (kind) {
+    case 1:
+      one();
+    case 2:
+      two();
+      break;
+  }
+  after();
+}`;
+    const cfg = build(code, 'javascript');
+    const one = findCfgNode(cfg, findNodes(cfg.root, 'call_expression')[0])!.block;
+    const two = findCfgNode(cfg, findNodes(cfg.root, 'call_expression')[1])!.block;
+
+    expect(one.successors.map((edge) => edge.to)).toContain(two);
+    expect(cfg.entry.successors).toHaveLength(3);
+  });
+
+  it('reaches catch clauses from inside the try body', () => {
+    const code = `function f() {
+  try {
+    risky();
+    return 1;
+  } catch (error) {
+    recover(error);
+  }
+  return 2;
+}`;
+    const cfg = build(code, 'javascript');
+
+    expect(reachable(cfg, code)).toEqual(
+      expect.arrayContaining(['risky();', 'recover(error);', 'return 2;'])
+    );
+  });
+
+  it('builds Python graphs with elif chains and raise', () => {
+    const code = `def f(x):
+    if x is None:
+        raise ValueError()
+    elif x > 1:
+        big()
+    else:
+        small()
+    for item in x:
+        use(item)
+    return x
+`;
+    const cfg = build(code, 'python');
+    const texts = cfg.blocks.flatMap((block) => block.nodes.map((node) => getNodeText(node, code)));
+
+    expect(texts).toEqual(
+      expect.arrayContaining(['x is None', 'x > 1', 'big()', 'small()', 'item', 'return x'])
+    );
+    const raise = findCfgNode(cfg, findNodes(cfg.root, 'raise_statement')[0])!.block;
+    expect(raise.successors.map((edge) => edge.to)).toEqual([cfg.exit]);
+  });
+
+  it('narrows state along conditional edges', () => {
+    const code = `function f(x) {
+  if (x) {
+    return;
+  }
+  last();
+}`;
+    const cfg = build(code, 'javascript');
+    // State: whether x may be truthy
+    const analysis: ForwardAnalysis<boolean> = {
+      initial: true,
+      transfer: (_node, state) => state,
+      branch: (_condition: Parser.SyntaxNode, assume, state) => (assume ? state : false),
+      join: (a, b) => a || b,
+      equals: (a, b) => a === b,
+    };
+    const states = solveForward(cfg, analysis);
+    const last = findCfgNode(cfg, findNodes(cfg.root, 'call_expression')[0])!;
+
+    expect(states.get(last.block)).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { getLanguageForPath, parseCode } from '../../src/parser';
+import { analyzeScopes } from '../../src/analysis/scopes';
+import {
+  normalizeProjectPath,
+  ProjectFile,
+  ProjectIndex,
+  ProjectSymbol,
+} from '../../src/analysis/project';
+
+describe('project index', () => {
+  let files: ProjectFile[] = [];
+
+  const indexProject = (sources: Record<string, string>): ProjectIndex => {
+    files = Object.entries(sources).map(([path, code]) => {
+      const language = getLanguageForPath(path)!;
+      return { path, code, language, tree: parseCode(code, language) };
+    });
+    return new ProjectIndex(files);
+  };
+
+  afterEach(() => {
+    files.forEach((file) => file.tree.delete());
+    files = [];
+  });
+
+  // What a module-level name of a file resolves to, as "file:name:kind[:async]"
+  const resolve = (index: ProjectIndex, path: string, name: string, member?: string) => {
+    const file = index.getFile(path)!;
+    const declaration = analyzeScopes(file.tree, file.code, file.language).declarations.find(
+      (candidate) => candidate.name === name
+    )!;
+    const module = index.module(path);
+    return describeSymbol(
+      member === undefined
+        ? module.resolveImport(declaration)
+        : module.resolveMember(declaration, member)
+    );
+  };
+
+  const describeSymbol = (symbol: ProjectSymbol | null) =>
+    symbol && [symbol.file, symbol.name, symbol.kind, symbol.async ? 'async' : ''].join(':');
+
+  it('resolves ES imports by extension, index file and compiled name', () => {
+    const index = indexProject({
+      'src/api.ts': 'export async function load() {}\nexport const size = 1;\n',
+      'src/util/index.js': 'export default class Cache {}\n',
+      'src/page.ts': `import { load, size as count } from './api.js';
+import Cache from './util';
+import * as api from './api';
+`,
+    });
+
+    expect(resolve(index, 'src/page.ts', 'load')).toBe('src/api.ts:load:function:async');
+    expect(resolve(index, 'src/page.ts', 'count')).toBe('src/api.ts:size:variable:');
+    expect(resolve(index, 'src/page.ts', 'Cache')).toBe('src/util/index.js:default:class:');
+    expect(resolve(index, 'src/page.ts', 'api', 'load')).toBe('src/api.ts:load:function:async');
+    expect(resolve(index, 'src/page.ts', 'api')).toBeNull();
+  });
+
+  it('follows re-exports', () => {
+    const index = indexProject({
+      'lib/http.ts': 'export const get = async () => {};\nexport default function main() {}\n',
+      'lib/index.ts': `export * from './http';
+export { default as main, get as fetch } from './http';
+`,
+      'app.ts': "import { get, fetch, main } from './lib';\n",
+    });
+
+    expect(resolve(index, 'app.ts', 'get')).toBe('lib/http.ts:get:function:async');
+    expect(resolve(index, 'app.ts', 'fetch')).toBe('lib/http.ts:get:function:async');
+    expect(resolve(index, 'app.ts', 'main')).toBe('lib/http.ts:default:function:');
+  });
+
+  it('resolves CommonJS exports and require()', () => {
+    const index = indexProject({
+      'db.js': `async function query() {}
+function close() {}
+module.exports = { query, close, open: async () => {} };
+`,
+      'jobs.js': 'exports.run = async function () {};\n',
+      'main.js': `const db = require('./db');
+const { run: start } = require('./jobs');
+const lodash = require('lodash');
+`,
+    });
+
+    expect(resolve(index, 'main.js', 'db', 'query')).toBe('db.js:query:function:async');
+    expect(resolve(index, 'main.js', 'db', 'close')).toBe('db.js:close:function:');
+    expect(resolve(index, 'main.js', 'db', 'open')).toBe('db.js:open:function:async');
+    expect(resolve(index, 'main.js', 'start')).toBe('jobs.js:run:function:async');
+    expect(resolve(index, 'main.js', 'lodash', 'map')).toBeNull();
+  });
+
+  it('resolves Python imports, packages and relative imports', () => {
+    const index = indexProject({
+      'app/__init__.py': 'from .jobs import run\n',
+      'app/jobs.py': 'async def run():\n    pass\n\nLIMIT = 10\n',
+      'app/web/views.py': 'from ..jobs import LIMIT\nfrom .. import jobs\n',
+      'main.py': `from app import run
+import app.jobs as tasks
+import app
+`,
+    });
+
+    expect(resolve(index, 'main.py', 'run')).toBe('app/jobs.py:run:function:async');
+    expect(resolve(index, 'main.py', 'tasks', 'LIMIT')).toBe('app/jobs.py:LIMIT:variable:');
+    expect(resolve(index, 'main.py', 'app', 'run')).toBe('app/jobs.py:run:function:async');
+    expect(resolve(index, 'app/web/views.py', 'LIMIT')).toBe('app/jobs.py:LIMIT:variable:');
+    expect(resolve(index, 'app/web/views.py', 'jobs', 'run')).toBe(
+      'app/jobs.py:run:function:async'
+    );
+  });
+
+  it('only resolves module-level imports', () => {
+    const index = indexProject({
+      'api.ts': 'export async function load() {}\n',
+      'page.ts': "import { load } from './api';\nfunction render(load: () => void) {}\n",
+    });
+    const file = index.getFile('page.ts')!;
+    const parameter = analyzeScopes(file.tree, file.code, file.language).declarations.find(
+      (declaration) => declaration.kind === 'parameter'
+    )!;
+
+    expect(index.module('page.ts').resolveImport(parameter)).toBeNull();
+  });
+
+  it('finds exported symbols by name across the project', () => {
+    const index = indexProject({
+      'a.ts': 'export async function save() {}\n',
+      'b.ts': "export { save } from './a';\n",
+      'c.py': 'def save():\n    pass\n',
+    });
+
+    expect(index.findSymbols('save').map(describeSymbol)).toEqual([
+      'a.ts:save:function:async',
+      'c.py:save:function:',
+    ]);
+  });
+
+  it('normalizes paths', () => {
+    expect(normalizeProjectPath('./src/../lib/a.ts')).toBe('lib/a.ts');
+    expect(normalizeProjectPath('/src\\a.ts')).toBe('src/a.ts');
+  });
+});
@@ -0,0 +1,218 @@
+import { parseCode, findNodes, getNodeText, Parser } from '../../src/parser';
+import { analyzeScopes, ScopeAnalysis } from '../../src/analysis/scopes';
+import { Language } from '../../src/types';
+
+function analyzeCode(code: string, language: Language): ScopeAnalysis {
+  return analyzeScopes(parseCode(code, language), code, language);
+}
+
+// Resolve every reference to `name` as "kind@line" (or "global")
+function resolved(analysis: ScopeAnalysis, name: string): string[] {
+  return analysis.references
+    .filter((reference) => reference.name === name)
+    .map((reference) =>
+      reference.declaration
+        ? `${reference.declaration.kind}@${reference.declaration.line}`
+        : 'global'
+    );
+}
+
+describe('scope analysis', () => {
+  describe('JavaScript / TypeScript', () => {
+    it('resolves destructuring, defaults and rest elements', () => {
+      const analysis = analyzeCode(
+        `const { a, b: [c, ...d], e = a } = source;
+use(a, c, d, e);
+`,
+        'javascript'
+      );
+
+      expect(resolved(analysis, 'a')).toEqual(['const@1', 'const@1']);
+      expect(resolved(analysis, 'c')).toEqual(['const@1']);
+      expect(resolved(analysis, 'd')).toEqual(['const@1']);
+      expect(resolved(analysis, 'source')).toEqual(['global']);
+    });
+
+    it('resolves parameters, imports and catch parameters', () => {
+      const analysis = analyzeCode(
+        `import fallback, { helper as h } from './lib';
+import * as ns from './ns';
+function run(value, { retries } = {}, ...rest) {
+  try {
+    return h(value, retries, rest, ns);
+  } catch ({ message }) {
+    return fallback(message);
+  }
+}
+`,
+        'javascript'
+      );
+
+      expect(resolved(analysis, 'h')).toEqual(['import@1']);
+      expect(resolved(analysis, 'ns')).toEqual(['import@2']);
+      expect(resolved(analysis, 'value')).toEqual(['parameter@3']);
+      expect(resolved(analysis, 'retries')).toEqual(['parameter@3']);
+      expect(resolved(analysis, 'rest')).toEqual(['parameter@3']);
+      expect(resolved(analysis, 'message')).toEqual(['catch@6']);
+      expect(resolved(analysis, 'fallback')).toEqual(['import@1']);
+    });
+
+    it('hoists var to the function but keeps let in its block', () => {
+      const analysis = analyzeCode(
+        `function f(flag) {
+  if (flag) {
+    var hoisted = 1;
+    let scoped = 2;
+  }
+  return [hoisted, scoped];
+}
+`,
+        'javascript'
+      );
+
+      expect(resolved(analysis, 'hoisted')).toEqual(['var@3']);
+      expect(resolved(analysis, 'scoped')).toEqual(['global']);
+    });
+
+    it('resolves names to the innermost declaration', () => {
+      const analysis = analyzeCode(
+        `let x = 1;
+{
+  let x = 2;
+  x;
+}
+x;
+`,
+        'javascript'
+      );
+
+      expect(resolved(analysis, 'x')).toEqual(['let@3', 'let@1']);
+    });
+
+    it('resolves a declaring identifier to itself', () => {
+      const code = 'const answer = 42;';
+      const tree = parseCode(code, 'javascript');
+      const analysis = analyzeScopes(tree, code, 'javascript');
+      const identifier = findNodes(tree.rootNode, 'identifier')[0];
+
+      expect(analysis.isDeclaration(identifier)).toBe(true);
+      expect(analysis.resolve(identifier)?.name).toBe('answer');
+    });
+
+    it('ignores type-only names and resolves TypeScript parameters', () => {
+      const analysis = analyzeCode(
+        `interface Options { retries: number }
+enum Mode { Fast }
+function load(url: string, opts?: Options, mode: Mode = Mode.Fast): void {
+  fetch(url, opts);
+}
+`,
+        'typescript'
+      );
+
+      expect(resolved(analysis, 'url')).toEqual(['parameter@3']);
+      expect(resolved(analysis, 'opts')).toEqual(['parameter@3']);
+      expect(resolved(analysis, 'Mode')).toEqual(['enum@2']);
+      expect(analysis.references.some((r) => r.name === 'Options')).toBe(false);
+    });
+  });
+
+  describe('Python', () => {
+    it('makes assignments local to the whole function', () => {
+      const analysis = analyzeCode(
+        `total = 0
+
+def add(values, start=total):
+    for value in values:
+        total = start + value
+    return total
+`,
+        'python'
+      );
+
+      expect(resolved(analysis, 'start')).toEqual(['parameter@3']);
+      expect(resolved(analysis, 'total')).toEqual(['variable@1', 'variable@5']);
+      expect(resolved(analysis, 'value')).toEqual(['variable@4']);
+    });
+
+    it('honors global and nonlocal', () => {
+      const analysis = analyzeCode(
+        `count = 0
+
+def outer():
+    seen = 0
+    def inner():
+        global count
+        nonlocal seen
+        count = seen = 1
+    return seen
+`,
+        'python'
+      );
+
+      const moduleCounts = analysis.root.declarations.get('count') || [];
+      expect(moduleCounts.map((d) => d.line)).toEqual([1, 8]);
+      expect(resolved(analysis, 'seen')).toEqual(['variable@4']);
+    });
+
+    it('gives comprehensions their own scope', () => {
+      const analysis = analyzeCode(
+        `item = None
+names = [item.name for item in items if item]
+print(item)
+`,
+        'python'
+      );
+
+      expect(resolved(analysis, 'item')).toEqual(['variable@2', 'variable@2', 'variable@1']);
+      expect(analysis.scopes.map((scope) => scope.kind)).toEqual(['module', 'comprehension']);
+    });
+
+    it('does not expose class attributes to methods', () => {
+      const analysis = analyzeCode(
+        `import os
+from typing import Optional as Opt
+
+class Config:
+    path = os.getcwd()
+    def load(self) -> Opt:
+        return path
+`,
+        'python'
+      );
+
+      expect(resolved(analysis, 'os')).toEqual(['import@1']);
+      expect(resolved(analysis, 'Opt')).toEqual(['import@2']);
+      expect(resolved(analysis, 'path')).toEqual(['global']);
+    });
+
+    it('binds with, except and walrus targets', () => {
+      const analysis = analyzeCode(
+        `with open(name) as handle:
+    if (line := handle.readline()):
+        pass
+try:
+    pass
+except ValueError as problem:
+    print(problem, line)
+`,
+        'python'
+      );
+
+      expect(resolved(analysis, 'handle')).toEqual(['variable@1']);
+      expect(resolved(analysis, 'problem')).toEqual(['variable@6']);
+      expect(resolved(analysis, 'line')).toEqual(['variable@2']);
+    });
+  });
+
+  it('finds the innermost scope of a node', () => {
+    const code = 'function f() { return () => target; }';
+    const tree = parseCode(code, 'javascript');
+    const analysis = analyzeScopes(tree, code, 'javascript');
+    const target = findNodes(tree.rootNode, 'identifier').find(
+      (node: Parser.SyntaxNode) => getNodeText(node, code) === 'target'
+    )!;
+
+    expect(analysis.scopeAt(target).node.type).toBe('arrow_function');
+  });
+});
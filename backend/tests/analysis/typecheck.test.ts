@@ -0,0 +1,93 @@
+import { parseCode, Parser } from '../../src/parser';
+import { analyzeTypes, TypeAnalysis } from '../../src/analysis/typecheck';
+
+describe('type analysis', () => {
+  let code: string;
+  let tree: Parser.Tree;
+  let types: TypeAnalysis;
+
+  const check = (source: string) => {
+    code = source;
+    tree = parseCode(code, 'typescript');
+    types = analyzeTypes(code);
+  };
+
+  // The node spanning the last occurrence of `text`
+  const nodeAt = (text: string): Parser.SyntaxNode => {
+    const start = code.lastIndexOf(text);
+    return tree.rootNode.descendantForIndex(start, start + text.length);
+  };
+
+  it('tells Promises from other values', () => {
+    check(`async function load(): Promise<number> {
+  return 1;
+}
+function size(): number {
+  return 1;
+}
+const either = Math.random() > 0.5 ? load() : 1;
+load();
+size();
+fetch('/');
+either;
+`);
+
+    expect(types.isPromise(nodeAt('load()'))).toBe(true);
+    expect(types.isPromise(nodeAt("fetch('/')"))).toBe(true);
+    expect(types.isPromise(nodeAt('size()'))).toBe(false);
+    expect(types.isPromise(nodeAt('either'))).toBeNull();
+    expect(types.typeOf(nodeAt('load()'))).toBe('Promise<number>');
+  });
+
+  it('knows nothing about imported and untyped values', () => {
+    check(`import { api } from './api';
+declare const anything: any;
+api();
+anything;
+`);
+
+    expect(types.isPromise(nodeAt('api()'))).toBeNull();
+    expect(types.nullability(nodeAt('anything'))).toBeNull();
+    expect(types.typeOf(nodeAt('api()'))).toBeNull();
+  });
+
+  it('uses the narrowed type for nullability', () => {
+    check(`function run(name: string, label: string | null, other: string | null, missing: undefined) {
+  name;
+  other;
+  missing;
+  if (label) {
+    label.length;
+  }
+  let value: string | null = null;
+  value;
+}
+`);
+
+    expect(types.nullability(nodeAt('name'))).toBe('non-null');
+    expect(types.nullability(nodeAt('other'))).toBe('nullable');
+    expect(types.nullability(nodeAt('missing'))).toBe('null');
+    expect(types.nullability(nodeAt('label'))).toBe('non-null');
+    expect(types.nullability(nodeAt('value'))).toBe('null');
+  });
+
+  it('reports the primitive kind of every value', () => {
+    check(`const text = 'a';
+const count = 1 as number;
+const flag = true as boolean;
+const mixed = Math.random() > 0.5 ? 'a' : 1;
+const list = [1];
+text;
+count;
+flag;
+mixed;
+list;
+`);
+
+    expect(types.primitiveKind(nodeAt('text'))).toBe('string');
+    expect(types.primitiveKind(nodeAt('count'))).toBe('number');
+    expect(types.primitiveKind(nodeAt('flag'))).toBe('boolean');
+    expect(types.primitiveKind(nodeAt('mixed'))).toBeNull();
+    expect(types.primitiveKind(nodeAt('list'))).toBe('object');
+  });
+});
@@ -0,0 +1,264 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { run, parseCliArgs, CliIO, EXIT_OK, EXIT_FINDINGS, EXIT_ERROR } from '../../src/cli';
+import { collectFiles, globToRegExp } from '../../src/cli/files';
+import { findRcFile, loadRcFile } from '../../src/cli/rcfile';
+
+const backendDir = path.resolve(__dirname, '..', '..');
+
+function createIO(): CliIO & { out: string[]; err: string[] } {
+  const out: string[] = [];
+  const err: string[] = [];
+  return {
+    out,
+    err,
+    cwd: backendDir,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+  };
+}
+
+describe('rookie CLI', () => {
+  describe('argument parsing', () => {
+    it('applies defaults', () => {
+      const options = parseCliArgs(['src']);
+
+      expect(options.format).toBe('text');
+      expect(options.minSeverity).toBe('info');
+      expect(options.failOn).toBe('error');
+      expect(options.targets).toEqual(['src']);
+    });
+
+    it('turns type checking on with --type-check', () => {
+      expect(parseCliArgs(['src']).typeCheck).toBe(false);
+      expect(parseCliArgs(['--type-check', 'src']).typeCheck).toBe(true);
+    });
+
+    it('rejects an unknown format', () => {
+      expect(() => parseCliArgs(['--format', 'xml', 'src'])).toThrow(/Invalid --format/);
+    });
+
+    it('rejects an unknown severity', () => {
+      expect(() => parseCliArgs(['--fail-on', 'fatal', 'src'])).toThrow(/Invalid --fail-on/);
+    });
+  });
+
+  describe('file collection', () => {
+    it('infers languages when walking a directory', () => {
+      const files = collectFiles(['fixtures'], backendDir);
+      const byPath = Object.fromEntries(files.map((f) => [f.path, f.language]));
+
+      expect(byPath[path.join('fixtures', 'double-equals.js')]).toBe('javascript');
+      expect(byPath[path.join('fixtures', 'array-mutation.jsx')]).toBe('javascript');
+      expect(byPath[path.join('fixtures', 'python-examples.py')]).toBe('python');
+    });
+
+    it('expands glob patterns', () => {
+      const files = collectFiles(['fixtures/**/*.py'], backendDir);
+
+      expect(files.map((f) => f.language)).toEqual(['python']);
+    });
+
+    it('converts globs to regular expressions', () => {
+      expect(globToRegExp('src/**/*.ts').test('src/a/b/c.ts')).toBe(true);
+      expect(globToRegExp('src/**/*.ts').test('src/c.ts')).toBe(true);
+      expect(globToRegExp('src/*.ts').test('src/a/c.ts')).toBe(false);
+      expect(globToRegExp('*.{js,py}').test('main.py')).toBe(true);
+    });
+
+    it('rejects explicit files with an unknown extension', () => {
+      expect(() => collectFiles(['package.json'], backendDir)).toThrow(/Cannot infer language/);
+    });
+  });
+
+  describe('run', () => {
+    it('prints a text report and fails at the threshold', async () => {
+      const io = createIO();
+      const code = await run(['--fail-on', 'warning', 'fixtures/double-equals.js'], io);
+
+      expect(code).toBe(EXIT_FINDINGS);
+      expect(io.out.join('\n')).toContain('double_equals');
+    });
+
+    it('exits cleanly when findings are below the threshold', async () => {
+      const io = createIO();
+      const code = await run(['--fail-on', 'error', 'fixtures/var-usage.js'], io);
+
+      expect(code).toBe(EXIT_OK);
+    });
+
+    it('filters findings by minimum severity', async () => {
+      const io = createIO();
+      await run(['--format', 'json', '--min-severity', 'warning', 'fixtures/var-usage.js'], io);
+
+      const report = JSON.parse(io.out.join('\n'));
+      const severities = report.files[0].mistakes.map((m: { severity: string }) => m.severity);
+      expect(severities).not.toContain('info');
+    });
+
+    it('fails on any finding when --fail-on info is used', async () => {
+      const io = createIO();
+      const code = await run(['--fail-on', 'info', 'fixtures/var-usage.js'], io);
+
+      expect(code).toBe(EXIT_FINDINGS);
+    });
+
+    it('emits SARIF output', async () => {
+      const io = createIO();
+      await run(['--format', 'sarif', '--fail-on', 'never', 'fixtures/double-equals.js'], io);
+
+      const sarif = JSON.parse(io.out.join('\n'));
+      expect(sarif.version).toBe('2.1.0');
+      expect(sarif.runs[0].results[0].ruleId).toBe('double_equals');
+      const { region } = sarif.runs[0].results[0].locations[0].physicalLocation;
+      expect(region.startLine).toBeGreaterThan(0);
+      expect(region.endColumn).toBe(region.startColumn + 2);
+      expect(region.charLength).toBe(2);
+      expect(sarif.runs[0].results[0].partialFingerprints['rookieFingerprint/v1']).toMatch(
+        /^[0-9a-f]{16}/
+      );
+    });
+
+    it('emits related locations in SARIF output', async () => {
+      const io = createIO();
+      await run(['--format', 'sarif', '--fail-on', 'never', 'fixtures/variable-shadowing.js'], io);
+
+      const sarif = JSON.parse(io.out.join('\n'));
+      const result = sarif.runs[0].results.find(
+        (r: { ruleId: string }) => r.ruleId === 'variable_shadowing'
+      );
+      expect(result.relatedLocations[0]).toMatchObject({
+        id: 1,
+        message: { text: expect.stringMatching(/^Outer declaration of /) },
+        physicalLocation: {
+          artifactLocation: { uri: 'fixtures/variable-shadowing.js' },
+          region: { startLine: expect.any(Number), charLength: expect.any(Number) },
+        },
+      });
+    });
+
+    it('writes a baseline and then only reports new findings', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rookie-baseline-'));
+      const baselineFile = path.join(tmpDir, 'baseline.json');
+      try {
+        const write = createIO();
+        expect(await run(['--write-baseline', baselineFile, 'fixtures/var-usage.js'], write)).toBe(
+          EXIT_OK
+        );
+        const written = JSON.parse(fs.readFileSync(baselineFile, 'utf8'));
+        expect(written.version).toBe(1);
+        expect(written.files['fixtures/var-usage.js'].length).toBeGreaterThan(0);
+
+        written.files['fixtures/var-usage.js'].push({
+          fingerprint: 'fixed000fixed000',
+          name: 'var_usage',
+          line: 99,
+          message: 'Gone',
+        });
+        fs.writeFileSync(baselineFile, JSON.stringify(written));
+
+        const io = createIO();
+        const code = await run(
+          ['--baseline', baselineFile, '--fail-on', 'info', 'fixtures/var-usage.js'],
+          io
+        );
+
+        const output = io.out.join('\n');
+        expect(code).toBe(EXIT_OK);
+        expect(output).toContain('No problems found');
+        expect(output).toContain('1 fixed since the baseline');
+        expect(output).toContain('fixtures/var-usage.js:99');
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('rejects an invalid baseline file', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rookie-baseline-'));
+      const baselineFile = path.join(tmpDir, 'baseline.json');
+      fs.writeFileSync(baselineFile, JSON.stringify({ version: 2, files: {} }));
+      try {
+        const io = createIO();
+        const code = await run(['--baseline', baselineFile, 'fixtures/var-usage.js'], io);
+
+        expect(code).toBe(EXIT_ERROR);
+        expect(io.err.join('\n')).toContain('Invalid baseline');
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('returns a usage error without targets', async () => {
+      const io = createIO();
+      const code = await run([], io);
+
+      expect(code).toBe(EXIT_ERROR);
+      expect(io.err.join('\n')).toContain('Usage');
+    });
+
+    it('returns an error for missing paths', async () => {
+      const io = createIO();
+      const code = await run(['does-not-exist.js'], io);
+
+      expect(code).toBe(EXIT_ERROR);
+      expect(io.err.join('\n')).toContain('No such file');
+    });
+  });
+
+  describe('configuration', () => {
+    let projectDir: string;
+
+    beforeEach(() => {
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rookie-cli-'));
+      fs.mkdirSync(path.join(projectDir, 'src'));
+      fs.writeFileSync(path.join(projectDir, 'src', 'app.js'), 'var a = 1;\nif (a == null) {}\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    function writeConfig(name: string, config: unknown): string {
+      const configPath = path.join(projectDir, name);
+      fs.writeFileSync(configPath, JSON.stringify(config));
+      return configPath;
+    }
+
+    it('finds .rookierc.json in a parent directory', () => {
+      const configPath = writeConfig('.rookierc.json', {});
+
+      expect(findRcFile(path.join(projectDir, 'src'))).toBe(configPath);
+    });
+
+    it('reports invalid rule options with their path', () => {
+      const configPath = writeConfig('.rookierc.json', {
+        rules: { double_equals: { options: { allowNullComparison: 'yes' } } },
+      });
+
+      expect(() => loadRcFile(configPath)).toThrow(
+        /rules\.double_equals\.options\.allowNullComparison/
+      );
+    });
+
+    it('applies the discovered configuration', async () => {
+      writeConfig('.rookierc.json', {
+        rules: { var_usage: 'off', double_equals: { options: { allowNullComparison: true } } },
+      });
+      const io = { ...createIO(), cwd: projectDir };
+      const code = await run(['--format', 'json', 'src'], io);
+
+      expect(code).toBe(EXIT_OK);
+      expect(JSON.parse(io.out.join('\n')).files[0].mistakes).toEqual([]);
+    });
+
+    it('uses --config instead of discovery', async () => {
+      writeConfig('.rookierc.json', { rules: { var_usage: 'off' } });
+      writeConfig('strict.json', { rules: { var_usage: 'error' } });
+      const io = { ...createIO(), cwd: projectDir };
+      const code = await run(['--config', 'strict.json', 'src'], io);
+
+      expect(code).toBe(EXIT_FINDINGS);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { deleteFinishedJobs, getJob, getUnfinishedJobs, saveJob } from '../../src/db';
+import { JobRecord } from '../../src/types';
+
+function job(id: string, createdAt: string): JobRecord {
+  return {
+    id,
+    kind: 'analyze',
+    status: 'queued',
+    progress: { completed: 0, total: 0 },
+    createdAt,
+    request: { code: 'x', language: 'javascript' },
+  };
+}
+
+describe('jobs table', () => {
+  it('updates stored jobs and keeps jobs created at once in order', () => {
+    const createdAt = new Date().toISOString();
+    const first = job('dbtest-first', createdAt);
+    const second = job('dbtest-second', createdAt);
+    saveJob(first);
+    saveJob(second);
+
+    saveJob({ ...first, status: 'running', startedAt: createdAt });
+
+    const unfinished = getUnfinishedJobs().filter(({ id }) => id.startsWith('dbtest-'));
+    expect(unfinished.map(({ id }) => id)).toEqual(['dbtest-first', 'dbtest-second']);
+    expect(getJob(first.id)).toMatchObject({
+      status: 'running',
+      startedAt: createdAt,
+      request: first.request,
+    });
+
+    for (const stored of [first, second]) {
+      saveJob({ ...stored, status: 'cancelled', finishedAt: createdAt });
+    }
+  });
+
+  it('deletes jobs that finished before a time', () => {
+    const now = Date.now();
+    const old = job('dbtest-old', new Date(now - 120000).toISOString());
+    const recent = job('dbtest-recent', new Date(now).toISOString());
+    saveJob({ ...old, status: 'completed', finishedAt: new Date(now - 60000).toISOString() });
+    saveJob({ ...recent, status: 'completed', finishedAt: new Date(now).toISOString() });
+    saveJob(job('dbtest-queued', new Date(now - 120000).toISOString()));
+
+    deleteFinishedJobs(new Date(now - 30000).toISOString());
+
+    expect(getJob('dbtest-old')).toBeNull();
+    expect(getJob('dbtest-recent')).toMatchObject({ status: 'completed' });
+    expect(getJob('dbtest-queued')).toMatchObject({ status: 'queued' });
+    deleteFinishedJobs(new Date(now + 1000).toISOString());
+  });
+});
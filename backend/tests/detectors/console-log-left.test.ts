@@ -120,4 +120,20 @@ try {
       expect(results.length).toBe(0);
     });
   });
+
+  describe('options', () => {
+    it('does not flag allowed loggers', () => {
+      const code = `
+console.info('server started');
+console.log('debug');
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = consoleLogLeft.detect(code, 'javascript', tree, {
+        options: { allowedLoggers: ['console.info'] },
+      });
+
+      expect(results.length).toBe(1);
+      expect(results[0].ast_facts.method).toBe('log');
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { parseCode } from '../../src/parser';
 import doubleEquals from '../../src/detectors/double-equals';
+import { analyzeTypes } from '../../src/analysis/typecheck';
 
 describe('double_equals detector', () => {
   describe('positive cases (should detect)', () => {
@@ -93,4 +94,83 @@ if (a < b && c > d && e <= f && g >= h) {
       expect(results.length).toBe(0);
     });
   });
+
+  describe('autofix', () => {
+    it('replaces the operator with its strict counterpart', () => {
+      const code = `if (typeof a != 'string') {}`;
+      const tree = parseCode(code, 'javascript');
+      const results = doubleEquals.detect(code, 'javascript', tree);
+
+      expect(results[0].autofix).toEqual({
+        description: "Replace '!=' with '!=='",
+        edits: [{ start: 13, end: 15, text: '!==' }],
+      });
+    });
+
+    it('only fixes operands known to have the same primitive kind', () => {
+      const code = `
+if (x == null) {}
+if (undefined != y) {}
+if (count == 1) {}
+if (a == b) {}
+if (1 == '1') {}
+if (!done == !other) {}
+if (typeof a == typeof b) {}
+if ((2) != 3) {}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = doubleEquals.detect(code, 'javascript', tree);
+
+      expect(results).toHaveLength(8);
+      expect(results.filter((result) => result.autofix).map((result) => result.line)).toEqual([
+        7, 8, 9,
+      ]);
+    });
+  });
+
+  describe('options', () => {
+    it('allows null comparisons when allowNullComparison is set', () => {
+      const code = `
+if (value == null) {}
+if (undefined != other) {}
+if (count == 0) {}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = doubleEquals.detect(code, 'javascript', tree, {
+        options: { allowNullComparison: true },
+      });
+
+      expect(results.length).toBe(1);
+      expect(results[0].line).toBe(4);
+    });
+
+    it('flags null comparisons by default', () => {
+      const code = `if (value == null) {}`;
+      const tree = parseCode(code, 'javascript');
+      const results = doubleEquals.detect(code, 'javascript', tree, { options: {} });
+
+      expect(results.length).toBe(1);
+    });
+  });
+
+  describe('with type information', () => {
+    it('skips comparisons of the same type and is definite about others', () => {
+      const code = `
+function check(count: number, input: string, limit: number) {
+  if (count == limit) {}
+  if (input == count) {}
+}
+`;
+      const tree = parseCode(code, 'typescript');
+      const results = doubleEquals.detect(code, 'typescript', tree, {
+        options: {},
+        types: analyzeTypes(code),
+      });
+
+      expect(results.length).toBe(1);
+      expect(results[0]).toMatchObject({ line: 4, certainty: 'definite' });
+      expect(results[0].ast_facts).toMatchObject({ left_type: 'string', right_type: 'number' });
+      expect(results[0].autofix).toBeUndefined();
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { parseCode } from '../../src/parser';
 import missingAwait from '../../src/detectors/missing-await';
+import { analyzeTypes } from '../../src/analysis/typecheck';
 
 describe('missing_await detector', () => {
   describe('positive cases (should detect)', () => {
@@ -54,6 +55,26 @@ async function test() {
 
       expect(results.length).toBe(2);
     });
+
+    it('points at the async function definition', () => {
+      const code = `async function save() {}
+async function main() {
+  save();
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = missingAwait.detect(code, 'javascript', tree);
+
+      expect(results[0]).toMatchObject({
+        line: 3,
+        column: 3,
+        endLine: 3,
+        endColumn: 9,
+        relatedLocations: [
+          { line: 1, column: 16, endColumn: 20, message: "Async function 'save' is defined here" },
+        ],
+      });
+    });
   });
 
   describe('negative cases (should not detect)', () => {
@@ -121,4 +142,102 @@ function main() {
       expect(results.length).toBe(0);
     });
   });
+
+  describe('scope resolution', () => {
+    it('does not flag a local sync function with the name of an async one', () => {
+      const code = `
+async function load() {}
+
+function main() {
+  function load() {
+    return 1;
+  }
+  load();
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = missingAwait.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(0);
+    });
+
+    it('does not flag a parameter with the name of an async function', () => {
+      const code = `
+async function notify() {}
+
+async function main(notify) {
+  notify();
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = missingAwait.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(0);
+    });
+  });
+
+  describe('autofix', () => {
+    it('inserts await inside async functions only', () => {
+      const code = `
+async function save() {}
+async function run() {
+  save();
+}
+function sync() {
+  save();
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = missingAwait.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(2);
+      const [inAsync, inSync] = results;
+      expect(inAsync.autofix?.edits).toEqual([
+        { start: code.indexOf('save();'), end: code.indexOf('save();'), text: 'await ' },
+      ]);
+      expect(inSync.autofix).toBeUndefined();
+    });
+  });
+
+  describe('with type information', () => {
+    it('flags unawaited Promises from any callee as definite', () => {
+      const code = `
+async function run() {
+  fetch('/api');
+  const text = 'a'.trim();
+}
+`;
+      const tree = parseCode(code, 'typescript');
+      const results = missingAwait.detect(code, 'typescript', tree, {
+        options: {},
+        types: analyzeTypes(code),
+      });
+
+      expect(results.length).toBe(1);
+      expect(results[0].certainty).toBe('definite');
+      expect(results[0].message).toBe("Promise returned by 'fetch' is not awaited");
+      expect(results[0].relatedLocations).toBeUndefined();
+    });
+
+    it('skips methods that share a name with an async method but return no Promise', () => {
+      const code = `
+class Store {
+  async save(): Promise<void> {}
+}
+const cache = { save(): number { return 1; } };
+async function run(store: Store) {
+  cache.save();
+  store.save();
+}
+`;
+      const tree = parseCode(code, 'typescript');
+      const results = missingAwait.detect(code, 'typescript', tree, {
+        options: {},
+        types: analyzeTypes(code),
+      });
+
+      expect(results.map((r) => [r.line, r.certainty])).toEqual([[8, 'definite']]);
+      expect(results[0].relatedLocations?.[0].line).toBe(3);
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { parseCode } from '../../src/parser';
 import nullableAccess from '../../src/detectors/nullable-access';
+import { analyzeTypes } from '../../src/analysis/typecheck';
 
 describe('nullable_access detector', () => {
   describe('positive cases (should detect)', () => {
@@ -40,6 +41,24 @@ function process(user) {
       expect(results.length).toBe(1);
       expect(results[0].ast_facts.target_identifier).toBe('user');
     });
+
+    it('points at the null assignment', () => {
+      const code = `let user = load();
+user = null;
+console.log(user.name);
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = nullableAccess.detect(code, 'javascript', tree);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].relatedLocations).toEqual([
+        expect.objectContaining({
+          line: 2,
+          column: 1,
+          message: "'user' is set to null/undefined here",
+        }),
+      ]);
+    });
   });
 
   describe('negative cases (should not detect)', () => {
@@ -79,5 +98,148 @@ console.log(data.name);
 
       expect(results.length).toBe(0);
     });
+
+    it('does not flag access after an early return', () => {
+      const code = `
+function process(user) {
+  if (!user) {
+    return 'Unknown';
+  }
+  return user.name;
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = nullableAccess.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(0);
+    });
+
+    it('does not flag access guarded by &&', () => {
+      const code = `
+function process(user) {
+  return user && user.name;
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = nullableAccess.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(0);
+    });
+
+    it('does not flag access after reassignment or ??=', () => {
+      const code = `
+let data = null;
+data = load();
+console.log(data.length);
+
+let cache = null;
+cache ??= {};
+console.log(cache.size);
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = nullableAccess.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(0);
+    });
+
+    it('does not flag Python access after `is None: raise`', () => {
+      const code = `
+def process(user):
+    if user is None:
+        raise ValueError("user required")
+    return user.name
+`;
+      const tree = parseCode(code, 'python');
+      const results = nullableAccess.detect(code, 'python', tree);
+
+      expect(results.length).toBe(0);
+    });
+
+    it('does not flag self in Python methods', () => {
+      const code = `
+class User:
+    def display(self):
+        return self.name
+`;
+      const tree = parseCode(code, 'python');
+      const results = nullableAccess.detect(code, 'python', tree);
+
+      expect(results.length).toBe(0);
+    });
+  });
+
+  describe('certainty', () => {
+    it('is definite when every path reaches the access with null', () => {
+      const code = `
+function show(user) {
+  if (user === null) {
+    console.log(user.name);
+  }
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = nullableAccess.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(1);
+      expect(results[0].certainty).toBe('definite');
+      expect(results[0].severity).toBe('error');
+    });
+
+    it('is possible when only some paths assign null', () => {
+      const code = `
+let data = null;
+if (ready) {
+  data = load();
+}
+console.log(data.length);
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = nullableAccess.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(1);
+      expect(results[0].certainty).toBe('possible');
+      expect(results[0].ast_facts.assigned_null_like_before).toBe(true);
+    });
+
+    it('tracks Python defaults of None through reassignment', () => {
+      const code = `
+def append(item, items=None):
+    if items is None:
+        items = []
+    items.append(item)
+    return items
+
+def first(values=None):
+    return values.pop()
+`;
+      const tree = parseCode(code, 'python');
+      const results = nullableAccess.detect(code, 'python', tree);
+
+      expect(results.map((r) => r.line)).toEqual([9]);
+    });
+  });
+
+  describe('with type information', () => {
+    it('follows the types the compiler narrowed variables to', () => {
+      const code = `
+function format(name: string, label: string | null) {
+  let value: string | null = null;
+  value.length;
+  label.length;
+  return name.length;
+}
+`;
+      const tree = parseCode(code, 'typescript');
+      const results = nullableAccess.detect(code, 'typescript', tree, {
+        options: {},
+        types: analyzeTypes(code),
+      });
+
+      expect(results.map((r) => [r.line, r.certainty])).toEqual([
+        [4, 'definite'],
+        [5, 'possible'],
+      ]);
+      expect(results[0].relatedLocations?.[0].line).toBe(3);
+    });
   });
 });
@@ -117,4 +117,28 @@ for i in range(len(arr) + 1):
       expect(results[0].name).toBe('off_by_one_loop');
     });
   });
+
+  describe('autofix', () => {
+    it('replaces <= with < in for loops', () => {
+      const code = `for (let i = 0; i <= arr.length; i++) {}`;
+      const tree = parseCode(code, 'javascript');
+      const results = offByOneLoop.detect(code, 'javascript', tree);
+
+      expect(results[0].autofix).toEqual({
+        description: "Replace '<=' with '<'",
+        edits: [{ start: code.indexOf('<='), end: code.indexOf('<=') + 2, text: '<' }],
+      });
+    });
+
+    it('drops the + 1 from range(len(x) + 1)', () => {
+      const code = `for i in range(len(items) + 1):
+    pass
+`;
+      const tree = parseCode(code, 'python');
+      const results = offByOneLoop.detect(code, 'python', tree);
+
+      expect(results[0].autofix?.description).toBe("Replace 'len(items) + 1' with 'len(items)'");
+      expect(results[0].autofix?.edits[0].text).toBe('len(items)');
+    });
+  });
 });
@@ -86,4 +86,75 @@ let c = 3;
       expect(results.length).toBe(0);
     });
   });
+
+  describe('autofix', () => {
+    it('suggests const for variables that are never reassigned', () => {
+      const code = `var name = 'a';
+var count = 0;
+count += 1;
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = varUsage.detect(code, 'javascript', tree);
+
+      expect(results.map((r) => r.autofix?.description)).toEqual([
+        "Replace 'var' with 'const'",
+        "Replace 'var' with 'let'",
+      ]);
+      expect(results[0].autofix?.edits).toEqual([{ start: 0, end: 3, text: 'const' }]);
+    });
+
+    it('does not offer a fix when block scoping would change behavior', () => {
+      const code = `
+function f(flag) {
+  if (flag) {
+    var result = 1;
+  }
+  for (var i = 0; i < 3; i++) {}
+  return result + i;
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = varUsage.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(2);
+      expect(results.every((r) => r.autofix === undefined)).toBe(true);
+    });
+
+    it('does not offer a fix for hoisted or redeclared names', () => {
+      const code = `
+console.log(early);
+var early = 1;
+var twice = 1;
+var twice = 2;
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = varUsage.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(3);
+      expect(results.every((r) => r.autofix === undefined)).toBe(true);
+    });
+
+    it('does not offer a fix for names a function or class in the same scope declares', () => {
+      const code = `
+var foo = 1;
+function foo() {}
+var Bar = 2;
+export class Bar {}
+function outer() {
+  var local = 3;
+  var inner = 4;
+  function* inner() {}
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = varUsage.detect(code, 'javascript', tree);
+
+      expect(results.map((r) => [r.line, r.autofix?.description])).toEqual([
+        [2, undefined],
+        [4, undefined],
+        [7, "Replace 'var' with 'const'"],
+        [8, undefined],
+      ]);
+    });
+  });
 });
@@ -66,6 +66,36 @@ function test() {
       expect(results[0].ast_facts.outer_declaration_line).toBe(1);
       expect(results[0].ast_facts.inner_declaration_line).toBe(4);
     });
+
+    it('points at the outer declaration', () => {
+      const code = `const count = 0;
+function tally() {
+  let count = 1;
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = variableShadowing.detect(code, 'javascript', tree);
+
+      expect(results[0]).toMatchObject({
+        line: 3,
+        column: 7,
+        endLine: 3,
+        endColumn: 12,
+        startOffset: code.indexOf('count = 1'),
+        endOffset: code.indexOf('count = 1') + 5,
+        relatedLocations: [
+          {
+            line: 1,
+            column: 7,
+            endLine: 1,
+            endColumn: 12,
+            startOffset: 6,
+            endOffset: 11,
+            message: "Outer declaration of 'count'",
+          },
+        ],
+      });
+    });
   });
 
   describe('negative cases (should not detect)', () => {
@@ -110,5 +140,86 @@ function test() {
 
       expect(results.length).toBe(0);
     });
+
+    it('does not flag the self-name of a named function expression', () => {
+      const code = `
+const retry = function retry(count) {
+  return count > 0 ? retry(count - 1) : 0;
+};
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = variableShadowing.detect(code, 'javascript', tree);
+
+      expect(results.length).toBe(0);
+    });
+
+    it('does not flag Python class attributes', () => {
+      const code = `
+name = 'module'
+
+class User:
+    name = 'user'
+`;
+      const tree = parseCode(code, 'python');
+      const results = variableShadowing.detect(code, 'python', tree);
+
+      expect(results.length).toBe(0);
+    });
+  });
+
+  describe('declaration forms', () => {
+    it('detects destructured and catch bindings', () => {
+      const code = `
+const user = {};
+const message = '';
+function load({ user }) {
+  try {
+    return user;
+  } catch ({ message }) {
+    return message;
+  }
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = variableShadowing.detect(code, 'javascript', tree);
+
+      expect(results.map((r) => r.ast_facts.name)).toEqual(['user', 'message']);
+    });
+
+    it('detects Python assignments and parameters shadowing module names', () => {
+      const code = `
+import json
+total = 0
+
+def add(json, value):
+    total = value
+    return total
+`;
+      const tree = parseCode(code, 'python');
+      const results = variableShadowing.detect(code, 'python', tree);
+
+      expect(results.map((r) => [r.ast_facts.name, r.ast_facts.outer_declaration_line])).toEqual([
+        ['json', 2],
+        ['total', 3],
+      ]);
+    });
+  });
+
+  describe('options', () => {
+    it('replaces the default ignored names with ignoredNames', () => {
+      const code = `
+const err = 1;
+const ctx = 2;
+function handle(err, ctx) {
+  return err + ctx;
+}
+`;
+      const tree = parseCode(code, 'javascript');
+      const results = variableShadowing.detect(code, 'javascript', tree, {
+        options: { ignoredNames: ['ctx'] },
+      });
+
+      expect(results.map((r) => r.ast_facts.name)).toEqual(['err']);
+    });
   });
 });
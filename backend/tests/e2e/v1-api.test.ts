@@ -1,5 +1,6 @@
 import request from 'supertest';
 import app, { initializeApp } from '../../src/index';
+import { jobQueue } from '../../src/jobs';
 
 describe('API v1 Routes', () => {
   beforeAll(async () => {
@@ -86,6 +87,89 @@ except:
       expect(response.body).toHaveProperty('error', 'Validation failed');
     });
 
+    it('applies rule configuration from options', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({
+          code: 'var x = 1; if (x == null) { console.log("test"); }',
+          language: 'javascript',
+          options: {
+            rules: {
+              console_log_left: 'off',
+              var_usage: 'error',
+              double_equals: { options: { allowNullComparison: true } },
+            },
+          },
+        })
+        .expect(200);
+
+      expect(response.body.mistakes).toHaveLength(1);
+      expect(response.body.mistakes[0]).toMatchObject({ name: 'var_usage', severity: 'error' });
+    });
+
+    it('returns validation error for invalid rule options', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({
+          code: 'const x = 1;',
+          language: 'javascript',
+          options: { rules: { double_equals: { options: { allowNullComparison: 1 } } } },
+        })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+      expect(response.body.details[0].field).toBe(
+        'options.rules.double_equals.options.allowNullComparison'
+      );
+    });
+
+    it('only runs included rules', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({
+          code: 'var x = 1;\nasync function load() {\n  fetch("/api");\n  if (x == 2) {}\n}',
+          language: 'javascript',
+          include: ['missing_await', 'no_error_handling'],
+        })
+        .expect(200);
+
+      const mistakeNames = response.body.mistakes.map((m: { name: string }) => m.name);
+      expect(mistakeNames.length).toBeGreaterThan(0);
+      mistakeNames.forEach((name: string) => {
+        expect(['missing_await', 'no_error_handling']).toContain(name);
+      });
+    });
+
+    it('applies minConfidence and minSeverity', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({
+          code: 'var x = 1; if (x == 2) { console.log("test"); }',
+          language: 'javascript',
+          minConfidence: 0.5,
+          minSeverity: 'warning',
+        })
+        .expect(200);
+
+      const mistakeNames = response.body.mistakes.map((m: { name: string }) => m.name);
+      expect(mistakeNames).toEqual(['double_equals']);
+    });
+
+    it('returns validation error listing valid rules for unknown names', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({
+          code: 'const x = 1;',
+          language: 'javascript',
+          exclude: ['semicolons'],
+        })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+      expect(response.body.details[0].field).toBe('exclude.0');
+      expect(response.body.details[0].message).toContain('double_equals');
+    });
+
     it('returns mistake with all required fields', async () => {
       const response = await request(app)
         .post('/api/v1/analyze')
@@ -111,6 +195,510 @@ except:
       expect(mistake).toHaveProperty('explanation');
       expect(mistake).toHaveProperty('fix');
     });
+
+    it('reports syntax errors in diagnostics', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({
+          code: 'if (x == 1 {\n}',
+          language: 'javascript',
+        })
+        .expect(200);
+
+      expect(response.body.diagnostics).toEqual({
+        syntaxErrors: [expect.objectContaining({ kind: 'missing', line: 1, message: "Missing ')'" })],
+        failedDetectors: [],
+        skippedDetectors: [],
+      });
+      expect(response.body.mistakes[0]).toMatchObject({ name: 'double_equals', certainty: 'heuristic' });
+    });
+
+    it('reports columns in the requested position encoding', async () => {
+      const code = 'const s = "é😀"; if (s == 1) {}\n';
+      const analyze = (positionEncoding?: string) =>
+        request(app).post('/api/v1/analyze').send({ code, language: 'javascript', positionEncoding });
+
+      const utf16 = await analyze().expect(200);
+      const utf8 = await analyze('utf-8').expect(200);
+      const codePoints = await analyze('code-points').expect(200);
+
+      expect(utf16.body.positionEncoding).toBe('utf-16');
+      expect(utf16.body.mistakes[0]).toMatchObject({ name: 'double_equals', column: 24, startOffset: 23 });
+      expect(utf8.body.positionEncoding).toBe('utf-8');
+      expect(utf8.body.mistakes[0]).toMatchObject({ column: 27, startOffset: 23 });
+      expect(codePoints.body.mistakes[0]).toMatchObject({ column: 23, startOffset: 23 });
+      await analyze('latin-1').expect(400);
+    });
+
+    it('uses compiler types for TypeScript with typeCheck', async () => {
+      const code = 'async function run(id: number, limit: number) {\n  fetch(`/items/${id}`);\n  return id == limit;\n}\n';
+      const analyze = (typeCheck?: boolean) =>
+        request(app).post('/api/v1/analyze').send({ code, language: 'typescript', include: ['missing_await', 'double_equals'], typeCheck });
+
+      const plain = await analyze().expect(200);
+      const typed = await analyze(true).expect(200);
+
+      expect(plain.body.mistakes.map((m: { name: string }) => m.name)).toEqual(['double_equals']);
+      expect(typed.body.mistakes).toEqual([
+        expect.objectContaining({ name: 'missing_await', line: 2, certainty: 'definite' }),
+      ]);
+      await analyze('yes' as unknown as boolean).expect(400);
+    });
+
+    it('only reports findings that are not in the baseline', async () => {
+      const code = 'var x = 1;\nif (x == 2) {}\n';
+      const first = await request(app)
+        .post('/api/v1/analyze')
+        .send({ code, language: 'javascript' })
+        .expect(200);
+      const varUsage = first.body.mistakes.find((m: { name: string }) => m.name === 'var_usage');
+
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({
+          code: `${code}var y = x;\n`,
+          language: 'javascript',
+          baseline: {
+            entries: [
+              { fingerprint: varUsage.fingerprint, name: 'var_usage', line: 1, message: varUsage.message },
+              { fingerprint: 'fixed000fixed000', name: 'empty_catch', line: 9, message: 'Empty catch' },
+            ],
+          },
+        })
+        .expect(200);
+
+      expect(response.body.mistakes.map((m: { line: number }) => m.line)).toEqual([2, 3]);
+      expect(response.body.baseline).toEqual({
+        matched: 1,
+        fixed: [{ fingerprint: 'fixed000fixed000', name: 'empty_catch', line: 9, message: 'Empty catch' }],
+      });
+    });
+
+    it('uses the findings of a saved snippet as the baseline', async () => {
+      const code = 'var x = 1;\n';
+      const analysis = await request(app)
+        .post('/api/v1/analyze')
+        .send({ code, language: 'javascript' })
+        .expect(200);
+      const saved = await request(app)
+        .post('/api/v1/save')
+        .send({ code, language: 'javascript', results: analysis.body })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .send({ code: `// header\n${code}`, language: 'javascript', baseline: { snippetId: saved.body.id } })
+        .expect(200);
+
+      expect(response.body.mistakes).toEqual([]);
+      expect(response.body.score).toBe(10);
+      expect(response.body.baseline).toEqual({ matched: 1, fixed: [] });
+
+      await request(app)
+        .post('/api/v1/analyze')
+        .send({ code, language: 'javascript', baseline: { snippetId: 'missing123' } })
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/v1/analyze (streaming)', () => {
+    const body = { code: 'var x = 1;\nif (x == 2) {}\n', language: 'javascript' };
+
+    // Buffer a streamed response as text
+    const collect = (res: request.Response, done: (error: Error | null, text: string) => void) => {
+      let text = '';
+      res.on('data', (chunk) => (text += chunk));
+      res.on('end', () => done(null, text));
+    };
+
+    const checkEvents = async (events: { event: string; data: Record<string, unknown> }[]) => {
+      const plain = await request(app).post('/api/v1/analyze').send(body).expect(200);
+
+      expect(events[0]).toEqual({
+        event: 'detector-start',
+        data: { detector: expect.any(String) },
+      });
+      const findings = events.filter((event) => event.event === 'finding');
+      expect(findings.map((event) => (event.data.mistake as { id: number }).id).sort()).toEqual(
+        plain.body.mistakes.map((mistake: { id: number }) => mistake.id).sort()
+      );
+      expect(events[events.length - 1]).toEqual({ event: 'summary', data: plain.body });
+    };
+
+    it('streams Server-Sent Events', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .set('Accept', 'text/event-stream')
+        .send(body)
+        .buffer(true)
+        .parse(collect)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      const events = (response.body as string)
+        .trim()
+        .split('\n\n')
+        .map((block) => {
+          const [event, data] = block.split('\n');
+          return {
+            event: event.replace('event: ', ''),
+            data: JSON.parse(data.replace('data: ', '')),
+          };
+        });
+      await checkEvents(events);
+      expect(events).toContainEqual({
+        event: 'detector-done',
+        data: { detector: 'var_usage', findings: 1 },
+      });
+    });
+
+    it('streams newline-delimited JSON', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .set('Accept', 'application/x-ndjson')
+        .send(body)
+        .buffer(true)
+        .parse(collect)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      await checkEvents(
+        (response.body as string)
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line))
+      );
+    });
+
+    it('returns ordinary errors before the first event', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze')
+        .set('Accept', 'text/event-stream')
+        .send({ code: '', language: 'javascript' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+    });
+  });
+
+  describe('POST /api/v1/analyze/project', () => {
+    it('analyzes the files together and groups the findings by file', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze/project')
+        .send({
+          files: {
+            'src/api.ts': 'export async function fetchUser(id: string) {\n  return { id };\n}\n',
+            'src/page.ts': 'import { fetchUser } from "./api";\n\nexport function render() {\n  fetchUser("42");\n}\n',
+          },
+          include: ['missing_await'],
+        })
+        .expect(200);
+
+      expect(response.body.summary).toEqual({ files: 2, mistakes: 1, score: 9.7 });
+      expect(response.body.files['src/page.ts']).toMatchObject({
+        language: 'typescript',
+        score: 9.5,
+        mistakes: [
+          {
+            name: 'missing_await',
+            line: 4,
+            relatedLocations: [{ file: 'src/api.ts', line: 1, column: 23 }],
+          },
+        ],
+      });
+    });
+
+    it('returns 400 for unknown languages and empty projects', async () => {
+      const unknown = await request(app)
+        .post('/api/v1/analyze/project')
+        .send({ files: { 'notes.txt': 'hello' } })
+        .expect(400);
+
+      expect(unknown.body.message).toBe("Cannot infer the language of 'notes.txt'");
+      await request(app).post('/api/v1/analyze/project').send({ files: {} }).expect(400);
+    });
+
+    it('takes projects within the file budget whose body is over 1 MB', async () => {
+      const code = '€'.repeat(90000);
+      const files = Object.fromEntries(
+        Array.from({ length: 10 }, (_, index) => [`notes-${index}.txt`, code])
+      );
+      const response = await request(app)
+        .post('/api/v1/analyze/project')
+        .send({ files })
+        .expect(400);
+
+      expect(response.body.message).toBe("Cannot infer the language of 'notes-0.txt'");
+    });
+  });
+
+  describe('POST /api/v1/analyze/batch', () => {
+    it('analyzes every item and reports invalid items without failing the batch', async () => {
+      const response = await request(app)
+        .post('/api/v1/analyze/batch')
+        .send({
+          items: [
+            { id: 'one.js', code: 'var x = 1;\n', language: 'javascript' },
+            { id: 'two.py', code: 'x = 1\n', language: 'python' },
+            { id: 'three', code: 'x = 1', language: 'cobol' },
+            { id: 'four', code: '', language: 'javascript' },
+          ],
+          include: ['var_usage'],
+        })
+        .expect(200);
+
+      expect(response.body.summary).toEqual({ items: 4, succeeded: 2, failed: 2, mistakes: 1 });
+      expect(response.body.results.map((result: { id: string }) => result.id)).toEqual([
+        'one.js',
+        'two.py',
+        'three',
+        'four',
+      ]);
+      expect(response.body.results[0].mistakes).toEqual([
+        expect.objectContaining({ name: 'var_usage', line: 1 }),
+      ]);
+      expect(response.body.results[1]).toMatchObject({ mistakes: [], score: 10 });
+      expect(response.body.results[2]).toEqual({
+        id: 'three',
+        error: 'Validation failed',
+        details: [expect.objectContaining({ field: 'language' })],
+      });
+      expect(response.body.results[3].details).toEqual([
+        { field: 'code', message: 'Code cannot be empty' },
+      ]);
+    });
+
+    it('returns 400 for duplicate IDs and batches over the size budget', async () => {
+      const item = { id: 'a', code: 'x', language: 'javascript' };
+      const duplicate = await request(app)
+        .post('/api/v1/analyze/batch')
+        .send({ items: [item, item] })
+        .expect(400);
+      expect(duplicate.body.details[0].message).toBe('Item IDs must be unique');
+
+      const code = 'x'.repeat(90000);
+      const items = Array.from({ length: 10 }, (_, index) => ({
+        id: String(index),
+        code,
+        language: 'javascript',
+      }));
+      const tooLarge = await request(app).post('/api/v1/analyze/batch').send({ items }).expect(400);
+      expect(tooLarge.body.details[0].message).toContain('in total');
+
+      await request(app).post('/api/v1/analyze/batch').send({ items: [] }).expect(400);
+    });
+
+    it('takes batches within the size budget whose body is over 1 MB', async () => {
+      const code = '€'.repeat(90000);
+      const items = Array.from({ length: 7 }, (_, index) => ({
+        id: String(index),
+        code,
+        language: 'cobol',
+      }));
+      const response = await request(app).post('/api/v1/analyze/batch').send({ items }).expect(200);
+
+      expect(response.body.summary).toEqual({ items: 7, succeeded: 0, failed: 7, mistakes: 0 });
+    });
+  });
+
+  describe('POST /api/v1/fix', () => {
+    it('applies fixes and returns the patched code with a diff', async () => {
+      const response = await request(app)
+        .post('/api/v1/fix')
+        .send({
+          code: "var x = 1;\nif (typeof x == 'number') {}\n",
+          language: 'javascript',
+        })
+        .expect(200);
+
+      expect(response.body.code).toBe("const x = 1;\nif (typeof x === 'number') {}\n");
+      expect(response.body.diff).toContain("+if (typeof x === 'number') {}");
+      expect(response.body.applied).toHaveLength(2);
+      expect(response.body.skipped).toEqual([]);
+    });
+
+    it('applies only the selected mistake ids', async () => {
+      const code = "if (typeof a == 'string') {}\nif (typeof b == 'number') {}\n";
+      const analysis = await request(app)
+        .post('/api/v1/analyze')
+        .send({ code, language: 'javascript' })
+        .expect(200);
+      const id = analysis.body.mistakes.find((m: { line: number }) => m.line === 2).id;
+
+      const response = await request(app)
+        .post('/api/v1/fix')
+        .send({ code, language: 'javascript', ids: [id] })
+        .expect(200);
+
+      expect(response.body.code).toBe("if (typeof a == 'string') {}\nif (typeof b === 'number') {}\n");
+    });
+
+    it('returns validation error for unknown rules', async () => {
+      const response = await request(app)
+        .post('/api/v1/fix')
+        .send({ code: 'x == 1', language: 'javascript', rules: ['equals'] })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+    });
+  });
+
+  describe('/api/v1/sessions', () => {
+    it('opens a session, applies edits and closes it', async () => {
+      const created = await request(app)
+        .post('/api/v1/sessions')
+        .send({ code: 'let a = 1;\n', language: 'javascript' })
+        .expect(201);
+
+      expect(created.body.sessionId).toEqual(expect.any(String));
+      expect(created.body.mistakes).toEqual([]);
+
+      const edited = await request(app)
+        .post(`/api/v1/sessions/${created.body.sessionId}/edits`)
+        .send({
+          edits: [
+            { start: { line: 2, column: 1 }, end: { line: 2, column: 1 }, text: 'if (a == 2) {}' },
+          ],
+        })
+        .expect(200);
+
+      expect(edited.body.mistakes.map((m: { name: string }) => m.name)).toContain('double_equals');
+      expect(edited.body.score).toBeLessThan(10);
+
+      await request(app).delete(`/api/v1/sessions/${created.body.sessionId}`).expect(204);
+      await request(app).delete(`/api/v1/sessions/${created.body.sessionId}`).expect(404);
+    });
+
+    it('returns 404 for unknown sessions', async () => {
+      const response = await request(app)
+        .post('/api/v1/sessions/unknown/edits')
+        .send({
+          edits: [{ start: { line: 1, column: 1 }, end: { line: 1, column: 1 }, text: 'x' }],
+        })
+        .expect(404);
+
+      expect(response.body.message).toBe('Session not found or expired');
+    });
+
+    it('returns 400 for edits outside the document', async () => {
+      const created = await request(app)
+        .post('/api/v1/sessions')
+        .send({ code: 'let a = 1;', language: 'javascript' })
+        .expect(201);
+
+      const response = await request(app)
+        .post(`/api/v1/sessions/${created.body.sessionId}/edits`)
+        .send({
+          edits: [{ start: { line: 5, column: 1 }, end: { line: 5, column: 1 }, text: 'x' }],
+        })
+        .expect(400);
+
+      expect(response.body.message).toBe('Position 5:1 is outside the document');
+      await request(app).delete(`/api/v1/sessions/${created.body.sessionId}`).expect(204);
+    });
+
+    it('rejects analyze fields sessions do not support', async () => {
+      for (const field of [{ typeCheck: true }, { positionEncoding: 'utf-8' }]) {
+        const response = await request(app)
+          .post('/api/v1/sessions')
+          .send({ code: 'let a = 1;', language: 'typescript', ...field })
+          .expect(400);
+
+        expect(response.body.details[0].message).toContain(Object.keys(field)[0]);
+      }
+    });
+
+    it('validates the edits body', async () => {
+      const response = await request(app)
+        .post('/api/v1/sessions/abc/edits')
+        .send({ edits: [] })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Validation failed');
+    });
+  });
+
+  describe('/api/v1/jobs', () => {
+    it('queues an analysis and returns its result when done', async () => {
+      const created = await request(app)
+        .post('/api/v1/jobs')
+        .send({ kind: 'analyze', request: { code: 'var x = 1;\n', language: 'javascript' } })
+        .expect(202);
+
+      expect(created.body).toMatchObject({ kind: 'analyze', status: 'queued' });
+      expect(created.headers.location).toBe(`/api/v1/jobs/${created.body.id}`);
+
+      await jobQueue.whenIdle();
+      const job = await request(app).get(`/api/v1/jobs/${created.body.id}`).expect(200);
+
+      expect(job.body.status).toBe('completed');
+      expect(job.body.progress.completed).toBe(job.body.progress.total);
+      expect(job.body.result.mistakes.map((m: { name: string }) => m.name)).toContain('var_usage');
+      expect(job.body).not.toHaveProperty('request');
+
+      const cancelled = await request(app).delete(`/api/v1/jobs/${created.body.id}`).expect(409);
+      expect(cancelled.body.message).toBe('Job has already finished');
+    });
+
+    it('runs batch jobs like the batch endpoint', async () => {
+      const created = await request(app)
+        .post('/api/v1/jobs')
+        .send({
+          kind: 'batch',
+          request: {
+            items: [
+              { id: 'a', code: 'var x = 1;\n', language: 'javascript' },
+              { id: 'b', code: 'x = 1', language: 'cobol' },
+            ],
+            include: ['var_usage'],
+          },
+        })
+        .expect(202);
+
+      await jobQueue.whenIdle();
+      const job = await request(app).get(`/api/v1/jobs/${created.body.id}`).expect(200);
+
+      expect(job.body.progress).toEqual({ completed: 2, total: 2 });
+      expect(job.body.result.summary).toEqual({ items: 2, succeeded: 1, failed: 1, mistakes: 1 });
+    });
+
+    it('returns 404 for unknown jobs and 400 for invalid requests', async () => {
+      await request(app).get('/api/v1/jobs/unknown').expect(404);
+      await request(app).delete('/api/v1/jobs/unknown').expect(404);
+
+      const remote = await request(app)
+        .post('/api/v1/jobs')
+        .send({
+          kind: 'analyze',
+          request: { code: 'x', language: 'javascript' },
+          callbackUrl: 'https://example.com/hook',
+        })
+        .expect(400);
+      expect(remote.body.details[0]).toEqual({
+        field: 'callbackUrl',
+        message: 'Callback URL must point to localhost',
+      });
+
+      await request(app)
+        .post('/api/v1/jobs')
+        .send({ kind: 'compile', request: { code: 'x', language: 'javascript' } })
+        .expect(400);
+    });
+
+    it('takes jobs within the batch budget whose body is over 1 MB', async () => {
+      const code = '€'.repeat(90000);
+      const items = Array.from({ length: 7 }, (_, index) => ({
+        id: String(index),
+        code,
+        language: 'cobol',
+      }));
+      await request(app)
+        .post('/api/v1/jobs')
+        .send({ kind: 'batch', request: { items } })
+        .expect(202);
+
+      await jobQueue.whenIdle();
+    });
   });
 
   describe('POST /api/v1/save and GET /api/v1/snippet/:id', () => {
@@ -0,0 +1,243 @@
+import { analyze, AnalysisCache, selectDetectors, sortMistakes } from '../../src/engine';
+import { missingAwait, doubleEquals, variableShadowing } from '../../src/detectors';
+import { AnalysisEvent, DetectorContext } from '../../src/types';
+
+describe('analysis engine', () => {
+  const code = `
+var total = 0;
+if (total == 1) {
+  console.log(total);
+}
+`;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the analyze response plus metadata', () => {
+    const { response, metadata } = analyze(code, 'javascript');
+
+    const names = response.mistakes.map((m) => m.name);
+    expect(names).toEqual(
+      expect.arrayContaining(['var_usage', 'double_equals', 'console_log_left'])
+    );
+    expect(response.score).toBeLessThan(10);
+    expect(response.scoring?.normalizedPenalty).toBeGreaterThan(0);
+    expect(response.scoring?.linesOfCode).toBe(4);
+    expect(metadata.language).toBe('javascript');
+    expect(metadata.detectors).toContain('double_equals');
+    expect(metadata.timedOut).toBe(false);
+  });
+
+  it('sorts explained mistakes by position', () => {
+    const { response } = analyze(code, 'javascript');
+
+    const lines = response.mistakes.map((m) => m.line);
+    expect(lines).toEqual([...lines].sort((a, b) => a - b));
+    expect(response.mistakes.every((m) => m.explanation.length > 0)).toBe(true);
+  });
+
+  it('only runs included detectors', () => {
+    const { response, metadata } = analyze(code, 'javascript', { include: ['double_equals'] });
+
+    expect(metadata.detectors).toEqual(['double_equals']);
+    expect(response.mistakes.every((m) => m.name === 'double_equals')).toBe(true);
+  });
+
+  it('skips excluded detectors', () => {
+    const { metadata } = analyze(code, 'javascript', { exclude: ['var_usage'] });
+
+    expect(metadata.detectors).not.toContain('var_usage');
+  });
+
+  it('drops findings below the severity floor', () => {
+    const { response } = analyze(code, 'javascript', { minSeverity: 'warning' });
+
+    expect(response.mistakes.some((m) => m.severity === 'info')).toBe(false);
+    expect(response.mistakes.some((m) => m.name === 'double_equals')).toBe(true);
+  });
+
+  it('drops findings below the confidence floor', () => {
+    const { response } = analyze(code, 'javascript', { minConfidence: 0.5 });
+
+    expect(response.mistakes.map((m) => m.name)).toEqual(['double_equals']);
+  });
+
+  it('selects detectors by language', () => {
+    const names = selectDetectors('python').map((d) => d.name);
+
+    expect(names).not.toContain('double_equals');
+    expect(names).toContain('empty_catch');
+  });
+
+  it('shares one scope analysis between detectors', () => {
+    const seen: DetectorContext['scopes'][] = [];
+    jest
+      .spyOn(missingAwait, 'createVisitor')
+      .mockImplementation((_code, _language, _tree, context) => ({
+        nodeTypes: [],
+        visit() {},
+        finish() {
+          seen.push(context?.scopes);
+          return [];
+        },
+      }));
+    jest
+      .spyOn(variableShadowing, 'detect')
+      .mockImplementation((_code, _language, _tree, context) => {
+        seen.push(context?.scopes);
+        return [];
+      });
+
+    analyze(code, 'javascript');
+
+    expect(seen).toHaveLength(2);
+    expect(seen[0]).toBeDefined();
+    expect(seen[0]).toBe(seen[1]);
+  });
+
+  it('reports failing detectors without failing the analysis', () => {
+    jest.spyOn(doubleEquals, 'createVisitor').mockReturnValue({
+      nodeTypes: ['binary_expression'],
+      visit() {
+        throw new Error('boom');
+      },
+      finish: () => [],
+    });
+
+    const { response, metadata } = analyze(code, 'javascript');
+
+    expect(metadata.failedDetectors).toEqual(['double_equals']);
+    expect(response.mistakes.some((m) => m.name === 'var_usage')).toBe(true);
+    expect(response.diagnostics?.failedDetectors).toEqual(['double_equals']);
+  });
+
+  it('fills in the range of results that only have a position', () => {
+    jest.spyOn(doubleEquals, 'createVisitor').mockReturnValue({
+      nodeTypes: [],
+      visit() {},
+      finish: () => [
+        {
+          name: 'double_equals',
+          line: 3,
+          column: 11,
+          severity: 'warning',
+          certainty: 'definite',
+          confidence: 1,
+          scope: 'local',
+          message: 'Use ===',
+          ast_facts: {},
+        },
+      ],
+    });
+
+    const { response } = analyze(code, 'javascript', { include: ['double_equals'] });
+
+    // The smallest named node at 3:11 is the comparison
+    expect(response.mistakes[0]).toMatchObject({
+      line: 3,
+      column: 11,
+      endLine: 3,
+      endColumn: 15,
+      endOffset: code.indexOf('total == 1') + 'total == 1'.length,
+    });
+  });
+
+  it('finishes visitors but skips detect()-only detectors once the timeout is exceeded', () => {
+    jest.spyOn(missingAwait, 'createVisitor').mockReturnValue({
+      nodeTypes: [],
+      visit() {},
+      finish() {
+        const start = Date.now();
+        while (Date.now() - start < 300) {
+          // busy wait
+        }
+        return [];
+      },
+    });
+
+    const { response, metadata } = analyze(code, 'javascript', { timeoutMs: 200 });
+
+    expect(metadata.timedOut).toBe(true);
+    expect(metadata.detectors).toEqual(expect.arrayContaining(['missing_await', 'double_equals']));
+    expect(metadata.skippedDetectors).toEqual([variableShadowing.name]);
+    expect(response.mistakes.map((m) => m.name)).toContain('double_equals');
+    expect(response.partial).toBe(true);
+    expect(response.timedOutDetectors).toEqual(metadata.skippedDetectors);
+    expect(response.diagnostics?.skippedDetectors).toEqual(metadata.skippedDetectors);
+  });
+
+  it('cuts the traversal short once the timeout is exceeded', () => {
+    let visits = 0;
+    jest.spyOn(doubleEquals, 'createVisitor').mockReturnValue({
+      nodeTypes: ['identifier'],
+      visit() {
+        visits++;
+        const start = Date.now();
+        while (Date.now() - start < 300) {
+          // busy wait
+        }
+      },
+      finish: () => [],
+    });
+
+    const { response, metadata } = analyze(code, 'javascript', { timeoutMs: 200 });
+
+    expect(visits).toBe(1);
+    expect(metadata.timedOut).toBe(true);
+    expect(metadata.detectors).toEqual([]);
+    expect(metadata.skippedDetectors).toEqual(
+      expect.arrayContaining(['double_equals', 'var_usage', variableShadowing.name])
+    );
+    expect(response.mistakes).toEqual([]);
+  });
+
+  it('reports progress as each detector finishes', () => {
+    const events: AnalysisEvent[] = [];
+    jest.spyOn(doubleEquals, 'createVisitor').mockImplementation(() => {
+      throw new Error('Detector crashed');
+    });
+
+    const { response, metadata } = analyze(code, 'javascript', {
+      include: ['var_usage', 'double_equals', 'console_log_left'],
+      onProgress: (event) => events.push(event),
+    });
+
+    const starts = events.filter((event) => event.type === 'detector-start');
+    expect(starts.map((event) => event.detector).sort()).toEqual([
+      'console_log_left',
+      'double_equals',
+      'var_usage',
+    ]);
+    expect(events).toContainEqual({
+      type: 'detector-done',
+      detector: 'double_equals',
+      findings: 0,
+      failed: true,
+    });
+    for (const detector of metadata.detectors) {
+      const done = events.findIndex(
+        (event) => event.type === 'detector-done' && event.detector === detector
+      );
+      expect(events.slice(done + 1)).not.toContainEqual(expect.objectContaining({ detector }));
+    }
+
+    const found = events.flatMap((event) => (event.type === 'finding' ? [event.mistake] : []));
+    expect(sortMistakes(found)).toEqual(response.mistakes);
+  });
+
+  it('replays the progress of cached results', () => {
+    const cache = new AnalysisCache(10);
+    const live: AnalysisEvent[] = [];
+    const replayed: AnalysisEvent[] = [];
+
+    analyze(code, 'javascript', { cache, onProgress: (event) => live.push(event) });
+    const { metadata } = analyze(code, 'javascript', {
+      cache,
+      onProgress: (event) => replayed.push(event),
+    });
+
+    expect(metadata.cached).toBe(true);
+    expect(replayed).toEqual(live);
+  });
+});
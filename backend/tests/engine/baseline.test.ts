@@ -0,0 +1,54 @@
+import { analyze, applyBaseline, createBaseline } from '../../src/engine';
+
+describe('baselines', () => {
+  const code = 'var total = 0;\nif (total == 1) {\n  console.log(total);\n}\n';
+
+  it('records the fingerprinted findings', () => {
+    const { response } = analyze(code, 'javascript');
+
+    const baseline = createBaseline(response.mistakes);
+
+    expect(baseline).toHaveLength(response.mistakes.length);
+    expect(baseline[0]).toEqual({
+      fingerprint: response.mistakes[0].fingerprint,
+      name: response.mistakes[0].name,
+      line: response.mistakes[0].line,
+      message: response.mistakes[0].message,
+    });
+    expect(createBaseline([{ ...response.mistakes[0], fingerprint: undefined }])).toEqual([]);
+  });
+
+  it('reports only new findings after lines are added', () => {
+    const baseline = createBaseline(analyze(code, 'javascript').response.mistakes);
+    const edited = `// totals\n${code}var extra = 1;\n`;
+
+    const response = applyBaseline(analyze(edited, 'javascript').response, baseline);
+
+    expect(response.mistakes.map((m) => [m.name, m.line])).toEqual([['var_usage', 6]]);
+    expect(response.baseline).toEqual({ matched: baseline.length, fixed: [] });
+  });
+
+  it('lists fixed baseline entries and scores the remaining findings', () => {
+    const baseline = createBaseline(analyze(code, 'javascript').response.mistakes);
+    const fixedCode = code.replace('total == 1', 'total === 1');
+
+    const response = applyBaseline(analyze(fixedCode, 'javascript').response, baseline);
+
+    expect(response.mistakes).toEqual([]);
+    expect(response.baseline?.fixed.map((entry) => entry.name)).toEqual(['double_equals']);
+    expect(response.score).toBe(10);
+    expect(response.scoring?.linesOfCode).toBe(4);
+  });
+
+  it('does not count suppressed findings as fixed', () => {
+    const baseline = createBaseline(analyze(code, 'javascript').response.mistakes);
+    const suppressedCode = code.replace(
+      'console.log(total);',
+      'console.log(total); // rookie-ignore console_log_left'
+    );
+
+    const response = applyBaseline(analyze(suppressedCode, 'javascript').response, baseline);
+
+    expect(response.baseline?.fixed.map((entry) => entry.name)).not.toContain('console_log_left');
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  analyze,
+  AnalysisPool,
+  analyzeBatch,
+  BATCH_ANALYSIS_ERROR,
+  BATCH_CANCELLED_ERROR,
+  BATCH_PARSE_ERROR,
+} from '../../src/engine';
+import { Language } from '../../src/types';
+
+describe('batch analysis', () => {
+  const pool = new AnalysisPool({ size: 0, timeoutMs: 1000, maxMemoryMb: 128 });
+
+  it('returns one result per item in input order', async () => {
+    const { results, metadata } = await analyzeBatch(
+      pool,
+      [
+        { id: 'a', code: 'var x = 1;\n', language: 'javascript' },
+        { id: 'b', code: 'def f():\n    pass\n', language: 'python' },
+      ],
+      { include: ['var_usage'] }
+    );
+
+    expect(results).toEqual([
+      { id: 'a', ...analyze('var x = 1;\n', 'javascript', { include: ['var_usage'] }).response },
+      expect.objectContaining({ id: 'b', mistakes: [] }),
+    ]);
+    expect(metadata.map((entry) => entry?.language)).toEqual(['javascript', 'python']);
+  });
+
+  it('turns failures into error results for their item', async () => {
+    const failing = {
+      concurrency: 1,
+      analyze: jest.fn().mockRejectedValue(new Error('Analysis pool closed')),
+    };
+
+    const parsed = await analyzeBatch(pool, [
+      { id: 'bad', code: 'x', language: 'cobol' as Language },
+      { id: 'good', code: 'x', language: 'javascript' },
+    ]);
+    const crashed = await analyzeBatch(failing, [{ id: 'a', code: 'x', language: 'javascript' }]);
+
+    expect(parsed.results[0]).toEqual({ id: 'bad', error: BATCH_PARSE_ERROR });
+    expect(parsed.results[1]).toHaveProperty('mistakes');
+    expect(parsed.metadata[0]).toBeUndefined();
+    expect(crashed.results).toEqual([{ id: 'a', error: BATCH_ANALYSIS_ERROR }]);
+  });
+
+  it('keeps at most the pool concurrency of items in flight', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const counting = {
+      concurrency: 2,
+      analyze: async (code: string, language: Language) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return analyze(code, language);
+      },
+    };
+    const items = Array.from({ length: 5 }, (_, index) => ({
+      id: String(index),
+      code: `const x${index} = 1;\n`,
+      language: 'javascript' as const,
+    }));
+
+    const { results } = await analyzeBatch(counting, items);
+
+    expect(maxRunning).toBe(2);
+    expect(results.map((result) => result.id)).toEqual(['0', '1', '2', '3', '4']);
+  });
+
+  it('reports analyzed items and skips the rest once cancelled', async () => {
+    const controller = new AbortController();
+    const done: number[] = [];
+    const items = ['a', 'b', 'c'].map((id) => ({
+      id,
+      code: 'var x = 1;\n',
+      language: 'javascript' as const,
+    }));
+
+    const { results } = await analyzeBatch(pool, items, {
+      signal: controller.signal,
+      onItemDone: (completed) => {
+        done.push(completed);
+        controller.abort();
+      },
+    });
+
+    expect(done).toEqual([1]);
+    expect(results[0]).toHaveProperty('mistakes');
+    expect(results.slice(1)).toEqual([
+      { id: 'b', error: BATCH_CANCELLED_ERROR },
+      { id: 'c', error: BATCH_CANCELLED_ERROR },
+    ]);
+  });
+
+  it('passes the signal on and cancels the items being analyzed', async () => {
+    const controller = new AbortController();
+    const stoppable = {
+      concurrency: 1,
+      analyze: jest.fn(
+        (_code: string, _language: Language, options: { signal?: AbortSignal }) =>
+          new Promise<never>((_resolve, reject) =>
+            options.signal?.addEventListener('abort', () => reject(new Error('Analysis cancelled')))
+          )
+      ),
+    };
+
+    const batch = analyzeBatch(stoppable, [{ id: 'a', code: 'x', language: 'javascript' }], {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect((await batch).results).toEqual([{ id: 'a', error: BATCH_CANCELLED_ERROR }]);
+  });
+});
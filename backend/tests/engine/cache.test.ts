@@ -0,0 +1,146 @@
+import { analyze, AnalysisCache, createCacheKey, selectDetectors } from '../../src/engine';
+import { detectors, doubleEquals, registerDetector, unregisterDetector } from '../../src/detectors';
+import { acquireParser, releaseParser } from '../../src/parser';
+import { metrics } from '../../src/lib/metrics';
+import { Detector } from '../../src/types';
+
+describe('analysis cache', () => {
+  const code = 'if (a == 1) { console.log(a); }';
+
+  beforeEach(() => {
+    metrics.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('answers a repeated analysis from the cache', () => {
+    const cache = new AnalysisCache(10);
+    const first = analyze(code, 'javascript', { cache });
+    const spy = jest.spyOn(doubleEquals, 'createVisitor');
+
+    const second = analyze(code, 'javascript', { cache });
+
+    expect(spy).not.toHaveBeenCalled();
+    expect(second.response).toEqual(first.response);
+    expect(first.metadata.cached).toBe(false);
+    expect(second.metadata.cached).toBe(true);
+    expect(metrics.getMetrics().cache).toEqual({ hits: 1, misses: 1, hitRate: '50.00%' });
+  });
+
+  it('returns copies that callers can modify', () => {
+    const cache = new AnalysisCache(10);
+    const first = analyze(code, 'javascript', { cache });
+    first.response.mistakes[0].message = 'changed';
+
+    const second = analyze(code, 'javascript', { cache });
+
+    expect(second.response.mistakes[0].message).not.toBe('changed');
+  });
+
+  it('misses when the options change', () => {
+    const cache = new AnalysisCache(10);
+    analyze(code, 'javascript', { cache });
+
+    const filtered = analyze(code, 'javascript', { cache, minSeverity: 'error' });
+    const configured = analyze(code, 'javascript', {
+      cache,
+      config: { rules: { double_equals: 'off' } },
+    });
+
+    expect(filtered.metadata.cached).toBe(false);
+    expect(configured.metadata.cached).toBe(false);
+    expect(configured.metadata.detectors).not.toContain('double_equals');
+    expect(cache.size).toBe(3);
+  });
+
+  it('ignores the key order of rule settings', () => {
+    const options = (rules: Record<string, 'off' | 'warning'>) => ({ config: { rules } });
+    const detectorList = selectDetectors('javascript');
+
+    expect(
+      createCacheKey(code, 'javascript', options({ a: 'off', b: 'warning' }), detectorList)
+    ).toBe(createCacheKey(code, 'javascript', options({ b: 'warning', a: 'off' }), detectorList));
+  });
+
+  it('misses when a detector version changes', () => {
+    const detector: Detector = {
+      name: 'cache_probe',
+      version: '1',
+      supportedLanguages: ['javascript'],
+      detect: () => [],
+    };
+    registerDetector(detector);
+
+    try {
+      const cache = new AnalysisCache(10);
+      analyze(code, 'javascript', { cache });
+      detector.version = '2';
+
+      expect(analyze(code, 'javascript', { cache }).metadata.cached).toBe(false);
+    } finally {
+      unregisterDetector('cache_probe');
+    }
+  });
+
+  it('keys on the versions of the built-in detectors', () => {
+    expect(detectors.filter((detector) => !detector.version)).toEqual([]);
+
+    const before = createCacheKey(code, 'javascript', {}, selectDetectors('javascript'));
+    const { version } = doubleEquals;
+    doubleEquals.version = `${version}-next`;
+    try {
+      expect(createCacheKey(code, 'javascript', {}, selectDetectors('javascript'))).not.toBe(
+        before
+      );
+    } finally {
+      doubleEquals.version = version;
+    }
+  });
+
+  it('does not store results of timed-out or failed analyses', () => {
+    const cache = new AnalysisCache(10);
+    jest.spyOn(doubleEquals, 'createVisitor').mockImplementation(() => {
+      throw new Error('boom');
+    });
+
+    analyze(code, 'javascript', { cache });
+    analyze(code, 'javascript', { cache, timeoutMs: -1 });
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new AnalysisCache(2);
+    const result = analyze(code, 'javascript');
+
+    cache.set('a', result);
+    cache.set('b', result);
+    cache.get('a');
+    cache.set('c', result);
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('stores nothing when its size is 0', () => {
+    const cache = new AnalysisCache(0);
+
+    analyze(code, 'javascript', { cache });
+
+    expect(cache.size).toBe(0);
+    expect(metrics.getMetrics().cache.misses).toBe(1);
+  });
+});
+
+describe('parser pool', () => {
+  it('reuses released parsers', () => {
+    const parser = acquireParser('python');
+    releaseParser('python', parser);
+
+    expect(acquireParser('python')).toBe(parser);
+    releaseParser('python', parser);
+  });
+});
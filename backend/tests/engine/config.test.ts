@@ -0,0 +1,68 @@
+import { analyze, getRuleSettings, normalizeRuleConfig, selectDetectors } from '../../src/engine';
+
+describe('rule configuration', () => {
+  describe('normalizeRuleConfig', () => {
+    it('enables rules that are not configured', () => {
+      expect(normalizeRuleConfig(undefined)).toEqual({ enabled: true, options: {} });
+    });
+
+    it('accepts the shorthand forms', () => {
+      expect(normalizeRuleConfig(false).enabled).toBe(false);
+      expect(normalizeRuleConfig('off').enabled).toBe(false);
+      expect(normalizeRuleConfig('error')).toEqual({
+        enabled: true,
+        severity: 'error',
+        options: {},
+      });
+    });
+
+    it('keeps options from full settings', () => {
+      expect(
+        getRuleSettings(
+          { rules: { double_equals: { options: { allowNullComparison: true } } } },
+          'double_equals'
+        )
+      ).toEqual({ enabled: true, severity: undefined, options: { allowNullComparison: true } });
+    });
+  });
+
+  describe('analyze', () => {
+    it('does not run disabled rules', () => {
+      const names = selectDetectors('javascript', {
+        config: { rules: { var_usage: 'off', double_equals: { enabled: false } } },
+      }).map((detector) => detector.name);
+
+      expect(names).not.toContain('var_usage');
+      expect(names).not.toContain('double_equals');
+      expect(names).toContain('console_log_left');
+    });
+
+    it('overrides severity', () => {
+      const { response } = analyze('if (a == 1) {}', 'javascript', {
+        config: { rules: { double_equals: 'error' } },
+      });
+
+      expect(response.mistakes[0]).toMatchObject({ name: 'double_equals', severity: 'error' });
+    });
+
+    it('passes rule options to detectors', () => {
+      const code = `if (a == null) {}`;
+
+      expect(analyze(code, 'javascript').response.mistakes).toHaveLength(1);
+      expect(
+        analyze(code, 'javascript', {
+          config: { rules: { double_equals: { options: { allowNullComparison: true } } } },
+        }).response.mistakes
+      ).toHaveLength(0);
+    });
+
+    it('applies minSeverity after severity overrides', () => {
+      const { response } = analyze('var a = 1;\nif (a == 1) {}', 'javascript', {
+        minSeverity: 'error',
+        config: { rules: { double_equals: 'error' } },
+      });
+
+      expect(response.mistakes.map((m) => m.name)).toEqual(['double_equals']);
+    });
+  });
+});
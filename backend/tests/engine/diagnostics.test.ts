@@ -0,0 +1,72 @@
+import { parseCode } from '../../src/parser';
+import { analyze, collectSyntaxErrors, lowerCertainty, MAX_SYNTAX_ERRORS } from '../../src/engine';
+
+describe('syntax diagnostics', () => {
+  describe('collectSyntaxErrors', () => {
+    it('reports missing tokens and unparsable text in source order', () => {
+      const code = 'def f(:\n    return 1\n\ny = [1, 2\n';
+      const set = collectSyntaxErrors(parseCode(code, 'python'), code);
+
+      expect(set.errors).toEqual([
+        {
+          kind: 'missing',
+          line: 1,
+          column: 7,
+          endLine: 1,
+          endColumn: 7,
+          message: "Missing ')'",
+        },
+        {
+          kind: 'error',
+          line: 4,
+          column: 1,
+          endLine: 4,
+          endColumn: 10,
+          message: "Unexpected 'y = [1, 2'",
+        },
+      ]);
+    });
+
+    it('marks the lines of top-level statements with syntax errors', () => {
+      const code = 'if (a == 1 {\n  b();\n}\nif (c == 2) {}\n';
+      const set = collectSyntaxErrors(parseCode(code, 'javascript'), code);
+
+      expect(set.size).toBe(1);
+      expect([1, 2, 3, 4].map((line) => set.affects(line))).toEqual([true, true, true, false]);
+    });
+
+    it('finds nothing in valid code', () => {
+      const code = 'const a = 1;\n';
+
+      expect(collectSyntaxErrors(parseCode(code, 'javascript'), code).size).toBe(0);
+    });
+
+    it(`reports at most ${MAX_SYNTAX_ERRORS} errors`, () => {
+      const code = 'let = ;\n'.repeat(MAX_SYNTAX_ERRORS + 10);
+
+      expect(collectSyntaxErrors(parseCode(code, 'javascript'), code).size).toBe(MAX_SYNTAX_ERRORS);
+    });
+  });
+
+  it('lowers certainty one step', () => {
+    expect(lowerCertainty('definite')).toBe('possible');
+    expect(lowerCertainty('possible')).toBe('heuristic');
+    expect(lowerCertainty('heuristic')).toBe('heuristic');
+  });
+
+  it('lowers the certainty of findings in statements with syntax errors', () => {
+    const valid = analyze('if (a == 1) {\n  b();\n}\nif (c == 2) {}\n', 'javascript').response;
+    const broken = analyze('if (a == 1 {\n  b();\n}\nif (c == 2) {}\n', 'javascript').response;
+
+    const certainties = (mistakes: typeof valid.mistakes) =>
+      mistakes.filter((m) => m.name === 'double_equals').map((m) => m.certainty);
+    const [first, second] = certainties(valid.mistakes);
+    expect(certainties(broken.mistakes)).toEqual([lowerCertainty(first), second]);
+    expect(broken.diagnostics?.syntaxErrors).toHaveLength(1);
+    expect(valid.diagnostics).toEqual({
+      syntaxErrors: [],
+      failedDetectors: [],
+      skippedDetectors: [],
+    });
+  });
+});
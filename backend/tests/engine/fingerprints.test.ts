@@ -0,0 +1,68 @@
+import { analyze, normalizeText } from '../../src/engine';
+
+describe('finding fingerprints', () => {
+  const code = `function check(a, b) {
+  if (a == 1) {
+    return b == 2;
+  }
+}
+`;
+
+  const fingerprints = (source: string, rule = 'double_equals') =>
+    analyze(source, 'javascript', { include: [rule] }).response.mistakes.map(
+      (mistake) => mistake.fingerprint
+    );
+
+  it('gives every finding a distinct fingerprint', () => {
+    const result = fingerprints(code);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatch(/^[0-9a-f]{16}$/);
+    expect(new Set(result).size).toBe(2);
+  });
+
+  it('keeps fingerprints when lines are inserted above or the code is re-indented', () => {
+    const moved = `// helper\n\nconst x = 0;\n${code.replace(/\n {2}/g, '\n    ')}`;
+
+    expect(fingerprints(moved)).toEqual(fingerprints(code));
+  });
+
+  it('changes the fingerprint of edited code only', () => {
+    const [first, second] = fingerprints(code);
+
+    const edited = fingerprints(code.replace('b == 2', 'b == 3'));
+
+    expect(edited[0]).toBe(first);
+    expect(edited[1]).not.toBe(second);
+  });
+
+  it('ignores comments on the flagged line', () => {
+    const commented = code.replace('if (a == 1) {', 'if (a == 1) { // first case');
+
+    expect(fingerprints(commented)).toEqual(fingerprints(code));
+  });
+
+  it('depends on the enclosing function', () => {
+    const renamed = code.replace('function check', 'function verify');
+
+    expect(fingerprints(renamed)).not.toEqual(fingerprints(code));
+  });
+
+  it('numbers identical findings by occurrence', () => {
+    const repeated = 'if (a == 1) {}\nif (a == 1) {}\n';
+
+    const [first, second] = fingerprints(repeated);
+
+    expect(second).toBe(`${first}:2`);
+  });
+
+  it('fingerprints suppressed findings too', () => {
+    const { response } = analyze('if (a == 1) {} // rookie-ignore double_equals\n', 'javascript');
+
+    expect(response.suppressed?.[0].fingerprint).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('normalizes whitespace', () => {
+    expect(normalizeText('  a ==\n\t b  ')).toBe('a == b');
+  });
+});
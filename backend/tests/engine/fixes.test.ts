@@ -0,0 +1,193 @@
+import {
+  analyze,
+  AnalysisPool,
+  applyEdits,
+  applyFixes,
+  fixCode,
+  InvalidFixError,
+} from '../../src/engine';
+import { doubleEquals } from '../../src/detectors';
+import { createUnifiedDiff } from '../../src/lib/diff';
+import { Mistake } from '../../src/types';
+
+describe('autofixes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('applyEdits', () => {
+    it('applies edits regardless of order', () => {
+      const code = 'var a = b == c;';
+      const result = applyEdits(code, [
+        { start: 10, end: 12, text: '===' },
+        { start: 0, end: 3, text: 'const' },
+      ]);
+
+      expect(result).toBe('const a = b === c;');
+    });
+  });
+
+  describe('applyFixes', () => {
+    const base = {
+      severity: 'warning',
+      certainty: 'possible',
+      confidence: 0.5,
+      scope: 'local',
+      message: '',
+      ast_facts: {},
+      explanation: '',
+      fix: '',
+    } as const;
+
+    it('skips fixes that overlap an applied fix', () => {
+      const mistakes: Mistake[] = [
+        {
+          ...base,
+          id: 1,
+          name: 'a',
+          line: 1,
+          column: 1,
+          autofix: { description: 'first', edits: [{ start: 0, end: 3, text: 'x' }] },
+        },
+        {
+          ...base,
+          id: 2,
+          name: 'b',
+          line: 1,
+          column: 2,
+          autofix: { description: 'second', edits: [{ start: 1, end: 2, text: 'y' }] },
+        },
+        { ...base, id: 3, name: 'c', line: 2, column: 1 },
+      ];
+
+      const result = applyFixes('abc\n', mistakes);
+
+      expect(result.code).toBe('x\n');
+      expect(result.applied.map((fix) => fix.id)).toEqual([1]);
+      expect(result.skipped).toEqual([
+        expect.objectContaining({ id: 2, reason: 'Conflicts with another fix' }),
+        expect.objectContaining({ id: 3, reason: 'No automatic fix available' }),
+      ]);
+    });
+  });
+
+  describe('fixCode', () => {
+    const pool = new AnalysisPool({ size: 0, timeoutMs: 1000, maxMemoryMb: 128 });
+
+    it('applies every available fix by default', async () => {
+      const code = `var items = [1, 2, 3];
+for (let i = 0; i <= items.length; i++) {
+  if (typeof items[i] == 'number') {}
+}
+`;
+      const result = await fixCode(pool, code, 'javascript');
+
+      expect(result.code).toBe(`const items = [1, 2, 3];
+for (let i = 0; i < items.length; i++) {
+  if (typeof items[i] === 'number') {}
+}
+`);
+      expect(result.applied.map((fix) => fix.name)).toEqual([
+        'var_usage',
+        'off_by_one_loop',
+        'double_equals',
+      ]);
+      expect(result.diff).toContain('\n-var items = [1, 2, 3];\n');
+      expect(result.diff).toContain('\n+const items = [1, 2, 3];\n');
+    });
+
+    it('only applies the selected mistakes', async () => {
+      const code = "if (typeof a == 'string') {}\nif (typeof b != 'number') {}\n";
+      const { response } = analyze(code, 'javascript');
+      const second = response.mistakes.find((m) => m.line === 2)!;
+
+      const result = await fixCode(pool, code, 'javascript', { ids: [second.id, 99] });
+
+      expect(result.code).toBe("if (typeof a == 'string') {}\nif (typeof b !== 'number') {}\n");
+      expect(result.skipped).toEqual([{ id: 99, reason: 'No mistake with this id' }]);
+    });
+
+    it('only applies fixes for the selected rules', async () => {
+      const code = "var a = 1;\nif (typeof a == 'number') {}\n";
+      const result = await fixCode(pool, code, 'javascript', { rules: ['double_equals'] });
+
+      expect(result.code).toBe("var a = 1;\nif (typeof a === 'number') {}\n");
+    });
+
+    it('fixes python range(len(x) + 1)', async () => {
+      const code = `for i in range(len(items) + 1):
+    print(items[i])
+`;
+      const result = await fixCode(pool, code, 'python', { rules: ['off_by_one_loop'] });
+
+      expect(result.code).toContain('for i in range(len(items)):');
+    });
+
+    it('rejects fixes that break the syntax', async () => {
+      jest.spyOn(doubleEquals, 'createVisitor').mockReturnValue({
+        nodeTypes: [],
+        visit() {},
+        finish: () => [
+          {
+            name: 'double_equals',
+            line: 1,
+            column: 1,
+            severity: 'warning',
+            certainty: 'possible',
+            confidence: 0.6,
+            scope: 'local',
+            message: 'broken',
+            ast_facts: {},
+            autofix: { description: 'break it', edits: [{ start: 0, end: 0, text: '}' }] },
+          },
+        ],
+      });
+
+      await expect(fixCode(pool, 'const a = 1;', 'javascript')).rejects.toThrow(InvalidFixError);
+    });
+
+    it('returns an empty diff when nothing is fixed', async () => {
+      const result = await fixCode(pool, 'const a = 1;\n', 'javascript');
+
+      expect(result.code).toBe('const a = 1;\n');
+      expect(result.diff).toBe('');
+      expect(result.applied).toEqual([]);
+    });
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('produces hunks with context and line ranges', () => {
+      const before =
+        ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n') + '\n';
+      const after = before.replace('\n2\n', '\ntwo\n').replace('\n10\n', '\n');
+
+      expect(createUnifiedDiff(before, after)).toBe(
+        [
+          '--- a/code',
+          '+++ b/code',
+          '@@ -1,5 +1,5 @@',
+          ' 1',
+          '-2',
+          '+two',
+          ' 3',
+          ' 4',
+          ' 5',
+          '@@ -7,6 +7,5 @@',
+          ' 7',
+          ' 8',
+          ' 9',
+          '-10',
+          ' 11',
+          ' 12',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('marks a missing newline at end of file', () => {
+      expect(createUnifiedDiff('a == b', 'a === b')).toBe(
+        '--- a/code\n+++ b/code\n@@ -1 +1 @@\n-a == b\n\\ No newline at end of file\n+a === b\n\\ No newline at end of file\n'
+      );
+    });
+  });
+});
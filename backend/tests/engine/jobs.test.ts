@@ -0,0 +1,280 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { JobError, JobQueue, JobRunner, JobStore } from '../../src/engine';
+import { AnalyzeResponse, JobRecord } from '../../src/types';
+
+// Jobs kept in a map, copied like rows of the database
+function memoryStore(): JobStore & { jobs: Map<string, JobRecord> } {
+  const jobs = new Map<string, JobRecord>();
+  const copy = (job: JobRecord): JobRecord => JSON.parse(JSON.stringify(job));
+  return {
+    jobs,
+    save: (job) => void jobs.set(job.id, copy(job)),
+    get: (id) => {
+      const job = jobs.get(id);
+      return job ? copy(job) : null;
+    },
+    unfinished: () =>
+      [...jobs.values()]
+        .filter((job) => job.status === 'queued' || job.status === 'running')
+        .map(copy),
+    deleteFinished: (before) => {
+      for (const job of [...jobs.values()]) {
+        if (job.finishedAt && job.finishedAt < before) {
+          jobs.delete(job.id);
+        }
+      }
+    },
+  };
+}
+
+// A runner whose jobs finish when the test says so
+function controlledRunner() {
+  const pending = new Map<string, { resolve: () => void; signal: AbortSignal }>();
+  const run: JobRunner = (job, control) =>
+    new Promise((resolve) => {
+      control.progress(0, 1);
+      pending.set(job.id, {
+        signal: control.signal,
+        resolve: () => {
+          control.progress(1, 1);
+          resolve({ mistakes: [], score: 10 } as unknown as AnalyzeResponse);
+        },
+      });
+    });
+  return { run, pending };
+}
+
+describe('job queue', () => {
+  it('runs a job and stores its result', async () => {
+    const store = memoryStore();
+    const queue = new JobQueue({
+      concurrency: 1,
+      maxQueued: 10,
+      store,
+      run: async (job, control) => {
+        control.progress(2, 2);
+        return { mistakes: [], request: job.request } as unknown as AnalyzeResponse;
+      },
+    });
+
+    const job = queue.submit('analyze', { code: 'x' });
+    expect(job).toEqual({
+      id: expect.any(String),
+      kind: 'analyze',
+      status: 'queued',
+      progress: { completed: 0, total: 0 },
+      createdAt: expect.any(String),
+    });
+
+    await queue.whenIdle();
+
+    expect(queue.get(job.id)).toMatchObject({
+      status: 'completed',
+      progress: { completed: 2, total: 2 },
+      result: { mistakes: [], request: { code: 'x' } },
+      startedAt: expect.any(String),
+      finishedAt: expect.any(String),
+    });
+    expect(queue.get(job.id)).not.toHaveProperty('request');
+    expect(store.jobs.get(job.id)?.status).toBe('completed');
+  });
+
+  it('runs at most `concurrency` jobs and bounds the queue', async () => {
+    const { run, pending } = controlledRunner();
+    const queue = new JobQueue({ concurrency: 2, maxQueued: 1, store: memoryStore(), run });
+
+    const ids = [1, 2, 3].map(() => queue.submit('analyze', {}).id);
+    await new Promise(setImmediate);
+    expect(pending.size).toBe(2);
+    expect(queue.get(ids[0])).toMatchObject({ status: 'running', progress: { total: 1 } });
+    expect(queue.get(ids[2])?.status).toBe('queued');
+    expect(() => queue.submit('analyze', {})).toThrow(JobError);
+
+    pending.get(ids[0])!.resolve();
+    await new Promise(setImmediate);
+    expect(queue.get(ids[0])?.status).toBe('completed');
+
+    // The waiting job starts on the next tick
+    await new Promise(setImmediate);
+    expect(pending.has(ids[2])).toBe(true);
+  });
+
+  it('returns from submit() before the job runs', async () => {
+    const store = memoryStore();
+    const run = jest.fn<ReturnType<JobRunner>, Parameters<JobRunner>>(async () => {
+      return { mistakes: [] } as unknown as AnalyzeResponse;
+    });
+    const queue = new JobQueue({ concurrency: 1, maxQueued: 10, store, run });
+
+    const job = queue.submit('analyze', {});
+
+    expect(run).not.toHaveBeenCalled();
+    expect(job.status).toBe('queued');
+    expect(store.jobs.get(job.id)?.status).toBe('queued');
+
+    // Cancelled before it started: never runs
+    const cancelled = queue.submit('analyze', {});
+    queue.cancel(cancelled.id);
+    await queue.whenIdle();
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(queue.get(job.id)?.status).toBe('completed');
+    expect(queue.get(cancelled.id)?.status).toBe('cancelled');
+  });
+
+  it('records failed jobs with their error', async () => {
+    const queue = new JobQueue({
+      concurrency: 1,
+      maxQueued: 10,
+      store: memoryStore(),
+      run: async () => {
+        throw new Error('Failed to parse code');
+      },
+    });
+
+    const { id } = queue.submit('batch', {});
+    await queue.whenIdle();
+
+    expect(queue.get(id)).toMatchObject({ status: 'failed', error: 'Failed to parse code' });
+  });
+
+  it('cancels queued and running jobs but not finished ones', async () => {
+    const { run, pending } = controlledRunner();
+    const queue = new JobQueue({ concurrency: 1, maxQueued: 10, store: memoryStore(), run });
+
+    const running = queue.submit('analyze', {});
+    const queued = queue.submit('analyze', {});
+    await new Promise(setImmediate);
+
+    expect(queue.cancel(queued.id)?.status).toBe('cancelled');
+    expect(queue.cancel(running.id)?.status).toBe('cancelled');
+    expect(pending.get(running.id)?.signal.aborted).toBe(true);
+    expect(pending.has(queued.id)).toBe(false);
+
+    // The cancelled run's result is discarded
+    pending.get(running.id)!.resolve();
+    await queue.whenIdle();
+
+    expect(queue.get(running.id)).toMatchObject({ status: 'cancelled' });
+    expect(queue.get(running.id)).not.toHaveProperty('result');
+    expect(() => queue.cancel(running.id)).toThrow('Job has already been cancelled');
+    expect(queue.cancel('missing')).toBeNull();
+  });
+
+  it('resumes the stored jobs that had not finished', async () => {
+    const store = memoryStore();
+    const { run, pending } = controlledRunner();
+    const before = new JobQueue({ concurrency: 1, maxQueued: 10, store, run });
+    const first = before.submit('analyze', { n: 1 });
+    const second = before.submit('analyze', { n: 2 });
+
+    // A new queue on the same store, as after a restart
+    const after = new JobQueue({
+      concurrency: 2,
+      maxQueued: 10,
+      store,
+      run: async (job) => job.request as AnalyzeResponse,
+    });
+
+    expect(after.resume()).toBe(2);
+    expect(after.resume()).toBe(0);
+    await after.whenIdle();
+
+    expect(after.get(first.id)).toMatchObject({ status: 'completed', result: { n: 1 } });
+    expect(after.get(second.id)).toMatchObject({ status: 'completed', result: { n: 2 } });
+    pending.get(first.id)!.resolve();
+  });
+
+  it('deletes finished jobs older than the retention period', async () => {
+    const store = memoryStore();
+    const queue = new JobQueue({
+      concurrency: 1,
+      maxQueued: 10,
+      store,
+      run: async () => ({ mistakes: [] }) as unknown as AnalyzeResponse,
+      retentionMs: 60000,
+    });
+    const old = queue.submit('analyze', {});
+    const recent = queue.submit('analyze', {});
+    await queue.whenIdle();
+    store.jobs.get(old.id)!.finishedAt = new Date(Date.now() - 120000).toISOString();
+
+    const queued = queue.submit('analyze', {});
+
+    expect(queue.get(old.id)).toBeNull();
+    expect(queue.get(recent.id)).toMatchObject({ status: 'completed' });
+    expect(queue.get(queued.id)).toMatchObject({ status: 'queued' });
+    await queue.whenIdle();
+  });
+
+  it('posts finished jobs to their callback URL', async () => {
+    const received: unknown[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const queue = new JobQueue({
+        concurrency: 1,
+        maxQueued: 10,
+        store: memoryStore(),
+        run: async () => ({ mistakes: [] }) as unknown as AnalyzeResponse,
+      });
+      const { id } = queue.submit('analyze', {}, `http://127.0.0.1:${port}/done`);
+      await queue.whenIdle();
+
+      for (let attempt = 0; attempt < 50 && received.length === 0; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      expect(received).toEqual([
+        expect.objectContaining({ id, status: 'completed', result: { mistakes: [] } }),
+      ]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('does not follow redirects of callback URLs', async () => {
+    const requested: string[] = [];
+    const server = http.createServer((req, res) => {
+      requested.push(req.url!);
+      req.resume();
+      if (req.url === '/done') {
+        res.writeHead(307, { Location: '/elsewhere' });
+      }
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const queue = new JobQueue({
+        concurrency: 1,
+        maxQueued: 10,
+        store: memoryStore(),
+        run: async () => ({ mistakes: [] }) as unknown as AnalyzeResponse,
+      });
+      queue.submit('analyze', {}, `http://127.0.0.1:${port}/done`);
+      await queue.whenIdle();
+
+      for (let attempt = 0; attempt < 50 && requested.length === 0; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      // Time for a redirect to be followed
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(requested).toEqual(['/done']);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  analyze,
+  AnalysisCache,
+  AnalysisPool,
+  analyzeProject,
+  ParseError,
+  ProjectError,
+} from '../../src/engine';
+import { unregisterDetector } from '../../src/detectors';
+import { loadPlugins } from '../../src/plugins';
+import { AnalysisEvent, Language } from '../../src/types';
+
+// Plugin with detectors that hang or exhaust the heap on marked code
+const PROBE_PLUGIN = `
+module.exports = {
+  name: 'pool-probes',
+  apiVersion: 1,
+  detectors: [
+    {
+      name: 'hang_probe',
+      supportedLanguages: ['javascript'],
+      createVisitor(code) {
+        return {
+          nodeTypes: ['identifier'],
+          visit() {
+            while (code.includes('/* hang */')) {}
+          },
+          finish: () => [],
+        };
+      },
+      detect: () => [],
+    },
+    {
+      name: 'memory_probe',
+      supportedLanguages: ['javascript'],
+      detect(code) {
+        const chunks = [];
+        while (code.includes('/* hog */')) chunks.push(new Array(1e6).fill(chunks.length));
+        return [];
+      },
+    },
+  ],
+};
+`;
+
+describe('analysis pool', () => {
+  const code = 'if (a == 1) { console.log(a); }';
+  let tmpDir: string;
+  let pool: AnalysisPool;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rookie-pool-'));
+    fs.writeFileSync(path.join(tmpDir, 'probes.js'), PROBE_PLUGIN);
+    loadPlugins({ dir: tmpDir });
+
+    pool = new AnalysisPool({
+      size: 1,
+      timeoutMs: 1000,
+      maxMemoryMb: 128,
+      plugins: { dir: tmpDir },
+    });
+  });
+
+  afterAll(async () => {
+    await pool.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    unregisterDetector('hang_probe');
+    unregisterDetector('memory_probe');
+  });
+
+  it('analyzes on a worker thread', async () => {
+    const result = await pool.analyze(code, 'javascript', { minSeverity: 'error' });
+
+    expect(result.response).toEqual(analyze(code, 'javascript', { minSeverity: 'error' }).response);
+    expect(result.metadata.detectors).toContain('double_equals');
+    expect(result.response.partial).toBeUndefined();
+    expect(pool.threads).toBe(1);
+  });
+
+  it('stops a hanging detector and returns the other findings as partial', async () => {
+    const hanging = `/* hang */\n${code}`;
+
+    const result = await pool.analyze(hanging, 'javascript');
+
+    expect(result.response.partial).toBe(true);
+    expect(result.response.timedOutDetectors).toEqual(['hang_probe']);
+    expect(result.response.mistakes).toEqual(
+      analyze(hanging, 'javascript', { exclude: ['hang_probe'] }).response.mistakes
+    );
+    expect(result.metadata.timedOut).toBe(true);
+    expect(pool.threads).toBe(1);
+
+    // The replacement worker keeps serving jobs
+    expect((await pool.analyze(code, 'javascript')).response.partial).toBeUndefined();
+  });
+
+  it('drops a detector that exceeds the memory limit', async () => {
+    const hog = `/* hog */\n${code}`;
+
+    const result = await pool.analyze(hog, 'javascript');
+
+    expect(result.metadata.failedDetectors).toEqual(['memory_probe']);
+    expect(result.response.partial).toBeUndefined();
+    expect(result.response.mistakes.map((m) => m.name)).toContain('double_equals');
+  });
+
+  it('reports progress from the worker thread', async () => {
+    const events: AnalysisEvent[] = [];
+
+    const result = await pool.analyze(code, 'javascript', {
+      onProgress: (event) => events.push(event),
+    });
+
+    const found = events.flatMap((event) => (event.type === 'finding' ? [event.mistake] : []));
+    expect(found.sort((a, b) => a.id - b.id)).toEqual(
+      [...result.response.mistakes].sort((a, b) => a.id - b.id)
+    );
+    expect(events.filter((event) => event.type === 'detector-done')).toHaveLength(
+      result.metadata.detectors.length
+    );
+  });
+
+  it('does not report detectors again when a job is retried', async () => {
+    const events: AnalysisEvent[] = [];
+
+    await pool.analyze(`/* hang */\n${code}`, 'javascript', {
+      onProgress: (event) => events.push(event),
+    });
+
+    const starts = events.filter((event) => event.type === 'detector-start');
+    expect(new Set(starts.map((event) => event.detector)).size).toBe(starts.length);
+    expect(starts.map((event) => event.detector)).toContain('hang_probe');
+    expect(events).not.toContainEqual(
+      expect.objectContaining({ type: 'detector-done', detector: 'hang_probe' })
+    );
+  });
+
+  it('does not cache partial results', async () => {
+    const cache = new AnalysisCache(10);
+    const hanging = `/* hang */\n${code}`;
+
+    await pool.analyze(code, 'javascript', { cache });
+    await pool.analyze(hanging, 'javascript', { cache });
+
+    expect((await pool.analyze(code, 'javascript', { cache })).metadata.cached).toBe(true);
+    expect(cache.size).toBe(1);
+  });
+
+  it('analyzes projects on a worker thread and stops their hanging detectors', async () => {
+    const files = { 'src/a.js': `/* hang */\n${code}`, 'src/b.py': 'if x == None:\n    pass\n' };
+
+    const result = await pool.analyzeProject(files);
+
+    const expected = analyzeProject(files, { exclude: ['hang_probe'] }).response;
+    expect(result.response.partial).toBe(true);
+    expect(result.response.files['src/a.js']).toMatchObject({
+      partial: true,
+      timedOutDetectors: ['hang_probe'],
+      mistakes: expected.files['src/a.js'].mistakes,
+    });
+    expect(result.response.files['src/b.py']).toEqual(expected.files['src/b.py']);
+    expect(result.metadata['src/a.js'].timedOut).toBe(true);
+  });
+
+  it('rejects projects with ProjectError like analyzeProject()', async () => {
+    await expect(pool.analyzeProject({ 'README.md': '# Title' })).rejects.toBeInstanceOf(
+      ProjectError
+    );
+    await expect(pool.analyzeProject({ 'a.js': '', './a.js': '' })).rejects.toThrow(
+      "'a.js' and './a.js' are the same file"
+    );
+  });
+
+  it('stops jobs whose signal aborts and keeps serving', async () => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const running = pool.analyze(`/* hang */\n${code}`, 'javascript', { signal });
+    const queued = pool.analyze(code, 'javascript', { signal });
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(running).rejects.toThrow('Analysis cancelled');
+    await expect(queued).rejects.toThrow('Analysis cancelled');
+    await expect(pool.analyze(code, 'javascript', { signal })).rejects.toThrow(
+      'Analysis cancelled'
+    );
+    expect((await pool.analyze(code, 'javascript')).response.partial).toBeUndefined();
+    expect(pool.threads).toBe(1);
+  });
+
+  it('analyzes on the calling thread when its size is 0', async () => {
+    const inline = new AnalysisPool({ size: 0, timeoutMs: 1000, maxMemoryMb: 128 });
+
+    const result = await inline.analyze(code, 'javascript');
+
+    expect(result.response).toEqual(analyze(code, 'javascript').response);
+    expect(inline.threads).toBe(0);
+  });
+
+  it('rejects with ParseError like analyze()', async () => {
+    const language = 'cobol' as Language;
+
+    expect(() => analyze(code, language)).toThrow(ParseError);
+    await expect(pool.analyze(code, language)).rejects.toBeInstanceOf(ParseError);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { analyze } from '../../src/engine';
+import { PositionConverter } from '../../src/parser';
+import { Mistake, PositionEncoding } from '../../src/types';
+
+describe('position encodings', () => {
+  const code = fs.readFileSync(path.join(__dirname, '..', '..', 'fixtures', 'unicode.js'), 'utf8');
+  const lines = code.split('\n');
+
+  // Expected 1-indexed column of a UTF-16 offset on a line
+  const columnOf = (line: number, offset: number, encoding: PositionEncoding) => {
+    const lineStart = lines.slice(0, line - 1).join('\n').length + (line > 1 ? 1 : 0);
+    const prefix = code.slice(lineStart, offset);
+    if (encoding === 'utf-8') return Buffer.byteLength(prefix, 'utf8') + 1;
+    if (encoding === 'code-points') return [...prefix].length + 1;
+    return prefix.length + 1;
+  };
+
+  const positions = (mistakes: Mistake[]) =>
+    mistakes.map(({ name, line, column, endLine, endColumn }) => [
+      name,
+      line,
+      column,
+      endLine,
+      endColumn,
+    ]);
+
+  it('finds mistakes after multi-byte characters', () => {
+    const names = analyze(code, 'javascript').response.mistakes.map((m) => m.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining(['var_usage', 'double_equals', 'console_log_left'])
+    );
+  });
+
+  it.each<PositionEncoding>(['utf-16', 'utf-8', 'code-points'])(
+    'reports %s columns that match the offsets',
+    (encoding) => {
+      const { response } = analyze(code, 'javascript', { positionEncoding: encoding });
+
+      expect(response.positionEncoding).toBe(encoding);
+      for (const mistake of response.mistakes) {
+        expect(mistake.column).toBe(columnOf(mistake.line, mistake.startOffset!, encoding));
+        expect(mistake.endColumn).toBe(columnOf(mistake.endLine!, mistake.endOffset!, encoding));
+      }
+    }
+  );
+
+  it('points UTF-16 columns at the flagged text', () => {
+    const { response } = analyze(code, 'javascript');
+
+    const emojiCheck = response.mistakes.find((m) => m.name === 'double_equals' && m.line === 10)!;
+
+    expect(lines[9].slice(emojiCheck.column - 1, emojiCheck.endColumn! - 1)).toBe('==');
+  });
+
+  it('converts the columns of related locations and syntax errors', () => {
+    const source = 'const ñ = 1;\nfunction f() { const ñ = 2; }\nif (ñ == 1 {}\n';
+
+    const { response } = analyze(source, 'javascript', { positionEncoding: 'utf-8' });
+
+    const shadowing = response.mistakes.find((m) => m.name === 'variable_shadowing')!;
+    expect(shadowing.relatedLocations).toEqual([
+      expect.objectContaining({ line: 1, column: 7, endColumn: 9, startOffset: 6, endOffset: 7 }),
+    ]);
+    expect(response.diagnostics?.syntaxErrors[0]).toMatchObject({ line: 3, column: 12 });
+  });
+
+  it('reports the same positions for CRLF line endings', () => {
+    const python = fs.readFileSync(
+      path.join(__dirname, '..', '..', 'fixtures', 'python-examples.py'),
+      'utf8'
+    );
+
+    for (const [source, language] of [
+      [code, 'javascript'],
+      [python, 'python'],
+    ] as const) {
+      const lf = analyze(source, language).response;
+      const crlf = analyze(source.replace(/\n/g, '\r\n'), language).response;
+
+      expect(positions(crlf.mistakes)).toEqual(positions(lf.mistakes));
+    }
+  });
+
+  it('ends ranges before the carriage return of a CRLF line break', () => {
+    const source = 'try {\r\n  run();\r\n} catch (e) {} // nothing to do\r\n';
+
+    const converter = new PositionConverter(source);
+    const comment = source.indexOf('//');
+
+    expect(
+      converter.range({
+        line: 3,
+        column: 16,
+        endLine: 3,
+        endColumn: 33,
+        startOffset: comment,
+        endOffset: source.length - 1,
+      })
+    ).toMatchObject({ endColumn: 32, endOffset: source.length - 2 });
+  });
+
+  it('honors suppression comments with CRLF line endings', () => {
+    const js = 'let x = 1;\r\nif (x == 1) {} // rookie-ignore double_equals\r\n';
+    const python = 'x = None\r\nprint(x.y)  # rookie-ignore nullable_access\r\n';
+
+    expect(analyze(js, 'javascript').response.suppressed).toHaveLength(1);
+    expect(analyze(python, 'python').response.mistakes).toEqual([]);
+  });
+
+  it('counts code points in Python source', () => {
+    const source = 'name = "日本語"; value = None\nprint(value.upper())\n';
+
+    const { response } = analyze(source, 'python', { positionEncoding: 'code-points' });
+
+    expect(response.mistakes[0]).toMatchObject({ name: 'nullable_access', line: 2, column: 7 });
+    expect(response.mistakes[0].relatedLocations?.[0]).toMatchObject({ line: 1, column: 15 });
+  });
+});
@@ -0,0 +1,75 @@
+import { analyze, analyzeProject, ProjectError } from '../../src/engine';
+
+describe('project analysis', () => {
+  const files = {
+    'src/api.ts': 'export async function fetchUser(id: string) {\n  return { id };\n}\n',
+    'src/page.ts': `import { fetchUser } from './api';
+import * as api from './api';
+
+export function render() {
+  fetchUser('42');
+  api.fetchUser('7');
+}
+`,
+  };
+
+  it('groups the findings by file', () => {
+    const { response, metadata } = analyzeProject(files);
+
+    expect(Object.keys(response.files)).toEqual(['src/api.ts', 'src/page.ts']);
+    expect(response.files['src/page.ts'].language).toBe('typescript');
+    expect(response.summary).toEqual({
+      files: 2,
+      mistakes: response.files['src/page.ts'].mistakes.length,
+      score: expect.any(Number),
+    });
+    expect(metadata['src/api.ts'].detectors).toContain('missing_await');
+  });
+
+  it('flags calls to async functions imported from other files', () => {
+    const { response } = analyzeProject(files, { include: ['missing_await'] });
+
+    const mistakes = response.files['src/page.ts'].mistakes;
+    expect(mistakes.map((m) => m.line)).toEqual([5, 6]);
+    expect(mistakes[0].relatedLocations).toEqual([
+      expect.objectContaining({ file: 'src/api.ts', line: 1, column: 23, endColumn: 32 }),
+    ]);
+    expect(
+      analyze(files['src/page.ts'], 'typescript', { include: ['missing_await'] }).response.mistakes
+    ).toEqual([]);
+  });
+
+  it('converts related locations with the text of their file', () => {
+    const unicode = {
+      ...files,
+      'src/api.ts': `/* ünïcödé */ ${files['src/api.ts']}`,
+    };
+
+    const { response } = analyzeProject(unicode, {
+      include: ['missing_await'],
+      positionEncoding: 'utf-8',
+    });
+
+    expect(response.files['src/page.ts'].mistakes[0].relatedLocations?.[0]).toMatchObject({
+      column: 41,
+      startOffset: 36,
+    });
+  });
+
+  it('weights the summary score by lines of code', () => {
+    const { response } = analyzeProject(
+      { 'a.js': 'var x = 1;\n', 'b.js': 'const y = 1;\nconst z = 2;\nconst w = 3;\n' },
+      { include: ['var_usage'] }
+    );
+
+    const [a, b] = [response.files['a.js'], response.files['b.js']];
+    expect(response.summary.score).toBe(Math.round(((a.score * 1 + b.score * 3) / 4) * 10) / 10);
+  });
+
+  it('rejects files of unknown languages and duplicate paths', () => {
+    expect(() => analyzeProject({ 'README.md': '# Title' })).toThrow(ProjectError);
+    expect(() => analyzeProject({ 'a.js': '', './a.js': '' })).toThrow(
+      "'a.js' and './a.js' are the same file"
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { analyze, calculateScore, countLinesOfCode, gradeFor } from '../../src/engine';
+import { Mistake } from '../../src/types';
+
+describe('scoring', () => {
+  const base: Mistake = {
+    id: 1,
+    name: 'double_equals',
+    line: 1,
+    column: 1,
+    severity: 'error',
+    certainty: 'definite',
+    confidence: 1,
+    scope: 'local',
+    message: '',
+    ast_facts: {},
+    explanation: '',
+    fix: '',
+  };
+
+  it('weighs findings by severity, certainty and confidence', () => {
+    const { score, breakdown } = calculateScore([
+      base,
+      { ...base, id: 2, severity: 'warning', certainty: 'possible', confidence: 0.8 },
+      { ...base, id: 3, severity: 'info', certainty: 'heuristic', confidence: 0.5 },
+    ]);
+
+    // 1 + 0.6 * 0.75 * 0.8 + 0.3 * 0.5 * 0.5
+    expect(breakdown.penalty).toBe(1.44);
+    expect(breakdown.normalizedPenalty).toBe(1.44);
+    expect(score).toBe(8.6);
+    expect(breakdown.grade).toBe('B');
+  });
+
+  it('scales the penalty of files longer than the reference length', () => {
+    const mistakes = [base, { ...base, id: 2 }];
+
+    expect(calculateScore(mistakes, { linesOfCode: 10 }).score).toBe(8);
+    expect(calculateScore(mistakes, { linesOfCode: 200 }).score).toBe(9.5);
+    expect(calculateScore(mistakes, { linesOfCode: 200 }).breakdown.explanation).toBe(
+      '2 findings weighted by severity, certainty and confidence add up to a penalty of 2. ' +
+        'Scaled from 200 lines of code to the 50-line reference length, that is 0.5. ' +
+        'Score: max(0, 10 - 0.5) = 9.5 (A).'
+    );
+  });
+
+  it('breaks the penalty down by category', () => {
+    const { breakdown } = calculateScore(
+      [base, { ...base, id: 2, name: 'empty_catch' }, { ...base, id: 3, name: 'custom' }],
+      {
+        categoryOf: (mistake) =>
+          mistake.name === 'double_equals'
+            ? 'correctness'
+            : mistake.name === 'empty_catch'
+              ? 'error-handling'
+              : 'other',
+      }
+    );
+
+    expect(breakdown.categories).toEqual([
+      { category: 'correctness', findings: 1, penalty: 1 },
+      { category: 'error-handling', findings: 1, penalty: 1 },
+      { category: 'async', findings: 0, penalty: 0 },
+      { category: 'maintainability', findings: 0, penalty: 0 },
+      { category: 'other', findings: 1, penalty: 1 },
+    ]);
+  });
+
+  it('applies configured weights over the defaults', () => {
+    const warning = { ...base, severity: 'warning' as const };
+
+    const { score, breakdown } = calculateScore([warning], {
+      linesOfCode: 20,
+      config: { severity: { warning: 2 }, referenceLines: 10 },
+    });
+
+    expect(breakdown.normalizedPenalty).toBe(1);
+    expect(score).toBe(9);
+  });
+
+  it('never scores below 0', () => {
+    const mistakes = Array.from({ length: 12 }, (_, i) => ({ ...base, id: i + 1 }));
+
+    const { score, breakdown } = calculateScore(mistakes);
+
+    expect(score).toBe(0);
+    expect(breakdown.grade).toBe('F');
+  });
+
+  it('grades scores and counts non-blank lines', () => {
+    expect([10, 9, 8, 6.5, 4, 3.9].map(gradeFor)).toEqual(['A', 'A', 'B', 'C', 'D', 'F']);
+    expect(countLinesOfCode('a\n\n  \nb\n')).toBe(2);
+  });
+
+  it('scores analyses with detector categories and the configured weights', () => {
+    const code = 'var total = 0;\nif (total == 1) {\n  console.log(total);\n}\n';
+
+    const { response } = analyze(code, 'javascript', {
+      config: { scoring: { severity: { warning: 0, info: 0 } } },
+    });
+
+    const counted = response.scoring!.categories.filter((category) => category.findings > 0);
+    expect(counted.map((category) => category.category)).toEqual([
+      'correctness',
+      'maintainability',
+    ]);
+    expect(response.scoring!.linesOfCode).toBe(4);
+    expect(response.score).toBe(10 - response.scoring!.normalizedPenalty);
+  });
+});
@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import * as typecheck from '../../src/analysis/typecheck';
+import { analyze, resolveEdit, SessionError, SessionStore } from '../../src/engine';
+import { getLanguageForPath } from '../../src/parser';
+import { SessionEdit } from '../../src/types';
+
+// Replace the text between two offsets of `code`, as an editor change
+function change(code: string, start: number, end: number, text: string): SessionEdit {
+  const position = (offset: number) => {
+    const lines = code.slice(0, offset).split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  };
+  return { start: position(start), end: position(end), text };
+}
+
+describe('analysis sessions', () => {
+  let store: SessionStore;
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    store = new SessionStore({ ttlMs: 1000, maxBytes: 1024 * 1024, now: () => now });
+  });
+
+  afterEach(() => {
+    store.closeAll();
+  });
+
+  it('analyzes the buffer when the session is opened', () => {
+    const code = 'var x = 1;\nif (x == 2) { console.log(x); }\n';
+
+    const result = store.create(code, 'javascript');
+
+    expect(result.sessionId).toEqual(expect.any(String));
+    expect(result.response).toEqual(analyze(code, 'javascript').response);
+    expect(store.size).toBe(1);
+  });
+
+  it('re-analyzes after edits', () => {
+    let code = 'function f(a) {\n  return a;\n}\n';
+    const { sessionId } = store.create(code, 'javascript');
+
+    const edits = [change(code, 27, 28, '\nif (a == 1) {}\n')];
+    code = code.slice(0, 27) + '\nif (a == 1) {}\n' + code.slice(28);
+    const result = store.update(sessionId, edits)!;
+
+    expect(result.response).toEqual(analyze(code, 'javascript').response);
+    expect(result.response.mistakes.map((m) => m.name)).toContain('double_equals');
+  });
+
+  it('applies several edits in order', () => {
+    const { sessionId } = store.create('let a = 1;\n', 'javascript');
+
+    const result = store.update(sessionId, [
+      { start: { line: 1, column: 5 }, end: { line: 1, column: 6 }, text: 'b' },
+      { start: { line: 2, column: 1 }, end: { line: 2, column: 1 }, text: 'if (b == 1) {}\n' },
+    ])!;
+
+    expect(result.response).toEqual(analyze('let b = 1;\nif (b == 1) {}\n', 'javascript').response);
+  });
+
+  it('keeps and moves findings of local detectors outside the changed statements', () => {
+    let code = "function f() {\n  return 1;\n}\nif (typeof x == 'number') { y = [].sort(); }\n";
+    const { sessionId } = store.create(code, 'javascript');
+
+    const offset = code.indexOf('return 1');
+    const edit = change(code, offset, offset, 'foo();\n  ');
+    code = code.slice(0, offset) + 'foo();\n  ' + code.slice(offset);
+    const result = store.update(sessionId, [edit])!;
+
+    expect(result.metadata.reusedDetectors).toEqual(
+      expect.arrayContaining(['double_equals', 'empty_catch', 'off_by_one_loop'])
+    );
+    expect(result.metadata.detectors).toContain('var_usage');
+    expect(result.response).toEqual(analyze(code, 'javascript').response);
+    expect(result.response.mistakes.find((m) => m.name === 'double_equals')).toMatchObject({
+      line: 5,
+      startOffset: code.indexOf('=='),
+      endOffset: code.indexOf('==') + 2,
+      autofix: { edits: [{ start: code.indexOf('==') }] },
+    });
+  });
+
+  it('re-runs local detectors when a changed statement holds their node types', () => {
+    const code = 'if (a == 1) {}\nif (b == 2) {}\n';
+    const { sessionId } = store.create(code, 'javascript');
+
+    const result = store.update(sessionId, [change(code, 7, 9, '===')])!;
+
+    expect(result.metadata.reusedDetectors).not.toContain('double_equals');
+    expect(result.response.mistakes.filter((m) => m.name === 'double_equals')).toHaveLength(1);
+  });
+
+  it('matches a full analysis through random edits of the fixtures', () => {
+    const snippets = [
+      '==',
+      'try {',
+      '}',
+      ' catch (e) {}',
+      '\n',
+      'x',
+      'await fetch(u);',
+      'for (let i = 0; i <= a.length; i++) {}',
+      'except:\n    pass\n',
+      'for i in range(len(a)):\n  ',
+      '/*',
+      '',
+    ];
+    let seed = 7;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+
+    const dir = path.join(__dirname, '..', '..', 'fixtures');
+    for (const file of fs.readdirSync(dir)) {
+      const language = getLanguageForPath(file)!;
+      let code = fs.readFileSync(path.join(dir, file), 'utf8');
+      const { sessionId } = store.create(code, language);
+
+      for (let i = 0; i < 10; i++) {
+        const start = random(code.length + 1);
+        const end = Math.min(code.length, start + random(8));
+        const text = snippets[random(snippets.length)];
+        const edit = change(code, start, end, text);
+        code = code.slice(0, start) + text + code.slice(end);
+
+        const result = store.update(sessionId, [edit])!;
+        expect(result.response).toEqual(analyze(code, language).response);
+      }
+    }
+  });
+
+  it('rejects edits outside the document without changing the session', () => {
+    const code = 'if (a == 1) {}\n';
+    const { sessionId } = store.create(code, 'javascript');
+
+    expect(() =>
+      store.update(sessionId, [
+        { start: { line: 1, column: 1 }, end: { line: 1, column: 1 }, text: 'x' },
+        { start: { line: 9, column: 1 }, end: { line: 9, column: 1 }, text: 'y' },
+      ])
+    ).toThrow(SessionError);
+
+    const result = store.update(sessionId, [change(code, 0, 0, '\n')])!;
+    expect(result.response).toEqual(analyze('\n' + code, 'javascript').response);
+  });
+
+  it('rejects buffers over the size limit', () => {
+    const limited = new SessionStore({ ttlMs: 1000, maxBytes: 1024 * 1024, maxCodeSize: 10 });
+    const { sessionId } = limited.create('let a;', 'javascript');
+
+    expect(() => limited.update(sessionId, [change('let a;', 6, 6, ' let b;')])).toThrow(
+      'Code cannot exceed 10 characters'
+    );
+    expect(() => limited.create('let a = 1; let b = 2;', 'javascript')).toThrow(SessionError);
+    limited.closeAll();
+  });
+
+  it('skips detectors past the deadline and runs them again on the next edit', () => {
+    const late = new SessionStore({ ttlMs: 1000, maxBytes: 1024 * 1024, timeoutMs: -1 });
+    const code = 'var x = 1;\n';
+
+    const created = late.create(code, 'javascript', { include: ['var_usage'] });
+    const updated = late.update(created.sessionId, [change(code, 0, 0, '\n')])!;
+
+    expect(created.response).toMatchObject({
+      mistakes: [],
+      partial: true,
+      timedOutDetectors: ['var_usage'],
+    });
+    expect(updated.metadata.reusedDetectors).toEqual([]);
+    expect(updated.response.timedOutDetectors).toEqual(['var_usage']);
+    late.closeAll();
+  });
+
+  it('never runs the TypeScript compiler', () => {
+    const analyzeTypes = jest.spyOn(typecheck, 'analyzeTypes');
+    const code = 'function f(count: number, input: string) {\n  return count == input;\n}\n';
+
+    const { response } = store.create(code, 'typescript', { typeCheck: true });
+
+    expect(analyzeTypes).not.toHaveBeenCalled();
+    expect(response).toEqual(analyze(code, 'typescript').response);
+    analyzeTypes.mockRestore();
+  });
+
+  it('returns undefined for unknown sessions', () => {
+    expect(store.update('missing', [change('', 0, 0, 'x')])).toBeUndefined();
+    expect(store.close('missing')).toBe(false);
+  });
+
+  it('closes idle sessions after the TTL', () => {
+    const first = store.create('let a;', 'javascript');
+    now = 600;
+    const second = store.create('let b;', 'javascript');
+    now = 1200;
+    store.update(second.sessionId, [change('let b;', 6, 6, ' ')]);
+    now = 1700;
+
+    expect(store.update(first.sessionId, [change('let a;', 0, 0, ' ')])).toBeUndefined();
+    expect(store.update(second.sessionId, [change('let b; ', 0, 0, ' ')])).toBeDefined();
+  });
+
+  it('closes the least recently used sessions over the memory cap', () => {
+    const code = 'let a = 1;\n'.repeat(20);
+    const probe = new SessionStore({ ttlMs: 1000, maxBytes: Infinity });
+    probe.create(code, 'javascript');
+    const sessionBytes = probe.bytes;
+    probe.closeAll();
+
+    const capped = new SessionStore({ ttlMs: 1000, maxBytes: sessionBytes * 2 });
+    const first = capped.create(code, 'javascript');
+    const second = capped.create(code, 'javascript');
+    capped.update(first.sessionId, [change(code, 4, 5, 'b')]);
+    capped.create(code, 'javascript');
+
+    expect(capped.size).toBe(2);
+    expect(capped.update(second.sessionId, [change(code, 0, 0, '\n')])).toBeUndefined();
+    expect(capped.bytes).toBe(sessionBytes * 2);
+    capped.closeAll();
+  });
+});
+
+describe('resolveEdit', () => {
+  it('converts editor positions to a tree-sitter edit', () => {
+    const code = 'ab\ncd\nef';
+
+    expect(
+      resolveEdit(code, {
+        start: { line: 2, column: 2 },
+        end: { line: 3, column: 1 },
+        text: 'X\nYZ',
+      })
+    ).toEqual({
+      startIndex: 4,
+      oldEndIndex: 6,
+      newEndIndex: 8,
+      startPosition: { row: 1, column: 1 },
+      oldEndPosition: { row: 2, column: 0 },
+      newEndPosition: { row: 2, column: 2 },
+    });
+  });
+
+  it('rejects positions past the end of a line and reversed ranges', () => {
+    const code = 'ab\ncd';
+
+    expect(() =>
+      resolveEdit(code, { start: { line: 1, column: 4 }, end: { line: 1, column: 4 }, text: '' })
+    ).toThrow('Position 1:4 is outside the document');
+    expect(() =>
+      resolveEdit(code, { start: { line: 2, column: 1 }, end: { line: 1, column: 1 }, text: '' })
+    ).toThrow(SessionError);
+  });
+});
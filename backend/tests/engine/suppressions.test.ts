@@ -0,0 +1,107 @@
+import { parseCode } from '../../src/parser';
+import { analyze, collectSuppressions } from '../../src/engine';
+
+describe('inline suppressions', () => {
+  describe('collectSuppressions', () => {
+    it('parses next-line directives with rule names', () => {
+      const code = `
+// rookie-ignore-next-line double_equals, var_usage
+if (x == 1) {}
+`;
+      const set = collectSuppressions(parseCode(code, 'javascript'), code);
+
+      expect(set.suppressions).toEqual([
+        expect.objectContaining({
+          kind: 'next-line',
+          line: 2,
+          targetLine: 3,
+          rules: ['double_equals', 'var_usage'],
+        }),
+      ]);
+    });
+
+    it('parses file directives in block comments with a reason', () => {
+      const code = `/* rookie-ignore-file console_log_left -- CLI script */
+console.log('hi');
+`;
+      const set = collectSuppressions(parseCode(code, 'javascript'), code);
+
+      expect(set.suppressions[0]).toMatchObject({
+        kind: 'file',
+        rules: ['console_log_left'],
+        reason: 'CLI script',
+      });
+    });
+
+    it('applies trailing Python comments to their own line', () => {
+      const code = `
+def f():
+    x = None
+    return x.value  # rookie-ignore nullable_access
+`;
+      const set = collectSuppressions(parseCode(code, 'python'), code);
+
+      expect(set.match({ name: 'nullable_access', line: 4 })).not.toBeNull();
+      expect(set.match({ name: 'nullable_access', line: 3 })).toBeNull();
+    });
+
+    it('treats a directive without rule names as matching every rule', () => {
+      const code = `
+// rookie-ignore-next-line
+if (x == 1) {}
+`;
+      const set = collectSuppressions(parseCode(code, 'javascript'), code);
+
+      expect(set.match({ name: 'anything', line: 3 })).not.toBeNull();
+    });
+
+    it('ignores unrelated comments', () => {
+      const code = `// rookie-ignored is not a directive\nconst a = 1;`;
+      const set = collectSuppressions(parseCode(code, 'javascript'), code);
+
+      expect(set.size).toBe(0);
+    });
+  });
+
+  describe('analyze', () => {
+    it('moves suppressed findings into the suppressed array', () => {
+      const code = `
+// rookie-ignore-next-line double_equals -- null idiom
+if (value == null) {}
+if (other == 2) {}
+`;
+      const { response } = analyze(code, 'javascript');
+
+      expect(response.mistakes.filter((m) => m.name === 'double_equals')).toHaveLength(1);
+      expect(response.mistakes[0].line).toBe(4);
+      expect(response.suppressed).toHaveLength(1);
+      expect(response.suppressed![0]).toMatchObject({
+        name: 'double_equals',
+        line: 3,
+        suppressedBy: { kind: 'next-line', line: 2, reason: 'null idiom' },
+      });
+    });
+
+    it('only suppresses the listed rules', () => {
+      const code = `// rookie-ignore-file console_log_left
+var a = 1;
+console.log(a);
+`;
+      const { response } = analyze(code, 'javascript');
+
+      expect(response.mistakes.map((m) => m.name)).toEqual(['var_usage']);
+      expect(response.suppressed!.map((m) => m.name)).toEqual(['console_log_left']);
+    });
+
+    it('does not count suppressed findings towards the score', () => {
+      const code = `// rookie-ignore-file
+var a = 1;
+if (a == 2) {}
+`;
+      const { response } = analyze(code, 'javascript');
+
+      expect(response.mistakes).toHaveLength(0);
+      expect(response.score).toBe(10);
+    });
+  });
+});
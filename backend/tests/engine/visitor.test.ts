@@ -0,0 +1,131 @@
+import { parseCode } from '../../src/parser';
+import { createDetectorVisitor, detectWithVisitor, dispatchVisitors } from '../../src/engine';
+import { doubleEquals, variableShadowing } from '../../src/detectors';
+import { DetectorVisitor } from '../../src/types';
+
+function recordingVisitor(nodeTypes: string[], seen: string[]): DetectorVisitor {
+  return {
+    nodeTypes,
+    visit(node) {
+      seen.push(`${node.type}@${node.startIndex}`);
+    },
+    finish: () => [],
+  };
+}
+
+describe('visitor dispatch', () => {
+  const code = 'if (a == b) { f(a); }\nconst c = g(h(1));';
+
+  it('visits nodes of the registered types in document order', () => {
+    const tree = parseCode(code, 'javascript');
+    const seen: string[] = [];
+
+    dispatchVisitors(tree.rootNode, [recordingVisitor(['call_expression'], seen)]);
+
+    expect(seen).toEqual(['call_expression@14', 'call_expression@32', 'call_expression@34']);
+    tree.delete();
+  });
+
+  it('dispatches each node to every interested visitor in one traversal', () => {
+    const tree = parseCode(code, 'javascript');
+    const calls: string[] = [];
+    const all: string[] = [];
+
+    dispatchVisitors(tree.rootNode, [
+      recordingVisitor(['call_expression'], calls),
+      recordingVisitor(['binary_expression', 'call_expression'], all),
+    ]);
+
+    expect(calls).toHaveLength(3);
+    expect(all).toEqual(['binary_expression@4', ...calls]);
+    tree.delete();
+  });
+
+  it('includes anonymous nodes', () => {
+    const tree = parseCode(code, 'javascript');
+    const seen: string[] = [];
+
+    dispatchVisitors(tree.rootNode, [recordingVisitor(['=='], seen)]);
+
+    expect(seen).toEqual(['==@6']);
+    tree.delete();
+  });
+
+  it('stops dispatching to a visitor that throws', () => {
+    const tree = parseCode(code, 'javascript');
+    const seen: string[] = [];
+    const failing: DetectorVisitor = {
+      nodeTypes: ['call_expression'],
+      visit() {
+        throw new Error('boom');
+      },
+      finish: () => [],
+    };
+    const errors: unknown[] = [];
+
+    dispatchVisitors(
+      tree.rootNode,
+      [failing, recordingVisitor(['call_expression'], seen)],
+      (visitor, error) => errors.push(error)
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(seen).toHaveLength(3);
+    tree.delete();
+  });
+
+  it('rethrows visitor errors without an error handler', () => {
+    const tree = parseCode(code, 'javascript');
+    const failing: DetectorVisitor = {
+      nodeTypes: ['program'],
+      visit() {
+        throw new Error('boom');
+      },
+      finish: () => [],
+    };
+
+    expect(() => dispatchVisitors(tree.rootNode, [failing])).toThrow('boom');
+    tree.delete();
+  });
+
+  it('ends the walk early when asked to stop', () => {
+    const tree = parseCode(code, 'javascript');
+    const seen: string[] = [];
+    const visitor = recordingVisitor(['call_expression'], seen);
+
+    const complete = dispatchVisitors(
+      tree.rootNode,
+      [visitor],
+      undefined,
+      undefined,
+      () => seen.length >= 2
+    );
+
+    expect(complete).toBe(false);
+    expect(seen).toEqual(['call_expression@14', 'call_expression@32']);
+    expect(dispatchVisitors(tree.rootNode, [visitor], undefined, undefined, () => false)).toBe(
+      true
+    );
+    tree.delete();
+  });
+
+  it('adapts detectors that only implement detect()', () => {
+    const shadowing = 'const x = 1;\nfunction f() { const x = 2; }';
+    const tree = parseCode(shadowing, 'javascript');
+    const visitor = createDetectorVisitor(variableShadowing, shadowing, 'javascript', tree);
+
+    expect(visitor.nodeTypes).toEqual([]);
+    expect(visitor.finish()).toEqual(variableShadowing.detect(shadowing, 'javascript', tree));
+    tree.delete();
+  });
+
+  it('runs visitor detectors through detect()', () => {
+    const tree = parseCode(code, 'javascript');
+
+    expect(detectWithVisitor(doubleEquals, code, 'javascript', tree)).toEqual(
+      doubleEquals.detect(code, 'javascript', tree)
+    );
+    expect(doubleEquals.detect(code, 'javascript', tree)).toHaveLength(1);
+    tree.delete();
+  });
+});
@@ -4,6 +4,7 @@ import {
   BadRequestError,
   NotFoundError,
   ValidationError,
+  UnprocessableEntityError,
   RateLimitError,
   InternalError,
   errorHandler,
@@ -66,6 +67,12 @@ describe('Error Handler Middleware', () => {
       expect(error.details).toEqual(details);
     });
 
+    it('creates UnprocessableEntityError with 422 status', () => {
+      const error = new UnprocessableEntityError('Fix produced invalid code');
+      expect(error.statusCode).toBe(422);
+      expect(error.name).toBe('UnprocessableEntityError');
+    });
+
     it('creates RateLimitError with retryAfter', () => {
       const error = new RateLimitError('Too many requests', 120);
       expect(error.statusCode).toBe(429);
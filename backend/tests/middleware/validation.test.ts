@@ -81,6 +81,114 @@ describe('Validation Middleware', () => {
         expect(result.success).toBe(true);
       });
     });
+
+    it('accepts rule configuration in options', () => {
+      const result = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        options: {
+          rules: {
+            var_usage: 'off',
+            double_equals: { severity: 'error', options: { allowNullComparison: true } },
+            variable_shadowing: { options: { ignoredNames: ['ctx'] } },
+          },
+        },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects invalid options for known rules', () => {
+      const result = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        options: {
+          rules: { console_log_left: { options: { allowedLoggers: ['print'] } } },
+        },
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual([
+          'options',
+          'rules',
+          'console_log_left',
+          'options',
+          'allowedLoggers',
+          0,
+        ]);
+      }
+    });
+
+    it('rejects configuration of unknown rules', () => {
+      const result = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        options: { rules: { doubel_equals: 'off' } },
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['options', 'rules', 'doubel_equals']);
+        expect(result.error.issues[0].message).toContain("Unknown rule 'doubel_equals'");
+      }
+    });
+
+    it('accepts rule selection and filters', () => {
+      const result = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        include: ['missing_await', 'no_error_handling'],
+        exclude: ['var_usage'],
+        minConfidence: 0.7,
+        minSeverity: 'warning',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects unknown rule names and lists the valid ones', () => {
+      const result = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        include: ['missing_awiat'],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['include', 0]);
+        expect(result.error.issues[0].message).toContain("Unknown rule 'missing_awiat'");
+        expect(result.error.issues[0].message).toContain('missing_await');
+      }
+    });
+
+    it('rejects an out-of-range minConfidence', () => {
+      const result = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        minConfidence: 1.5,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects unknown rule settings', () => {
+      const result = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        options: { rules: { var_usage: { level: 'error' } } },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('accepts scoring weights and rejects negative ones', () => {
+      const valid = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        options: { scoring: { severity: { info: 0 }, certainty: { heuristic: 0.25 } } },
+      });
+      const invalid = analyzeRequestSchema.safeParse({
+        code: 'x = 1',
+        language: 'javascript',
+        options: { scoring: { severity: { error: -1 }, referenceLines: 0 } },
+      });
+      expect(valid.success).toBe(true);
+      expect(invalid.success).toBe(false);
+    });
   });
 
   describe('saveRequestSchema', () => {
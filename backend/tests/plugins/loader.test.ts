@@ -0,0 +1,223 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { analyze } from '../../src/engine';
+import { getDetectorByName, unregisterDetector } from '../../src/detectors';
+import { loadPlugins, validatePlugin, PluginError } from '../../src/plugins';
+import { run, CliIO } from '../../src/cli';
+
+// Source of a plugin module with one detector flagging `eval(` calls
+function pluginSource(name: string, detectorName: string, extra = ''): string {
+  return `
+const detector = {
+  name: '${detectorName}',
+  supportedLanguages: ['javascript'],
+  detect(code) {
+    const index = code.indexOf('eval(');
+    if (index === -1) return [];
+    return [{
+      name: '${detectorName}',
+      line: 1,
+      column: index + 1,
+      severity: 'error',
+      certainty: 'definite',
+      confidence: 1,
+      scope: 'local',
+      message: 'eval() call',
+      ast_facts: { callee: 'eval' },
+    }];
+  },
+};
+module.exports = {
+  name: '${name}',
+  version: '1.2.0',
+  apiVersion: 1,
+  detectors: [detector],
+  templates: {
+    ${detectorName}: { explanation: 'You call {{callee}}.', fix: 'Remove {{callee}}.' },
+  },
+  ${extra}
+};
+`;
+}
+
+describe('plugin loading', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rookie-plugins-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    for (const name of ['no_eval', 'other_eval']) {
+      unregisterDetector(name);
+    }
+  });
+
+  function writePlugin(fileName: string, source: string): string {
+    const filePath = path.join(tmpDir, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+    return filePath;
+  }
+
+  it('registers detectors and templates from a directory', () => {
+    writePlugin('acme.js', pluginSource('acme', 'no_eval'));
+    fs.writeFileSync(path.join(tmpDir, 'notes.txt'), 'not a plugin');
+
+    const result = loadPlugins({ dir: tmpDir });
+
+    expect(result.failed).toEqual([]);
+    expect(result.loaded).toEqual([
+      {
+        name: 'acme',
+        version: '1.2.0',
+        source: path.join(tmpDir, 'acme.js'),
+        detectors: ['no_eval'],
+      },
+    ]);
+
+    const { response } = analyze('eval("1 + 1");', 'javascript', { include: ['no_eval'] });
+    expect(response.mistakes[0]).toMatchObject({
+      name: 'no_eval',
+      explanation: 'You call eval.',
+      fix: 'Remove eval.',
+    });
+  });
+
+  it('loads packages by name', () => {
+    writePlugin(
+      path.join('node_modules', 'rookie-plugin-acme', 'index.js'),
+      pluginSource('acme', 'no_eval')
+    );
+
+    const result = loadPlugins({ packages: ['rookie-plugin-acme'], cwd: tmpDir });
+
+    expect(result.loaded.map((plugin) => plugin.source)).toEqual(['rookie-plugin-acme']);
+    expect(getDetectorByName('no_eval')).toBeDefined();
+  });
+
+  it('reports plugins that throw while loading', () => {
+    writePlugin('a-broken.js', "throw new Error('boom');");
+    writePlugin('b-acme.js', pluginSource('acme', 'no_eval'));
+
+    const result = loadPlugins({ dir: tmpDir });
+
+    expect(result.failed).toEqual([{ source: path.join(tmpDir, 'a-broken.js'), error: 'boom' }]);
+    expect(result.loaded.map((plugin) => plugin.name)).toEqual(['acme']);
+  });
+
+  it('reports missing packages and directories', () => {
+    const result = loadPlugins({
+      dir: path.join(tmpDir, 'missing'),
+      packages: ['rookie-plugin-missing'],
+      cwd: tmpDir,
+    });
+
+    expect(result.failed.map((failure) => failure.source)).toEqual([
+      path.join(tmpDir, 'missing'),
+      'rookie-plugin-missing',
+    ]);
+  });
+
+  it('rejects unsupported API versions', () => {
+    writePlugin(
+      'future.js',
+      pluginSource('future', 'no_eval').replace('apiVersion: 1', 'apiVersion: 2')
+    );
+
+    const result = loadPlugins({ dir: tmpDir });
+
+    expect(result.failed[0].error).toMatch(/targets plugin API version 2; supported: 1/);
+    expect(getDetectorByName('no_eval')).toBeUndefined();
+  });
+
+  it('rejects detector names that are already taken', () => {
+    writePlugin('a.js', pluginSource('first', 'no_eval'));
+    writePlugin('b.js', pluginSource('second', 'no_eval'));
+    writePlugin('c.js', pluginSource('builtin', 'var_usage'));
+
+    const result = loadPlugins({ dir: tmpDir });
+
+    expect(result.loaded.map((plugin) => plugin.name)).toEqual(['first']);
+    expect(result.failed.map((failure) => failure.error)).toEqual([
+      "Plugin 'second': detector 'no_eval' conflicts with an existing detector",
+      "Plugin 'builtin': detector 'var_usage' conflicts with an existing detector",
+    ]);
+  });
+
+  it('validates the plugin shape', () => {
+    expect(() => validatePlugin({})).toThrow(PluginError);
+    expect(() => validatePlugin({ name: 'empty', apiVersion: 1, detectors: [] })).toThrow(
+      /exports no detectors/
+    );
+    expect(() =>
+      validatePlugin({
+        name: 'bad',
+        apiVersion: 1,
+        detectors: [{ name: 'no_eval', supportedLanguages: ['ruby'], detect: () => [] }],
+      })
+    ).toThrow(/supportedLanguages/);
+    expect(() =>
+      validatePlugin({
+        name: 'bad',
+        apiVersion: 1,
+        detectors: [{ name: 'no_eval', supportedLanguages: ['python'], detect: () => [] }],
+        templates: { var_usage: { explanation: 'x', fix: 'y' } },
+      })
+    ).toThrow(/does not belong to one of its detectors/);
+    expect(() =>
+      validatePlugin({
+        name: 'bad',
+        apiVersion: 1,
+        detectors: [
+          {
+            name: 'no_eval',
+            supportedLanguages: ['javascript'],
+            category: 'security',
+            detect: () => [],
+          },
+        ],
+      })
+    ).toThrow(/has category 'security'/);
+  });
+
+  it('accepts ES module default exports', () => {
+    const plugin = validatePlugin({
+      default: {
+        name: 'esm',
+        apiVersion: 1,
+        detectors: [{ name: 'no_eval', supportedLanguages: ['javascript'], detect: () => [] }],
+      },
+    });
+
+    expect(plugin.name).toBe('esm');
+  });
+
+  it('reports plugin failures from the CLI and keeps going', async () => {
+    writePlugin('app.js', 'eval("x");\n');
+    writePlugin('broken.js', "throw new Error('boom');");
+    writePlugin('acme.js', pluginSource('acme', 'no_eval'));
+    const out: string[] = [];
+    const err: string[] = [];
+    const io: CliIO = {
+      cwd: tmpDir,
+      stdout: (text) => out.push(text),
+      stderr: (text) => err.push(text),
+    };
+
+    const code = await run(
+      ['-p', './broken.js', '--plugin', './acme.js', '--format', 'json', 'app.js'],
+      io
+    );
+
+    expect(code).toBe(1);
+    expect(err).toEqual([
+      `rookie: plugin '${path.join(tmpDir, 'broken.js')}' failed to load: boom`,
+    ]);
+    expect(JSON.parse(out[0]).files[0].mistakes.map((m: { name: string }) => m.name)).toContain(
+      'no_eval'
+    );
+  });
+});
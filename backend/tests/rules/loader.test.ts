@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { analyze } from '../../src/engine';
+import { getDetectorByName, getDetectorNames, unregisterDetector } from '../../src/detectors';
+import {
+  loadQueryRules,
+  loadRuleDirectory,
+  loadRuleFile,
+  registerQueryRules,
+} from '../../src/rules';
+import { run, CliIO } from '../../src/cli';
+
+const examplesDir = path.resolve(__dirname, '..', '..', 'rules', 'examples');
+
+const noAlert = {
+  name: 'no_alert',
+  languages: ['javascript'],
+  query: '(call_expression function: (identifier) @fn (#eq? @fn "alert")) @call',
+  message: 'Avoid {{fn}}()',
+  explanation: "You call '{{fn}}', which blocks the page.",
+  fix: 'Remove the {{fn}} call.',
+};
+
+describe('query rule loading', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rookie-rules-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    for (const name of ['no_alert', 'no_await_in_loop', 'other_rule']) {
+      unregisterDetector(name);
+    }
+  });
+
+  function writeRules(fileName: string, content: unknown): string {
+    const filePath = path.join(tmpDir, fileName);
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  }
+
+  it('applies defaults and accepts arrays of rules', () => {
+    const filePath = writeRules('rules.json', [noAlert, { ...noAlert, name: 'other_rule' }]);
+    const rules = loadRuleFile(filePath);
+
+    expect(rules.map((r) => r.name)).toEqual(['no_alert', 'other_rule']);
+    expect(rules[0]).toMatchObject({ severity: 'warning', certainty: 'possible', scope: 'local' });
+  });
+
+  it('reports schema errors with their path', () => {
+    const filePath = writeRules('bad.json', { ...noAlert, name: 'No Alert', severity: 'fatal' });
+
+    expect(() => loadRuleFile(filePath)).toThrow(/Invalid rule file .*bad\.json:\n {2}name: /);
+  });
+
+  it('requires a query for each language', () => {
+    const filePath = writeRules('bad.json', {
+      ...noAlert,
+      languages: ['javascript', 'python'],
+      query: { javascript: noAlert.query },
+    });
+
+    expect(() => loadRuleFile(filePath)).toThrow(/query\.python/);
+  });
+
+  it('ignores files that are not JSON', () => {
+    writeRules('a.json', noAlert);
+    fs.writeFileSync(path.join(tmpDir, 'README.md'), '# rules');
+
+    expect(loadRuleDirectory(tmpDir)).toHaveLength(1);
+  });
+
+  it('loads the example rules', () => {
+    expect(loadRuleDirectory(examplesDir).map((r) => r.name)).toEqual([
+      'no_alert',
+      'no_await_in_loop',
+    ]);
+  });
+
+  it('registers rules as detectors the engine runs', () => {
+    writeRules('no-alert.json', noAlert);
+    loadQueryRules(tmpDir);
+
+    expect(getDetectorNames()).toContain('no_alert');
+
+    const { response } = analyze('alert(1);\nvar x = 1;', 'javascript', {
+      include: ['no_alert'],
+      config: { rules: { no_alert: 'error' } },
+    });
+
+    expect(response.mistakes).toHaveLength(1);
+    expect(response.mistakes[0]).toMatchObject({
+      name: 'no_alert',
+      severity: 'error',
+      message: 'Avoid alert()',
+      explanation: "You call 'alert', which blocks the page.",
+      fix: 'Remove the alert call.',
+    });
+  });
+
+  it('rejects rules that clash with existing detectors', () => {
+    expect(() =>
+      registerQueryRules(loadRuleFile(writeRules('a.json', { ...noAlert, name: 'var_usage' })))
+    ).toThrow(/conflicts with an existing detector/);
+  });
+
+  it('registers nothing when a rule is duplicated', () => {
+    const filePath = writeRules('rules.json', [
+      noAlert,
+      { ...noAlert, name: 'other_rule' },
+      noAlert,
+    ]);
+
+    expect(() => registerQueryRules(loadRuleFile(filePath))).toThrow(/defined more than once/);
+    expect(getDetectorByName('other_rule')).toBeUndefined();
+  });
+
+  it('loads rules from the CLI', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'app.js'), 'alert("hi");\n');
+    const out: string[] = [];
+    const io: CliIO = { cwd: tmpDir, stdout: (text) => out.push(text), stderr: () => {} };
+
+    const code = await run(['--rules', examplesDir, '--format', 'json', 'app.js'], io);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(out[0]).files[0].mistakes.map((m: { name: string }) => m.name)).toContain(
+      'no_alert'
+    );
+  });
+
+  it('lets .rookierc.json configure rules loaded by the CLI', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'app.js'), 'alert("hi");\n');
+    writeRules('.rookierc.json', { rules: { no_alert: 'error' } });
+    const out: string[] = [];
+    const io: CliIO = { cwd: tmpDir, stdout: (text) => out.push(text), stderr: () => {} };
+
+    const code = await run(['--rules', examplesDir, '--format', 'json', 'app.js'], io);
+
+    expect(code).toBe(1);
+    expect(JSON.parse(out[0]).files[0].mistakes).toContainEqual(
+      expect.objectContaining({ name: 'no_alert', severity: 'error' })
+    );
+  });
+});
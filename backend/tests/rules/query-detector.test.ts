@@ -0,0 +1,134 @@
+import { parseCode } from '../../src/parser';
+import { createQueryDetector, RuleError } from '../../src/rules';
+import { queryRuleSchema } from '../../src/middleware/validation';
+import { Language, QueryRule } from '../../src/types';
+
+function rule(overrides: Partial<QueryRule>): QueryRule {
+  return queryRuleSchema.parse({
+    name: 'test_rule',
+    languages: ['javascript'],
+    query: '(call_expression function: (identifier) @fn (#eq? @fn "alert")) @call',
+    message: 'Avoid {{fn}}()',
+    explanation: 'Explanation',
+    ...overrides,
+  });
+}
+
+function detect(queryRule: QueryRule, code: string, language: Language = 'javascript') {
+  const detector = createQueryDetector(queryRule);
+  return detector.detect(code, language, parseCode(code, language));
+}
+
+describe('query rules', () => {
+  describe('matching', () => {
+    it('reports matches with capture texts as facts', () => {
+      const results = detect(rule({}), 'alert("hi");\nconsole.log(1);\n  alert(2);');
+
+      expect(results.map((r) => [r.line, r.column])).toEqual([
+        [1, 1],
+        [3, 3],
+      ]);
+      expect(results[0]).toMatchObject({
+        name: 'test_rule',
+        severity: 'warning',
+        certainty: 'possible',
+        confidence: 0.8,
+        scope: 'local',
+        message: 'Avoid alert()',
+        ast_facts: { fn: 'alert', call: 'alert("hi")' },
+      });
+    });
+
+    it('honors built-in predicates', () => {
+      expect(detect(rule({}), 'window.alert(1); confirm(2);')).toHaveLength(0);
+    });
+
+    it('reports at the configured capture', () => {
+      const results = detect(rule({ capture: 'fn' }), 'x = 1; alert(1)');
+
+      expect(results[0].column).toBe(8);
+    });
+
+    it('reports each node once', () => {
+      const results = detect(
+        rule({ query: '(call_expression (arguments (_) @arg)) @call' }),
+        'f(a, b, c)'
+      );
+
+      expect(results).toHaveLength(1);
+    });
+
+    it('uses the query of the analyzed language', () => {
+      const pythonRule = rule({
+        languages: ['javascript', 'python'],
+        query: {
+          javascript: '(debugger_statement) @stmt',
+          python: '(call function: (identifier) @fn (#eq? @fn "breakpoint")) @stmt',
+        },
+        message: 'Debugging leftover',
+      });
+
+      expect(detect(pythonRule, 'debugger;')).toHaveLength(1);
+      expect(detect(pythonRule, 'x = 1\nbreakpoint()\n', 'python')[0].line).toBe(2);
+    });
+  });
+
+  describe('ancestor predicates', () => {
+    const awaitRule = rule({
+      query:
+        '((await_expression) @await (#inside? @await for_statement for_in_statement) (#not-inside? @await arrow_function))',
+      message: 'Await in loop',
+    });
+
+    it('requires an ancestor with #inside?', () => {
+      const code = `async function f(ids) {
+  await setup();
+  for (const id of ids) {
+    await load(id);
+  }
+}`;
+
+      expect(detect(awaitRule, code).map((r) => r.line)).toEqual([4]);
+    });
+
+    it('excludes ancestors with #not-inside?', () => {
+      const code = `async function f(ids) {
+  for (const id of ids) {
+    later.push(async () => await load(id));
+  }
+}`;
+
+      expect(detect(awaitRule, code)).toHaveLength(0);
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects invalid queries', () => {
+      expect(() => createQueryDetector(rule({ query: '(call_expresion) @call' }))).toThrow(
+        /Rule 'test_rule': invalid javascript query/
+      );
+    });
+
+    it('rejects an undefined capture', () => {
+      expect(() => createQueryDetector(rule({ capture: 'missing' }))).toThrow(RuleError);
+    });
+
+    it('rejects queries without captures', () => {
+      expect(() => createQueryDetector(rule({ query: '(debugger_statement)' }))).toThrow(
+        /has no captures/
+      );
+    });
+
+    it('rejects unknown predicates', () => {
+      expect(() =>
+        createQueryDetector(rule({ query: '((identifier) @id (#lower? @id))' }))
+      ).toThrow(/unsupported predicate #lower\?/);
+    });
+
+    it('rejects invalid message templates', () => {
+      expect(() => createQueryDetector(rule({ message: 'Avoid {{fn' }))).toThrow(
+        /invalid message template/
+      );
+    });
+  });
+});
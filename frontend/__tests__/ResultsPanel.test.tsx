@@ -1,7 +1,7 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import ResultsPanel from '../src/components/ResultsPanel';
-import type { Mistake } from '../src/lib/api';
+import type { Mistake, ScoreBreakdown } from '../src/lib/api';
 
 describe('ResultsPanel Component', () => {
   const createMistake = (overrides: Partial<Mistake> = {}): Mistake => ({
@@ -53,6 +53,31 @@ describe('ResultsPanel Component', () => {
       const scoreElement = screen.getByText('2');
       expect(scoreElement.className).toMatch(/score-low|red|error|danger/i);
     });
+
+    it('shows the grade and category breakdown when scoring is given', () => {
+      const scoring: ScoreBreakdown = {
+        grade: 'B',
+        linesOfCode: 12,
+        penalty: 1.5,
+        normalizedPenalty: 1.5,
+        categories: [
+          { category: 'correctness', findings: 1, penalty: 1 },
+          { category: 'error-handling', findings: 0, penalty: 0 },
+          { category: 'async', findings: 0, penalty: 0 },
+          { category: 'maintainability', findings: 2, penalty: 0.5 },
+          { category: 'other', findings: 0, penalty: 0 },
+        ],
+        explanation: 'Score: max(0, 10 - 1.5) = 8.5 (B).',
+      };
+      render(<ResultsPanel mistakes={[createMistake()]} score={8.5} scoring={scoring} />);
+
+      fireEvent.click(screen.getByText('Grade B'));
+
+      expect(screen.getByText('Correctness (1)')).toBeInTheDocument();
+      expect(screen.getByText('Maintainability (2)')).toBeInTheDocument();
+      expect(screen.queryByText(/^Async/)).not.toBeInTheDocument();
+      expect(screen.getByText('Score: max(0, 10 - 1.5) = 8.5 (B).')).toBeInTheDocument();
+    });
   });
 
   describe('Empty State', () => {
@@ -77,6 +102,13 @@ describe('ResultsPanel Component', () => {
       render(<ResultsPanel mistakes={[createMistake()]} score={9} isLoading={true} />);
       expect(screen.queryByText('Test message')).not.toBeInTheDocument();
     });
+
+    it('shows the findings so far while streaming', () => {
+      render(<ResultsPanel mistakes={[createMistake()]} score={0} isStreaming />);
+      expect(screen.getByText('Test message')).toBeInTheDocument();
+      expect(screen.getByText('1 issue found so far')).toBeInTheDocument();
+      expect(screen.queryByText('Needs Work')).not.toBeInTheDocument();
+    });
   });
 
   describe('Mistake Cards', () => {
@@ -102,6 +134,34 @@ describe('ResultsPanel Component', () => {
       expect(screen.getByText(/Code Example/i)).toBeInTheDocument();
     });
 
+    it('shows the range and related locations', () => {
+      const mistake = createMistake({
+        name: 'variable_shadowing',
+        line: 3,
+        column: 9,
+        endLine: 3,
+        endColumn: 14,
+        message: "Variable 'count' shadows an outer variable",
+        relatedLocations: [
+          {
+            line: 1,
+            column: 5,
+            endLine: 1,
+            endColumn: 10,
+            startOffset: 4,
+            endOffset: 9,
+            message: "Outer declaration of 'count'",
+          },
+        ],
+      });
+
+      render(<ResultsPanel mistakes={[mistake]} score={9} />);
+
+      expect(screen.getByText('Line 3, Col 9–14')).toBeInTheDocument();
+      expect(screen.getByText('Line 1, Col 5–10')).toBeInTheDocument();
+      expect(screen.getByText(/Outer declaration of 'count'/)).toBeInTheDocument();
+    });
+
     it('renders multiple mistakes', () => {
       const mistakes = [
         createMistake({ id: 1, name: 'mistake_1', message: 'First mistake' }),
@@ -1,9 +1,13 @@
+import { TextDecoder, TextEncoder } from 'util';
 import { analyzeCode, saveSnippet, getSnippet, ApiError, Mistake } from '../src/lib/api';
 
 // Mock fetch globally
 const mockFetch = jest.fn();
 global.fetch = mockFetch;
 
+// jsdom has no TextDecoder/TextEncoder
+Object.assign(global, { TextDecoder, TextEncoder });
+
 describe('API Client', () => {
   beforeEach(() => {
     mockFetch.mockClear();
@@ -121,6 +125,91 @@ describe('API Client', () => {
     });
   });
 
+  describe('analyzeCode (streaming)', () => {
+    const mistake = (id: number, line: number): Mistake => ({
+      id,
+      name: 'var_usage',
+      line,
+      column: 1,
+      severity: 'info',
+      certainty: 'heuristic',
+      confidence: 0.45,
+      scope: 'function',
+      message: "Use 'let' or 'const'",
+      ast_facts: {},
+      explanation: 'var is outdated',
+      fix: 'Use let or const',
+    });
+
+    // A response streaming these chunks of NDJSON
+    const streamed = (chunks: string[]) => {
+      const encoder = new TextEncoder();
+      let index = 0;
+      return {
+        ok: true,
+        headers: { get: () => 'application/x-ndjson; charset=utf-8' },
+        body: {
+          getReader: () => ({
+            read: () =>
+              Promise.resolve(
+                index < chunks.length
+                  ? { done: false, value: encoder.encode(chunks[index++]) }
+                  : { done: true, value: undefined }
+              ),
+          }),
+        },
+      };
+    };
+
+    it('streams from the v1 route and passes on each finding', async () => {
+      const first = mistake(1, 2);
+      const second = mistake(2, 1);
+      const lines = [
+        { event: 'detector-start', data: { detector: 'var_usage' } },
+        { event: 'finding', data: { detector: 'var_usage', mistake: first } },
+        { event: 'finding', data: { detector: 'var_usage', mistake: second } },
+        { event: 'detector-done', data: { detector: 'var_usage', findings: 2 } },
+        { event: 'summary', data: { mistakes: [second, first], score: 9 } },
+      ].map((line) => `${JSON.stringify(line)}\n`);
+      const text = lines.join('');
+      // Chunks that split lines
+      mockFetch.mockResolvedValueOnce(
+        streamed([text.slice(0, 50), text.slice(50, 300), text.slice(300)])
+      );
+      const onMistake = jest.fn();
+
+      const result = await analyzeCode('var x = 1;', 'javascript', onMistake);
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/v1/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson' },
+        body: JSON.stringify({ code: 'var x = 1;', language: 'javascript' }),
+      });
+      expect(onMistake.mock.calls).toEqual([[first], [second]]);
+      expect(result).toEqual({ mistakes: [second, first], score: 9 });
+    });
+
+    it('throws when the stream ends with an error', async () => {
+      mockFetch.mockResolvedValueOnce(
+        streamed([`${JSON.stringify({ event: 'error', data: { error: 'Analysis failed' } })}\n`])
+      );
+
+      await expect(analyzeCode('x', 'javascript', jest.fn())).rejects.toThrow('Analysis failed');
+    });
+
+    it('reads a plain JSON response', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => 'application/json' },
+        json: () => Promise.resolve({ mistakes: [], score: 10 }),
+      });
+
+      const result = await analyzeCode('const x = 1;', 'javascript', jest.fn());
+
+      expect(result.score).toBe(10);
+    });
+  });
+
   describe('saveSnippet', () => {
     it('sends correct request format', async () => {
       mockFetch.mockResolvedValueOnce({
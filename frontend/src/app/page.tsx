@@ -4,7 +4,7 @@ import { useState, useCallback } from 'react';
 import dynamic from 'next/dynamic';
 import ResultsPanel from '@/components/ResultsPanel';
 import LanguageSelector from '@/components/LanguageSelector';
-import { analyzeCode, saveSnippet, type Language, type AnalyzeResponse } from '@/lib/api';
+import { analyzeCode, saveSnippet, type Language, type AnalyzeResponse, type Mistake } from '@/lib/api';
 
 // Dynamic import for Monaco editor (client-side only)
 const CodeEditor = dynamic(() => import('@/components/Editor'), {
@@ -110,6 +110,8 @@ export default function HomePage() {
   const [code, setCode] = useState(DEFAULT_CODE.javascript);
   const [language, setLanguage] = useState<Language>('javascript');
   const [results, setResults] = useState<AnalyzeResponse | null>(null);
+  // Findings received while an analysis is streaming
+  const [streamedMistakes, setStreamedMistakes] = useState<Mistake[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -133,15 +135,21 @@ export default function HomePage() {
     setIsAnalyzing(true);
     setError(null);
     setShareUrl(null);
+    setStreamedMistakes([]);
 
     try {
-      const response = await analyzeCode(code, language);
+      const response = await analyzeCode(code, language, (mistake) =>
+        setStreamedMistakes((found) =>
+          [...found, mistake].sort((a, b) => a.line - b.line || a.column - b.column)
+        )
+      );
       setResults(response);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed');
       setResults(null);
     } finally {
       setIsAnalyzing(false);
+      setStreamedMistakes([]);
     }
   }, [code, language]);
 
@@ -376,10 +384,13 @@ export default function HomePage() {
               <span>Analysis Results</span>
             </div>
             <div className="flex-1 card overflow-hidden">
-              {results ? (
+              {isAnalyzing && streamedMistakes.length > 0 ? (
+                <ResultsPanel mistakes={streamedMistakes} score={0} isStreaming />
+              ) : results ? (
                 <ResultsPanel
                   mistakes={results.mistakes}
                   score={results.score}
+                  scoring={results.scoring}
                   isLoading={isAnalyzing}
                 />
               ) : (
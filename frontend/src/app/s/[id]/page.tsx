@@ -198,6 +198,7 @@ export default function SnippetPage() {
               <ResultsPanel
                 mistakes={snippet.results.mistakes}
                 score={snippet.results.score}
+                scoring={snippet.results.scoring}
               />
             </div>
           </div>
@@ -1,11 +1,15 @@
 'use client';
 
-import type { Mistake, Severity } from '@/lib/api';
+import type { Category, Mistake, ScoreBreakdown, Severity, SourceRange } from '@/lib/api';
 
 interface ResultsPanelProps {
   mistakes: Mistake[];
   score: number;
+  scoring?: ScoreBreakdown;
   isLoading?: boolean;
+  // The analysis is still streaming: `mistakes` are the findings so far and
+  // there is no score yet
+  isStreaming?: boolean;
 }
 
 // Icons
@@ -100,7 +104,17 @@ function CertaintyBadge({ certainty }: { certainty: Mistake['certainty'] }) {
   );
 }
 
-function ScoreBadge({ score }: { score: number }) {
+const CATEGORY_LABELS: Record<Category, string> = {
+  correctness: 'Correctness',
+  'error-handling': 'Error handling',
+  async: 'Async',
+  maintainability: 'Maintainability',
+  other: 'Other',
+};
+
+function ScoreBadge({ score, scoring }: { score: number; scoring?: ScoreBreakdown }) {
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
   const getScoreConfig = (s: number) => {
     if (s >= 8) return { className: 'score-high', label: 'Excellent', color: 'text-green-400' };
     if (s >= 5) return { className: 'score-medium', label: 'Good', color: 'text-amber-400' };
@@ -108,13 +122,45 @@ function ScoreBadge({ score }: { score: number }) {
   };
 
   const { className, label, color } = getScoreConfig(score);
+  const categories = scoring?.categories.filter((category) => category.findings > 0) ?? [];
 
   return (
-    <div className="flex flex-col items-center">
-      <div className={`score-badge w-12 h-12 sm:w-14 sm:h-14 text-lg sm:text-xl ${className}`}>
+    <div className="relative flex flex-col items-center">
+      <div
+        className={`score-badge w-12 h-12 sm:w-14 sm:h-14 text-lg sm:text-xl ${className}`}
+        title={scoring?.explanation}
+      >
         {score}
       </div>
       <span className={`text-[10px] sm:text-xs font-medium mt-1 ${color}`}>{label}</span>
+      {scoring && (
+        <button
+          onClick={() => setShowBreakdown(!showBreakdown)}
+          className="text-[10px] text-gh-text-muted hover:text-gh-text transition-colors"
+          aria-expanded={showBreakdown}
+        >
+          Grade {scoring.grade}
+        </button>
+      )}
+
+      {/* Score Breakdown */}
+      {scoring && showBreakdown && (
+        <div className="absolute right-0 top-full mt-2 w-64 z-10 p-3 space-y-2 text-left bg-gh-bg-secondary border border-gh-border rounded-lg shadow-lg animate-fade-in">
+          {categories.length > 0 && (
+            <ul className="space-y-1">
+              {categories.map((category) => (
+                <li key={category.category} className="flex justify-between text-xs text-gh-text">
+                  <span>
+                    {CATEGORY_LABELS[category.category]} ({category.findings})
+                  </span>
+                  <span className="font-mono text-gh-text-muted">-{category.penalty}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-[11px] text-gh-text-muted leading-relaxed">{scoring.explanation}</p>
+        </div>
+      )}
     </div>
   );
 }
@@ -146,6 +192,17 @@ function CodeBlock({ code }: { code: string }) {
 
 import { useState } from 'react';
 
+// "Line 5, Col 8–10", or with the end line when the range spans lines
+function formatRange(range: Pick<SourceRange, 'line' | 'column'> & Partial<SourceRange>): string {
+  const start = `Line ${range.line}, Col ${range.column}`;
+  if (range.endLine === undefined || range.endColumn === undefined) {
+    return start;
+  }
+  return range.endLine === range.line
+    ? `${start}–${range.endColumn}`
+    : `${start} – Line ${range.endLine}, Col ${range.endColumn}`;
+}
+
 function MistakeCard({ mistake, index }: { mistake: Mistake; index: number }) {
   const confidencePct = Math.round(mistake.confidence * 100);
   const [isExpanded, setIsExpanded] = useState(true);
@@ -187,7 +244,7 @@ function MistakeCard({ mistake, index }: { mistake: Mistake; index: number }) {
             <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 7m0 13V7" />
             </svg>
-            <span>Line {mistake.line}, Col {mistake.column}</span>
+            <span>{formatRange(mistake)}</span>
             <span className="text-gh-border hidden sm:inline">•</span>
             <span className="hidden sm:inline">{confidencePct}% confidence</span>
             <span className="text-gh-border">•</span>
@@ -199,6 +256,17 @@ function MistakeCard({ mistake, index }: { mistake: Mistake; index: number }) {
             {mistake.message}
           </p>
 
+          {/* Related Locations */}
+          {mistake.relatedLocations && mistake.relatedLocations.length > 0 && (
+            <ul className="space-y-1 pl-6 text-xs text-gh-text-muted">
+              {mistake.relatedLocations.map((location) => (
+                <li key={`${location.startOffset}-${location.endOffset}`}>
+                  <span className="font-mono">{formatRange(location)}</span>: {location.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
           {/* Explanation */}
           <div>
             <div className="flex items-center gap-2 text-xs font-semibold text-gh-text-muted uppercase tracking-wide mb-1.5">
@@ -231,9 +299,11 @@ function MistakeCard({ mistake, index }: { mistake: Mistake; index: number }) {
 export default function ResultsPanel({
   mistakes,
   score,
+  scoring,
   isLoading,
+  isStreaming,
 }: ResultsPanelProps) {
-  if (isLoading) {
+  if (isLoading || (isStreaming && mistakes.length === 0)) {
     return (
       <div className="h-full flex items-center justify-center">
         <div className="text-center">
@@ -255,7 +325,7 @@ export default function ResultsPanel({
             <CheckIcon />
           </div>
         </div>
-        <ScoreBadge score={score} />
+        <ScoreBadge score={score} scoring={scoring} />
         <h3 className="text-lg sm:text-xl font-semibold text-gh-text mt-3 sm:mt-4 mb-1 sm:mb-2">
           Great job!
         </h3>
@@ -272,19 +342,30 @@ export default function ResultsPanel({
       <div className="flex items-center justify-between p-3 sm:p-4 border-b border-gh-border bg-gh-bg-secondary/30 shrink-0">
         <div>
           <h2 className="text-sm sm:text-base font-semibold text-gh-text">
-            {mistakes.length} issue{mistakes.length !== 1 ? 's' : ''} found
+            {mistakes.length} issue{mistakes.length !== 1 ? 's' : ''} found{isStreaming ? ' so far' : ''}
           </h2>
           <p className="text-xs text-gh-text-muted mt-0.5 hidden sm:block">
-            Review and fix the detected problems
+            {isStreaming ? 'Analyzing your code...' : 'Review and fix the detected problems'}
           </p>
         </div>
-        <ScoreBadge score={score} />
+        {isStreaming ? (
+          <div className="relative w-8 h-8" aria-hidden="true">
+            <div className="absolute inset-0 border-2 border-gh-border rounded-full" />
+            <div className="absolute inset-0 border-2 border-gh-accent border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <ScoreBadge score={score} scoring={scoring} />
+        )}
       </div>
 
       {/* Mistakes List */}
       <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-3">
         {mistakes.map((mistake, index) => (
-          <MistakeCard key={`${mistake.name}-${mistake.line}-${index}`} mistake={mistake} index={index} />
+          <MistakeCard
+            key={mistake.fingerprint ?? `${mistake.name}-${mistake.line}-${index}`}
+            mistake={mistake}
+            index={index}
+          />
         ))}
       </div>
     </div>
@@ -6,8 +6,36 @@ export type Certainty = 'definite' | 'possible' | 'heuristic';
 
 export type Scope = 'local' | 'function' | 'module';
 
-export interface Mistake {
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Autofix {
+  description: string;
+  edits: TextEdit[];
+}
+
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface RelatedLocation extends SourceRange {
+  message: string;
+  // Set when the location is in another file of a project analysis
+  file?: string;
+}
+
+export interface Mistake extends Partial<Omit<SourceRange, 'line' | 'column'>> {
   id: number;
+  // Stable across edits; missing in snippets saved before fingerprints
+  fingerprint?: string;
   name: string;
   line: number;
   column: number;
@@ -20,11 +48,55 @@ export interface Mistake {
   explanation: string;
   fix: string;
   codeExample?: string;
+  autofix?: Autofix;
+  relatedLocations?: RelatedLocation[];
+}
+
+export interface SuppressedMistake extends Mistake {
+  suppressedBy: {
+    kind: 'line' | 'next-line' | 'file';
+    line: number;
+    reason?: string;
+  };
+}
+
+export type Category = 'correctness' | 'error-handling' | 'async' | 'maintainability' | 'other';
+
+export type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface CategoryScore {
+  category: Category;
+  findings: number;
+  penalty: number;
+}
+
+export interface ScoreBreakdown {
+  grade: Grade;
+  linesOfCode: number;
+  penalty: number;
+  normalizedPenalty: number;
+  categories: CategoryScore[];
+  explanation: string;
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  name: string;
+  line: number;
+  message: string;
 }
 
 export interface AnalyzeResponse {
   mistakes: Mistake[];
   score: number;
+  scoring?: ScoreBreakdown;
+  suppressed?: SuppressedMistake[];
+  baseline?: {
+    matched: number;
+    fixed: BaselineEntry[];
+  };
+  // Columns are UTF-16 code units (Monaco's) unless requested otherwise
+  positionEncoding?: 'utf-16' | 'utf-8' | 'code-points';
 }
 
 export interface SaveResponse {
@@ -39,9 +111,89 @@ export interface SnippetResponse {
   created_at: string;
 }
 
+// A line of a streamed analysis (application/x-ndjson)
+type AnalysisStreamLine =
+  | { event: 'detector-start'; data: { detector: string } }
+  | { event: 'finding'; data: { detector: string; mistake: Mistake } }
+  | { event: 'detector-done'; data: { detector: string; findings: number; failed?: boolean } }
+  | { event: 'summary'; data: AnalyzeResponse }
+  | { event: 'error'; data: { error: string } };
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '';
 
-export async function analyzeCode(code: string, language: Language): Promise<AnalyzeResponse> {
+// Read a streamed analysis, passing each finding on as it arrives
+async function readAnalysisStream(
+  response: Response,
+  onMistake: (mistake: Mistake) => void
+): Promise<AnalyzeResponse> {
+  if (!response.body) {
+    return response.json();
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let summary: AnalyzeResponse | undefined;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const message = JSON.parse(line) as AnalysisStreamLine;
+    if (message.event === 'finding') {
+      onMistake(message.data.mistake);
+    } else if (message.event === 'summary') {
+      summary = message.data;
+    } else if (message.event === 'error') {
+      throw new Error(message.data.error || 'Analysis failed');
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered + decoder.decode());
+
+  if (!summary) {
+    throw new Error('Analysis ended without results');
+  }
+  return summary;
+}
+
+/**
+ * Analyze code. With `onMistake`, the analysis is streamed from
+ * /api/v1/analyze and each finding is passed on as its detector finishes;
+ * the returned response is the complete, sorted result.
+ */
+export async function analyzeCode(
+  code: string,
+  language: Language,
+  onMistake?: (mistake: Mistake) => void
+): Promise<AnalyzeResponse> {
+  if (onMistake) {
+    const response = await fetch(`${API_BASE}/api/v1/analyze`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/x-ndjson',
+      },
+      body: JSON.stringify({ code, language }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Analysis failed' }));
+      throw new Error(error.message || error.error || 'Analysis failed');
+    }
+
+    if (!response.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+      return response.json();
+    }
+    return readAnalysisStream(response, onMistake);
+  }
+
   const response = await fetch(`${API_BASE}/api/analyze`, {
     method: 'POST',
     headers: {